@@ -0,0 +1,78 @@
+/**
+ * Account emails - the verification and password reset links
+ * Each email carries a fresh single-use token (see auth-tokens.ts) in a link to the matching page
+ */
+
+import { createAuthToken, getAuthTokenTtl, AuthTokenPurpose } from './auth-tokens';
+import { sendMail, MailMessage } from './mailer';
+
+// Page that handles each kind of link
+const LINK_PATHS: Record<AuthTokenPurpose, string> = {
+  verify_email: '/verify-email',
+  reset_password: '/reset',
+};
+
+/**
+ * Base URL for links in emails (APP_URL, then NEXT_PUBLIC_SITE_URL)
+ */
+export function getAppUrl(): string {
+  return (process.env.APP_URL || process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+export function buildAccountLink(purpose: AuthTokenPurpose, token: string, baseUrl: string = getAppUrl()): string {
+  return `${baseUrl}${LINK_PATHS[purpose]}?token=${encodeURIComponent(token)}`;
+}
+
+function describeTtl(purpose: AuthTokenPurpose): string {
+  const hours = Math.round(getAuthTokenTtl(purpose) / (60 * 60 * 1000));
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Build the email for a link - text and HTML versions
+ */
+export function buildAccountEmail(purpose: AuthTokenPurpose, to: string, link: string): MailMessage {
+  const copy = purpose === 'verify_email'
+    ? {
+      subject: 'Verify your PixelVault email address',
+      intro: 'Confirm that this is your email address by opening the link below.',
+      action: 'Verify email',
+      outro: "If you didn't create a PixelVault account, you can ignore this email.",
+    }
+    : {
+      subject: 'Reset your PixelVault password',
+      intro: 'Someone asked to reset the password of your PixelVault account. Choose a new password with the link below.',
+      action: 'Reset password',
+      outro: "If it wasn't you, ignore this email - your password stays the same.",
+    };
+  const expiry = `The link works once and expires in ${describeTtl(purpose)}.`;
+
+  return {
+    to,
+    subject: copy.subject,
+    text: `${copy.intro}\n\n${link}\n\n${expiry}\n\n${copy.outro}\n`,
+    html: [
+      `<p>${escapeHtml(copy.intro)}</p>`,
+      `<p><a href="${escapeHtml(link)}">${escapeHtml(copy.action)}</a></p>`,
+      `<p>${escapeHtml(expiry)}</p>`,
+      `<p>${escapeHtml(copy.outro)}</p>`,
+    ].join('\n'),
+  };
+}
+
+/**
+ * Issue a token and email its link to the user
+ */
+export async function sendAccountEmail(user: { id: number; email: string }, purpose: AuthTokenPurpose) {
+  const tokenResult = await createAuthToken(user.id, purpose);
+  if (!tokenResult.success || !tokenResult.data) {
+    return { success: false, error: tokenResult.error || 'Failed to create token' };
+  }
+
+  const link = buildAccountLink(purpose, tokenResult.data.token);
+  return sendMail(buildAccountEmail(purpose, user.email, link));
+}
@@ -0,0 +1,146 @@
+/**
+ * Single-use account tokens - the links we email for verifying an address or resetting a password
+ * Like session tokens they are opaque and only their SHA-256 hash is stored. A token can be used
+ * once, until it expires; issuing a new one for the same user and purpose voids the older ones.
+ */
+
+import * as crypto from 'crypto';
+import { getPool } from './db';
+import { validateId } from './validation';
+
+export type AuthTokenPurpose = 'verify_email' | 'reset_password';
+
+const TOKEN_BYTES = 32;
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/; // 32 bytes, base64url
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long each kind of link works unless overridden by env (hours)
+const DEFAULT_TTL_HOURS: Record<AuthTokenPurpose, number> = {
+  verify_email: 48,
+  reset_password: 1,
+};
+
+const TTL_ENV: Record<AuthTokenPurpose, string> = {
+  verify_email: 'EMAIL_VERIFICATION_TTL_HOURS',
+  reset_password: 'PASSWORD_RESET_TTL_HOURS',
+};
+
+/**
+ * How long a token of this purpose stays valid (ms)
+ */
+export function getAuthTokenTtl(purpose: AuthTokenPurpose): number {
+  const hours = parseFloat(process.env[TTL_ENV[purpose]] || '');
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS[purpose]) * HOUR_MS;
+}
+
+export function hashAuthToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a token for a user, voiding their earlier unused tokens of the same purpose
+ * @returns The token to put in the emailed link (it is not stored) and its expiry
+ */
+export async function createAuthToken(userId: number, purpose: AuthTokenPurpose) {
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    const validatedUserId = validateId(userId);
+    const token = crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+    const expiresAt = new Date(Date.now() + getAuthTokenTtl(purpose));
+
+    await client.query('BEGIN');
+    await client.query(
+      'DELETE FROM auth_tokens WHERE user_id = $1 AND purpose = $2',
+      [validatedUserId, purpose]
+    );
+    await client.query(
+      'INSERT INTO auth_tokens (user_id, purpose, token_hash, expires_at) VALUES ($1, $2, $3, $4)',
+      [validatedUserId, purpose, hashAuthToken(token), expiresAt]
+    );
+    await client.query('COMMIT');
+
+    return {
+      success: true,
+      data: { token, expiresAt },
+    };
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    console.error('Error creating auth token:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Look up the user a token belongs to without using it up
+ * For checking a request before acting on it - consumeAuthToken is what makes it single-use
+ */
+export async function findAuthToken(token: string, purpose: AuthTokenPurpose): Promise<{ success: boolean; data?: { userId: number }; error?: string }> {
+  if (typeof token !== 'string' || !TOKEN_PATTERN.test(token)) {
+    return { success: false, error: 'Invalid or expired token' };
+  }
+
+  const pool = getPool();
+  try {
+    const result = await pool.query(
+      `SELECT user_id FROM auth_tokens
+       WHERE token_hash = $1 AND purpose = $2 AND used_at IS NULL AND expires_at > NOW()`,
+      [hashAuthToken(token), purpose]
+    );
+    if (result.rows.length === 0) {
+      return { success: false, error: 'Invalid or expired token' };
+    }
+
+    return {
+      success: true,
+      data: { userId: result.rows[0].user_id },
+    };
+  } catch (error) {
+    console.error('Error finding auth token:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Use up a token: succeeds at most once per token, and only before it expires
+ * @returns The ID of the user the token was issued to
+ */
+export async function consumeAuthToken(token: string, purpose: AuthTokenPurpose): Promise<{ success: boolean; data?: { userId: number }; error?: string }> {
+  if (typeof token !== 'string' || !TOKEN_PATTERN.test(token)) {
+    return { success: false, error: 'Invalid or expired token' };
+  }
+
+  const pool = getPool();
+  try {
+    // A single UPDATE, so two concurrent requests can't both use the token
+    const result = await pool.query(
+      `UPDATE auth_tokens SET used_at = NOW()
+       WHERE token_hash = $1 AND purpose = $2 AND used_at IS NULL AND expires_at > NOW()
+       RETURNING user_id`,
+      [hashAuthToken(token), purpose]
+    );
+    if (result.rows.length === 0) {
+      return { success: false, error: 'Invalid or expired token' };
+    }
+
+    return {
+      success: true,
+      data: { userId: result.rows[0].user_id },
+    };
+  } catch (error) {
+    console.error('Error consuming auth token:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
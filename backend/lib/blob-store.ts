@@ -0,0 +1,318 @@
+/**
+ * Blob storage for image binaries
+ * Keeps image bytes out of PostgreSQL - the database only stores keys, sizes and hashes
+ *
+ * Drivers:
+ * - local: files on disk (default, good for development)
+ * - s3: any S3-compatible service (AWS S3, MinIO, R2, ...)
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Readable } from 'stream';
+import { S3Client, S3ServiceException, GetObjectCommand, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+
+export type BlobStoreDriver = 'local' | 's3';
+
+// Byte range within a blob - both ends inclusive, as in HTTP Range headers
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface BlobStore {
+  driver: BlobStoreDriver;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  getStream(key: string, range?: ByteRange): Promise<Readable | null>;
+  delete(key: string): Promise<void>;
+}
+
+export interface StoredBlob {
+  key: string;
+  size: number;
+  sha256: string;
+}
+
+export interface S3BlobStoreOptions {
+  bucket: string;
+  region?: string;
+  endpoint?: string; // Custom endpoint for S3-compatible services (e.g., http://localhost:9000 for MinIO)
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean; // Required by MinIO and most self-hosted services
+  prefix?: string;
+}
+
+// File extensions for the MIME types we store
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+  'image/tiff': 'tiff',
+  'image/bmp': 'bmp',
+  'image/svg+xml': 'svg',
+};
+
+/**
+ * Compute SHA-256 content hash (hex)
+ */
+export function sha256(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Build a content-addressed storage key
+ * Example: full/3f/3fa9...c1.webp
+ * Identical content maps to the same key, so re-uploads don't duplicate storage
+ */
+export function buildBlobKey(kind: string, hash: string, mimeType: string): string {
+  const extension = MIME_EXTENSIONS[mimeType] || 'bin';
+  return `${kind}/${hash.substring(0, 2)}/${hash}.${extension}`;
+}
+
+/**
+ * Reject keys that could escape the storage root
+ */
+function validateKey(key: string): string {
+  if (!key || key.startsWith('/') || key.split('/').includes('..') || key.includes('\0')) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+  return key;
+}
+
+// Missing blobs are reported as null rather than thrown
+const isMissingFile = (error: unknown) => (error as NodeJS.ErrnoException | null)?.code === 'ENOENT';
+
+const isMissingObject = (error: unknown) =>
+  error instanceof S3ServiceException && (error.name === 'NoSuchKey' || error.$metadata?.httpStatusCode === 404);
+
+/**
+ * Local filesystem driver
+ * @param rootDir - Directory that holds all blobs
+ */
+export function createLocalBlobStore(rootDir: string): BlobStore {
+  const root = path.resolve(rootDir);
+
+  const resolveKey = (key: string) => path.join(root, ...validateKey(key).split('/'));
+
+  return {
+    driver: 'local',
+
+    async put(key: string, data: Buffer) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      // Write to a temp file first, then rename - readers never see partial files
+      const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(tempPath, data);
+      await fs.rename(tempPath, filePath);
+    },
+
+    async get(key: string) {
+      try {
+        return await fs.readFile(resolveKey(key));
+      } catch (error) {
+        if (isMissingFile(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async getStream(key: string, range?: ByteRange) {
+      // Open first so a missing file surfaces here, not as a stream error mid-response
+      let handle: fs.FileHandle;
+      try {
+        handle = await fs.open(resolveKey(key), 'r');
+      } catch (error) {
+        if (isMissingFile(error)) {
+          return null;
+        }
+        throw error;
+      }
+      return handle.createReadStream(range ? { start: range.start, end: range.end } : {});
+    },
+
+    async delete(key: string) {
+      try {
+        await fs.unlink(resolveKey(key));
+      } catch (error) {
+        if (!isMissingFile(error)) {
+          throw error;
+        }
+      }
+    },
+  };
+}
+
+/**
+ * S3-compatible driver
+ */
+export function createS3BlobStore(options: S3BlobStoreOptions): BlobStore {
+  const client = new S3Client({
+    region: options.region || 'us-east-1',
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle,
+    credentials: options.accessKeyId && options.secretAccessKey
+      ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+      : undefined, // Fall back to the default AWS credential chain
+  });
+  const prefix = options.prefix ? options.prefix.replace(/\/+$/, '') + '/' : '';
+
+  return {
+    driver: 's3',
+
+    async put(key: string, data: Buffer, contentType: string) {
+      await client.send(new PutObjectCommand({
+        Bucket: options.bucket,
+        Key: prefix + validateKey(key),
+        Body: data,
+        ContentType: contentType,
+        ContentLength: data.length,
+      }));
+    },
+
+    async get(key: string) {
+      try {
+        const result = await client.send(new GetObjectCommand({
+          Bucket: options.bucket,
+          Key: prefix + validateKey(key),
+        }));
+        if (!result.Body) {
+          return null;
+        }
+        return Buffer.from(await result.Body.transformToByteArray());
+      } catch (error) {
+        if (isMissingObject(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async getStream(key: string, range?: ByteRange) {
+      try {
+        const result = await client.send(new GetObjectCommand({
+          Bucket: options.bucket,
+          Key: prefix + validateKey(key),
+          Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+        }));
+        // Body is a Node.js Readable when running on Node
+        return (result.Body as Readable | undefined) || null;
+      } catch (error) {
+        if (isMissingObject(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async delete(key: string) {
+      await client.send(new DeleteObjectCommand({
+        Bucket: options.bucket,
+        Key: prefix + validateKey(key),
+      }));
+    },
+  };
+}
+
+/**
+ * Build the blob store configured through environment variables
+ *
+ * BLOB_STORE_DRIVER=local|s3 (default: local)
+ * BLOB_STORE_LOCAL_DIR (default: ./storage/blobs)
+ * BLOB_STORE_S3_BUCKET, BLOB_STORE_S3_REGION, BLOB_STORE_S3_ENDPOINT,
+ * BLOB_STORE_S3_ACCESS_KEY_ID, BLOB_STORE_S3_SECRET_ACCESS_KEY,
+ * BLOB_STORE_S3_FORCE_PATH_STYLE, BLOB_STORE_S3_PREFIX
+ */
+function createBlobStoreFromEnv(): BlobStore {
+  const driver = (process.env.BLOB_STORE_DRIVER || 'local').toLowerCase();
+
+  if (driver === 's3') {
+    const bucket = process.env.BLOB_STORE_S3_BUCKET;
+    if (!bucket) {
+      throw new Error('BLOB_STORE_S3_BUCKET must be set when BLOB_STORE_DRIVER=s3');
+    }
+    return createS3BlobStore({
+      bucket,
+      region: process.env.BLOB_STORE_S3_REGION,
+      endpoint: process.env.BLOB_STORE_S3_ENDPOINT,
+      accessKeyId: process.env.BLOB_STORE_S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.BLOB_STORE_S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.BLOB_STORE_S3_FORCE_PATH_STYLE === 'true',
+      prefix: process.env.BLOB_STORE_S3_PREFIX,
+    });
+  }
+
+  if (driver !== 'local') {
+    throw new Error(`Unknown BLOB_STORE_DRIVER "${driver}". Use "local" or "s3".`);
+  }
+
+  return createLocalBlobStore(process.env.BLOB_STORE_LOCAL_DIR || path.join(process.cwd(), 'storage', 'blobs'));
+}
+
+let blobStore: BlobStore | null = null;
+
+/**
+ * Get or create the configured blob store
+ */
+export function getBlobStore(): BlobStore {
+  if (!blobStore) {
+    blobStore = createBlobStoreFromEnv();
+  }
+  return blobStore;
+}
+
+/**
+ * Override the blob store (used by scripts and tests)
+ */
+export function setBlobStore(store: BlobStore | null) {
+  blobStore = store;
+}
+
+/**
+ * Store a binary under its content-addressed key
+ * @returns Key, size and SHA-256 hash to record in the database
+ */
+export async function storeBlob(kind: string, data: Buffer, mimeType: string): Promise<StoredBlob> {
+  const hash = sha256(data);
+  const key = buildBlobKey(kind, hash, mimeType);
+  await getBlobStore().put(key, data, mimeType);
+  return { key, size: data.length, sha256: hash };
+}
+
+/**
+ * Load a binary, preferring the blob store and falling back to legacy BYTEA data
+ * @param key - Storage key from the database (null for rows not yet migrated)
+ * @param legacyData - BYTEA column value for rows not yet migrated
+ */
+export async function loadBlob(key: string | null | undefined, legacyData?: Buffer | null): Promise<Buffer | null> {
+  if (key) {
+    return getBlobStore().get(key);
+  }
+  return legacyData || null;
+}
+
+/**
+ * Open a binary as a stream, optionally limited to a byte range
+ * Blob store reads are streamed; legacy BYTEA data is already in memory and is just sliced
+ * @param key - Storage key from the database (null for rows not yet migrated)
+ * @param legacyData - BYTEA column value for rows not yet migrated
+ * @param range - Inclusive byte range (whole binary when omitted)
+ */
+export async function openBlobStream(
+  key: string | null | undefined,
+  legacyData?: Buffer | null,
+  range?: ByteRange
+): Promise<Readable | null> {
+  if (key) {
+    return getBlobStore().getStream(key, range);
+  }
+  if (!legacyData) {
+    return null;
+  }
+  return Readable.from([range ? legacyData.subarray(range.start, range.end + 1) : legacyData]);
+}
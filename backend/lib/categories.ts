@@ -0,0 +1,191 @@
+/**
+ * Category taxonomy (categories table + generated_images.category_id)
+ * Categories have a slug (same rules as tag slugs), an emoji icon, a sort order
+ * and an optional parent - filtering by a category includes its subcategories
+ */
+
+import { PoolClient } from 'pg';
+import { getPool } from './db';
+import { getErrorCode } from './db-retry';
+import { encodeId } from './hashids';
+import { slugifyTag } from './tags';
+import { publicImageCondition } from './image-visibility';
+import { rollUpCategoryCounts, sortCategoryTree } from './category-tree';
+
+export interface Category {
+  id: number;
+  slug: string;
+  name: string;
+  icon: string | null;
+  description: string | null;
+  sortOrder: number;
+  parentSlug: string | null;
+  imageCount: number; // Includes images in subcategories
+  coverImageId: string | null; // Hash ID of the newest image, for category cards
+}
+
+/**
+ * Get all categories in display order (subcategories right after their parent) with live image counts
+ * Returns an empty list when the categories table doesn't exist yet (migration 022 not run)
+ */
+export async function getCategories(): Promise<{ success: boolean; data: Category[]; error?: string }> {
+  try {
+    const result = await getPool().query(
+      `SELECT
+        c.id, c.slug, c.name, c.icon, c.description, c.sort_order, c.parent_id,
+        p.slug AS parent_slug,
+        COUNT(g.id)::int AS image_count,
+        (
+          SELECT g2.id FROM generated_images g2
+          WHERE g2.category_id = c.id AND ${publicImageCondition('g2')}
+          ORDER BY g2.created_at DESC
+          LIMIT 1
+        ) AS cover_image_id
+      FROM categories c
+      LEFT JOIN categories p ON p.id = c.parent_id
+      LEFT JOIN generated_images g
+        ON g.category_id = c.id AND ${publicImageCondition('g')}
+      GROUP BY c.id, p.slug
+      ORDER BY c.sort_order, c.name`
+    );
+
+    const totals = rollUpCategoryCounts(result.rows);
+
+    // Parents without images of their own borrow a subcategory's cover
+    const covers = new Map<number, number>();
+    for (const row of result.rows) {
+      if (row.cover_image_id != null) covers.set(row.id, row.cover_image_id);
+    }
+    for (const row of result.rows) {
+      if (row.cover_image_id != null && row.parent_id != null && !covers.has(row.parent_id)) {
+        covers.set(row.parent_id, row.cover_image_id);
+      }
+    }
+
+    return {
+      success: true,
+      data: sortCategoryTree(result.rows).map((row) => {
+        const coverId = covers.get(row.id);
+        return {
+          id: row.id,
+          slug: row.slug,
+          name: row.name,
+          icon: row.icon,
+          description: row.description,
+          sortOrder: row.sort_order,
+          parentSlug: row.parent_slug,
+          imageCount: totals.get(row.id) || 0,
+          coverImageId: coverId != null ? encodeId(coverId) : null,
+        };
+      }),
+    };
+  } catch (error) {
+    // 42P01 = undefined_table, 42703 = undefined_column (category_id)
+    const code = getErrorCode(error);
+    if (code === '42P01' || code === '42703') {
+      return { success: true, data: [] };
+    }
+    console.error('Error fetching categories:', error);
+    return {
+      success: false,
+      data: [],
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Look up a category by slug or name ("Nature" and "nature" both work)
+ * @param client - Optional pool client (to run inside a transaction)
+ * @returns The category, or null if there is none (or the table doesn't exist yet)
+ */
+export async function getCategoryBySlug(
+  value: string,
+  client?: PoolClient
+): Promise<{ id: number; slug: string; name: string } | null> {
+  const slug = slugifyTag(value);
+  if (!slug) {
+    return null;
+  }
+
+  try {
+    const result = await (client || getPool()).query(
+      'SELECT id, slug, name FROM categories WHERE slug = $1',
+      [slug]
+    );
+    return result.rows[0] || null;
+  } catch (error) {
+    // 42P01 = undefined_table
+    if (getErrorCode(error) === '42P01') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Build the WHERE condition matching images in a category or any of its subcategories
+ * @param value - Category slug or name
+ * @param paramIndex - Index of the query parameter to use
+ * @param categoryIdColumn - Column holding the image's category ID in the outer query
+ * @returns SQL condition and its parameter values (null when the value has no usable slug)
+ */
+export function buildCategoryCondition(
+  value: string,
+  paramIndex: number,
+  categoryIdColumn: string = 'generated_images.category_id'
+): { sql: string; values: string[] } | null {
+  const slug = slugifyTag(value);
+  if (!slug) {
+    return null;
+  }
+
+  return {
+    sql: `${categoryIdColumn} IN (
+      WITH RECURSIVE category_tree AS (
+        SELECT id FROM categories WHERE slug = $${paramIndex}
+        UNION
+        SELECT c.id FROM categories c JOIN category_tree ct ON c.parent_id = ct.id
+      )
+      SELECT id FROM category_tree
+    )`,
+    values: [slug],
+  };
+}
+
+/**
+ * Resolve image categories (slugs) for API responses
+ * Uses category_id when migration 022 has run, otherwise the legacy tag1 column
+ * @returns Map of image ID to category slug ('uncategorized' when there is none)
+ */
+export async function resolveImageCategories(
+  rows: Array<{ id: number; tag1?: string | null }>
+): Promise<Map<number, string>> {
+  const resolved = new Map<number, string>();
+  if (rows.length === 0) {
+    return resolved;
+  }
+
+  try {
+    const result = await getPool().query(
+      `SELECT g.id, c.slug
+       FROM generated_images g JOIN categories c ON c.id = g.category_id
+       WHERE g.id = ANY($1::int[])`,
+      [rows.map((row) => row.id)]
+    );
+    const slugs = new Map<number, string>(result.rows.map((row) => [row.id, row.slug]));
+    for (const row of rows) {
+      resolved.set(row.id, slugs.get(row.id) || 'uncategorized');
+    }
+  } catch (error) {
+    // 42P01 = undefined_table, 42703 = undefined_column
+    const code = getErrorCode(error);
+    if (code !== '42P01' && code !== '42703') {
+      throw error;
+    }
+    for (const row of rows) {
+      resolved.set(row.id, row.tag1 || 'uncategorized');
+    }
+  }
+  return resolved;
+}
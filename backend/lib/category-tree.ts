@@ -0,0 +1,52 @@
+/**
+ * Category tree helpers (pure - no database access)
+ * Rows use the categories table's column names (id, parent_id)
+ */
+
+export interface CategoryCountRow {
+  id: number;
+  parent_id: number | null;
+  image_count: number;
+}
+
+/**
+ * Total image counts per category, with each category's own count added to all of its ancestors
+ * Parent loops are ignored rather than counted twice
+ * @returns Map of category ID to total image count
+ */
+export function rollUpCategoryCounts(rows: CategoryCountRow[]): Map<number, number> {
+  const parents = new Map(rows.map((row) => [row.id, row.parent_id]));
+  const totals = new Map(rows.map((row) => [row.id, 0]));
+
+  for (const row of rows) {
+    const visited = new Set<number>();
+    let current: number | null | undefined = row.id;
+    while (current != null && totals.has(current) && !visited.has(current)) {
+      visited.add(current);
+      totals.set(current, totals.get(current)! + Number(row.image_count));
+      current = parents.get(current);
+    }
+  }
+  return totals;
+}
+
+/**
+ * Order categories depth-first: each category is followed by its subcategories
+ * Rows must already be sorted by sort order; categories whose parent is missing are treated as top-level
+ */
+export function sortCategoryTree<T extends { id: number; parent_id: number | null }>(rows: T[]): T[] {
+  const ids = new Set(rows.map((row) => row.id));
+  const sorted: T[] = [];
+  const added = new Set<number>();
+
+  const add = (row: T) => {
+    if (added.has(row.id)) return;
+    added.add(row.id);
+    sorted.push(row);
+    rows.filter((child) => child.parent_id === row.id).forEach(add);
+  };
+
+  rows.filter((row) => row.parent_id == null || !ids.has(row.parent_id)).forEach(add);
+  rows.forEach(add); // Rows caught in a parent loop
+  return sorted;
+}
@@ -0,0 +1,78 @@
+/**
+ * Opaque cursors for keyset pagination
+ * A cursor records the sort order and the (sort key, id) of the last item on a page;
+ * the next page continues strictly after that pair, so rows inserted mid-scroll are neither
+ * repeated nor skipped
+ */
+
+export interface PageCursor {
+  sort: string; // Sort order the cursor was issued for
+  key: string; // Sort key of the last item, as text (Postgres casts it back when comparing)
+  id: number; // Tie-breaker for equal sort keys
+}
+
+// Type of the sort key a cursor pages through, as Postgres prints it
+// - timestamp: timestamp / timestamptz text, e.g. "2024-05-01 10:20:30.123456+00"
+// - integer: an INTEGER expression
+// - number: a REAL / DOUBLE PRECISION expression, e.g. "0.0607927" or "1e-05"
+// - md5: md5() hex text
+export type CursorKeyType = 'timestamp' | 'integer' | 'number' | 'md5';
+
+const TIMESTAMP_KEY = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?([+-]\d{2}(:\d{2}){0,2})?$/;
+const INTEGER_KEY = /^-?\d{1,10}$/;
+const NUMBER_KEY = /^-?\d+(\.\d+)?(e[+-]?\d+)?$/i;
+const MD5_KEY = /^[0-9a-f]{32}$/;
+
+/**
+ * Check that a cursor key can be cast to its sort key's type
+ * A forged or corrupted key would otherwise fail the cast inside the query
+ */
+export function isValidCursorKey(key: string, type: CursorKeyType): boolean {
+  switch (type) {
+    case 'timestamp': {
+      const match = TIMESTAMP_KEY.exec(key);
+      if (!match) return false;
+      const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+      // Date.UTC rolls invalid dates over (Feb 30 -> Mar 2), so compare the parts it kept
+      const date = new Date(Date.UTC(year, month - 1, day));
+      return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+        && hour < 24 && minute < 60 && second < 60;
+    }
+    case 'integer':
+      return INTEGER_KEY.test(key) && Math.abs(Number(key)) <= 2147483647;
+    case 'number':
+      return NUMBER_KEY.test(key) && Number.isFinite(Number(key));
+    case 'md5':
+      return MD5_KEY.test(key);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Encode a cursor as a URL-safe string
+ */
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.key, cursor.id])).toString('base64url');
+}
+
+/**
+ * Decode a cursor from encodeCursor
+ * @param value - The cursor string
+ * @param sort - Sort order of the request; cursors issued for another order are rejected
+ * @param keyType - Type of the sort key; keys that can't be cast to it are rejected
+ * @returns The cursor, or null when it is malformed or for a different sort
+ */
+export function decodeCursor(value: string, sort: string, keyType: CursorKeyType): PageCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (!Array.isArray(parsed) || parsed.length !== 3) return null;
+    const [cursorSort, key, id] = parsed;
+    if (cursorSort !== sort || typeof key !== 'string' || !Number.isSafeInteger(id)) return null;
+    // IDs are INTEGER columns
+    if (Math.abs(id) > 2147483647 || !isValidCursorKey(key, keyType)) return null;
+    return { sort: cursorSort, key, id };
+  } catch {
+    return null;
+  }
+}
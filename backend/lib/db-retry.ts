@@ -2,12 +2,19 @@
  * Database connection retry logic and error handling
  */
 
-import { Pool } from 'pg';
 import { getPool } from './db';
 
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 1000; // 1 second
 
+/**
+ * SQLSTATE code of a failed query, e.g. '42703' (undefined column) or '42P01' (undefined table)
+ */
+export function getErrorCode(error: unknown): string | undefined {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' ? code : undefined;
+}
+
 /**
  * Retry a database operation with exponential backoff
  */
@@ -0,0 +1,127 @@
+/**
+ * Facet counts for the gallery filters
+ * Each facet is counted under every active filter except its own, so picking a category still
+ * shows how many results the other categories would have
+ */
+
+import { getPool } from './db';
+import { ImageFilters, buildImageFilterConditions, buildOrientationCondition } from './images';
+import { publicImageCondition } from './image-visibility';
+import { rollUpCategoryCounts } from './category-tree';
+import { COLOR_NAMES } from './image-colors';
+
+export interface ImageFacets {
+  category: Record<string, number>; // Category slug -> count (subcategories included)
+  tag: Array<{ slug: string; name: string; count: number }>; // Most used tags first
+  orientation: { landscape: number; portrait: number; square: number };
+  color: Record<string, number>; // Every swatch, zero when no result has it
+  date: { day: number; week: number; month: number; year: number }; // Uploaded within the last ...
+}
+
+/**
+ * A condition every counted image must match (the text search), with parameters from $1
+ */
+export interface FacetMatchCondition {
+  sql: string;
+  values: any[];
+}
+
+const TAG_FACET_LIMIT = 20;
+
+/**
+ * Count facets for a filter set, throwing on database errors (the search service handles them)
+ * @param filters - Active filters
+ * @param match - Extra condition applied to every facet
+ */
+export async function queryImageFacets(filters: ImageFilters, match?: FacetMatchCondition): Promise<ImageFacets> {
+  const pool = getPool();
+
+  // WHERE clause for the filters minus one dimension
+  const buildWhere = (omit: Partial<ImageFilters>) => {
+    const values: any[] = [];
+    let sql = `WHERE ${publicImageCondition()}`;
+    if (match) {
+      sql += ` AND ${match.sql}`;
+      values.push(...match.values);
+    }
+    const conditions = buildImageFilterConditions({ ...filters, ...omit }, values.length + 1);
+    return { sql: sql + conditions.sql, values: [...values, ...conditions.values] };
+  };
+
+  const categoryWhere = buildWhere({ category: undefined });
+  const tagWhere = buildWhere({ tags: undefined });
+  const colorWhere = buildWhere({ colors: undefined });
+  const dateWhere = buildWhere({});
+
+  // One count per orientation, with parameters after the WHERE clause's
+  const orientationWhere = buildWhere({ orientation: 'all' });
+  const orientationValues = [...orientationWhere.values];
+  const orientationCounts = (['landscape', 'portrait', 'square'] as const).map((orientation) => {
+    const condition = buildOrientationCondition(orientation, orientationValues.length + 1)!;
+    orientationValues.push(...condition.values);
+    return `COUNT(*) FILTER (WHERE ${condition.sql})::int AS ${orientation}`;
+  });
+
+  const [categoryRows, tagResult, orientationResult, colorResult, dateResult] = await Promise.all([
+    pool
+      .query(
+        `SELECT c.id, c.parent_id, c.slug, COUNT(g.id)::int AS image_count
+         FROM categories c
+         LEFT JOIN (SELECT id, category_id FROM generated_images ${categoryWhere.sql}) g ON g.category_id = c.id
+         GROUP BY c.id`,
+        categoryWhere.values
+      )
+      .then((result) => result.rows)
+      .catch((error) => {
+        // 42P01 = undefined_table, 42703 = undefined_column - migration 022 not run yet
+        if (error?.code === '42P01' || error?.code === '42703') return [];
+        throw error;
+      }),
+    pool.query(
+      `SELECT t.slug, t.name, COUNT(*)::int AS count
+       FROM image_tags it
+       JOIN tags t ON t.id = it.tag_id
+       WHERE it.image_id IN (SELECT id FROM generated_images ${tagWhere.sql})
+       GROUP BY t.id
+       ORDER BY count DESC, t.name
+       LIMIT ${TAG_FACET_LIMIT}`,
+      tagWhere.values
+    ),
+    pool.query(
+      `SELECT ${orientationCounts.join(', ')} FROM generated_images ${orientationWhere.sql}`,
+      orientationValues
+    ),
+    pool.query(
+      `SELECT color, COUNT(*)::int AS count
+       FROM generated_images, UNNEST(color_names) AS color
+       ${colorWhere.sql}
+       GROUP BY color`,
+      colorWhere.values
+    ),
+    pool.query(
+      `SELECT
+        COUNT(*) FILTER (WHERE created_at >= NOW() - INTERVAL '1 day')::int AS day,
+        COUNT(*) FILTER (WHERE created_at >= NOW() - INTERVAL '7 days')::int AS week,
+        COUNT(*) FILTER (WHERE created_at >= NOW() - INTERVAL '1 month')::int AS month,
+        COUNT(*) FILTER (WHERE created_at >= NOW() - INTERVAL '1 year')::int AS year
+      FROM generated_images ${dateWhere.sql}`,
+      dateWhere.values
+    ),
+  ]);
+
+  const categoryTotals = rollUpCategoryCounts(categoryRows);
+  const color = Object.fromEntries(COLOR_NAMES.map((name) => [name, 0])) as Record<string, number>;
+  for (const row of colorResult.rows) {
+    if (row.color in color) color[row.color] = row.count;
+  }
+  const orientation = orientationResult.rows[0];
+  const dates = dateResult.rows[0];
+
+  return {
+    category: Object.fromEntries(categoryRows.map((row) => [row.slug, categoryTotals.get(row.id) || 0])),
+    tag: tagResult.rows.map((row) => ({ slug: row.slug, name: row.name, count: row.count })),
+    orientation: { landscape: orientation.landscape, portrait: orientation.portrait, square: orientation.square },
+    color,
+    date: { day: dates.day, week: dates.week, month: dates.month, year: dates.year },
+  };
+}
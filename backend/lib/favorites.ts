@@ -3,8 +3,11 @@
  */
 
 import { getPool } from './db';
-import { validateId, validateString } from './validation';
+import { validateId, validateString, validatePagination } from './validation';
 import { encodeId } from './hashids';
+import { resolveImageTags } from './tags';
+import { resolveImageCategories } from './categories';
+import { PageCursor, encodeCursor, decodeCursor } from './cursor';
 
 export interface Favorite {
   id: number;
@@ -14,19 +17,55 @@ export interface Favorite {
 }
 
 /**
- * Get all favorites for a user with full image data
+ * Get a user's favorites with full image data, most recently favorited first
+ * Without a limit or cursor every favorite is returned; otherwise one page, continued via nextCursor
  */
-export async function getUserFavorites(userId: string) {
+export async function getUserFavorites(userId: string, page: { limit?: number; cursor?: string } = {}) {
   const pool = getPool();
+  let validatedUserId: string;
+  let limit: number | null = null;
+  let cursor: PageCursor | null = null;
+  try {
+    validatedUserId = validateString(userId, 255);
+    if (page.limit !== undefined || page.cursor) {
+      limit = validatePagination(page.limit ?? 40, 0).limit;
+    }
+    if (page.cursor) {
+      cursor = decodeCursor(page.cursor, 'favorited', 'timestamp');
+      if (!cursor) throw new Error('Invalid cursor');
+    }
+  } catch (validationError) {
+    return {
+      success: false,
+      invalid: true,
+      error: validationError instanceof Error ? validationError.message : 'Invalid request',
+      data: [],
+      hasMore: false,
+    };
+  }
+
   try {
-    const validatedUserId = validateString(userId, 255);
     const client = await pool.connect();
     
+    // Keyset pagination on (favorited_at, favorite id); one extra row tells whether there is a next page
+    const params: any[] = [validatedUserId];
+    let keyset = '';
+    if (cursor) {
+      params.push(cursor.key, cursor.id);
+      keyset = 'AND (f.created_at, f.id) < ($2, $3)';
+    }
+    let limitClause = '';
+    if (limit !== null) {
+      params.push(limit + 1);
+      limitClause = `LIMIT $${params.length}`;
+    }
+
     // Join with generated_images to get full image data
     const result = await client.query(
       `SELECT 
         f.id as favorite_id,
         f.created_at as favorited_at,
+        f.created_at::text as favorited_key,
         gi.id,
         gi.description,
         gi.tag1,
@@ -40,18 +79,24 @@ export async function getUserFavorites(userId: string) {
       INNER JOIN generated_images gi ON f.image_id = gi.id
       WHERE f.user_id = $1 
         AND (gi.is_deleted = false OR gi.is_deleted IS NULL)
-      ORDER BY f.created_at DESC`,
-      [validatedUserId]
+        ${keyset}
+      ORDER BY f.created_at DESC, f.id DESC
+      ${limitClause}`,
+      params
     );
     
     client.release();
+
+    const hasMore = limit !== null && result.rows.length > limit;
+    const rows = hasMore ? result.rows.slice(0, limit!) : result.rows;
+    const last = rows[rows.length - 1];
+
+    const tagsByImage = await resolveImageTags(rows);
+    const categoriesByImage = await resolveImageCategories(rows);
     
     // Map to image format
-    const images = result.rows.map(row => {
-      const tags: string[] = [];
-      if (row.tag1) tags.push(row.tag1);
-      if (row.tag2) tags.push(row.tag2);
-      if (row.tag3) tags.push(row.tag3);
+    const images = rows.map(row => {
+      const tags = tagsByImage.get(row.id) || [];
       
       const hashId = encodeId(row.id);
       return {
@@ -65,7 +110,7 @@ export async function getUserFavorites(userId: string) {
         author: 'system',
         width: row.image_width || 600,
         height: row.image_height || 400,
-        category: row.tag1 || 'uncategorized',
+        category: categoriesByImage.get(row.id) || 'uncategorized',
         tags: tags,
         type: 'photo' as const,
         thumbnailUrl: `/api/images/${hashId}/thumbnail`,
@@ -79,6 +124,8 @@ export async function getUserFavorites(userId: string) {
     return {
       success: true,
       data: images,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor({ sort: 'favorited', key: last.favorited_key, id: last.favorite_id }) : null,
     };
   } catch (error) {
     console.error('Error fetching favorites:', error);
@@ -86,6 +133,7 @@ export async function getUserFavorites(userId: string) {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
       data: [],
+      hasMore: false,
     };
   }
 }
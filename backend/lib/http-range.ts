@@ -0,0 +1,58 @@
+/**
+ * HTTP Range / conditional request helpers for binary responses
+ * Only single byte ranges are served - multi-range requests get the full body,
+ * which RFC 9110 allows
+ */
+
+import type { ByteRange } from './blob-store';
+
+/**
+ * Parse a Range header against a resource size
+ * @returns The inclusive byte range to serve, 'unsatisfiable' for a 416, or null to serve the full body
+ */
+export function parseRangeHeader(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!header) return null;
+
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/i);
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null; // Unknown unit, malformed or multi-range - ignore the header
+  }
+
+  // Suffix range: last N bytes
+  if (match[1] === '') {
+    const suffixLength = parseInt(match[2], 10);
+    if (suffixLength === 0 || size === 0) return 'unsatisfiable';
+    return { start: Math.max(0, size - suffixLength), end: size - 1 };
+  }
+
+  const start = parseInt(match[1], 10);
+  const end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+
+  if (match[2] !== '' && parseInt(match[2], 10) < start) {
+    return null; // Invalid range - ignore the header
+  }
+  if (start >= size) {
+    return 'unsatisfiable';
+  }
+
+  return { start, end };
+}
+
+/**
+ * Check an If-None-Match header against an ETag (weak comparison)
+ */
+export function etagMatches(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  if (header.trim() === '*') return true;
+  const normalize = (tag: string) => tag.trim().replace(/^W\//, '');
+  return header.split(',').some((tag) => normalize(tag) === normalize(etag));
+}
+
+/**
+ * Check whether a Range request may be served partially under its If-Range header
+ * If-Range needs a strong ETag match; we send no Last-Modified, so dates never match
+ */
+export function ifRangeMatches(header: string | null, etag: string): boolean {
+  if (!header) return true;
+  return header.trim() === etag;
+}
@@ -0,0 +1,219 @@
+/**
+ * Dominant color palettes
+ * Quantizes downscaled pixels into a small palette and maps it onto the named swatches
+ * offered by the gallery color filter
+ *
+ * Pure functions only (no sharp) - pixel decoding lives in image-processing.ts
+ */
+
+// Named swatches - keep in sync with the color filter in frontend/src/components/gallery/FilterSidebar.tsx
+export const COLOR_SWATCHES = [
+  { id: 'red', hex: '#EF4444' },
+  { id: 'orange', hex: '#F97316' },
+  { id: 'yellow', hex: '#EAB308' },
+  { id: 'green', hex: '#22C55E' },
+  { id: 'blue', hex: '#3B82F6' },
+  { id: 'purple', hex: '#A855F7' },
+  { id: 'pink', hex: '#EC4899' },
+  { id: 'brown', hex: '#92400E' },
+  { id: 'black', hex: '#171717' },
+  { id: 'white', hex: '#FAFAFA' },
+  { id: 'gray', hex: '#6B7280' },
+  { id: 'teal', hex: '#14B8A6' },
+] as const;
+
+export type ColorName = typeof COLOR_SWATCHES[number]['id'];
+export const COLOR_NAMES: ColorName[] = COLOR_SWATCHES.map((swatch) => swatch.id);
+
+export interface PaletteColor {
+  hex: string; // e.g. "#3a7bd5"
+  weight: number; // Share of the image's pixels (0-1)
+}
+
+export const PALETTE_SIZE = 5;
+const MIN_SWATCH_WEIGHT = 0.1; // A swatch must cover at least 10% of the image to count
+const MAX_SWATCH_NAMES = 3;
+const MERGE_DISTANCE = 12; // CIE76 delta E - closer colors are merged into one palette entry
+
+type Rgb = [number, number, number];
+type Lab = [number, number, number];
+
+/**
+ * Check whether a string is one of the named swatches
+ */
+export function isColorName(value: string): value is ColorName {
+  return (COLOR_NAMES as string[]).includes(value);
+}
+
+export function hexToRgb(hex: string): Rgb {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+export function rgbToHex([r, g, b]: Rgb): string {
+  return '#' + [r, g, b].map((channel) => Math.round(channel).toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Convert sRGB to CIE Lab (D65) - distances in Lab roughly match perceived differences
+ */
+function rgbToLab([r, g, b]: Rgb): Lab {
+  const linear = [r, g, b].map((channel) => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+
+  const x = (linear[0] * 0.4124 + linear[1] * 0.3576 + linear[2] * 0.1805) / 0.95047;
+  const y = linear[0] * 0.2126 + linear[1] * 0.7152 + linear[2] * 0.0722;
+  const z = (linear[0] * 0.0193 + linear[1] * 0.1192 + linear[2] * 0.9505) / 1.08883;
+
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+function labDistance(a: Lab, b: Lab): number {
+  return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+}
+
+/**
+ * Convert sRGB to hue (0-360), saturation and lightness (0-1)
+ */
+function rgbToHsl([r, g, b]: Rgb): [number, number, number] {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+
+  if (delta === 0) {
+    return [0, 0, lightness];
+  }
+
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  let hue: number;
+  if (max === rn) {
+    hue = ((gn - bn) / delta) % 6;
+  } else if (max === gn) {
+    hue = (bn - rn) / delta + 2;
+  } else {
+    hue = (rn - gn) / delta + 4;
+  }
+  hue *= 60;
+
+  return [hue < 0 ? hue + 360 : hue, saturation, lightness];
+}
+
+/**
+ * Nearest named swatch for a color
+ * Uses hue bands rather than raw distance to the swatch hexes - distance alone
+ * pulls saturated blues towards purple and dark oranges away from brown
+ */
+export function nearestSwatch(hex: string): ColorName {
+  const [hue, saturation, lightness] = rgbToHsl(hexToRgb(hex));
+
+  // Neutrals first
+  if (lightness < 0.12) return 'black';
+  if (lightness > 0.92) return 'white';
+  if (saturation < 0.15 || (saturation < 0.25 && (lightness < 0.2 || lightness > 0.85))) {
+    if (lightness < 0.25) return 'black';
+    if (lightness > 0.8) return 'white';
+    return 'gray';
+  }
+
+  // Dark, warm and not too saturated reads as brown
+  if (hue >= 10 && hue < 50 && (lightness < 0.35 || (lightness < 0.5 && saturation < 0.6))) {
+    return 'brown';
+  }
+
+  if (hue < 12 || hue >= 345) return lightness > 0.75 ? 'pink' : 'red';
+  if (hue < 40) return 'orange';
+  if (hue < 65) return 'yellow';
+  if (hue < 160) return 'green';
+  if (hue < 195) return 'teal';
+  if (hue < 255) return 'blue';
+  if (hue < 300) return 'purple';
+  return lightness < 0.35 ? 'purple' : 'pink';
+}
+
+/**
+ * Build a palette from raw interleaved pixels (RGB or RGBA)
+ * Pixels are bucketed at 4 bits per channel, then similar buckets are merged
+ * @param pixels - Raw pixel data (e.g. sharp().raw() output)
+ * @param channels - 3 (RGB) or 4 (RGBA - fully transparent pixels are ignored)
+ * @param size - Maximum number of palette entries
+ * @returns Colors ordered by weight (most dominant first)
+ */
+export function buildPalette(pixels: Uint8Array, channels: number, size: number = PALETTE_SIZE): PaletteColor[] {
+  const buckets = new Map<number, { r: number; g: number; b: number; count: number }>();
+  let total = 0;
+
+  for (let i = 0; i + 2 < pixels.length; i += channels) {
+    if (channels === 4 && pixels[i + 3] < 128) continue;
+    const r = pixels[i];
+    const g = pixels[i + 1];
+    const b = pixels[i + 2];
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.r += r;
+      bucket.g += g;
+      bucket.b += b;
+      bucket.count++;
+    } else {
+      buckets.set(key, { r, g, b, count: 1 });
+    }
+    total++;
+  }
+
+  if (total === 0) return [];
+
+  const sorted = Array.from(buckets.values()).sort((a, b) => b.count - a.count);
+  const clusters: Array<{ r: number; g: number; b: number; count: number; lab: Lab }> = [];
+
+  for (const bucket of sorted) {
+    const rgb: Rgb = [bucket.r / bucket.count, bucket.g / bucket.count, bucket.b / bucket.count];
+    const lab = rgbToLab(rgb);
+    const match = clusters.find((cluster) => labDistance(cluster.lab, lab) < MERGE_DISTANCE);
+    if (match) {
+      match.r += bucket.r;
+      match.g += bucket.g;
+      match.b += bucket.b;
+      match.count += bucket.count;
+    } else {
+      clusters.push({ ...bucket, lab });
+    }
+  }
+
+  return clusters
+    .sort((a, b) => b.count - a.count)
+    .slice(0, size)
+    .map((cluster) => ({
+      hex: rgbToHex([cluster.r / cluster.count, cluster.g / cluster.count, cluster.b / cluster.count]),
+      weight: Math.round((cluster.count / total) * 1000) / 1000,
+    }));
+}
+
+/**
+ * Map a palette onto the named swatches used by the color filter
+ * Weights of palette entries that map to the same swatch are added up
+ * @returns Up to 3 swatch names, most dominant first
+ */
+export function mapPaletteToColorNames(palette: PaletteColor[]): ColorName[] {
+  const weights = new Map<ColorName, number>();
+  for (const color of palette) {
+    const name = nearestSwatch(color.hex);
+    weights.set(name, (weights.get(name) || 0) + color.weight);
+  }
+
+  return Array.from(weights.entries())
+    .filter(([, weight]) => weight >= MIN_SWATCH_WEIGHT)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_SWATCH_NAMES)
+    .map(([name]) => name);
+}
@@ -0,0 +1,183 @@
+/**
+ * Image metadata (EXIF / IPTC / XMP)
+ * Extracts camera, exposure, capture date, captions and keywords from uploads,
+ * and strips privacy-sensitive fields (GPS, serial numbers, owner) before anything is served
+ */
+
+import sharp from 'sharp';
+import exifReader from 'exif-reader';
+import {
+  MetadataPolicy,
+  MAX_KEYWORDS,
+  cleanText,
+  cleanNumber,
+  formatExposureTime,
+  parseIptc,
+  parseXmp,
+  selectRetainedExif,
+} from './metadata-fields';
+
+export {
+  METADATA_POLICIES,
+  formatExposureTime,
+  parseIptc,
+  parseXmp,
+  selectRetainedExif,
+  seedTagsFromKeywords,
+} from './metadata-fields';
+export type { MetadataPolicy } from './metadata-fields';
+
+export interface ExtractedMetadata {
+  cameraMake: string | null;
+  cameraModel: string | null;
+  lensModel: string | null;
+  exposureTime: string | null; // e.g. "1/250" or "2"
+  fNumber: number | null;
+  iso: number | null;
+  focalLength: number | null; // mm
+  capturedAt: Date | null;
+  caption: string | null; // IPTC caption, falls back to XMP dc:description
+  keywords: string[]; // IPTC keywords merged with XMP dc:subject
+  creator: string | null;
+  copyright: string | null;
+  hasGps: boolean; // Reported only - GPS coordinates are never stored
+}
+
+/**
+ * Extract structured metadata from an uploaded image
+ * Never throws - unreadable metadata just comes back empty
+ */
+export async function extractImageMetadata(imageBuffer: Buffer): Promise<ExtractedMetadata> {
+  const extracted: ExtractedMetadata = {
+    cameraMake: null,
+    cameraModel: null,
+    lensModel: null,
+    exposureTime: null,
+    fNumber: null,
+    iso: null,
+    focalLength: null,
+    capturedAt: null,
+    caption: null,
+    keywords: [],
+    creator: null,
+    copyright: null,
+    hasGps: false,
+  };
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(imageBuffer).metadata();
+  } catch (error) {
+    console.error('Error reading image metadata:', error);
+    return extracted;
+  }
+
+  if (metadata.exif) {
+    try {
+      const exif = exifReader(metadata.exif);
+      const image = exif.Image || {};
+      const photo = exif.Photo || {};
+
+      extracted.cameraMake = cleanText(image.Make);
+      extracted.cameraModel = cleanText(image.Model);
+      extracted.lensModel = cleanText(photo.LensModel);
+      const exposureTime = cleanNumber(photo.ExposureTime);
+      extracted.exposureTime = exposureTime ? formatExposureTime(exposureTime) : null;
+      extracted.fNumber = cleanNumber(photo.FNumber);
+      extracted.iso = cleanNumber(Array.isArray(photo.ISOSpeedRatings) ? photo.ISOSpeedRatings[0] : photo.ISOSpeedRatings);
+      extracted.focalLength = cleanNumber(photo.FocalLength);
+      const capturedAt = photo.DateTimeOriginal || image.DateTime;
+      extracted.capturedAt = capturedAt instanceof Date && !isNaN(capturedAt.getTime()) ? capturedAt : null;
+      extracted.creator = cleanText(image.Artist);
+      extracted.copyright = cleanText(image.Copyright);
+      extracted.hasGps = !!exif.GPSInfo && Object.keys(exif.GPSInfo).length > 0;
+    } catch (error) {
+      console.error('Error parsing EXIF data:', error);
+    }
+  }
+
+  if (metadata.xmp) {
+    const xmp = parseXmp(metadata.xmp);
+    extracted.caption = xmp.description || null;
+    extracted.keywords.push(...xmp.subjects);
+    extracted.creator = extracted.creator || xmp.creator || null;
+    extracted.copyright = extracted.copyright || xmp.rights || null;
+  }
+
+  if (metadata.iptc) {
+    // IPTC wins over XMP for captions - it's what most newsroom tools write first
+    const iptc = parseIptc(metadata.iptc);
+    extracted.caption = iptc.caption || extracted.caption;
+    extracted.keywords.unshift(...iptc.keywords);
+    extracted.creator = iptc.creator || extracted.creator;
+    extracted.copyright = iptc.copyright || extracted.copyright;
+  }
+
+  // Dedupe keywords case-insensitively, keeping the first spelling
+  const seen = new Set<string>();
+  extracted.keywords = extracted.keywords.filter((keyword) => {
+    const key = keyword.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).slice(0, MAX_KEYWORDS);
+
+  return extracted;
+}
+
+/**
+ * Remove metadata from an image according to a policy
+ * Images without EXIF/IPTC/XMP are returned untouched (no re-encode)
+ * Otherwise the image is re-encoded in its own format at maximum quality, with EXIF orientation applied
+ * @returns Sanitized buffer and whether anything was stripped
+ */
+export async function stripImageMetadata(
+  imageBuffer: Buffer,
+  policy: MetadataPolicy = 'sensitive'
+): Promise<{ data: Buffer; stripped: boolean }> {
+  const metadata = await sharp(imageBuffer).metadata();
+
+  if (!metadata.exif && !metadata.iptc && !metadata.xmp) {
+    return { data: imageBuffer, stripped: false };
+  }
+
+  // Bake the orientation into the pixels - the tag that carried it is about to go
+  let pipeline = sharp(imageBuffer).rotate().keepIccProfile();
+
+  if (policy === 'sensitive' && metadata.exif) {
+    try {
+      const safeTags = selectRetainedExif(exifReader(metadata.exif), policy);
+      if (safeTags) {
+        pipeline = pipeline.withExif({ IFD0: safeTags });
+      }
+    } catch (error) {
+      // Unparseable EXIF is dropped entirely
+      console.error('Error parsing EXIF data for stripping:', error);
+    }
+  }
+
+  switch (metadata.format) {
+    case 'jpeg':
+      pipeline = pipeline.jpeg({ quality: 100, mozjpeg: true, chromaSubsampling: '4:4:4' });
+      break;
+    case 'png':
+      pipeline = pipeline.png({ compressionLevel: 9 });
+      break;
+    case 'webp':
+      pipeline = pipeline.webp({ quality: 100 });
+      break;
+    case 'avif':
+    case 'heif':
+      pipeline = pipeline.avif({ quality: 90 });
+      break;
+    case 'tiff':
+      pipeline = pipeline.tiff({ compression: 'lzw' });
+      break;
+    default:
+      // GIF/SVG: sharp can't rewrite these without changing them - derivatives are still clean
+      console.warn(`Cannot strip metadata from ${metadata.format} image, keeping original`);
+      return { data: imageBuffer, stripped: false };
+  }
+
+  return { data: await pipeline.toBuffer(), stripped: true };
+}
@@ -5,24 +5,53 @@
 
 import sharp from 'sharp';
 import { encode } from 'blurhash';
+import { extractImageMetadata, stripImageMetadata, ExtractedMetadata, MetadataPolicy } from './image-metadata';
+import { buildPalette, mapPaletteToColorNames, ColorName, PaletteColor } from './image-colors';
+import { computeDHash, DHASH_WIDTH, DHASH_HEIGHT } from './perceptual-hash';
+import { buildColorHistogram } from './visual-features';
 
 // BlurHash configuration
 const BLURHASH_COMPONENT_X = 4;
 const BLURHASH_COMPONENT_Y = 4;
 
+// Palette extraction works on a small copy - dominant colors don't need detail
+const PALETTE_SAMPLE_SIZE = 64;
+
 // Image size limits
 export const FULL_IMAGE_MAX_SIZE = undefined; // No size limit - preserve original HD quality
 export const THUMBNAIL_SIZE = 150; // Thumbnail width and height
 
+// Responsive variants (used for srcset / <picture>)
+// Keep in sync with frontend/src/lib/image-variants.ts
+export const VARIANT_WIDTHS = [320, 640, 1280, 2560];
+export const VARIANT_FORMATS = ['avif', 'webp'] as const;
+export type VariantFormat = typeof VARIANT_FORMATS[number];
+
+export interface ImageVariant {
+  format: VariantFormat;
+  mimeType: string;
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
 export interface ProcessedImage {
   blurhash: string;
   thumbnailWebP: Buffer;
   imageWebP: Buffer;
   originalImage: Buffer; // Original image in its native format (PNG/JPG)
   originalMimeType: string; // Original MIME type (image/png, image/jpeg, etc.)
+  variants: ImageVariant[]; // AVIF + WebP at each responsive width
   width: number;
   height: number;
   originalSize: number;
+  metadata: ExtractedMetadata; // Camera, exposure, capture date, IPTC caption/keywords
+  metadataPolicy: MetadataPolicy;
+  metadataStripped: boolean; // True when the original was rewritten without sensitive metadata
+  palette: PaletteColor[]; // Dominant colors, most dominant first
+  colorNames: ColorName[]; // Nearest named swatches (used by the color filter)
+  phash: string; // Perceptual hash (dHash, 16 hex chars) for duplicate detection
+  colorHistogram: number[]; // Normalized 64-bin RGB histogram for visual similarity search
 }
 
 /**
@@ -56,6 +85,65 @@ export async function generateBlurHash(imageBuffer: Buffer): Promise<string> {
   }
 }
 
+/**
+ * Extract the dominant color palette and its nearest named swatches
+ */
+export async function extractColorPalette(
+  imageBuffer: Buffer
+): Promise<{ palette: PaletteColor[]; colorNames: ColorName[] }> {
+  try {
+    const { data, info } = await sharp(imageBuffer)
+      .resize(PALETTE_SAMPLE_SIZE, PALETTE_SAMPLE_SIZE, { fit: 'inside' })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const palette = buildPalette(data, info.channels);
+    return { palette, colorNames: mapPaletteToColorNames(palette) };
+  } catch (error) {
+    console.error('Error extracting color palette:', error);
+    throw error;
+  }
+}
+
+/**
+ * Generate a perceptual hash (dHash) for duplicate detection
+ * @returns 16-character hex string
+ */
+export async function generatePerceptualHash(imageBuffer: Buffer): Promise<string> {
+  try {
+    const pixels = await sharp(imageBuffer)
+      .flatten({ background: '#ffffff' }) // Transparent areas hash the same as on a white page
+      .grayscale()
+      .resize(DHASH_WIDTH, DHASH_HEIGHT, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    return computeDHash(pixels);
+  } catch (error) {
+    console.error('Error generating perceptual hash:', error);
+    throw error;
+  }
+}
+
+/**
+ * Generate a normalized color histogram for visual similarity search
+ */
+export async function generateColorHistogram(imageBuffer: Buffer): Promise<number[]> {
+  try {
+    const { data, info } = await sharp(imageBuffer)
+      .resize(PALETTE_SAMPLE_SIZE, PALETTE_SAMPLE_SIZE, { fit: 'inside' })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return buildColorHistogram(data, info.channels);
+  } catch (error) {
+    console.error('Error generating color histogram:', error);
+    throw error;
+  }
+}
+
 /**
  * Convert image to WebP format
  */
@@ -98,40 +186,187 @@ export async function convertToWebP(
 }
 
 /**
- * Resize image to specific dimensions while maintaining highest quality (PNG/JPG)
+ * Pick the variant widths for a source image
+ * Every standard width below the source width, plus the source width itself (capped at the largest)
+ * Example: 1000px source -> [320, 640, 1000]
+ */
+export function getVariantWidths(sourceWidth: number): number[] {
+  const maxWidth = VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1];
+  if (!sourceWidth || sourceWidth <= 0) {
+    return [VARIANT_WIDTHS[0]];
+  }
+  const cappedWidth = Math.min(sourceWidth, maxWidth);
+  const widths = VARIANT_WIDTHS.filter((width) => width < cappedWidth);
+  widths.push(cappedWidth);
+  return widths;
+}
+
+/**
+ * Encode a single responsive variant
+ * @param imageBuffer - Source image buffer
+ * @param format - 'avif' or 'webp'
+ * @param width - Target width (never upscaled)
+ */
+export async function encodeVariant(
+  imageBuffer: Buffer,
+  format: VariantFormat,
+  width: number
+): Promise<ImageVariant> {
+  try {
+    let sharpInstance = sharp(imageBuffer).resize(width, undefined, {
+      fit: 'inside',
+      withoutEnlargement: true,
+    });
+
+    // AVIF reaches WebP quality at a much lower quality setting
+    sharpInstance = format === 'avif'
+      ? sharpInstance.avif({ quality: 55, effort: 4 })
+      : sharpInstance.webp({ quality: 82, effort: 4 });
+
+    const { data, info } = await sharpInstance.toBuffer({ resolveWithObject: true });
+
+    return {
+      format,
+      mimeType: `image/${format}`,
+      width: info.width,
+      height: info.height,
+      data,
+    };
+  } catch (error) {
+    console.error(`Error encoding ${format} variant (${width}px):`, error);
+    throw error;
+  }
+}
+
+/**
+ * Generate all responsive variants (every width in every format)
+ * Widths are encoded one at a time to keep memory bounded for large sources
+ */
+export async function generateImageVariants(imageBuffer: Buffer, sourceWidth: number): Promise<ImageVariant[]> {
+  const variants: ImageVariant[] = [];
+  for (const width of getVariantWidths(sourceWidth)) {
+    const encoded = await Promise.all(
+      VARIANT_FORMATS.map((format) => encodeVariant(imageBuffer, format, width))
+    );
+    variants.push(...encoded);
+  }
+  return variants;
+}
+
+export type ResizeFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+export type ResizeFit = 'cover' | 'contain' | 'inside' | 'fill';
+
+export type CropStrategy = 'auto' | 'attention' | 'entropy' | 'center';
+
+export interface FocalPoint {
+  x: number; // 0 = left edge, 1 = right edge
+  y: number; // 0 = top edge, 1 = bottom edge
+}
+
+export interface ResizeOptions {
+  fit?: ResizeFit; // Default: 'cover' (fills the box, may crop)
+  quality?: number; // 1-100, default: highest quality for the format
+  crop?: CropStrategy; // How 'cover' picks the visible region. Default: 'center'
+  focalPoint?: FocalPoint | null; // Used by crop 'auto' - keeps this point in frame
+}
+
+/**
+ * Smart crop strategy used by crop 'auto' when an image has no focal point
+ * SMART_CROP_STRATEGY=attention|entropy|center (default: attention)
+ */
+function getDefaultCropStrategy(): 'attention' | 'entropy' | 'center' {
+  const strategy = (process.env.SMART_CROP_STRATEGY || 'attention').toLowerCase();
+  return strategy === 'entropy' || strategy === 'center' ? strategy : 'attention';
+}
+
+/**
+ * Compute a 'cover' crop that keeps a focal point as close to the center as possible
+ * Scales the source to cover the target box, then slides the crop window toward the focal point
+ * @returns Intermediate resize size and the region to extract from it
+ */
+export function computeFocalCrop(
+  sourceWidth: number,
+  sourceHeight: number,
+  targetWidth: number,
+  targetHeight: number,
+  focalPoint: FocalPoint
+): { resizeWidth: number; resizeHeight: number; left: number; top: number } {
+  const scale = Math.max(targetWidth / sourceWidth, targetHeight / sourceHeight);
+  const resizeWidth = Math.max(targetWidth, Math.round(sourceWidth * scale));
+  const resizeHeight = Math.max(targetHeight, Math.round(sourceHeight * scale));
+
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+  const left = clamp(Math.round(focalPoint.x * resizeWidth - targetWidth / 2), resizeWidth - targetWidth);
+  const top = clamp(Math.round(focalPoint.y * resizeHeight - targetHeight / 2), resizeHeight - targetHeight);
+
+  return { resizeWidth, resizeHeight, left, top };
+}
+
+/**
+ * Resize image to specific dimensions while maintaining highest quality
  * @param imageBuffer - Original image buffer
- * @param width - Target width
- * @param height - Target height
- * @param format - Output format ('png' or 'jpeg')
- * @returns Resized image buffer in original format
+ * @param width - Target width (omit to scale by height)
+ * @param height - Target height (omit to scale by width)
+ * @param format - Output format ('png', 'jpeg', 'webp' or 'avif')
+ * @param options - Fit mode and quality
+ * @returns Resized image buffer in the requested format
  */
 export async function resizeToDimensions(
   imageBuffer: Buffer,
-  width: number,
-  height: number,
-  format: 'png' | 'jpeg' = 'jpeg'
+  width: number | undefined,
+  height: number | undefined,
+  format: ResizeFormat = 'jpeg',
+  options: ResizeOptions = {}
 ): Promise<Buffer> {
   try {
     let sharpInstance = sharp(imageBuffer);
+    const fit = options.fit || 'cover';
+    const crop = options.crop || 'center';
 
-    // Resize to exact dimensions with highest quality
-    sharpInstance = sharpInstance.resize(width, height, {
-      fit: 'cover', // Cover the entire area, may crop
-      position: 'center', // Center the crop
-      withoutEnlargement: false, // Allow upscaling if needed
-    });
+    if (fit === 'cover' && width && height && crop === 'auto' && options.focalPoint) {
+      // Focal point crop: resize to cover, then extract the window around the focal point
+      const { width: sourceWidth, height: sourceHeight } = await getImageDimensions(imageBuffer);
+      const region = computeFocalCrop(sourceWidth, sourceHeight, width, height, options.focalPoint);
+      sharpInstance = sharpInstance
+        .resize(region.resizeWidth, region.resizeHeight, { fit: 'fill' })
+        .extract({ left: region.left, top: region.top, width, height });
+    } else {
+      // 'attention' keeps the most salient region (faces, skin, contrast), 'entropy' the most detailed
+      const strategy = crop === 'auto' ? getDefaultCropStrategy() : crop;
+      const position = strategy === 'attention'
+        ? sharp.strategy.attention
+        : strategy === 'entropy' ? sharp.strategy.entropy : 'center';
+
+      // Resize to target dimensions with highest quality
+      sharpInstance = sharpInstance.resize(width, height, {
+        fit, // 'cover' fills the entire area and may crop
+        position: fit === 'cover' ? position : 'center',
+        withoutEnlargement: false, // Allow upscaling if needed
+        background: { r: 255, g: 255, b: 255, alpha: format === 'jpeg' ? 1 : 0 }, // Letterbox for 'contain' (transparent unless JPEG)
+      });
+    }
 
     // Convert to format with highest quality settings
     if (format === 'png') {
       // PNG: Lossless compression
       sharpInstance = sharpInstance.png({
         compressionLevel: 6, // Good balance (0-9, 6 is default)
-        quality: 100, // Maximum quality
+        quality: options.quality || 100, // Maximum quality
+      });
+    } else if (format === 'webp') {
+      sharpInstance = sharpInstance.webp({
+        quality: options.quality || 92, // Same as full-size WebP uploads
+        effort: 4,
+      });
+    } else if (format === 'avif') {
+      sharpInstance = sharpInstance.avif({
+        quality: options.quality || 60,
+        effort: 4,
       });
     } else {
       // JPEG: Highest quality
       sharpInstance = sharpInstance.jpeg({
-        quality: 100, // Maximum quality (no compression loss)
+        quality: options.quality || 100, // Maximum quality (no compression loss)
         mozjpeg: true, // Use mozjpeg for better compression at same quality
       });
     }
@@ -187,39 +422,72 @@ export async function detectMimeType(imageBuffer: Buffer): Promise<string> {
 }
 
 /**
- * Process uploaded image: Convert to WebP + Generate BlurHash + Preserve Original
+ * Process uploaded image: Extract metadata + Strip sensitive fields + Convert to WebP
+ * + Generate BlurHash + Responsive variants + Preserve Original
  * 
  * This is the main function to use for processing new uploads
- * Preserves original image for highest quality downloads
+ * Preserves original image for highest quality downloads (minus privacy-sensitive metadata)
+ * @param imageBuffer - Uploaded image buffer
+ * @param options - metadataPolicy: 'sensitive' (default) or 'all'
  */
-export async function processUploadedImage(imageBuffer: Buffer): Promise<ProcessedImage> {
+export async function processUploadedImage(
+  imageBuffer: Buffer,
+  options: { metadataPolicy?: MetadataPolicy } = {}
+): Promise<ProcessedImage> {
   try {
-    // Get original dimensions and size
-    const { width, height } = await getImageDimensions(imageBuffer);
-    const originalSize = imageBuffer.length;
+    const metadataPolicy = options.metadataPolicy || 'sensitive';
+
+    // Read EXIF/IPTC/XMP before stripping, then work only from the sanitized image
+    // so no derivative can leak GPS or serial numbers
+    const metadata = await extractImageMetadata(imageBuffer);
+    const { data: sanitizedImage, stripped } = await stripImageMetadata(imageBuffer, metadataPolicy);
+
+    // Get original dimensions and size (after orientation is applied)
+    const { width, height } = await getImageDimensions(sanitizedImage);
+    const originalSize = sanitizedImage.length;
     
     // Detect original MIME type
-    const originalMimeType = await detectMimeType(imageBuffer);
+    const originalMimeType = await detectMimeType(sanitizedImage);
 
     // Generate BlurHash (use original image for better quality)
-    const blurhash = await generateBlurHash(imageBuffer);
+    const blurhash = await generateBlurHash(sanitizedImage);
+
+    // Dominant colors for the gallery color filter
+    const { palette, colorNames } = await extractColorPalette(sanitizedImage);
+
+    // Perceptual hash (near-duplicates) and color histogram (visual similarity search)
+    const [phash, colorHistogram] = await Promise.all([
+      generatePerceptualHash(sanitizedImage),
+      generateColorHistogram(sanitizedImage),
+    ]);
 
     // Convert to WebP formats in parallel for better performance
     // Preserve original image buffer for highest quality downloads
     const [thumbnailWebP, imageWebP] = await Promise.all([
-      convertToWebP(imageBuffer, undefined, THUMBNAIL_SIZE), // Thumbnail: 150x150
-      convertToWebP(imageBuffer, undefined), // Full image: original HD quality (no size limit)
+      convertToWebP(sanitizedImage, undefined, THUMBNAIL_SIZE), // Thumbnail: 150x150
+      convertToWebP(sanitizedImage, undefined), // Full image: original HD quality (no size limit)
     ]);
 
+    // Responsive AVIF/WebP variants for srcset
+    const variants = await generateImageVariants(sanitizedImage, width);
+
     return {
       blurhash,
       thumbnailWebP,
       imageWebP,
-      originalImage: imageBuffer, // Preserve original for highest quality downloads
+      variants,
+      originalImage: sanitizedImage, // Preserve original for highest quality downloads
       originalMimeType, // Store original format (PNG/JPG/etc)
       width,
       height,
       originalSize,
+      metadata,
+      metadataPolicy,
+      metadataStripped: stripped,
+      palette,
+      colorNames,
+      phash,
+      colorHistogram,
     };
   } catch (error) {
     console.error('Error processing uploaded image:', error);
@@ -0,0 +1,193 @@
+/**
+ * On-the-fly image transforms with a derivative cache
+ * Each distinct (image, parameters) result is rendered once, stored in the blob store
+ * and recorded in image_derivatives - later requests are served from there
+ */
+
+import { getPool } from './db';
+import { getErrorCode } from './db-retry';
+import { validateId } from './validation';
+import { storeBlob, loadBlob, sha256 } from './blob-store';
+import { getImageFile, getOriginalImageFile, getImageFocalPoint } from './images';
+import { resizeToDimensions, getImageDimensions, ResizeFormat } from './image-processing';
+import { buildTransformKey, TransformParams } from './transform-params';
+
+export {
+  TRANSFORM_WIDTHS,
+  TRANSFORM_QUALITIES,
+  TRANSFORM_FORMATS,
+  TRANSFORM_CROPS,
+  TRANSFORM_PRESETS,
+  DOWNLOAD_PRESETS,
+  parseTransformParams,
+  buildTransformKey,
+} from './transform-params';
+export type { TransformFormat, TransformSource, TransformParams, ParseTransformResult } from './transform-params';
+
+/**
+ * Look up a cached derivative (null when missing or the cache table doesn't exist yet)
+ */
+async function findDerivative(imageId: number, paramsKey: string) {
+  const pool = getPool();
+  try {
+    const result = await pool.query(
+      `SELECT id, width, height, mime_type, storage_key, sha256
+       FROM image_derivatives
+       WHERE image_id = $1 AND params_key = $2`,
+      [imageId, paramsKey]
+    );
+    return result.rows[0] || null;
+  } catch (error) {
+    // image_derivatives table not created yet (migration 014 not run) - transform without caching
+    if (getErrorCode(error) === '42P01') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Store a rendered derivative and record it in the cache
+ * Caching is best effort - a failure here still lets the request succeed
+ */
+async function saveDerivative(
+  imageId: number,
+  paramsKey: string,
+  data: Buffer,
+  mimeType: string,
+  width: number,
+  height: number
+): Promise<string> {
+  try {
+    const stored = await storeBlob('derivative', data, mimeType);
+    await getPool().query(
+      `INSERT INTO image_derivatives (
+        image_id, params_key, width, height, mime_type, size, storage_key, sha256
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (image_id, params_key) DO UPDATE SET
+        width = EXCLUDED.width,
+        height = EXCLUDED.height,
+        mime_type = EXCLUDED.mime_type,
+        size = EXCLUDED.size,
+        storage_key = EXCLUDED.storage_key,
+        sha256 = EXCLUDED.sha256,
+        last_accessed_at = CURRENT_TIMESTAMP`,
+      [imageId, paramsKey, width, height, mimeType, stored.size, stored.key, stored.sha256]
+    );
+    return stored.sha256;
+  } catch (error) {
+    if (getErrorCode(error) !== '42P01') {
+      console.error('Error caching image derivative:', error);
+    }
+    return sha256(data);
+  }
+}
+
+/**
+ * Get a transformed image, rendering and caching it on first request
+ * @param id - Image ID
+ * @param params - Validated parameters from parseTransformParams() or a download preset
+ * @returns Image buffer, MIME type, output size and SHA-256 (use as ETag)
+ */
+export async function getTransformedImage(id: number, params: TransformParams) {
+  try {
+    const validatedId = validateId(id);
+    const paramsKey = buildTransformKey(params);
+
+    // Serve from the derivative cache when possible
+    const cached = await findDerivative(validatedId, paramsKey);
+    if (cached) {
+      const data = await loadBlob(cached.storage_key);
+      if (data) {
+        getPool()
+          .query(
+            `UPDATE image_derivatives
+             SET hit_count = hit_count + 1, last_accessed_at = CURRENT_TIMESTAMP
+             WHERE id = $1`,
+            [cached.id]
+          )
+          .catch((error) => console.error('Error updating derivative stats:', error));
+
+        return {
+          success: true,
+          data,
+          mimeType: cached.mime_type as string,
+          width: cached.width as number,
+          height: cached.height as number,
+          sha256: cached.sha256 as string,
+          cached: true,
+        };
+      }
+      // Blob went missing - fall through and render it again
+    }
+
+    // Public transforms never read the original - only authenticated downloads ask for it
+    const source = params.source === 'original'
+      ? await getOriginalImageFile(validatedId)
+      : await getImageFile(validatedId);
+    if (!source.success || !source.data) {
+      return { success: false, error: source.error || 'Image data not available' };
+    }
+
+    // 'original' keeps PNG as PNG, everything else becomes highest quality JPEG
+    const format: ResizeFormat = params.format === 'original'
+      ? (source.mimeType?.includes('png') ? 'png' : 'jpeg')
+      : params.format;
+
+    const crop = params.crop || 'auto';
+    const focalPoint = crop === 'auto' ? await getImageFocalPoint(validatedId) : null;
+
+    const data = await resizeToDimensions(source.data, params.width, params.height, format, {
+      fit: params.fit,
+      quality: params.quality,
+      crop,
+      focalPoint,
+    });
+    const mimeType = `image/${format}`;
+    const dimensions = await getImageDimensions(data);
+
+    const hash = await saveDerivative(validatedId, paramsKey, data, mimeType, dimensions.width, dimensions.height);
+
+    return {
+      success: true,
+      data,
+      mimeType,
+      width: dimensions.width,
+      height: dimensions.height,
+      sha256: hash,
+      cached: false,
+    };
+  } catch (error) {
+    console.error('Error transforming image:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Drop all cached derivatives for an image
+ * Call after anything that changes how the image renders (e.g. a new focal point)
+ * @param id - Image ID
+ */
+export async function purgeImageDerivatives(id: number) {
+  try {
+    const validatedId = validateId(id);
+    const result = await getPool().query(
+      'DELETE FROM image_derivatives WHERE image_id = $1',
+      [validatedId]
+    );
+    return { success: true, count: result.rowCount || 0 };
+  } catch (error) {
+    // Nothing cached yet (migration 014 not run)
+    if (getErrorCode(error) === '42P01') {
+      return { success: true, count: 0 };
+    }
+    console.error('Error purging image derivatives:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Responsive image variants (AVIF/WebP at multiple widths)
+ * Binaries live in the blob store; image_variants keeps one row per image/format/width
+ */
+
+import { getPool } from './db';
+import { getErrorCode } from './db-retry';
+import { validateId } from './validation';
+import { storeBlob, loadBlob } from './blob-store';
+import { ImageVariant, VariantFormat, VARIANT_FORMATS } from './image-processing';
+
+export interface ImageVariantRecord {
+  id: number;
+  image_id: number;
+  format: VariantFormat;
+  width: number;
+  height: number;
+  mime_type: string;
+  size: number;
+  storage_key: string;
+  sha256: string;
+  created_at: Date;
+}
+
+/**
+ * Check whether a string is a supported variant format
+ */
+export function isVariantFormat(format: string): format is VariantFormat {
+  return (VARIANT_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * Store variants in the blob store and record them in image_variants
+ * Re-running for the same image replaces existing rows (used by the backfill script)
+ * @param imageId - Image ID
+ * @param variants - Encoded variants from generateImageVariants()
+ */
+export async function saveImageVariants(imageId: number, variants: ImageVariant[]) {
+  const pool = getPool();
+  try {
+    const validatedId = validateId(imageId);
+
+    // Write binaries first - keys are content-addressed, so a failed INSERT only leaves orphans
+    const stored = await Promise.all(
+      variants.map((variant) => storeBlob('variant', variant.data, variant.mimeType))
+    );
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (let i = 0; i < variants.length; i++) {
+        const variant = variants[i];
+        await client.query(
+          `INSERT INTO image_variants (
+            image_id, format, width, height, mime_type, size, storage_key, sha256
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          ON CONFLICT (image_id, format, width) DO UPDATE SET
+            height = EXCLUDED.height,
+            mime_type = EXCLUDED.mime_type,
+            size = EXCLUDED.size,
+            storage_key = EXCLUDED.storage_key,
+            sha256 = EXCLUDED.sha256,
+            created_at = CURRENT_TIMESTAMP`,
+          [
+            validatedId,
+            variant.format,
+            variant.width,
+            variant.height,
+            variant.mimeType,
+            stored[i].size,
+            stored[i].key,
+            stored[i].sha256,
+          ]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return { success: true, count: variants.length };
+  } catch (error) {
+    console.error('Error saving image variants:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * List all variants for an image (metadata only)
+ * @param imageId - Image ID
+ */
+export async function getImageVariants(imageId: number) {
+  const pool = getPool();
+  try {
+    const validatedId = validateId(imageId);
+    const client = await pool.connect();
+
+    const result = await client.query(
+      `SELECT id, image_id, format, width, height, mime_type, size, storage_key, sha256, created_at
+       FROM image_variants
+       WHERE image_id = $1
+       ORDER BY format, width`,
+      [validatedId]
+    );
+    client.release();
+
+    return {
+      success: true,
+      data: result.rows as ImageVariantRecord[],
+    };
+  } catch (error) {
+    console.error('Error fetching image variants:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      data: [] as ImageVariantRecord[],
+    };
+  }
+}
+
+/**
+ * Get the binary for the variant that best matches a requested width
+ * Picks the smallest variant at least as wide as requested, otherwise the widest available
+ * @param imageId - Image ID
+ * @param format - 'avif' or 'webp'
+ * @param width - Requested width in pixels
+ */
+export async function getImageVariantFile(imageId: number, format: VariantFormat, width: number) {
+  const pool = getPool();
+  try {
+    const validatedId = validateId(imageId);
+    const client = await pool.connect();
+
+    const result = await client.query(
+      `SELECT width, height, mime_type, storage_key, sha256
+       FROM image_variants
+       WHERE image_id = $1 AND format = $2
+       ORDER BY (width >= $3) DESC,
+         CASE WHEN width >= $3 THEN width END ASC,
+         width DESC
+       LIMIT 1`,
+      [validatedId, format, width]
+    );
+    client.release();
+
+    if (result.rows.length === 0) {
+      return { success: false, error: 'Variant not available' };
+    }
+
+    const row = result.rows[0];
+    const data = await loadBlob(row.storage_key);
+
+    if (!data) {
+      return { success: false, error: 'Variant not available' };
+    }
+
+    return {
+      success: true,
+      data,
+      mimeType: row.mime_type as string,
+      width: row.width as number,
+      height: row.height as number,
+      sha256: row.sha256 as string,
+    };
+  } catch (error) {
+    // image_variants table not created yet (migration 013 not run)
+    if (getErrorCode(error) === '42P01') {
+      return { success: false, error: 'Variant not available' };
+    }
+    console.error('Error fetching image variant:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
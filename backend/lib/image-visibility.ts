@@ -0,0 +1,14 @@
+/**
+ * Image visibility - which images the public may see
+ * Uploads wait in 'pending' until a moderator approves them (see setImageStatus in images.ts);
+ * pending and rejected images are only shown to moderators
+ */
+
+/**
+ * WHERE condition for images the public may see: not deleted and approved
+ * @param alias - Table alias, for queries that use one for generated_images (e.g. 'g')
+ */
+export function publicImageCondition(alias?: string): string {
+  const column = (name: string) => (alias ? `${alias}.${name}` : name);
+  return `(${column('is_deleted')} = false OR ${column('is_deleted')} IS NULL) AND ${column('status')} = 'approved'`;
+}
@@ -1,7 +1,16 @@
+import { PoolClient } from 'pg';
 import { getPool } from './db';
-import { validateString, validateId, validateStringArray, validateCategory, validateImageType, validateUrl, validatePagination } from './validation';
+import { getErrorCode } from './db-retry';
+import { validateString, validateId, validateStringArray, validateCategory, validateImageType, validateUrl, validatePagination, ImageOrientation } from './validation';
 import { processUploadedImage } from './image-processing';
+import { extractImageMetadata, stripImageMetadata, seedTagsFromKeywords, MetadataPolicy } from './image-metadata';
 import { encodeId } from './hashids';
+import { storeBlob, loadBlob, sha256 } from './blob-store';
+import { saveImageVariants } from './image-variants';
+import { hashToBigint, DEFAULT_DUPLICATE_THRESHOLD } from './perceptual-hash';
+import { buildTagCondition, resolveImageTags, setImageTags, slugifyTag } from './tags';
+import { buildCategoryCondition, resolveImageCategories } from './categories';
+import { publicImageCondition } from './image-visibility';
 
 export interface Image {
   id: number;
@@ -12,6 +21,7 @@ export interface Image {
   description?: string;
   tag1?: string;
   tag2?: string;
+  tag3?: string;
   status?: string;
   created_at?: Date;
   updated_at?: Date;
@@ -34,202 +44,164 @@ export interface Image {
   thumbnailUrl?: string;
   imageUrl?: string;
   blurhash?: string | null;
+  hasVariants?: boolean; // Responsive AVIF/WebP variants are stored (image-variants.ts)
   type?: 'photo' | 'illustration' | 'icon';
+  view_count?: number;
+  // Set on text search results
+  rank?: number; // Relevance (ts_rank)
+  headline?: string; // HTML-escaped snippet with matches wrapped in <mark>
 }
 
 export interface ImageFilters {
   category?: string;
-  search?: string;
-  orientation?: 'landscape' | 'portrait' | 'square' | 'all';
-  tags?: string[];
-  sort?: 'recent' | 'popular' | 'trending';
-  limit?: number;
-  offset?: number;
+  orientation?: ImageOrientation;
+  tags?: string[]; // Tag names or slugs, matched exactly - "nat*" matches by prefix
+  colors?: string[]; // Named swatches (red, teal, ...) - matches images containing any of them
+  createdAfter?: string; // YYYY-MM-DD - uploaded on or after
+  createdBefore?: string; // YYYY-MM-DD - uploaded before
 }
 
-// Fetch images with filters - using generated_images table
-// Returns metadata ONLY (no binary data for performance)
-export async function getImages(filters: ImageFilters = {}) {
-  const pool = getPool();
-  try {
-    const client = await pool.connect();
-    
-    // Select metadata only - exclude binary columns (image_data, thumbnail_data)
-    // This keeps response size small (~5-10 KB instead of MBs)
-    // Note: Only selecting columns that exist - view_count and downloads may not exist
-    let query = `SELECT 
-      id, description, tag1, tag2, tag3, status, 
-      image_width, image_height, image_size, image_mime_type,
-      blurhash,
-      created_at, updated_at,
-      is_deleted, deleted_at
-      FROM generated_images WHERE 1=1`;
-    const params: any[] = [];
-    let paramCount = 1;
-    
-    // Filter out deleted images by default
-    query += ' AND (is_deleted = false OR is_deleted IS NULL)';
-
-    // Category filter (using tag1 or tag2)
-    if (filters.category && filters.category !== 'all') {
-      query += ` AND (tag1 ILIKE $${paramCount} OR tag2 ILIKE $${paramCount})`;
-      params.push(`%${filters.category}%`);
-      paramCount++;
-    }
+// Width / height - must match the expression index from migration 018
+const ASPECT_RATIO_SQL = '(image_width::real / NULLIF(image_height, 0))';
 
-    // Search filter
-    if (filters.search) {
-      query += ` AND (
-        description ILIKE $${paramCount} OR 
-        tag1 ILIKE $${paramCount} OR 
-        tag2 ILIKE $${paramCount} OR 
-        tag3 ILIKE $${paramCount}
-      )`;
-      params.push(`%${filters.search}%`);
-      paramCount++;
-    }
+/**
+ * How far from 1:1 an image may be and still count as square (default 0.05 = 5%)
+ * Configurable through SQUARE_ASPECT_TOLERANCE
+ */
+export function getSquareTolerance(): number {
+  const tolerance = parseFloat(process.env.SQUARE_ASPECT_TOLERANCE || '');
+  if (!Number.isFinite(tolerance) || tolerance < 0 || tolerance > 0.5) {
+    return 0.05;
+  }
+  return tolerance;
+}
+
+/**
+ * Build the WHERE condition for an orientation filter
+ * Images without dimensions never match a specific orientation
+ * @param orientation - Orientation to match ('all' adds nothing)
+ * @param paramIndex - Index of the first query parameter to use
+ * @returns SQL condition and its parameter values (null for 'all')
+ */
+export function buildOrientationCondition(
+  orientation: ImageOrientation | undefined,
+  paramIndex: number
+): { sql: string; values: number[] } | null {
+  const maxRatio = 1 + getSquareTolerance();
+  const minRatio = 1 / maxRatio;
 
-    if (filters.tags && filters.tags.length > 0) {
-      const tagConditions = filters.tags.map((_, idx) => 
-        `(tag1 ILIKE $${paramCount + idx} OR tag2 ILIKE $${paramCount + idx} OR tag3 ILIKE $${paramCount + idx})`
-      ).join(' OR ');
-      query += ` AND (${tagConditions})`;
-      filters.tags.forEach(tag => params.push(`%${tag}%`));
-      paramCount += filters.tags.length;
+  switch (orientation) {
+    case 'landscape':
+      return { sql: `${ASPECT_RATIO_SQL} > $${paramIndex}`, values: [maxRatio] };
+    case 'portrait':
+      return { sql: `${ASPECT_RATIO_SQL} < $${paramIndex}`, values: [minRatio] };
+    case 'square':
+      return { sql: `${ASPECT_RATIO_SQL} BETWEEN $${paramIndex} AND $${paramIndex + 1}`, values: [minRatio, maxRatio] };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build the WHERE conditions for the image filters (category, tags, colors, orientation and upload dates)
+ * Category matches category_id (including subcategories); tags match tag slugs through image_tags
+ * (so "art" no longer matches "smart-home"). Text search is added by the search service (search.ts)
+ * @param filters - Image filters
+ * @param paramIndex - Index of the first query parameter to use
+ * @returns SQL to append (each condition prefixed with AND) and its parameter values
+ */
+export function buildImageFilterConditions(filters: ImageFilters, paramIndex: number): { sql: string; values: any[] } {
+  let sql = '';
+  const values: any[] = [];
+
+  // Category filter (the category relation, subcategories included)
+  if (filters.category && filters.category !== 'all') {
+    const condition = buildCategoryCondition(filters.category, paramIndex + values.length);
+    if (condition) {
+      sql += ` AND ${condition.sql}`;
+      values.push(...condition.values);
     }
+  }
 
-    // Sort
-    switch (filters.sort) {
-      case 'popular':
-        query += ' ORDER BY created_at DESC'; // Fallback - view_count may not exist
-        break;
-      case 'trending':
-        query += ' ORDER BY created_at DESC'; // Fallback
-        break;
-      case 'recent':
-      default:
-        query += ' ORDER BY created_at DESC';
-        break;
+  // Tag filter (any of the given tags)
+  if (filters.tags && filters.tags.length > 0) {
+    const condition = buildTagCondition(filters.tags, paramIndex + values.length);
+    if (condition) {
+      sql += ` AND ${condition.sql}`;
+      values.push(...condition.values);
     }
+  }
 
-    // Limit and offset
-    const limit = filters.limit || 40;
-    const offset = filters.offset || 0;
-    query += ` LIMIT $${paramCount} OFFSET $${paramCount + 1}`;
-    params.push(limit, offset);
+  // Color filter (dominant color swatches)
+  if (filters.colors && filters.colors.length > 0) {
+    sql += ` AND color_names && $${paramIndex + values.length}::text[]`;
+    values.push(filters.colors);
+  }
 
-    // Try query with blurhash first, fallback to query without blurhash if column doesn't exist
-    let result;
-    let hasBlurhash = true;
-    try {
-      result = await client.query(query, params);
-    } catch (queryError: any) {
-      // If blurhash column doesn't exist (error code 42703 = undefined_column), retry without it
-      if (queryError?.code === '42703' && queryError?.message?.includes('blurhash')) {
-        hasBlurhash = false;
-        // Rebuild query without blurhash column
-        query = `SELECT 
-          id, description, tag1, tag2, tag3, status, 
-          image_width, image_height, image_size, image_mime_type,
-          created_at, updated_at,
-          is_deleted, deleted_at
-          FROM generated_images WHERE 1=1`;
-        query += ' AND (is_deleted = false OR is_deleted IS NULL)';
-        
-        // Rebuild filters with same params (params array stays the same, just query changes)
-        paramCount = 1;
-        if (filters.category && filters.category !== 'all') {
-          query += ` AND (tag1 ILIKE $${paramCount} OR tag2 ILIKE $${paramCount})`;
-          paramCount++;
-        }
-        if (filters.search) {
-          query += ` AND (
-            description ILIKE $${paramCount} OR 
-            tag1 ILIKE $${paramCount} OR 
-            tag2 ILIKE $${paramCount} OR 
-            tag3 ILIKE $${paramCount}
-          )`;
-          paramCount++;
-        }
-        if (filters.tags && filters.tags.length > 0) {
-          const tagConditions = filters.tags.map((_, idx) => 
-            `(tag1 ILIKE $${paramCount + idx} OR tag2 ILIKE $${paramCount + idx} OR tag3 ILIKE $${paramCount + idx})`
-          ).join(' OR ');
-          query += ` AND (${tagConditions})`;
-          paramCount += filters.tags.length;
-        }
-        switch (filters.sort) {
-          case 'popular':
-          case 'trending':
-          case 'recent':
-          default:
-            query += ' ORDER BY created_at DESC';
-            break;
-        }
-        query += ` LIMIT $${paramCount} OFFSET $${paramCount + 1}`;
-        result = await client.query(query, params);
-      } else {
-        throw queryError; // Re-throw if it's a different error
-      }
-    }
-    
-    client.release();
+  // Upload date range
+  if (filters.createdAfter) {
+    sql += ` AND created_at >= $${paramIndex + values.length}::date`;
+    values.push(filters.createdAfter);
+  }
+  if (filters.createdBefore) {
+    sql += ` AND created_at < $${paramIndex + values.length}::date`;
+    values.push(filters.createdBefore);
+  }
 
-    return {
-      success: true,
-      data: result.rows.map(row => {
-        // Map generated_images columns to Image interface
-        const tags: string[] = [];
-        if (row.tag1) tags.push(row.tag1);
-        if (row.tag2) tags.push(row.tag2);
-        if (row.tag3) tags.push(row.tag3);
-        
-        const hashId = encodeId(row.id);
-        return {
-          id: row.id,
-          hashId: hashId, // Add hash ID for secure URLs
-          description: row.description,
-          tag1: row.tag1,
-          tag2: row.tag2,
-          tag3: row.tag3,
-          status: row.status,
-          created_at: row.created_at,
-          updated_at: row.updated_at,
-          view_count: 0, // Default to 0 if column doesn't exist
-          downloads: 0, // Default to 0 if column doesn't exist
-          // Mapped fields for compatibility with frontend
-          title: row.description || `Image ${row.id}`,
-          author: 'system', // Default author
-          width: row.image_width || 600,
-          height: row.image_height || 400,
-          category: row.tag1 || 'uncategorized',
-          tags: tags,
-          type: 'photo' as const,
-          // URLs for frontend to use - use hash ID for secure URLs
-          thumbnailUrl: `/api/images/${hashId}/thumbnail`,
-          imageUrl: `/api/images/${hashId}/file`,
-          // BlurHash for instant preview (null if column doesn't exist)
-          blurhash: hasBlurhash ? (row.blurhash || null) : null,
-        };
-      }),
-      total: result.rows.length,
-    };
-  } catch (error) {
-    console.error('Error fetching images:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      data: [],
-      total: 0,
-    };
+  // Orientation filter (aspect ratio with a tolerance for square)
+  const orientationCondition = buildOrientationCondition(filters.orientation, paramIndex + values.length);
+  if (orientationCondition) {
+    sql += ` AND ${orientationCondition.sql}`;
+    values.push(...orientationCondition.values);
   }
+
+  return { sql, values };
+}
+
+/**
+ * Map a generated_images metadata row to the Image shape returned by the API
+ * @param row - Row with the list columns (id, description, dimensions, blurhash, timestamps, ...)
+ * @param tags - The image's tag names (see resolveImageTags)
+ * @param category - The image's category slug (see resolveImageCategories)
+ */
+export function mapImageRow(row: any, tags: string[], category: string | undefined): Image {
+  const hashId = encodeId(row.id);
+  return {
+    id: row.id,
+    hashId: hashId, // Add hash ID for secure URLs
+    description: row.description,
+    tag1: row.tag1,
+    tag2: row.tag2,
+    tag3: row.tag3,
+    status: row.status,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    view_count: 0, // Default to 0 if column doesn't exist
+    downloads: 0, // Default to 0 if column doesn't exist
+    // Mapped fields for compatibility with frontend
+    title: row.description || `Image ${row.id}`,
+    author: 'system', // Default author
+    width: row.image_width || 600,
+    height: row.image_height || 400,
+    category: category || 'uncategorized',
+    tags: tags,
+    type: 'photo' as const,
+    // URLs for frontend to use - use hash ID for secure URLs
+    thumbnailUrl: `/api/images/${hashId}/thumbnail`,
+    imageUrl: `/api/images/${hashId}/file`,
+    // BlurHash for instant preview (null if column doesn't exist)
+    blurhash: row.blurhash || null,
+    hasVariants: row.has_variants === true,
+  };
 }
 
 // Get image metadata by ID (no binary data)
-export async function getImageById(id: number, trackView: boolean = true) {
+// Pending and rejected images are only returned with includeUnapproved (moderators)
+export async function getImageById(id: number, trackView: boolean = true, includeUnapproved: boolean = false) {
   const pool = getPool();
   try {
     const validatedId = validateId(id);
+    const visibility = includeUnapproved ? '(is_deleted = false OR is_deleted IS NULL)' : publicImageCondition();
     const client = await pool.connect();
 
     // Increment view count if tracking is enabled
@@ -257,28 +229,40 @@ export async function getImageById(id: number, trackView: boolean = true) {
       blurhash,
       created_at, updated_at
       FROM generated_images 
-      WHERE id = $1 AND (is_deleted = false OR is_deleted IS NULL)`;
+      WHERE id = $1 AND ${visibility}`;
     
     let result;
-    let hasBlurhash = true;
     try {
       result = await client.query(query, [validatedId]);
     } catch (queryError: any) {
       // If blurhash column doesn't exist, retry without it
       const errorMessage = queryError?.message || String(queryError || '');
       if (queryError?.code === '42703' && errorMessage.toLowerCase().includes('blurhash')) {
-        hasBlurhash = false;
         query = `SELECT 
           id, description, tag1, tag2, tag3, status, 
           image_width, image_height, image_size, image_mime_type,
           created_at, updated_at
           FROM generated_images 
-          WHERE id = $1 AND (is_deleted = false OR is_deleted IS NULL)`;
+          WHERE id = $1 AND ${visibility}`;
         result = await client.query(query, [validatedId]);
       } else {
         throw queryError; // Re-throw if it's a different error
       }
     }
+
+    // Whether responsive variants are stored - the image_variants table may not exist yet (migration 013)
+    let hasVariants = false;
+    if (result.rows.length > 0) {
+      try {
+        const variants = await client.query('SELECT 1 FROM image_variants WHERE image_id = $1 LIMIT 1', [validatedId]);
+        hasVariants = variants.rows.length > 0;
+      } catch (variantsError) {
+        const code = (variantsError as { code?: string })?.code;
+        if (code !== '42P01') {
+          throw variantsError;
+        }
+      }
+    }
     
     client.release();
 
@@ -287,40 +271,12 @@ export async function getImageById(id: number, trackView: boolean = true) {
     }
 
     const row = result.rows[0];
-    const tags: string[] = [];
-    if (row.tag1) tags.push(row.tag1);
-    if (row.tag2) tags.push(row.tag2);
-    if (row.tag3) tags.push(row.tag3);
-    
-    const hashId = encodeId(row.id);
+    const tags = (await resolveImageTags([row])).get(row.id) || [];
+    const category = (await resolveImageCategories([row])).get(row.id);
+
     return {
       success: true,
-      data: {
-        id: row.id,
-        hashId: hashId, // Add hash ID for secure URLs
-        description: row.description,
-        tag1: row.tag1,
-        tag2: row.tag2,
-        tag3: row.tag3,
-        status: row.status,
-        created_at: row.created_at,
-        updated_at: row.updated_at,
-        view_count: 0, // Default to 0 if column doesn't exist
-        downloads: 0, // Default to 0 if column doesn't exist
-        // Mapped fields
-        title: row.description || `Image ${row.id}`,
-        author: 'system',
-        width: row.image_width || 600,
-        height: row.image_height || 400,
-        category: row.tag1 || 'uncategorized',
-        tags: tags,
-        type: 'photo' as const,
-        // URLs for frontend - use hash ID for secure URLs
-        thumbnailUrl: `/api/images/${hashId}/thumbnail`,
-        imageUrl: `/api/images/${hashId}/file`,
-        // BlurHash for instant preview (null if column doesn't exist)
-        blurhash: hasBlurhash ? (row.blurhash || null) : null,
-      },
+      data: { ...mapImageRow(row, tags, category), hasVariants }, // blurhash is null without the column
     };
   } catch (error) {
     console.error('Error fetching image by ID:', error);
@@ -332,7 +288,97 @@ export async function getImageById(id: number, trackView: boolean = true) {
 }
 
 /**
- * Get thumbnail binary data from database
+ * Run a query that reads blob storage keys
+ * Retries with the legacy (BYTEA-only) query if migration 012 hasn't been applied yet
+ */
+async function queryWithStorageFallback(
+  client: PoolClient,
+  query: string,
+  legacyQuery: string,
+  params: any[]
+) {
+  try {
+    return await client.query(query, params);
+  } catch (queryError) {
+    // 42703 = undefined_column
+    if (queryError instanceof Error && getErrorCode(queryError) === '42703' && queryError.message.includes('storage_key')) {
+      return client.query(legacyQuery, params);
+    }
+    throw queryError;
+  }
+}
+
+/**
+ * Load the highest quality source binary for an image
+ * Prefers the stored original (PNG/JPG), falls back to the WebP display image
+ */
+async function loadOriginalSource(id: number): Promise<
+  | { found: false }
+  | { found: true; data: Buffer | null; mimeType: string; isOriginal: boolean }
+> {
+  const pool = getPool();
+  const client = await pool.connect();
+
+  let result;
+  try {
+    // BYTEA columns are only read for legacy rows that haven't been moved to the blob store
+    result = await queryWithStorageFallback(
+      client,
+      `SELECT original_storage_key, original_mime_type, image_storage_key, image_mime_type,
+         CASE WHEN original_storage_key IS NULL THEN original_image_data END AS original_image_data,
+         CASE WHEN image_storage_key IS NULL AND original_storage_key IS NULL AND original_image_data IS NULL
+           THEN image_data END AS image_data
+       FROM generated_images
+       WHERE id = $1 AND (is_deleted = false OR is_deleted IS NULL)`,
+      `SELECT original_image_data, original_mime_type, image_data, image_mime_type
+       FROM generated_images
+       WHERE id = $1 AND (is_deleted = false OR is_deleted IS NULL)`,
+      [id]
+    );
+  } catch (columnError) {
+    // original_image_data column doesn't exist yet - migration 010 not run
+    if (columnError instanceof Error && getErrorCode(columnError) === '42703' && columnError.message.includes('original_')) {
+      result = await client.query(
+        `SELECT image_data, image_mime_type
+         FROM generated_images
+         WHERE id = $1 AND (is_deleted = false OR is_deleted IS NULL)`,
+        [id]
+      );
+    } else {
+      throw columnError;
+    }
+  } finally {
+    client.release();
+  }
+
+  if (result.rows.length === 0) {
+    return { found: false };
+  }
+
+  const row = result.rows[0];
+
+  // Original exists (highest quality)
+  if (row.original_mime_type && (row.original_storage_key || row.original_image_data)) {
+    return {
+      found: true,
+      data: await loadBlob(row.original_storage_key, row.original_image_data),
+      mimeType: row.original_mime_type, // image/png or image/jpeg
+      isOriginal: true,
+    };
+  }
+
+  // Fallback to WebP if original doesn't exist (for backward compatibility)
+  return {
+    found: true,
+    data: await loadBlob(row.image_storage_key, row.image_data),
+    mimeType: row.image_mime_type || 'image/webp',
+    isOriginal: false,
+  };
+}
+
+/**
+ * Get thumbnail binary data
+ * Reads from the blob store, or from BYTEA columns for legacy rows
  * @param id - Image ID
  * @returns Buffer containing thumbnail binary data and MIME type
  */
@@ -342,8 +388,15 @@ export async function getImageThumbnail(id: number) {
     const validatedId = validateId(id);
     const client = await pool.connect();
     
-    // Try to get thumbnail_data first, fallback to image_data if thumbnail doesn't exist
-    const result = await client.query(
+    // Try to get thumbnail first, fallback to full image if thumbnail doesn't exist
+    const result = await queryWithStorageFallback(
+      client,
+      `SELECT thumbnail_storage_key, image_storage_key, image_mime_type,
+         CASE WHEN thumbnail_storage_key IS NULL THEN thumbnail_data END AS thumbnail_data,
+         CASE WHEN thumbnail_storage_key IS NULL AND image_storage_key IS NULL AND thumbnail_data IS NULL
+           THEN image_data END AS image_data
+       FROM generated_images 
+       WHERE id = $1 AND (is_deleted = false OR is_deleted IS NULL)`,
       `SELECT thumbnail_data, image_data, image_mime_type 
        FROM generated_images 
        WHERE id = $1 AND (is_deleted = false OR is_deleted IS NULL)`,
@@ -358,7 +411,9 @@ export async function getImageThumbnail(id: number) {
     const row = result.rows[0];
     
     // Use thumbnail if available, otherwise fallback to full image
-    const imageData = row.thumbnail_data || row.image_data;
+    const imageData = row.thumbnail_storage_key || row.thumbnail_data
+      ? await loadBlob(row.thumbnail_storage_key, row.thumbnail_data)
+      : await loadBlob(row.image_storage_key, row.image_data);
     
     if (!imageData) {
       return { success: false, error: 'Image data not available' };
@@ -366,7 +421,7 @@ export async function getImageThumbnail(id: number) {
 
     return {
       success: true,
-      data: imageData, // Buffer/BYTEA
+      data: imageData,
       mimeType: row.image_mime_type || 'image/webp',
     };
   } catch (error) {
@@ -379,7 +434,8 @@ export async function getImageThumbnail(id: number) {
 }
 
 /**
- * Get full image binary data from database (WebP format for web display)
+ * Get full image binary data (WebP format for web display)
+ * Reads from the blob store, or from BYTEA columns for legacy rows
  * @param id - Image ID
  * @returns Buffer containing full image binary data and MIME type
  */
@@ -389,7 +445,12 @@ export async function getImageFile(id: number) {
     const validatedId = validateId(id);
     const client = await pool.connect();
     
-    const result = await client.query(
+    const result = await queryWithStorageFallback(
+      client,
+      `SELECT image_storage_key, image_mime_type,
+         CASE WHEN image_storage_key IS NULL THEN image_data END AS image_data
+       FROM generated_images
+       WHERE id = $1 AND (is_deleted = false OR is_deleted IS NULL)`,
       `SELECT image_data, image_mime_type
        FROM generated_images
        WHERE id = $1 AND (is_deleted = false OR is_deleted IS NULL)`,
@@ -402,14 +463,15 @@ export async function getImageFile(id: number) {
     }
 
     const row = result.rows[0];
+    const imageData = await loadBlob(row.image_storage_key, row.image_data);
 
-    if (!row.image_data) {
+    if (!imageData) {
       return { success: false, error: 'Image data not available' };
     }
 
     return {
       success: true,
-      data: row.image_data, // Buffer/BYTEA
+      data: imageData,
       mimeType: row.image_mime_type || 'image/webp',
     };
   } catch (error) {
@@ -422,73 +484,29 @@ export async function getImageFile(id: number) {
 }
 
 /**
- * Get original image binary data from database (highest quality - PNG/JPG)
+ * Get original image binary data (highest quality - PNG/JPG)
  * @param id - Image ID
  * @returns Buffer containing original image binary data and MIME type
  */
 export async function getOriginalImageFile(id: number) {
-  const pool = getPool();
   try {
     const validatedId = validateId(id);
-    const client = await pool.connect();
-    
-    // Check if original_image_data column exists (for backward compatibility)
-    let hasOriginalColumn = true;
-    try {
-      await client.query(`
-        SELECT original_image_data 
-        FROM generated_images 
-        WHERE id = $1 
-        LIMIT 1
-      `, [validatedId]);
-    } catch (columnError: any) {
-      // Column doesn't exist yet - migration not run
-      if (columnError.message?.includes('column') && columnError.message?.includes('does not exist')) {
-        hasOriginalColumn = false;
-      } else {
-        throw columnError; // Re-throw if it's a different error
-      }
-    }
-    
-    // Build query based on whether column exists
-    const query = hasOriginalColumn
-      ? `SELECT original_image_data, original_mime_type, image_data, image_mime_type
-         FROM generated_images
-         WHERE id = $1 AND (is_deleted = false OR is_deleted IS NULL)`
-      : `SELECT image_data, image_mime_type
-         FROM generated_images
-         WHERE id = $1 AND (is_deleted = false OR is_deleted IS NULL)`;
-    
-    const result = await client.query(query, [validatedId]);
-    client.release();
+    const source = await loadOriginalSource(validatedId);
 
-    if (result.rows.length === 0) {
+    if (!source.found) {
       return { success: false, error: 'Image not found' };
     }
 
-    const row = result.rows[0];
-
-    // If original exists, return it (highest quality)
-    if (hasOriginalColumn && row.original_image_data && row.original_mime_type) {
-      return {
-        success: true,
-        data: row.original_image_data, // Buffer/BYTEA - Original PNG/JPG
-        mimeType: row.original_mime_type, // image/png or image/jpeg
-        isOriginal: true,
-      };
-    }
-
-    // Fallback to WebP if original doesn't exist (for backward compatibility)
-    if (row.image_data) {
-      return {
-        success: true,
-        data: row.image_data, // Buffer/BYTEA - WebP fallback
-        mimeType: row.image_mime_type || 'image/webp',
-        isOriginal: false,
-      };
+    if (!source.data) {
+      return { success: false, error: 'Image data not available' };
     }
 
-    return { success: false, error: 'Image data not available' };
+    return {
+      success: true,
+      data: source.data,
+      mimeType: source.mimeType,
+      isOriginal: source.isOriginal,
+    };
   } catch (error) {
     console.error('Error fetching original image file:', error);
     return {
@@ -499,105 +517,100 @@ export async function getOriginalImageFile(id: number) {
 }
 
 /**
- * Get resized original image (highest quality - PNG/JPG)
+ * Which stored binary to serve: the WebP display image or the original upload
+ */
+export type ImageBlobVariant = 'full' | 'original';
+
+export interface ImageBlobInfo {
+  key: string | null; // Blob store key - null when the binary is already in `data`
+  data: Buffer | null; // Legacy BYTEA rows only - read because they have no stored size/hash
+  size: number;
+  sha256: string; // Recorded at ingest - served as the ETag
+  mimeType: string;
+  isOriginal: boolean;
+}
+
+/**
+ * Describe a stored image binary without reading it, so routes can stream it (and serve ranges)
+ * Size and SHA-256 come from the database; only legacy rows not yet moved to the blob store
+ * (scripts/migrate-blobs-to-store.ts) are read and hashed here
  * @param id - Image ID
- * @param width - Target width
- * @param height - Target height
- * @returns Buffer containing resized image in original format (PNG/JPG)
+ * @param variant - 'full' (WebP) or 'original' (falls back to the WebP when no original is stored)
  */
-export async function getResizedOriginalImage(id: number, width: number, height: number) {
+export async function getImageBlobInfo(
+  id: number,
+  variant: ImageBlobVariant
+): Promise<{ success: boolean; data?: ImageBlobInfo; error?: string }> {
   const pool = getPool();
   try {
     const validatedId = validateId(id);
+    const original = variant === 'original';
     const client = await pool.connect();
-    
-    // Check if original_image_data column exists (for backward compatibility)
-    let hasOriginalColumn = true;
-    let imageData: Buffer;
-    let mimeType: string;
-    
+
+    let result;
     try {
-      const result = await client.query(
-        `SELECT original_image_data, original_mime_type, image_data, image_mime_type
+      // BYTEA columns are only read for legacy rows that haven't been moved to the blob store
+      result = await queryWithStorageFallback(
+        client,
+        `SELECT image_storage_key, image_sha256, image_size, image_mime_type,
+           CASE WHEN image_storage_key IS NULL
+             ${original ? 'AND original_storage_key IS NULL AND original_image_data IS NULL' : ''}
+             THEN image_data END AS image_data
+           ${original ? `, original_storage_key, original_sha256, original_image_size, original_mime_type,
+           CASE WHEN original_storage_key IS NULL THEN original_image_data END AS original_image_data` : ''}
+         FROM generated_images
+         WHERE id = $1 AND (is_deleted = false OR is_deleted IS NULL)`,
+        `SELECT image_data, image_mime_type
+           ${original ? ', original_image_data, original_mime_type' : ''}
          FROM generated_images
          WHERE id = $1 AND (is_deleted = false OR is_deleted IS NULL)`,
         [validatedId]
       );
-      
-      if (result.rows.length === 0) {
-        client.release();
-        return { success: false, error: 'Image not found' };
-      }
-
-      const row = result.rows[0];
-      
-      // Use original if available, otherwise fallback to WebP
-      if (row.original_image_data && row.original_mime_type) {
-        imageData = row.original_image_data;
-        mimeType = row.original_mime_type;
-      } else if (row.image_data) {
-        imageData = row.image_data;
-        mimeType = row.image_mime_type || 'image/webp';
-        hasOriginalColumn = false; // Using WebP fallback
+    } catch (columnError) {
+      // original_image_data column doesn't exist yet - migration 010 not run
+      if (original && columnError instanceof Error && getErrorCode(columnError) === '42703' && columnError.message.includes('original_')) {
+        result = null;
       } else {
-        client.release();
-        return { success: false, error: 'Image data not available' };
-      }
-    } catch (columnError: any) {
-      // Column doesn't exist yet - migration not run
-      if (columnError.message?.includes('column') && columnError.message?.includes('does not exist')) {
-        const result = await client.query(
-          `SELECT image_data, image_mime_type
-           FROM generated_images
-           WHERE id = $1 AND (is_deleted = false OR is_deleted IS NULL)`,
-          [validatedId]
-        );
-        
-        if (result.rows.length === 0) {
-          client.release();
-          return { success: false, error: 'Image not found' };
-        }
-        
-        const row = result.rows[0];
-        if (!row.image_data) {
-          client.release();
-          return { success: false, error: 'Image data not available' };
-        }
-        
-        imageData = row.image_data;
-        mimeType = row.image_mime_type || 'image/webp';
-        hasOriginalColumn = false;
-      } else {
-        client.release();
-        throw columnError; // Re-throw if it's a different error
+        throw columnError;
       }
+    } finally {
+      client.release();
     }
-    
-    client.release();
 
-    // Import resize function
-    const { resizeToDimensions } = await import('./image-processing');
-    
-    // Determine format from MIME type
-    const format: 'png' | 'jpeg' = mimeType.includes('png') ? 'png' : 'jpeg';
-    
-    // Resize image to target dimensions with highest quality
-    const resizedBuffer = await resizeToDimensions(
-      imageData,
-      width,
-      height,
-      format
-    );
+    if (!result) {
+      return getImageBlobInfo(validatedId, 'full');
+    }
+
+    if (result.rows.length === 0) {
+      return { success: false, error: 'Image not found' };
+    }
+
+    const row = result.rows[0];
+    const isOriginal = original && !!row.original_mime_type && !!(row.original_storage_key || row.original_image_data);
+    const key: string | null = (isOriginal ? row.original_storage_key : row.image_storage_key) || null;
+    const storedHash: string | null = (isOriginal ? row.original_sha256 : row.image_sha256) || null;
+    const storedSize = isOriginal ? row.original_image_size : row.image_size;
+    const mimeType: string = isOriginal ? row.original_mime_type : row.image_mime_type || 'image/webp';
+
+    if (key && storedHash && storedSize !== null && storedSize !== undefined) {
+      return {
+        success: true,
+        data: { key, data: null, size: Number(storedSize), sha256: storedHash, mimeType, isOriginal },
+      };
+    }
+
+    // Legacy row (or one recorded without size/hash) - read it once to describe it
+    const data = await loadBlob(key, isOriginal ? row.original_image_data : row.image_data);
+    if (!data) {
+      return { success: false, error: 'Image data not available' };
+    }
 
     return {
       success: true,
-      data: resizedBuffer,
-      mimeType: format === 'png' ? 'image/png' : 'image/jpeg', // Return as PNG/JPG
-      width,
-      height,
+      data: { key: null, data, size: data.length, sha256: sha256(data), mimeType, isOriginal },
     };
   } catch (error) {
-    console.error('Error resizing original image:', error);
+    console.error('Error fetching image blob info:', error);
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -605,65 +618,180 @@ export async function getResizedOriginalImage(id: number, width: number, height:
   }
 }
 
-// Get total count of images (for pagination)
-export async function getImagesCount(filters: ImageFilters = {}) {
+/**
+ * What insertImage does with a near-duplicate of an existing image
+ * - allow: insert as usual
+ * - flag: insert, but record duplicate_of_id for review
+ * - reject: don't insert, return the existing image's ID
+ */
+export type DuplicatePolicy = 'allow' | 'flag' | 'reject';
+export const DUPLICATE_POLICIES: DuplicatePolicy[] = ['allow', 'flag', 'reject'];
+
+/**
+ * Default duplicate handling from DUPLICATE_POLICY / DUPLICATE_HAMMING_THRESHOLD
+ */
+export function getDuplicateDefaults(): { policy: DuplicatePolicy; threshold: number } {
+  const policy = (process.env.DUPLICATE_POLICY || 'allow').toLowerCase() as DuplicatePolicy;
+  const threshold = parseInt(process.env.DUPLICATE_HAMMING_THRESHOLD || '', 10);
+  return {
+    policy: DUPLICATE_POLICIES.includes(policy) ? policy : 'allow',
+    threshold: Number.isInteger(threshold) && threshold >= 0 && threshold <= 64 ? threshold : DEFAULT_DUPLICATE_THRESHOLD,
+  };
+}
+
+/**
+ * Find images whose perceptual hash is within a Hamming distance of the given hash
+ * @param phash - Hex dHash from generatePerceptualHash()
+ * @param options - threshold (max differing bits), excludeId, limit
+ * @returns Matches ordered by distance (closest first); empty when hashes aren't stored yet
+ */
+export async function findSimilarImages(
+  phash: string,
+  options: { threshold?: number; excludeId?: number; limit?: number } = {}
+): Promise<Array<{ id: number; distance: number }>> {
   const pool = getPool();
+  const threshold = options.threshold ?? getDuplicateDefaults().threshold;
   try {
-    const client = await pool.connect();
+    // Hamming distance = number of 1 bits in phash XOR target
+    const result = await pool.query(
+      `SELECT id, distance FROM (
+        SELECT id, length(replace(((phash # $1::bigint)::bit(64))::text, '0', '')) AS distance
+        FROM generated_images
+        WHERE phash IS NOT NULL
+          AND (is_deleted = false OR is_deleted IS NULL)
+          AND id <> $2
+      ) candidates
+      WHERE distance <= $3
+      ORDER BY distance ASC, id ASC
+      LIMIT $4`,
+      [hashToBigint(phash), options.excludeId || 0, threshold, options.limit || 10]
+    );
+    return result.rows.map((row) => ({ id: row.id, distance: Number(row.distance) }));
+  } catch (error) {
+    // phash column doesn't exist yet (migration 019 not run)
+    if (getErrorCode(error) === '42703') {
+      return [];
+    }
+    throw error;
+  }
+}
 
-    let query = 'SELECT COUNT(*) as count FROM generated_images WHERE 1=1';
-    const params: any[] = [];
-    let paramCount = 1;
+/**
+ * Get the stored focal point for an image
+ * @param id - Image ID
+ * @returns Relative focal point, or null when unset (crops fall back to smart crop)
+ */
+export async function getImageFocalPoint(id: number): Promise<{ x: number; y: number } | null> {
+  const pool = getPool();
+  try {
+    const validatedId = validateId(id);
+    const result = await pool.query(
+      'SELECT focal_x, focal_y FROM generated_images WHERE id = $1',
+      [validatedId]
+    );
+    const row = result.rows[0];
+    if (!row || row.focal_x === null || row.focal_y === null) {
+      return null;
+    }
+    return { x: Number(row.focal_x), y: Number(row.focal_y) };
+  } catch (error) {
+    // focal_x/focal_y columns don't exist yet (migration 015 not run)
+    if (getErrorCode(error) === '42703') {
+      return null;
+    }
+    console.error('Error fetching focal point:', error);
+    return null;
+  }
+}
 
-    // Apply same filters as getImages
-    query += ' AND (is_deleted = false OR is_deleted IS NULL)';
+/**
+ * Re-sanitize a stored original under a metadata policy
+ * Used when an image's policy changes and to backfill images uploaded before metadata stripping
+ * Switching from 'all' back to 'sensitive' only records the policy - stripped fields can't be restored
+ * @param id - Image ID
+ * @param policy - 'sensitive' or 'all'
+ * @param options - extractMetadata: also fill camera/exposure/IPTC columns (backfill)
+ */
+export async function applyImageMetadataPolicy(
+  id: number,
+  policy: MetadataPolicy,
+  options: { extractMetadata?: boolean } = {}
+) {
+  const pool = getPool();
+  try {
+    const validatedId = validateId(id);
+    const source = await loadOriginalSource(validatedId);
 
-    if (filters.category && filters.category !== 'all') {
-      query += ` AND (tag1 ILIKE $${paramCount} OR tag2 ILIKE $${paramCount})`;
-      params.push(`%${filters.category}%`);
-      paramCount++;
+    if (!source.found) {
+      return { success: false, error: 'Image not found' };
     }
 
-    if (filters.search) {
-      query += ` AND (
-        description ILIKE $${paramCount} OR 
-        tag1 ILIKE $${paramCount} OR 
-        tag2 ILIKE $${paramCount} OR 
-        tag3 ILIKE $${paramCount}
-      )`;
-      params.push(`%${filters.search}%`);
-      paramCount++;
-    }
+    const updates: string[] = ['metadata_policy = $1', 'metadata_stripped_at = CURRENT_TIMESTAMP'];
+    const params: any[] = [policy];
+    let stripped = false;
 
-    if (filters.tags && filters.tags.length > 0) {
-      const tagConditions = filters.tags.map((_, idx) => 
-        `(tag1 ILIKE $${paramCount + idx} OR tag2 ILIKE $${paramCount + idx} OR tag3 ILIKE $${paramCount + idx})`
-      ).join(' OR ');
-      query += ` AND (${tagConditions})`;
-      filters.tags.forEach(tag => params.push(`%${tag}%`));
-      paramCount += filters.tags.length;
+    // Only true originals can carry metadata - the WebP fallback was already re-encoded without it
+    if (source.data && source.isOriginal) {
+      if (options.extractMetadata) {
+        const extracted = await extractImageMetadata(source.data);
+        const columns: Array<[string, unknown]> = [
+          ['camera_make', extracted.cameraMake],
+          ['camera_model', extracted.cameraModel],
+          ['lens_model', extracted.lensModel],
+          ['exposure_time', extracted.exposureTime],
+          ['f_number', extracted.fNumber],
+          ['iso', extracted.iso !== null ? Math.round(extracted.iso) : null],
+          ['focal_length', extracted.focalLength],
+          ['captured_at', extracted.capturedAt],
+          ['iptc_caption', extracted.caption],
+          ['iptc_keywords', extracted.keywords],
+          ['creator', extracted.creator],
+          ['copyright', extracted.copyright],
+        ];
+        for (const [column, value] of columns) {
+          params.push(value);
+          updates.push(`${column} = $${params.length}`);
+        }
+      }
+
+      const result = await stripImageMetadata(source.data, policy);
+      if (result.stripped) {
+        const originalBlob = await storeBlob('original', result.data, source.mimeType);
+        stripped = true;
+        params.push(originalBlob.key, originalBlob.sha256, originalBlob.size);
+        updates.push(
+          `original_storage_key = $${params.length - 2}`,
+          `original_sha256 = $${params.length - 1}`,
+          `original_image_size = $${params.length}`,
+          'original_image_data = NULL' // Legacy BYTEA copy still has the metadata
+        );
+      }
     }
 
-    const result = await client.query(query, params);
-    client.release();
+    params.push(validatedId);
+    await pool.query(
+      `UPDATE generated_images SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $${params.length}`,
+      params
+    );
 
-    return {
-      success: true,
-      count: parseInt(result.rows[0].count),
-    };
+    return { success: true, stripped };
   } catch (error) {
-    console.error('Error getting images count:', error);
+    console.error('Error applying metadata policy:', error);
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
-      count: 0,
     };
   }
 }
 
 /**
  * Insert a new image into the database
- * Automatically converts to WebP and generates BlurHash
+ * Automatically converts to WebP, generates BlurHash and responsive AVIF/WebP variants
+ * Extracts EXIF/IPTC/XMP into columns and strips GPS/serials from everything stored
+ * Records the dominant color palette used by the color filter
+ * Computes a perceptual hash and optionally flags or rejects near-duplicates
+ * Binaries go to the blob store; the row only keeps their keys, sizes and hashes
  * 
  * @param imageBuffer - Original image buffer (JPEG/PNG/etc)
  * @param metadata - Image metadata (description, tags, etc)
@@ -673,54 +801,166 @@ export async function insertImage(
   imageBuffer: Buffer,
   metadata: {
     description?: string;
-    tag1?: string;
-    tag2?: string;
-    tag3?: string;
+    tag1?: string | null;
+    tag2?: string | null;
+    tag3?: string | null;
+    tags?: string[]; // Full tag list - when given, tag1..tag3 are taken from it
+    category?: string | null; // Category slug or name - defaults to tag1/tag2 when they name a category
     status?: string;
+    metadataPolicy?: MetadataPolicy; // 'sensitive' (default) or 'all'
+    seedTagsFromKeywords?: boolean; // Fill empty tag1..tag3 from IPTC/XMP keywords
+    duplicatePolicy?: DuplicatePolicy; // Defaults to DUPLICATE_POLICY (allow)
+    duplicateThreshold?: number; // Max Hamming distance, defaults to DUPLICATE_HAMMING_THRESHOLD (6)
   } = {}
 ) {
   const pool = getPool();
   try {
-    // Process image: Convert to WebP + Generate BlurHash
-    const processed = await processUploadedImage(imageBuffer);
+    // Process image: Strip sensitive metadata + Convert to WebP + Generate BlurHash
+    const processed = await processUploadedImage(imageBuffer, { metadataPolicy: metadata.metadataPolicy });
+    const extracted = processed.metadata;
+
+    // Near-duplicate check before anything is stored
+    const duplicateDefaults = getDuplicateDefaults();
+    const duplicatePolicy = metadata.duplicatePolicy || duplicateDefaults.policy;
+    let duplicateOf: { id: number; distance: number } | null = null;
+    if (duplicatePolicy !== 'allow') {
+      const [closest] = await findSimilarImages(processed.phash, {
+        threshold: metadata.duplicateThreshold ?? duplicateDefaults.threshold,
+        limit: 1,
+      });
+      duplicateOf = closest || null;
+
+      if (duplicateOf && duplicatePolicy === 'reject') {
+        return {
+          success: false,
+          error: `Near-duplicate of image ${duplicateOf.id} (distance ${duplicateOf.distance})`,
+          duplicateOf,
+        };
+      }
+    }
+
+    const slots = metadata.tags
+      ? { tag1: metadata.tags[0] || null, tag2: metadata.tags[1] || null, tag3: metadata.tags[2] || null }
+      : { tag1: metadata.tag1 || null, tag2: metadata.tag2 || null, tag3: metadata.tag3 || null };
+    const tags = metadata.seedTagsFromKeywords ? seedTagsFromKeywords(extracted.keywords, slots) : slots;
+    const tagList = [tags.tag1, tags.tag2, tags.tag3, ...(metadata.tags || []).slice(3)];
+
+    // Store both WebP (for web display) and original (for highest quality downloads)
+    // Keys are content-addressed, so writing before the INSERT is safe to retry
+    const [fullBlob, thumbnailBlob, originalBlob] = await Promise.all([
+      storeBlob('full', processed.imageWebP, 'image/webp'),
+      storeBlob('thumbnail', processed.thumbnailWebP, 'image/webp'),
+      storeBlob('original', processed.originalImage, processed.originalMimeType),
+    ]);
 
     const client = await pool.connect();
 
     // Insert into generated_images table
-    // Store both WebP (for web display) and original (for highest quality downloads)
     const result = await client.query(
       `INSERT INTO generated_images (
         description, tag1, tag2, tag3, status,
-        image_data, thumbnail_data, image_mime_type,
-        original_image_data, original_mime_type, original_image_size,
-        image_width, image_height, image_size,
+        image_mime_type, image_storage_key, image_sha256, image_size,
+        thumbnail_storage_key, thumbnail_sha256, thumbnail_size,
+        original_mime_type, original_storage_key, original_sha256, original_image_size,
+        image_width, image_height,
         blurhash,
+        camera_make, camera_model, lens_model, exposure_time, f_number, iso, focal_length, captured_at,
+        iptc_caption, iptc_keywords, creator, copyright,
+        metadata_policy, metadata_stripped_at,
+        dominant_colors, color_names,
+        phash, duplicate_of_id, color_histogram,
         created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19,
+        $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, $31, $32,
+        CURRENT_TIMESTAMP, $33, $34, $35, $36, $37, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
       RETURNING id`,
       [
-        metadata.description || null,
-        metadata.tag1 || null,
-        metadata.tag2 || null,
-        metadata.tag3 || null,
+        metadata.description || extracted.caption || null,
+        tags.tag1,
+        tags.tag2,
+        tags.tag3,
         metadata.status || 'pending',
-        processed.imageWebP, // WebP full image (for web display)
-        processed.thumbnailWebP, // WebP thumbnail
         'image/webp',
-        processed.originalImage, // Original image (PNG/JPG) for highest quality downloads
+        fullBlob.key, // WebP full image (for web display)
+        fullBlob.sha256,
+        fullBlob.size,
+        thumbnailBlob.key, // WebP thumbnail
+        thumbnailBlob.sha256,
+        thumbnailBlob.size,
         processed.originalMimeType, // Original MIME type (image/png, image/jpeg)
+        originalBlob.key, // Original image (PNG/JPG) for highest quality downloads, sensitive metadata removed
+        originalBlob.sha256,
         processed.originalSize, // Original file size
         processed.width,
         processed.height,
-        processed.imageWebP.length, // Size of WebP image
         processed.blurhash,
+        extracted.cameraMake,
+        extracted.cameraModel,
+        extracted.lensModel,
+        extracted.exposureTime,
+        extracted.fNumber,
+        extracted.iso !== null ? Math.round(extracted.iso) : null,
+        extracted.focalLength,
+        extracted.capturedAt,
+        extracted.caption,
+        extracted.keywords,
+        extracted.creator,
+        extracted.copyright,
+        processed.metadataPolicy,
+        processed.palette.map((color) => color.hex),
+        processed.colorNames,
+        hashToBigint(processed.phash),
+        duplicateOf ? duplicateOf.id : null,
+        processed.colorHistogram,
       ]
     );
 
-    client.release();
-
     const imageId = result.rows[0].id;
 
+    // Normalized tags (tag1..tag3 above are just the mirror of the first three)
+    let storedTags = tagList.filter(Boolean) as string[];
+    try {
+      try {
+        storedTags = await setImageTags(client, imageId, tagList);
+      } catch (tagError) {
+        // 42P01 = undefined_table - migration 021 not run yet, tag1..tag3 still hold the tags
+        if (getErrorCode(tagError) !== '42P01') {
+          throw tagError;
+        }
+      }
+
+      // Category - the given one, otherwise the first of tag1/tag2 that names a category
+      const categoryCandidates = (metadata.category !== undefined ? [metadata.category] : [tags.tag1, tags.tag2])
+        .map((value) => (value ? slugifyTag(value) : ''))
+        .filter(Boolean);
+      if (categoryCandidates.length > 0) {
+        try {
+          await client.query(
+            `UPDATE generated_images SET category_id = (
+               SELECT id FROM categories WHERE slug = ANY($1::text[])
+               ORDER BY array_position($1::text[], slug::text) LIMIT 1
+             ) WHERE id = $2`,
+            [categoryCandidates, imageId]
+          );
+        } catch (categoryError) {
+          // 42P01 = undefined_table, 42703 = undefined_column - migration 022 not run yet
+          const code = getErrorCode(categoryError);
+          if (code !== '42P01' && code !== '42703') {
+            throw categoryError;
+          }
+        }
+      }
+    } finally {
+      client.release();
+    }
+
+    // Responsive variants are an optimization - the image is usable without them
+    // and scripts/generate-image-variants.ts can backfill any that failed here
+    const variantsResult = await saveImageVariants(imageId, processed.variants);
+    if (!variantsResult.success) {
+      console.error(`Image ${imageId} saved without responsive variants:`, variantsResult.error);
+    }
+
     return {
       success: true,
       data: {
@@ -731,6 +971,15 @@ export async function insertImage(
         thumbnailSize: processed.thumbnailWebP.length,
         imageSize: processed.imageWebP.length,
         originalSize: processed.originalSize,
+        variantCount: variantsResult.success ? processed.variants.length : 0,
+        tags: storedTags,
+        keywords: extracted.keywords,
+        metadataStripped: processed.metadataStripped,
+        hadGps: extracted.hasGps,
+        palette: processed.palette,
+        colorNames: processed.colorNames,
+        phash: processed.phash,
+        duplicateOf, // Set when flagged as a near-duplicate
       },
     };
   } catch (error) {
@@ -741,3 +990,78 @@ export async function insertImage(
     };
   }
 }
+
+export type ImageStatus = 'pending' | 'approved' | 'rejected';
+export const IMAGE_STATUSES: ImageStatus[] = ['pending', 'approved', 'rejected'];
+
+/**
+ * Set an image's moderation status
+ * @param id - Image ID
+ * @param status - 'pending', 'approved' or 'rejected'
+ */
+export async function setImageStatus(id: number, status: ImageStatus) {
+  const pool = getPool();
+  try {
+    const validatedId = validateId(id);
+    if (!IMAGE_STATUSES.includes(status)) {
+      throw new Error(`Invalid status. Must be one of: ${IMAGE_STATUSES.join(', ')}`);
+    }
+
+    const result = await pool.query<{ id: number; status: ImageStatus }>(
+      `UPDATE generated_images SET status = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2
+       RETURNING id, status`,
+      [status, validatedId]
+    );
+    if (result.rows.length === 0) {
+      return { success: false, error: 'Image not found' };
+    }
+
+    return { success: true, data: result.rows[0] };
+  } catch (error) {
+    console.error('Error setting image status:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Delete an image and remove it from favorites and collections
+ * Tags, variants, derivatives and view/download events go with it (ON DELETE CASCADE).
+ * Blobs are content-addressed and may be shared with other rows, so they stay in the store.
+ * @param id - Image ID
+ */
+export async function deleteImage(id: number) {
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    const validatedId = validateId(id);
+
+    await client.query('BEGIN');
+    // favorites and collections hold plain image IDs, without foreign keys
+    await client.query('DELETE FROM favorites WHERE image_id = $1', [validatedId]);
+    await client.query(
+      'UPDATE collections SET image_ids = array_remove(image_ids, $1), updated_at = CURRENT_TIMESTAMP WHERE $1 = ANY(image_ids)',
+      [validatedId]
+    );
+    const result = await client.query('DELETE FROM generated_images WHERE id = $1 RETURNING id', [validatedId]);
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return { success: false, error: 'Image not found' };
+    }
+    await client.query('COMMIT');
+
+    return { success: true };
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    console.error('Error deleting image:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  } finally {
+    client.release();
+  }
+}
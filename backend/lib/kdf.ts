@@ -0,0 +1,125 @@
+/**
+ * Password hashing with scrypt (key derivation)
+ * Hashes are stored in a versioned, self-describing format:
+ *   $scrypt$v=1$ln=15,r=8,p=1$<salt>$<key>   (base64, no padding)
+ * so the cost can be raised later and older hashes recognized and upgraded on login.
+ * Unsalted SHA-256 hex digests from before this format are still verified (see needsRehash).
+ */
+
+import * as crypto from 'crypto';
+
+const HASH_VERSION = 1;
+const BLOCK_SIZE = 8; // scrypt r
+const PARALLELIZATION = 1; // scrypt p
+const SALT_BYTES = 16;
+const KEY_BYTES = 64;
+
+const DEFAULT_COST = 15; // log2 of scrypt N - 2^15 with r=8 needs 32 MB per hash
+const MIN_COST = 10;
+const MAX_COST = 20;
+
+const HASH_PATTERN = /^\$scrypt\$v=(\d+)\$ln=(\d+),r=(\d+),p=(\d+)\$([A-Za-z0-9+/]+)\$([A-Za-z0-9+/]+)$/;
+const LEGACY_SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+interface ParsedHash {
+  version: number;
+  cost: number;
+  blockSize: number;
+  parallelization: number;
+  salt: Buffer;
+  key: Buffer;
+}
+
+/**
+ * scrypt cost (log2 N) for new hashes, configurable through PASSWORD_HASH_COST (10-20, default 15)
+ */
+export function getPasswordHashCost(): number {
+  const cost = parseInt(process.env.PASSWORD_HASH_COST || '', 10);
+  if (!Number.isInteger(cost) || cost < MIN_COST || cost > MAX_COST) {
+    return DEFAULT_COST;
+  }
+  return cost;
+}
+
+function parseHash(hash: string): ParsedHash | null {
+  const match = hash.match(HASH_PATTERN);
+  if (!match) return null;
+  const [, version, cost, blockSize, parallelization, salt, key] = match;
+  return {
+    version: Number(version),
+    cost: Number(cost),
+    blockSize: Number(blockSize),
+    parallelization: Number(parallelization),
+    salt: Buffer.from(salt, 'base64'),
+    key: Buffer.from(key, 'base64'),
+  };
+}
+
+function deriveKey(password: string, salt: Buffer, cost: number, blockSize: number, parallelization: number, keyLength: number) {
+  const N = 2 ** cost;
+  return new Promise<Buffer>((resolve, reject) => {
+    crypto.scrypt(
+      password.normalize('NFKC'),
+      salt,
+      keyLength,
+      // Node's default memory cap (32 MB) is too small for the default cost
+      { N, r: blockSize, p: parallelization, maxmem: 256 * N * blockSize },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+}
+
+const toBase64 = (buffer: Buffer) => buffer.toString('base64').replace(/=+$/, '');
+
+/**
+ * Hash a password with a fresh random salt
+ * @param cost - log2 of scrypt N (default: getPasswordHashCost())
+ */
+export async function hashPassword(password: string, cost: number = getPasswordHashCost()): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt, cost, BLOCK_SIZE, PARALLELIZATION, KEY_BYTES);
+  return `$scrypt$v=${HASH_VERSION}$ln=${cost},r=${BLOCK_SIZE},p=${PARALLELIZATION}$${toBase64(salt)}$${toBase64(key)}`;
+}
+
+/**
+ * Check a password against a stored hash (current format or legacy SHA-256) in constant time
+ */
+export async function verifyPassword(password: string, hash: string | null | undefined): Promise<boolean> {
+  if (!hash) return false;
+
+  if (LEGACY_SHA256_PATTERN.test(hash)) {
+    const digest = crypto.createHash('sha256').update(password).digest();
+    return crypto.timingSafeEqual(digest, Buffer.from(hash, 'hex'));
+  }
+
+  const parsed = parseHash(hash);
+  if (!parsed || parsed.cost < MIN_COST || parsed.cost > MAX_COST || parsed.key.length === 0) return false;
+  const key = await deriveKey(password, parsed.salt, parsed.cost, parsed.blockSize, parsed.parallelization, parsed.key.length);
+  return crypto.timingSafeEqual(key, parsed.key);
+}
+
+/**
+ * Whether a stored hash should be replaced after a successful login:
+ * legacy SHA-256, an older format version or a lower cost than currently configured
+ */
+export function needsRehash(hash: string, cost: number = getPasswordHashCost()): boolean {
+  const parsed = parseHash(hash);
+  return (
+    !parsed ||
+    parsed.version < HASH_VERSION ||
+    parsed.cost < cost ||
+    parsed.blockSize !== BLOCK_SIZE ||
+    parsed.parallelization !== PARALLELIZATION
+  );
+}
+
+// Verified when no account matches, so unknown emails take as long as wrong passwords
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * Spend the time of a password check without a real hash
+ */
+export async function verifyDummyPassword(password: string): Promise<void> {
+  dummyHash ??= hashPassword(crypto.randomBytes(SALT_BYTES).toString('hex'));
+  await verifyPassword(password, await dummyHash);
+}
@@ -0,0 +1,167 @@
+/**
+ * Outgoing email (verification and password reset links)
+ *
+ * Drivers:
+ * - console: prints each message to the server log (default in development - never in production,
+ *   where it would put live account links in the logs)
+ * - file: writes each message as a JSON file, for local testing and inspecting what would be sent
+ * - smtp: delivers through any SMTP server
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as nodemailer from 'nodemailer';
+
+export type MailerDriver = 'console' | 'file' | 'smtp';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  driver: MailerDriver;
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpMailerOptions {
+  host: string;
+  port?: number;
+  secure?: boolean; // TLS from the start (port 465); otherwise STARTTLS when the server offers it
+  user?: string;
+  pass?: string;
+}
+
+const DEFAULT_FROM = 'PixelVault <no-reply@localhost>';
+
+/**
+ * Console driver
+ */
+export function createConsoleMailer(from: string = DEFAULT_FROM): Mailer {
+  return {
+    driver: 'console',
+
+    async send(message: MailMessage) {
+      console.log(
+        `[mail] From: ${from}\n[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}\n`
+      );
+    },
+  };
+}
+
+/**
+ * File driver - one <timestamp>-<random>.json per message in dir
+ */
+export function createFileMailer(dir: string, from: string = DEFAULT_FROM): Mailer {
+  return {
+    driver: 'file',
+
+    async send(message: MailMessage) {
+      await fs.mkdir(dir, { recursive: true });
+      const sentAt = new Date();
+      const fileName = `${sentAt.getTime()}-${crypto.randomBytes(4).toString('hex')}.json`;
+      await fs.writeFile(
+        path.join(dir, fileName),
+        JSON.stringify({ from, ...message, sentAt: sentAt.toISOString() }, null, 2)
+      );
+    },
+  };
+}
+
+/**
+ * SMTP driver
+ */
+export function createSmtpMailer(options: SmtpMailerOptions, from: string = DEFAULT_FROM): Mailer {
+  const transport = nodemailer.createTransport({
+    host: options.host,
+    port: options.port || (options.secure ? 465 : 587),
+    secure: options.secure || false,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+  });
+
+  return {
+    driver: 'smtp',
+
+    async send(message: MailMessage) {
+      await transport.sendMail({ from, ...message });
+    },
+  };
+}
+
+/**
+ * Build the mailer described by the environment
+ * MAIL_DRIVER: 'console' (default outside production) | 'file' | 'smtp' - required when NODE_ENV=production
+ * MAIL_FROM (default: PixelVault <no-reply@localhost>)
+ * MAIL_FILE_DIR (default: ./storage/mail)
+ * SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS
+ */
+function createMailerFromEnv(): Mailer {
+  if (!process.env.MAIL_DRIVER && process.env.NODE_ENV === 'production') {
+    throw new Error('MAIL_DRIVER must be set in production - refusing to print account links to the server log');
+  }
+
+  const driver = (process.env.MAIL_DRIVER || 'console').toLowerCase();
+  const from = process.env.MAIL_FROM || DEFAULT_FROM;
+
+  if (driver === 'smtp') {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      throw new Error('SMTP_HOST must be set when MAIL_DRIVER=smtp');
+    }
+    return createSmtpMailer({
+      host,
+      port: process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT, 10) : undefined,
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    }, from);
+  }
+
+  if (driver === 'file') {
+    return createFileMailer(process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'storage', 'mail'), from);
+  }
+
+  if (driver !== 'console') {
+    throw new Error(`Unknown MAIL_DRIVER "${driver}". Use "console", "file" or "smtp".`);
+  }
+
+  return createConsoleMailer(from);
+}
+
+let mailer: Mailer | null = null;
+
+/**
+ * Get or create the configured mailer
+ */
+export function getMailer(): Mailer {
+  if (!mailer) {
+    mailer = createMailerFromEnv();
+  }
+  return mailer;
+}
+
+/**
+ * Override the mailer (used by scripts and tests)
+ */
+export function setMailer(replacement: Mailer | null) {
+  mailer = replacement;
+}
+
+/**
+ * Send a message with the configured mailer
+ */
+export async function sendMail(message: MailMessage) {
+  try {
+    await getMailer().send(message);
+    return { success: true };
+  } catch (error) {
+    console.error('Error sending mail:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Image metadata fields - IPTC/XMP parsing, the EXIF keep-list of each policy and tag seeding
+ * Pure functions with no image library imports; image-metadata.ts does the reading and re-encoding
+ */
+
+/**
+ * Per-image metadata policy
+ * - sensitive: remove GPS, serial numbers, owner and maker notes; keep camera make/model, software and credits
+ * - all: remove every EXIF/IPTC/XMP field (ICC color profile is kept so colors stay correct)
+ */
+export type MetadataPolicy = 'sensitive' | 'all';
+export const METADATA_POLICIES: MetadataPolicy[] = ['sensitive', 'all'];
+
+// EXIF IFD0 tags that survive the 'sensitive' policy (ASCII only, no personal identifiers)
+const SAFE_EXIF_TAGS = ['Make', 'Model', 'Software', 'Artist', 'Copyright'] as const;
+
+export const MAX_TEXT_LENGTH = 2000;
+export const MAX_KEYWORDS = 50;
+
+/**
+ * Trim a metadata string and drop empty/oversized values
+ */
+export function cleanText(value: unknown, maxLength: number = 255): string | null {
+  if (typeof value !== 'string') return null;
+  const cleaned = value.replace(/\0/g, '').trim();
+  if (!cleaned) return null;
+  return cleaned.length > maxLength ? cleaned.substring(0, maxLength) : cleaned;
+}
+
+export function cleanNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Format an exposure time in seconds the way cameras show it
+ */
+export function formatExposureTime(seconds: number): string {
+  if (seconds >= 1) {
+    return String(Math.round(seconds * 10) / 10);
+  }
+  return `1/${Math.round(1 / seconds)}`;
+}
+
+/**
+ * Parse IPTC-IIM records (record 2, application data) from a raw IPTC/Photoshop block
+ * Only the fields we store are decoded: title, keywords, by-line, copyright, caption
+ */
+export function parseIptc(buffer: Buffer): {
+  title?: string;
+  caption?: string;
+  keywords: string[];
+  creator?: string;
+  copyright?: string;
+} {
+  const result: ReturnType<typeof parseIptc> = { keywords: [] };
+  let offset = 0;
+
+  while (offset + 5 <= buffer.length) {
+    // Each dataset: 0x1C, record number, dataset number, 2-byte big-endian length
+    if (buffer[offset] !== 0x1c || buffer[offset + 1] !== 0x02) {
+      offset++;
+      continue;
+    }
+
+    const dataset = buffer[offset + 2];
+    const length = buffer.readUInt16BE(offset + 3);
+    if (length & 0x8000) {
+      break; // Extended datasets are never used for text fields
+    }
+
+    const start = offset + 5;
+    const end = Math.min(start + length, buffer.length);
+    const value = buffer.toString('utf8', start, end);
+
+    switch (dataset) {
+      case 5:
+        result.title = cleanText(value) || result.title;
+        break;
+      case 25: {
+        const keyword = cleanText(value, 100);
+        if (keyword) result.keywords.push(keyword);
+        break;
+      }
+      case 80:
+        result.creator = cleanText(value) || result.creator;
+        break;
+      case 116:
+        result.copyright = cleanText(value) || result.copyright;
+        break;
+      case 120:
+        result.caption = cleanText(value, MAX_TEXT_LENGTH) || result.caption;
+        break;
+    }
+
+    offset = end;
+  }
+
+  return result;
+}
+
+/**
+ * Decode the handful of XML entities XMP packets use
+ */
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read the <rdf:li> items of a Dublin Core property (dc:subject, dc:description, ...)
+ */
+function readXmpList(xmp: string, property: string): string[] {
+  const block = xmp.match(new RegExp(`<dc:${property}[^>]*>([\\s\\S]*?)</dc:${property}>`));
+  if (!block) return [];
+  const items: string[] = [];
+  const itemPattern = /<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/g;
+  let match: RegExpExecArray | null;
+  while ((match = itemPattern.exec(block[1])) !== null) {
+    const text = decodeXmlEntities(match[1]).trim();
+    if (text) items.push(text);
+  }
+  return items;
+}
+
+/**
+ * Parse the Dublin Core fields we store from an XMP packet
+ */
+export function parseXmp(buffer: Buffer): {
+  description?: string;
+  subjects: string[];
+  creator?: string;
+  rights?: string;
+} {
+  const xmp = buffer.toString('utf8');
+  return {
+    description: cleanText(readXmpList(xmp, 'description')[0], MAX_TEXT_LENGTH) || undefined,
+    subjects: readXmpList(xmp, 'subject').map((subject) => cleanText(subject, 100)).filter((s): s is string => !!s),
+    creator: cleanText(readXmpList(xmp, 'creator')[0]) || undefined,
+    rights: cleanText(readXmpList(xmp, 'rights')[0]) || undefined,
+  };
+}
+
+/**
+ * EXIF IFD0 tags an image keeps under a policy (everything else - GPS, serial numbers, owner,
+ * maker notes - is dropped with the rest of the metadata)
+ * @param exif - Parsed EXIF (exif-reader output)
+ * @returns Tags to write back, or null when nothing is kept
+ */
+export function selectRetainedExif(
+  exif: { Image?: Record<string, unknown> },
+  policy: MetadataPolicy
+): Record<string, string> | null {
+  if (policy !== 'sensitive') return null;
+
+  const image = exif.Image || {};
+  const safeTags: Record<string, string> = {};
+  for (const tag of SAFE_EXIF_TAGS) {
+    const value = cleanText(image[tag]);
+    if (value) safeTags[tag] = value;
+  }
+  return Object.keys(safeTags).length > 0 ? safeTags : null;
+}
+
+/**
+ * Fill empty tag slots (tag1..tag3) from extracted keywords
+ * Existing tags are kept; keywords already used as tags are skipped
+ */
+export function seedTagsFromKeywords(
+  keywords: string[],
+  tags: { tag1?: string | null; tag2?: string | null; tag3?: string | null }
+): { tag1: string | null; tag2: string | null; tag3: string | null } {
+  const slots = [tags.tag1 || null, tags.tag2 || null, tags.tag3 || null];
+  const used = new Set(slots.filter(Boolean).map((tag) => tag!.toLowerCase()));
+  const candidates = keywords
+    .map((keyword) => keyword.toLowerCase().trim())
+    .filter((keyword) => keyword && keyword.length <= 100 && !used.has(keyword));
+
+  for (let i = 0; i < slots.length && candidates.length > 0; i++) {
+    if (!slots[i]) {
+      const keyword = candidates.shift()!;
+      slots[i] = keyword;
+      used.add(keyword);
+    }
+  }
+
+  return { tag1: slots[0], tag2: slots[1], tag3: slots[2] };
+}
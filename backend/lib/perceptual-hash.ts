@@ -0,0 +1,133 @@
+/**
+ * Perceptual hashing (dHash) for duplicate detection
+ * Visually similar images get hashes that differ in only a few bits,
+ * so near-duplicates (re-encodes, resizes, small edits) are found by Hamming distance
+ *
+ * Pure functions only (no sharp) - pixel decoding lives in image-processing.ts
+ */
+
+// dHash compares each pixel with its right neighbour: 9x8 grayscale pixels -> 64 bits
+export const DHASH_WIDTH = 9;
+export const DHASH_HEIGHT = 8;
+
+/**
+ * Default maximum Hamming distance for two images to count as duplicates
+ * 0 = identical hash; up to ~10 still catches re-encodes and light edits
+ */
+export const DEFAULT_DUPLICATE_THRESHOLD = 6;
+
+// BigInt() rather than literals - the frontend compiles backend/lib for ES2017
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const HASH_RANGE = ONE << BigInt(64);
+const SIGN_BIT = ONE << BigInt(63);
+
+/**
+ * Compute a dHash from 9x8 grayscale pixels (row-major, one byte per pixel)
+ * @returns 16-character hex string
+ */
+export function computeDHash(pixels: Uint8Array): string {
+  if (pixels.length < DHASH_WIDTH * DHASH_HEIGHT) {
+    throw new Error(`dHash needs ${DHASH_WIDTH}x${DHASH_HEIGHT} grayscale pixels`);
+  }
+
+  let hash = ZERO;
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+      const left = pixels[y * DHASH_WIDTH + x];
+      const right = pixels[y * DHASH_WIDTH + x + 1];
+      hash = (hash << ONE) | (left > right ? ONE : ZERO);
+    }
+  }
+
+  return hash.toString(16).padStart(16, '0');
+}
+
+/**
+ * Number of differing bits between two hex hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > ZERO) {
+    diff &= diff - ONE;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Convert a hex hash to the signed value stored in a PostgreSQL BIGINT column
+ */
+export function hashToBigint(hash: string): string {
+  const value = BigInt(`0x${hash}`);
+  return (value & SIGN_BIT ? value - HASH_RANGE : value).toString();
+}
+
+/**
+ * Convert a BIGINT column value (pg returns these as strings) back to a hex hash
+ */
+export function bigintToHash(value: string | number | bigint): string {
+  let hash = BigInt(value);
+  if (hash < ZERO) hash += HASH_RANGE;
+  return hash.toString(16).padStart(16, '0');
+}
+
+/**
+ * Group hashes into clusters of near-duplicates (single linkage)
+ * Candidates are found by bucketing 8-bit bands: two hashes within distance < 8
+ * must share at least one band exactly, so only same-bucket pairs are compared
+ * @param items - Image IDs with their hex hashes
+ * @param threshold - Maximum Hamming distance (0-7)
+ * @returns Clusters with at least two members, IDs ascending, largest clusters first
+ */
+export function clusterByHash(items: Array<{ id: number; hash: string }>, threshold: number): number[][] {
+  if (threshold < 0 || threshold > 7) {
+    throw new Error('Cluster threshold must be between 0 and 7');
+  }
+
+  // Union-find over item indexes
+  const parent = items.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  for (let band = 0; band < 8; band++) {
+    const buckets = new Map<string, number[]>();
+    items.forEach((item, index) => {
+      const key = item.hash.substring(band * 2, band * 2 + 2);
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+    });
+
+    for (const bucket of buckets.values()) {
+      for (let i = 0; i < bucket.length; i++) {
+        for (let j = i + 1; j < bucket.length; j++) {
+          const a = find(bucket[i]);
+          const b = find(bucket[j]);
+          if (a !== b && hammingDistance(items[bucket[i]].hash, items[bucket[j]].hash) <= threshold) {
+            parent[b] = a;
+          }
+        }
+      }
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  items.forEach((item, index) => {
+    const root = find(index);
+    const cluster = clusters.get(root);
+    if (cluster) cluster.push(item.id);
+    else clusters.set(root, [item.id]);
+  });
+
+  return Array.from(clusters.values())
+    .filter((cluster) => cluster.length > 1)
+    .map((cluster) => cluster.sort((a, b) => a - b))
+    .sort((a, b) => b.length - a.length || a[0] - b[0]);
+}
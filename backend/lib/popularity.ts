@@ -0,0 +1,128 @@
+/**
+ * Image popularity - view/download tracking and the trending score behind the popular,
+ * trending and downloads sorts
+ */
+
+import { getPool } from './db';
+import { getErrorCode } from './db-retry';
+import { validateId } from './validation';
+
+export type ImageEvent = 'view' | 'download';
+
+// A download counts as much as this many views
+export const DOWNLOAD_WEIGHT = 5;
+
+// Trending score: every view/download within the window, halving in weight every half-life
+export const TRENDING_HALF_LIFE_HOURS = 24;
+export const TRENDING_WINDOW_DAYS = 7;
+
+// All-time popularity (migration 026 indexes this exact expression)
+export const POPULARITY_SQL = `(COALESCE(view_count, 0) + ${DOWNLOAD_WEIGHT} * COALESCE(downloads, 0))`;
+
+export const DOWNLOADS_SQL = '(COALESCE(downloads, 0))';
+
+/**
+ * Count a view or download: bumps the image's counter and records the event for the trending score
+ */
+export async function recordImageEvent(imageId: number, event: ImageEvent) {
+  const pool = getPool();
+  try {
+    const validatedId = validateId(imageId);
+
+    if (event === 'view') {
+      await pool.query(
+        `UPDATE generated_images
+         SET view_count = COALESCE(view_count, 0) + 1,
+             last_viewed_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [validatedId]
+      );
+    } else {
+      await pool.query(
+        `UPDATE generated_images
+         SET downloads = COALESCE(downloads, 0) + 1
+         WHERE id = $1`,
+        [validatedId]
+      );
+    }
+
+    try {
+      await pool.query('INSERT INTO image_events (image_id, event_type) VALUES ($1, $2)', [validatedId, event]);
+    } catch (insertError) {
+      // 42P01 = undefined_table - migration 026 not run yet; the counters are still updated
+      // 23503 = foreign_key_violation - the image doesn't exist
+      const code = getErrorCode(insertError);
+      if (code !== '42P01' && code !== '23503') throw insertError;
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error(`Error recording image ${event}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Recompute every image's trending score from the events in the trending window,
+ * then delete older events (they no longer count)
+ * Meant to run periodically - see scripts/update-trending-scores.ts
+ */
+export async function updateTrendingScores() {
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const scored = await client.query(
+      `WITH scores AS (
+         SELECT image_id,
+           SUM(
+             CASE WHEN event_type = 'download' THEN ${DOWNLOAD_WEIGHT} ELSE 1 END
+             * POWER(0.5, EXTRACT(EPOCH FROM (NOW() - created_at)) / 3600 / ${TRENDING_HALF_LIFE_HOURS})
+           ) AS score
+         FROM image_events
+         WHERE created_at >= NOW() - INTERVAL '${TRENDING_WINDOW_DAYS} days'
+         GROUP BY image_id
+       )
+       UPDATE generated_images gi
+       SET trending_score = scores.score, trending_updated_at = NOW()
+       FROM scores
+       WHERE scores.image_id = gi.id`
+    );
+
+    // Images without recent events drop out of trending
+    const reset = await client.query(
+      `UPDATE generated_images
+       SET trending_score = 0, trending_updated_at = NOW()
+       WHERE trending_score <> 0
+         AND NOT EXISTS (
+           SELECT 1 FROM image_events e
+           WHERE e.image_id = generated_images.id
+             AND e.created_at >= NOW() - INTERVAL '${TRENDING_WINDOW_DAYS} days'
+         )`
+    );
+
+    const pruned = await client.query(
+      `DELETE FROM image_events WHERE created_at < NOW() - INTERVAL '${TRENDING_WINDOW_DAYS} days'`
+    );
+
+    await client.query('COMMIT');
+
+    return {
+      success: true,
+      data: { scored: scored.rowCount ?? 0, reset: reset.rowCount ?? 0, pruned: pruned.rowCount ?? 0 },
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error updating trending scores:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  } finally {
+    client.release();
+  }
+}
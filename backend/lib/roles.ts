@@ -0,0 +1,27 @@
+/**
+ * User roles
+ * Each role can do everything the roles before it can:
+ * - viewer: browse, download, favorite and collect (every new account)
+ * - contributor: upload images (they wait in 'pending' for a moderator)
+ * - moderator: edit metadata, approve/reject and delete images, manage tags
+ * - admin: change other users' roles
+ */
+
+export const USER_ROLES = ['viewer', 'contributor', 'moderator', 'admin'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+export const DEFAULT_USER_ROLE: UserRole = 'viewer';
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a role includes the permissions of another
+ * Unknown roles (e.g. a value written by hand into the database) get nothing beyond viewer
+ */
+export function hasRole(role: unknown, required: UserRole): boolean {
+  const rank = isUserRole(role) ? USER_ROLES.indexOf(role) : 0;
+  return rank >= USER_ROLES.indexOf(required);
+}
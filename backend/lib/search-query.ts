@@ -0,0 +1,79 @@
+/**
+ * Search query text helpers (pure - no database access)
+ * Queries use websearch_to_tsquery syntax: "quoted phrases", -excluded words or phrases and OR
+ */
+
+export interface SearchQueryToken {
+  open: string; // Leading quote, if any
+  core: string; // The word itself
+  close: string; // Trailing quote, if any
+  searchable: boolean; // False for OR and excluded words (which must not be rewritten)
+}
+
+/**
+ * Split a query into whitespace-separated tokens
+ */
+export function tokenizeSearchQuery(query: string): SearchQueryToken[] {
+  const tokens: SearchQueryToken[] = [];
+  let inExcludedPhrase = false;
+
+  for (const word of query.trim().split(/\s+/).filter(Boolean)) {
+    const excluded = inExcludedPhrase || word.startsWith('-');
+    const quotes = (word.match(/"/g) || []).length;
+    if (excluded && quotes % 2 === 1) inExcludedPhrase = !inExcludedPhrase;
+
+    if (excluded || word === 'OR') {
+      tokens.push({ open: '', core: word, close: '', searchable: false });
+      continue;
+    }
+    const [, open, core, close] = word.match(/^("?)(.*?)("?)$/)!;
+    tokens.push({ open, core, close, searchable: core.length > 0 });
+  }
+  return tokens;
+}
+
+/**
+ * Join tokens back into a query, optionally replacing some words
+ * @param replacements - Map of token index to replacement word (quotes are kept around it)
+ */
+export function joinSearchQuery(tokens: SearchQueryToken[], replacements: Map<number, string> = new Map()): string {
+  return tokens
+    .map((token, index) => {
+      const core = replacements.get(index);
+      return core !== undefined ? `${token.open}${core}${token.close}` : `${token.open}${token.core}${token.close}`;
+    })
+    .join(' ');
+}
+
+/**
+ * The words a query actually searches for (lowercased, without quotes, OR or excluded words)
+ */
+export function extractQueryWords(query: string): string[] {
+  return tokenizeSearchQuery(query)
+    .filter((token) => token.searchable)
+    .map((token) => token.core.toLowerCase());
+}
+
+/**
+ * Rewrite a query with corrected words ("archetecture -night" -> "architecture -night")
+ * @param corrections - Map of lowercased word to its correction
+ * @returns The corrected query, or null when nothing changed
+ */
+export function applyQueryCorrections(query: string, corrections: Map<string, string>): string | null {
+  const tokens = tokenizeSearchQuery(query);
+  const replacements = new Map<number, string>();
+  tokens.forEach((token, index) => {
+    const correction = token.searchable ? corrections.get(token.core.toLowerCase()) : undefined;
+    if (correction && correction.toLowerCase() !== token.core.toLowerCase()) {
+      replacements.set(index, correction);
+    }
+  });
+  return replacements.size > 0 ? joinSearchQuery(tokens, replacements) : null;
+}
+
+/**
+ * Escape LIKE/ILIKE wildcards so user input matches literally
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
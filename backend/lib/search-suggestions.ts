@@ -0,0 +1,145 @@
+/**
+ * Typo-tolerant search support: autocomplete suggestions and "did you mean" corrections
+ * Uses pg_trgm trigram similarity (migration 025); without the extension only prefix/substring
+ * matching is available and corrections are skipped
+ */
+
+import { QueryResultRow } from 'pg';
+import { getPool } from './db';
+import { getErrorCode } from './db-retry';
+import { encodeId } from './hashids';
+import { publicImageCondition } from './image-visibility';
+import { escapeLikePattern, extractQueryWords, applyQueryCorrections } from './search-query';
+
+export interface SearchSuggestions {
+  tags: Array<{ slug: string; name: string; usageCount: number }>;
+  categories: Array<{ slug: string; name: string; icon: string | null }>;
+  titles: Array<{ hashId: string; title: string }>;
+}
+
+export const MAX_SUGGESTIONS_PER_GROUP = 10;
+
+// Set once pg_trgm is known to be installed
+let trigramAvailable = false;
+
+/**
+ * Check whether the pg_trgm extension is installed
+ */
+export async function hasTrigramSupport(): Promise<boolean> {
+  if (!trigramAvailable) {
+    const result = await getPool().query(`SELECT 1 FROM pg_extension WHERE extname = 'pg_trgm'`);
+    trigramAvailable = result.rows.length > 0;
+  }
+  return trigramAvailable;
+}
+
+/**
+ * Run a suggestion query, treating missing tables (older schemas) as no suggestions
+ */
+async function querySuggestions<T extends QueryResultRow>(sql: string, params: any[]): Promise<T[]> {
+  try {
+    const result = await getPool().query<T>(sql, params);
+    return result.rows;
+  } catch (error) {
+    // 42P01 = undefined_table
+    if (getErrorCode(error) === '42P01') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get tag, category and title completions for a partial query
+ * Prefix matches come first, then (with pg_trgm) close spellings
+ * @param query - What the user has typed so far
+ * @param limit - Max suggestions per group
+ */
+export async function getSearchSuggestions(query: string, limit: number = 5) {
+  const term = query.trim().slice(0, 100);
+  const perGroup = Math.min(Math.max(limit, 1), MAX_SUGGESTIONS_PER_GROUP);
+  if (term.length === 0) {
+    const empty: SearchSuggestions = { tags: [], categories: [], titles: [] };
+    return { success: true, data: empty };
+  }
+
+  try {
+    const fuzzy = await hasTrigramSupport();
+    const prefix = `${escapeLikePattern(term)}%`;
+    const contains = `%${escapeLikePattern(term)}%`;
+
+    // The raw term ($3) is only passed when the trigram operators use it
+    const withTerm = (params: any[]) => (fuzzy ? [...params, term] : params);
+
+    const [tagRows, categoryRows, titleRows] = await Promise.all([
+      querySuggestions<{ slug: string; name: string; usage_count: number }>(
+        `SELECT t.slug, t.name, (SELECT COUNT(*)::int FROM image_tags it WHERE it.tag_id = t.id) AS usage_count
+         FROM tags t
+         WHERE t.name ILIKE $1 ${fuzzy ? 'OR t.name % $3' : ''}
+         ORDER BY (t.name ILIKE $1) DESC, ${fuzzy ? 'similarity(t.name, $3) DESC,' : ''} usage_count DESC, t.name
+         LIMIT $2`,
+        withTerm([prefix, perGroup])
+      ),
+      querySuggestions<{ slug: string; name: string; icon: string | null }>(
+        `SELECT slug, name, icon FROM categories
+         WHERE name ILIKE $1 ${fuzzy ? 'OR name % $3' : ''}
+         ORDER BY (name ILIKE $1) DESC, ${fuzzy ? 'similarity(name, $3) DESC,' : ''} sort_order, name
+         LIMIT $2`,
+        withTerm([prefix, perGroup])
+      ),
+      querySuggestions<{ id: number; description: string }>(
+        `SELECT id, description FROM generated_images
+         WHERE ${publicImageCondition()}
+           AND (description ILIKE $1 ${fuzzy ? 'OR $3 <% description' : ''})
+         ORDER BY ${fuzzy ? 'word_similarity($3, description) DESC,' : ''} created_at DESC
+         LIMIT $2`,
+        withTerm([contains, perGroup])
+      ),
+    ]);
+
+    const data: SearchSuggestions = {
+      tags: tagRows.map((row) => ({ slug: row.slug, name: row.name, usageCount: row.usage_count })),
+      categories: categoryRows.map((row) => ({ slug: row.slug, name: row.name, icon: row.icon })),
+      titles: titleRows.map((row) => ({ hashId: encodeId(row.id), title: row.description })),
+    };
+    return { success: true, data };
+  } catch (error) {
+    console.error('Error getting search suggestions:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Suggest a corrected query by replacing misspelled words with the closest tag or category name
+ * ("archetecture" -> "architecture"); excluded words, OR and quotes are left as they are
+ * @returns The corrected query, or null when there is nothing to correct (or pg_trgm isn't installed)
+ */
+export async function getDidYouMean(query: string): Promise<string | null> {
+  const words = Array.from(new Set(extractQueryWords(query).filter((word) => word.length >= 3)));
+  if (words.length === 0 || !(await hasTrigramSupport())) {
+    return null;
+  }
+
+  const rows = await querySuggestions<{ word: string; name: string }>(
+    `SELECT input.word, best.name
+     FROM UNNEST($1::text[]) AS input(word)
+     CROSS JOIN LATERAL (
+       SELECT name, similarity(name, input.word) AS score FROM (
+         SELECT name FROM tags WHERE name % input.word
+         UNION
+         SELECT name FROM categories WHERE name % input.word
+       ) AS candidates
+       ORDER BY score DESC, name
+       LIMIT 1
+     ) AS best`,
+    [words]
+  );
+
+  const corrections = new Map<string, string>(
+    rows.map((row) => [row.word, row.name.toLowerCase()])
+  );
+  return applyQueryCorrections(query, corrections);
+}
@@ -0,0 +1,173 @@
+/**
+ * Structured search syntax (pure - no database access, also used by the filter sidebar's help)
+ * Queries mix filter operators with full-text terms:
+ *   tag:nature orientation:portrait color:blue -people after:2025-01-01 "mountain lake"
+ * Operators become filters; everything else is searched as text (web search syntax, see search-query.ts)
+ */
+
+import { COLOR_NAMES } from './image-colors';
+import type { ImageOrientation } from './validation';
+
+export interface SearchOperator {
+  name: string;
+  example: string;
+  description: string;
+}
+
+export const SEARCH_OPERATORS: SearchOperator[] = [
+  { name: 'tag', example: 'tag:nature', description: 'Tagged with - repeat for any of several, end with * to match a prefix' },
+  { name: 'category', example: 'category:travel', description: 'In a category or its subcategories' },
+  { name: 'orientation', example: 'orientation:portrait', description: 'landscape, portrait or square' },
+  { name: 'color', example: 'color:blue', description: `Dominant color - ${COLOR_NAMES.join(', ')}` },
+  { name: 'after', example: 'after:2025-01-01', description: 'Uploaded on or after a date' },
+  { name: 'before', example: 'before:2025-07-01', description: 'Uploaded before a date' },
+];
+
+// Text syntax that isn't an operator, for the same help
+export const SEARCH_TEXT_SYNTAX: Array<{ example: string; description: string }> = [
+  { example: '"mountain lake"', description: 'Exact phrase' },
+  { example: '-people', description: 'Exclude a word (or -"a phrase")' },
+  { example: 'cat OR dog', description: 'Either word' },
+];
+
+/**
+ * Filters set by operators - merged over the request's own filters by the search service
+ */
+export interface SearchSyntaxFilters {
+  category?: string;
+  orientation?: ImageOrientation;
+  tags?: string[];
+  colors?: string[];
+  createdAfter?: string; // YYYY-MM-DD, inclusive
+  createdBefore?: string; // YYYY-MM-DD, exclusive
+}
+
+export interface ParsedSearchQuery {
+  text: string; // The full-text part
+  filters: SearchSyntaxFilters;
+  operators: string[]; // Operator terms as typed (to rebuild a query around corrected text)
+}
+
+// An operator term (name:value or name:"quoted value"), a possibly excluded phrase, or any other word
+const TOKEN_PATTERN = /(-?)([A-Za-z]+):("[^"]*"?|[^\s"]*)|-?"[^"]*"?|\S+/g;
+
+const ORIENTATIONS: ImageOrientation[] = ['landscape', 'portrait', 'square'];
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function unknownOperatorError(name: string): string {
+  const closest = SEARCH_OPERATORS.map((operator) => operator.name)
+    .filter((candidate) => candidate.startsWith(name) || editDistance(name, candidate) <= 2)
+    .sort((a, b) => editDistance(name, a) - editDistance(name, b))[0];
+  const supported = SEARCH_OPERATORS.map((operator) => `${operator.name}:`).join(', ');
+  return (
+    `Unknown operator "${name}:".` +
+    (closest ? ` Did you mean "${closest}:"?` : '') +
+    ` Supported: ${supported}. Put text containing ":" in quotes to search for it.`
+  );
+}
+
+function isValidDate(value: string): boolean {
+  const match = value.match(DATE_PATTERN);
+  if (!match) return false;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Split a query into filter operators and full-text terms
+ * tag: and color: may repeat (any of them matches); category:, orientation:, after: and before: may not
+ * @returns The parsed query, or a message explaining what is wrong with it (for a 400 response)
+ */
+export function parseSearchSyntax(query: string): { parsed: ParsedSearchQuery; error?: undefined } | { parsed?: undefined; error: string } {
+  const textTerms: string[] = [];
+  const operators: string[] = [];
+  const filters: SearchSyntaxFilters = {};
+
+  // Single-value operators: a second, different value is an error
+  const setOnce = <K extends 'category' | 'orientation' | 'createdAfter' | 'createdBefore'>(
+    key: K,
+    name: string,
+    value: NonNullable<SearchSyntaxFilters[K]>
+  ): string | null => {
+    if (filters[key] !== undefined && filters[key] !== value) {
+      return `Only one "${name}:" is allowed per search`;
+    }
+    filters[key] = value;
+    return null;
+  };
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [term, negated, rawName, rawValue] = match;
+    if (rawName === undefined) {
+      textTerms.push(term);
+      continue;
+    }
+
+    const name = rawName.toLowerCase();
+    const value = rawValue.replace(/^"|"$/g, '').trim();
+    if (!SEARCH_OPERATORS.some((operator) => operator.name === name)) {
+      return { error: unknownOperatorError(name) };
+    }
+    if (negated) {
+      return { error: `"-${name}:" isn't supported - operators can't be excluded (use -word to exclude text)` };
+    }
+    if (!value) {
+      const example = SEARCH_OPERATORS.find((operator) => operator.name === name)!.example;
+      return { error: `"${name}:" needs a value, e.g. ${example}` };
+    }
+
+    let error: string | null = null;
+    switch (name) {
+      case 'tag':
+        filters.tags = [...(filters.tags || []), value];
+        break;
+      case 'category':
+        error = setOnce('category', name, value.toLowerCase());
+        break;
+      case 'orientation': {
+        const orientation = value.toLowerCase() as ImageOrientation;
+        if (!ORIENTATIONS.includes(orientation)) {
+          return { error: `Invalid orientation "${value}". Use ${ORIENTATIONS.join(', ')}` };
+        }
+        error = setOnce('orientation', name, orientation);
+        break;
+      }
+      case 'color': {
+        const color = value.toLowerCase();
+        if (!(COLOR_NAMES as string[]).includes(color)) {
+          return { error: `Unknown color "${value}". Use ${COLOR_NAMES.join(', ')}` };
+        }
+        if (!filters.colors?.includes(color)) filters.colors = [...(filters.colors || []), color];
+        break;
+      }
+      case 'after':
+      case 'before':
+        if (!isValidDate(value)) {
+          return { error: `Invalid date "${value}" for "${name}:". Use YYYY-MM-DD, e.g. ${name}:2025-01-01` };
+        }
+        error = setOnce(name === 'after' ? 'createdAfter' : 'createdBefore', name, value);
+        break;
+    }
+    if (error) return { error };
+    operators.push(term);
+  }
+
+  if (filters.createdAfter && filters.createdBefore && filters.createdAfter >= filters.createdBefore) {
+    return { error: `"after:${filters.createdAfter}" is not before "before:${filters.createdBefore}" - nothing can match` };
+  }
+
+  return { parsed: { text: textTerms.join(' '), filters, operators } };
+}
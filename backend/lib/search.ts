@@ -1,96 +1,362 @@
 /**
- * Advanced search with full-text search capabilities
+ * Search service - the one search path behind the gallery, /api/images, /api/images/search and /api/search
+ * Text search, filters, sorting, pagination, facets and spelling corrections, with results in the Image shape
  */
 
+import * as crypto from 'crypto';
 import { getPool } from './db';
+import { getErrorCode } from './db-retry';
 import { validateString, validatePagination } from './validation';
+import { resolveImageTags } from './tags';
+import { getSearchSynonyms, expandQueryVariants } from './tag-management';
+import { resolveImageCategories } from './categories';
+import { Image, ImageFilters, buildImageFilterConditions, mapImageRow } from './images';
+import { publicImageCondition } from './image-visibility';
+import { ImageFacets, FacetMatchCondition, queryImageFacets } from './facets';
+import { getDidYouMean, hasTrigramSupport } from './search-suggestions';
+import { tokenizeSearchQuery, escapeLikePattern } from './search-query';
+import { PageCursor, CursorKeyType, encodeCursor, decodeCursor } from './cursor';
+import { POPULARITY_SQL, DOWNLOADS_SQL } from './popularity';
+import { ParsedSearchQuery, parseSearchSyntax } from './search-syntax';
 
-export interface SearchOptions {
+// All tag names of the row being searched, space separated
+const TAG_NAMES_SQL = `COALESCE((
+  SELECT string_agg(t.name, ' ' ORDER BY it.position) FROM image_tags it JOIN tags t ON t.id = it.tag_id
+  WHERE it.image_id = generated_images.id
+), '')`;
+
+// Same weighting as the stored search_vector (migration 024), for databases that don't have it yet
+const INLINE_SEARCH_VECTOR_SQL = `(
+  setweight(to_tsvector('english', COALESCE(description, '')), 'A') ||
+  setweight(to_tsvector('english', ${TAG_NAMES_SQL}), 'B') ||
+  setweight(to_tsvector('english', COALESCE(prompt_used, '')), 'C')
+)`;
+
+// Snippet source, HTML-escaped so only the <mark> tags added by ts_headline are markup
+const HEADLINE_TEXT_SQL = `replace(replace(replace(
+  COALESCE(NULLIF(page.description, ''), page.prompt_used, ''),
+  '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+
+// Metadata columns of each result - never the binary image_data / thumbnail_data
+const RESULT_COLUMNS = `id, description, tag1, tag2, tag3, status,
+  image_width, image_height, image_size, image_mime_type,
+  created_at, updated_at, is_deleted, deleted_at`;
+
+export type SearchSort = 'relevance' | 'recent' | 'popular' | 'trending' | 'downloads' | 'random';
+export const SEARCH_SORTS: SearchSort[] = ['relevance', 'recent', 'popular', 'trending', 'downloads', 'random'];
+
+// Seeds for the random sort: the same seed gives the same shuffle
+const SEED_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export interface SearchOptions extends ImageFilters {
+  query?: string; // Web search syntax plus filter operators (search-syntax.ts); without one every image matching the filters is listed
+  sort?: SearchSort; // Default: relevance with a query, recent without
+  seed?: string; // Shuffle seed for the random sort (generated when missing)
+  limit?: number; // 1-100 (default: 40)
+  offset?: number; // Ignored when cursor is given
+  cursor?: string; // nextCursor of the previous page (keyset pagination)
+  facets?: boolean; // Also count facets for the filter sidebar (see facets.ts)
+}
+
+export interface SearchResult {
+  success: boolean;
+  data: Image[];
+  total: number;
+  hasMore: boolean;
+  nextCursor?: string; // Pass back as cursor for the next page; absent on the last page
+  seed?: string; // Random sort only - pass back to keep the same shuffle
+  didYouMean?: string; // Spelling-corrected query, when a search has no results
+  facets?: ImageFacets;
+  error?: string;
+  invalid?: boolean; // The options were rejected (bad request rather than a failure)
+}
+
+// A query ready to be turned into SQL (synonym variants are looked up once)
+interface TextSearch {
   query: string;
-  limit?: number;
-  offset?: number;
-  category?: string;
+  variants: string[]; // The query first, then synonym rewrites
+  plain: boolean; // No quotes, exclusions or OR - substring and fuzzy matching apply too
+  fuzzy: boolean; // pg_trgm is installed
+}
+
+// Optional columns, dropped when an older schema doesn't have them
+interface SchemaSupport {
+  searchVector: boolean; // Migration 024
+  blurhash: boolean;
+  popularity: boolean; // view_count / downloads (migration 005) and trending_score (migration 026)
+  variants: boolean; // image_variants table (migration 013)
+}
+
+async function prepareTextSearch(query: string): Promise<TextSearch> {
+  const synonyms = await getSearchSynonyms(query.split(/\s+/));
+  const tokens = tokenizeSearchQuery(query);
+  return {
+    query,
+    variants: expandQueryVariants(query, synonyms),
+    plain: tokens.every((token) => token.searchable && !token.open && !token.close),
+    fuzzy: await hasTrigramSupport(),
+  };
 }
 
 /**
- * Full-text search across prompt_used, description, tag1, tag2
+ * Build the text match condition (parameters from $1)
+ * Every query matches the weighted full-text vector, including synonym variants;
+ * plain queries also match description and tag name substrings and, with pg_trgm, close spellings
+ * @returns The condition, its values and the tsquery SQL (for ranking and headlines)
  */
-export async function fullTextSearch(options: SearchOptions) {
+function buildTextMatch(search: TextSearch, vectorSql: string): FacetMatchCondition & { tsQuery: string } {
+  const values: any[] = [...search.variants];
+  const tsQuery = `(${search.variants.map((_, i) => `websearch_to_tsquery('english', $${i + 1})`).join(' || ')})`;
+  let sql = `${vectorSql} @@ ${tsQuery}`;
+
+  if (search.plain) {
+    // push() returns the new length, which is the added value's parameter number
+    const patternParam = values.push(`%${escapeLikePattern(search.query)}%`);
+    let tagMatch = `t.name ILIKE $${patternParam}`;
+    sql += ` OR description ILIKE $${patternParam}`;
+    if (search.fuzzy) {
+      const rawParam = values.push(search.query);
+      sql += ` OR $${rawParam} <% description`;
+      tagMatch += ` OR t.name % $${rawParam}`;
+    }
+    sql += ` OR EXISTS (
+      SELECT 1 FROM image_tags it JOIN tags t ON t.id = it.tag_id
+      WHERE it.image_id = generated_images.id AND (${tagMatch})
+    )`;
+  }
+
+  return { sql: `(${sql})`, values, tsQuery };
+}
+
+/**
+ * Sort key expression for a sort order - results are ordered by (sort key, id), both descending,
+ * which is also the keyset the cursors page through
+ * @param rankSql - ts_rank expression of a text search
+ * @param seedParam - Parameter number of the random sort's seed
+ */
+function buildSortKey(sort: SearchSort, support: SchemaSupport, rankSql: string | null, seedParam: number | null): string {
+  switch (sort) {
+    case 'relevance':
+      return rankSql ?? 'created_at';
+    // Without the popularity columns every image scores 0 (newest IDs first) - the key keeps its type for cursors
+    case 'popular':
+      return support.popularity ? POPULARITY_SQL : '0';
+    case 'trending':
+      // Maintained by scripts/update-trending-scores.ts
+      return support.popularity ? 'trending_score' : '0::double precision';
+    case 'downloads':
+      return support.popularity ? DOWNLOADS_SQL : '0';
+    case 'random':
+      // A stable per-seed shuffle, so pages of one seed neither repeat nor skip images
+      return `md5(id::text || $${seedParam}::text)`;
+    case 'recent':
+    default:
+      return 'created_at';
+  }
+}
+
+/**
+ * Type of the sort key from buildSortKey, so cursors whose key can't be cast to it are rejected up front
+ * @param ranked - Whether the query has text to rank (relevance falls back to created_at without)
+ */
+function sortKeyType(sort: SearchSort, ranked: boolean): CursorKeyType {
+  switch (sort) {
+    case 'relevance':
+      return ranked ? 'number' : 'timestamp';
+    case 'popular':
+    case 'downloads':
+      return 'integer';
+    case 'trending':
+      return 'number';
+    case 'random':
+      return 'md5';
+    case 'recent':
+    default:
+      return 'timestamp';
+  }
+}
+
+// Cursors of the random sort belong to one seed
+const cursorSort = (sort: SearchSort, seed: string | undefined) => (sort === 'random' ? `random:${seed}` : sort);
+
+// Whether an image has responsive variants - the gallery only offers <picture> sources for those
+const HAS_VARIANTS_SQL = 'EXISTS (SELECT 1 FROM image_variants v WHERE v.image_id = generated_images.id) AS has_variants';
+
+/**
+ * Run a query, retrying without search_vector / blurhash / popularity columns or image_variants when the schema doesn't have them
+ */
+async function withSchemaFallbacks<T>(run: (support: SchemaSupport) => Promise<T>): Promise<T> {
+  const support: SchemaSupport = { searchVector: true, blurhash: true, popularity: true, variants: true };
+  for (;;) {
+    try {
+      return await run(support);
+    } catch (queryError) {
+      // 42703 = undefined_column
+      const code = getErrorCode(queryError);
+      const message = queryError instanceof Error ? queryError.message : '';
+      if (code === '42703' && support.searchVector && message.includes('search_vector')) {
+        support.searchVector = false;
+      } else if (code === '42703' && support.blurhash && message.includes('blurhash')) {
+        support.blurhash = false;
+      } else if (code === '42703' && support.popularity && /view_count|downloads|trending_score/.test(message)) {
+        support.popularity = false;
+      } else if (code === '42P01' && support.variants && message.includes('image_variants')) {
+        // 42P01 = undefined_table
+        support.variants = false;
+      } else {
+        throw queryError;
+      }
+    }
+  }
+}
+
+const vectorColumn = (support: SchemaSupport) =>
+  support.searchVector ? 'generated_images.search_vector' : INLINE_SEARCH_VECTOR_SQL;
+
+// Values from the request and from query operators, without duplicates
+const mergeLists = (a?: string[], b?: string[]) =>
+  a?.length || b?.length ? Array.from(new Set([...(a || []), ...(b || [])])) : undefined;
+
+/**
+ * Search and filter images
+ * Filter operators in the query (tag:, category:, orientation:, color:, after:, before:) are applied
+ * on top of the request's filters - a category or orientation operator replaces the request's, tags
+ * and colors are added to them. The rest of the query is searched as text.
+ * Text uses web search syntax: "quoted phrases", -excluded words and OR, ranked by matches in the
+ * description (weight A), tag names (B) and prompt (C). Tag synonyms and aliases are searched as well,
+ * and plain queries also match substrings and (with pg_trgm) close spellings.
+ * Text search results carry rank and headline (an HTML-escaped snippet with matches wrapped in <mark>)
+ */
+export async function searchImages(options: SearchOptions = {}): Promise<SearchResult> {
+  let query: string | undefined;
+  let limit: number;
+  let offset: number;
+  let cursor: PageCursor | null = null;
+  let syntax: ParsedSearchQuery | null = null;
+  const sort = options.sort ?? (options.query?.trim() ? 'relevance' : 'recent');
+  const seed = sort === 'random' ? options.seed || crypto.randomBytes(6).toString('base64url') : undefined;
+  try {
+    if (options.query?.trim()) {
+      const result = parseSearchSyntax(validateString(options.query, 500));
+      if (result.error !== undefined) throw new Error(result.error);
+      syntax = result.parsed;
+      query = syntax.text.trim() || undefined;
+    }
+    ({ limit, offset } = validatePagination(options.limit ?? 40, options.cursor ? 0 : options.offset ?? 0));
+    if (seed !== undefined && !SEED_PATTERN.test(seed)) {
+      throw new Error('Invalid seed: use up to 64 letters, digits, - or _');
+    }
+    if (options.cursor) {
+      cursor = decodeCursor(options.cursor, cursorSort(sort, seed), sortKeyType(sort, query !== undefined));
+      if (!cursor) throw new Error('Invalid cursor');
+    }
+  } catch (validationError) {
+    return {
+      success: false,
+      invalid: true,
+      error: validationError instanceof Error ? validationError.message : 'Invalid search',
+      data: [],
+      total: 0,
+      hasMore: false,
+    };
+  }
+
   const pool = getPool();
   try {
-    const validatedQuery = validateString(options.query, 500);
-    const { limit, offset } = validatePagination(options.limit, options.offset);
-    const client = await pool.connect();
-
-    // Build full-text search query
-    let query = `
-      SELECT 
-        *,
-        ts_rank(
-          to_tsvector('english', COALESCE(prompt_used, '') || ' ' || COALESCE(description, '') || ' ' || COALESCE(tag1, '') || ' ' || COALESCE(tag2, '')),
-          plainto_tsquery('english', $1)
-        ) as rank
-      FROM generated_images
-      WHERE 
-        (deleted_at IS NULL OR deleted_at = '')
-        AND (
-          to_tsvector('english', COALESCE(prompt_used, '') || ' ' || COALESCE(description, '') || ' ' || COALESCE(tag1, '') || ' ' || COALESCE(tag2, ''))
-          @@ plainto_tsquery('english', $1)
-        )
-    `;
+    const operators = syntax?.filters || {};
+    const filters: ImageFilters = {
+      category: operators.category ?? options.category,
+      orientation: operators.orientation ?? options.orientation,
+      tags: mergeLists(options.tags, operators.tags),
+      colors: mergeLists(options.colors, operators.colors),
+      createdAfter: operators.createdAfter ?? options.createdAfter,
+      createdBefore: operators.createdBefore ?? options.createdBefore,
+    };
+    const textSearch = query ? await prepareTextSearch(query) : null;
 
-    const params: any[] = [validatedQuery];
-    let paramCount = 2;
+    const { rows, total } = await withSchemaFallbacks(async (support) => {
+      const match = textSearch ? buildTextMatch(textSearch, vectorColumn(support)) : null;
+      const rankSql = match ? `ts_rank(${vectorColumn(support)}, ${match.tsQuery})` : null;
+      const params: any[] = match ? [...match.values] : [];
+      let where = `WHERE ${publicImageCondition()}`;
+      if (match) where += ` AND ${match.sql}`;
+      const conditions = buildImageFilterConditions(filters, params.length + 1);
+      where += conditions.sql;
+      params.push(...conditions.values);
 
-    // Add category filter if provided
-    if (options.category && options.category !== 'all') {
-      query += ` AND (tag1 ILIKE $${paramCount} OR tag2 ILIKE $${paramCount})`;
-      params.push(`%${options.category}%`);
-      paramCount++;
-    }
+      // The seed is only used by the list query (the count doesn't sort)
+      const listParams = [...params];
+      const seedParam = seed !== undefined ? listParams.push(seed) : null;
+      const sortKey = buildSortKey(sort, support, rankSql, seedParam);
+
+      // Continue strictly after the cursor's (sort key, id); the key's type is taken from the expression
+      let pageWhere = where;
+      if (cursor) {
+        listParams.push(cursor.key, cursor.id);
+        pageWhere += ` AND (${sortKey}, id) < ($${listParams.length - 1}, $${listParams.length})`;
+      }
+
+      // Rank and page first, then build headlines for the page only (ts_headline re-parses the text)
+      // One extra row tells whether there is a next page
+      const listSql = `
+        SELECT page.*${match ? `, ts_headline('english', ${HEADLINE_TEXT_SQL}, ${match.tsQuery}, '${HEADLINE_OPTIONS}') AS headline` : ''}
+        FROM (
+          SELECT ${RESULT_COLUMNS}${support.blurhash ? ', blurhash' : ''}${support.variants ? `, ${HAS_VARIANTS_SQL}` : ''},
+            ${match ? `prompt_used, ${rankSql}` : '0'} AS rank,
+            ${sortKey} AS sort_value, (${sortKey})::text AS sort_key
+          FROM generated_images
+          ${pageWhere}
+          ORDER BY ${sortKey} DESC, id DESC
+          LIMIT $${listParams.length + 1} OFFSET $${listParams.length + 2}
+        ) AS page
+        ORDER BY sort_value DESC, id DESC`;
 
-    // Order by relevance (rank) and then by date
-    query += ` ORDER BY rank DESC, created_at DESC LIMIT $${paramCount} OFFSET $${paramCount + 1}`;
-    params.push(limit, offset);
+      const [listResult, countResult] = await Promise.all([
+        pool.query(listSql, [...listParams, limit + 1, offset]),
+        pool.query(`SELECT COUNT(*)::int AS count FROM generated_images ${where}`, params),
+      ]);
+      return { rows: listResult.rows, total: countResult.rows[0].count as number };
+    });
+
+    const hasMore = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
+    const last = pageRows[pageRows.length - 1];
+
+    const facets = options.facets
+      ? await withSchemaFallbacks((support) =>
+          queryImageFacets(filters, textSearch ? buildTextMatch(textSearch, vectorColumn(support)) : undefined)
+        )
+      : undefined;
+    // Corrections are for the text - the operators are kept as typed
+    const correctedText = query && total === 0 && offset === 0 && !cursor ? await getDidYouMean(query) : null;
+    const didYouMean = correctedText ? [correctedText, ...(syntax?.operators || [])].join(' ') : null;
 
-    const result = await client.query(query, params);
-    client.release();
+    const tagsByImage = await resolveImageTags(pageRows);
+    const categoriesByImage = await resolveImageCategories(pageRows);
 
     return {
       success: true,
-      data: result.rows.map(row => {
-        const tags: string[] = [];
-        if (row.tag1) tags.push(row.tag1);
-        if (row.tag2) tags.push(row.tag2);
-        
-        return {
-          id: row.id,
-          image_url: row.image_url,
-          image_file: row.image_file,
-          prompt_used: row.prompt_used,
-          description: row.description,
-          tag1: row.tag1,
-          tag2: row.tag2,
-          url: row.image_url || row.image_file || '',
-          title: row.description || row.prompt_used || `Image ${row.id}`,
-          author: 'system',
-          downloads: row.downloads || 0,
-          width: 600,
-          height: 400,
-          category: row.tag1 || 'uncategorized',
-          tags: tags,
-          type: 'photo' as const,
-          rank: row.rank,
-        };
-      }),
-      total: result.rows.length,
+      data: pageRows.map((row) => ({
+        ...mapImageRow(row, tagsByImage.get(row.id) || [], categoriesByImage.get(row.id)),
+        ...(textSearch ? { rank: row.rank, headline: row.headline } : {}),
+      })),
+      total,
+      hasMore,
+      ...(hasMore ? { nextCursor: encodeCursor({ sort: cursorSort(sort, seed), key: last.sort_key, id: last.id }) } : {}),
+      ...(seed !== undefined ? { seed } : {}),
+      ...(didYouMean ? { didYouMean } : {}),
+      ...(facets ? { facets } : {}),
     };
   } catch (error) {
-    console.error('Full-text search error:', error);
+    console.error('Search error:', error);
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
       data: [],
+      total: 0,
+      hasMore: false,
     };
   }
 }
@@ -0,0 +1,244 @@
+/**
+ * Login sessions (one per signed-in device)
+ * Clients hold an opaque random token; only its SHA-256 hash is stored. A session ends after
+ * SESSION_IDLE_DAYS without use (each use pushes the expiry back), SESSION_MAX_AGE_DAYS after
+ * sign-in at the latest, or when it is revoked.
+ */
+
+import * as crypto from 'crypto';
+import { getPool } from './db';
+import { validateId } from './validation';
+
+const TOKEN_BYTES = 32;
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/; // 32 bytes, base64url
+
+// Renew the expiry at most this often per session, so requests don't all write
+const RENEW_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SessionConfig {
+  idleMs: number; // Sliding expiry
+  maxAgeMs: number; // Absolute lifetime (also the cookie's Max-Age)
+}
+
+export interface ActiveSession {
+  id: number;
+  userId: number;
+  expiresAt: Date;
+}
+
+export interface SessionDevice {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+function readDays(value: string | undefined, fallback: number): number {
+  const days = parseFloat(value || '');
+  return Number.isFinite(days) && days > 0 ? days : fallback;
+}
+
+/**
+ * Session lifetimes from SESSION_IDLE_DAYS (default 14) and SESSION_MAX_AGE_DAYS (default 90)
+ */
+export function getSessionConfig(): SessionConfig {
+  const idleDays = readDays(process.env.SESSION_IDLE_DAYS, 14);
+  const maxAgeDays = Math.max(readDays(process.env.SESSION_MAX_AGE_DAYS, 90), idleDays);
+  return { idleMs: idleDays * DAY_MS, maxAgeMs: maxAgeDays * DAY_MS };
+}
+
+/**
+ * When a session used at `now` expires: after the idle period, but never past its maximum age
+ */
+export function computeSessionExpiry(createdAt: Date, now: Date, config: SessionConfig = getSessionConfig()): Date {
+  return new Date(Math.min(now.getTime() + config.idleMs, createdAt.getTime() + config.maxAgeMs));
+}
+
+/**
+ * Hash a session token for storage and lookup
+ */
+export function hashSessionToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Start a session for a user
+ * @returns The token to hand to the client (it is not stored) and the session's expiry
+ */
+export async function createSession(userId: number, device: SessionDevice = {}) {
+  const pool = getPool();
+  try {
+    const validatedUserId = validateId(userId);
+    const token = crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+    const now = new Date();
+    const expiresAt = computeSessionExpiry(now, now);
+
+    const result = await pool.query(
+      `INSERT INTO sessions (user_id, token_hash, user_agent, ip_address, created_at, last_used_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $5, $6)
+       RETURNING id`,
+      [validatedUserId, hashSessionToken(token), device.userAgent?.slice(0, 512) || null, device.ipAddress?.slice(0, 64) || null, now, expiresAt]
+    );
+
+    // Forget this user's finished sessions
+    await pool.query(
+      'DELETE FROM sessions WHERE user_id = $1 AND (expires_at <= NOW() OR revoked_at IS NOT NULL)',
+      [validatedUserId]
+    );
+
+    return {
+      success: true,
+      data: { token, sessionId: Number(result.rows[0].id), expiresAt },
+    };
+  } catch (error) {
+    console.error('Error creating session:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Look up the live session for a token, renewing its expiry when due
+ */
+export async function validateSession(token: string): Promise<{ success: boolean; data?: ActiveSession; error?: string }> {
+  if (!TOKEN_PATTERN.test(token)) {
+    return { success: false, error: 'Invalid session' };
+  }
+
+  const pool = getPool();
+  try {
+    const result = await pool.query(
+      `SELECT id, user_id, created_at, last_used_at, expires_at
+       FROM sessions
+       WHERE token_hash = $1 AND revoked_at IS NULL AND expires_at > NOW()`,
+      [hashSessionToken(token)]
+    );
+    if (result.rows.length === 0) {
+      return { success: false, error: 'Invalid session' };
+    }
+
+    const session = result.rows[0];
+    let expiresAt: Date = session.expires_at;
+    const now = new Date();
+    if (now.getTime() - new Date(session.last_used_at).getTime() > RENEW_INTERVAL_MS) {
+      expiresAt = computeSessionExpiry(new Date(session.created_at), now);
+      await pool.query(
+        'UPDATE sessions SET last_used_at = $2, expires_at = $3 WHERE id = $1',
+        [session.id, now, expiresAt]
+      );
+    }
+
+    return {
+      success: true,
+      data: { id: Number(session.id), userId: session.user_id, expiresAt },
+    };
+  } catch (error) {
+    console.error('Error validating session:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * A user's live sessions (signed-in devices), most recently used first
+ */
+export async function listSessions(userId: number) {
+  const pool = getPool();
+  try {
+    const validatedUserId = validateId(userId);
+    const result = await pool.query(
+      `SELECT id, user_agent, ip_address, created_at, last_used_at, expires_at
+       FROM sessions
+       WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+       ORDER BY last_used_at DESC`,
+      [validatedUserId]
+    );
+
+    return {
+      success: true,
+      data: result.rows.map((row) => ({
+        id: Number(row.id),
+        userAgent: row.user_agent,
+        ipAddress: row.ip_address,
+        createdAt: row.created_at,
+        lastUsedAt: row.last_used_at,
+        expiresAt: row.expires_at,
+      })),
+    };
+  } catch (error) {
+    console.error('Error listing sessions:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      data: [],
+    };
+  }
+}
+
+/**
+ * Revoke the session behind a token (logout)
+ */
+export async function revokeSession(token: string) {
+  const pool = getPool();
+  try {
+    await pool.query(
+      'UPDATE sessions SET revoked_at = NOW() WHERE token_hash = $1 AND revoked_at IS NULL',
+      [hashSessionToken(token)]
+    );
+    return { success: true };
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Revoke one of a user's sessions (sign out a device)
+ */
+export async function revokeSessionById(userId: number, sessionId: number) {
+  const pool = getPool();
+  try {
+    const result = await pool.query(
+      'UPDATE sessions SET revoked_at = NOW() WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL',
+      [validateId(sessionId), validateId(userId)]
+    );
+    if (result.rowCount === 0) {
+      return { success: false, error: 'Session not found' };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Revoke every session of a user (logout everywhere)
+ * @returns How many sessions were revoked
+ */
+export async function revokeAllSessions(userId: number) {
+  const pool = getPool();
+  try {
+    const result = await pool.query(
+      'UPDATE sessions SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL',
+      [validateId(userId)]
+    );
+    return { success: true, data: { revoked: result.rowCount ?? 0 } };
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -0,0 +1,544 @@
+/**
+ * Tag curation: usage listing, merge suggestions, merges, aliases and synonyms
+ *
+ * - Merging moves every image from the source tags onto the target in one transaction,
+ *   deletes the sources and keeps their slugs as aliases of the target
+ * - Aliases are extra slugs for a tag (URLs, filters and new tagging follow them)
+ * - Synonyms are distinct tags that search treats as interchangeable
+ */
+
+import { PoolClient } from 'pg';
+import { getPool } from './db';
+import { getErrorCode } from './db-retry';
+import { slugifyTag } from './tags';
+import { tokenizeSearchQuery, joinSearchQuery } from './search-query';
+
+export interface TagUsage {
+  id: number;
+  slug: string;
+  name: string;
+  usageCount: number;
+  aliases: string[];
+  synonyms: string[]; // Slugs of synonym tags
+}
+
+// Result of alias and synonym changes - notFound/invalid tell callers which client error it was
+export interface TagChangeResult {
+  success: boolean;
+  error?: string;
+  notFound?: boolean;
+  invalid?: boolean;
+}
+
+export type TagMergeReason = 'spacing' | 'plural' | 'spelling';
+
+export interface TagMergeSuggestion {
+  tags: Array<{ slug: string; name: string; usageCount: number }>;
+  target: string; // Slug of the most used tag in the group
+  reason: TagMergeReason;
+}
+
+// Tags considered for merge suggestions (most used first)
+const SUGGESTION_TAG_LIMIT = 2000;
+// Max search query variants produced by synonym expansion
+const MAX_QUERY_VARIANTS = 10;
+
+/**
+ * Levenshtein distance, giving up once it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Singular form of a slug's last word (naive English rules)
+ */
+function singularize(slug: string): string {
+  if (slug.endsWith('ies') && slug.length > 4) return `${slug.slice(0, -3)}y`;
+  if (/(ches|shes|sses|xes)$/.test(slug)) return slug.slice(0, -2);
+  if (slug.endsWith('s') && !slug.endsWith('ss') && slug.length > 3) return slug.slice(0, -1);
+  return slug;
+}
+
+/**
+ * Find groups of tags that are probably the same tag spelled differently
+ * - spacing: same letters once dashes are ignored ("city-scape" / "cityscape")
+ * - plural: same word in singular form ("mountains" / "mountain")
+ * - spelling: one edit apart, for slugs of 5+ characters ("architecure" / "architecture")
+ * Each tag appears in at most one group (the first reason that matches it)
+ */
+export function findNearDuplicateTags(
+  tags: Array<{ slug: string; name: string; usageCount: number }>
+): TagMergeSuggestion[] {
+  const suggestions: TagMergeSuggestion[] = [];
+  const grouped = new Set<string>();
+
+  const addGroups = (reason: TagMergeReason, keyOf: (slug: string) => string) => {
+    const groups = new Map<string, typeof tags>();
+    for (const tag of tags) {
+      if (grouped.has(tag.slug)) continue;
+      const key = keyOf(tag.slug);
+      const group = groups.get(key);
+      if (group) group.push(tag);
+      else groups.set(key, [tag]);
+    }
+    for (const group of Array.from(groups.values())) {
+      if (group.length < 2) continue;
+      const sorted = [...group].sort((a, b) => b.usageCount - a.usageCount || a.slug.localeCompare(b.slug));
+      sorted.forEach((tag) => grouped.add(tag.slug));
+      suggestions.push({ tags: sorted, target: sorted[0].slug, reason });
+    }
+  };
+
+  addGroups('spacing', (slug) => slug.replace(/-/g, ''));
+  addGroups('plural', (slug) => singularize(slug));
+
+  // Spelling: only compare slugs with the same first letter and similar length
+  const candidates = tags
+    .filter((tag) => !grouped.has(tag.slug) && tag.slug.length >= 5)
+    .sort((a, b) => a.slug.localeCompare(b.slug));
+  for (let i = 0; i < candidates.length; i++) {
+    const a = candidates[i];
+    if (grouped.has(a.slug)) continue;
+    for (let j = i + 1; j < candidates.length && candidates[j].slug[0] === a.slug[0]; j++) {
+      const b = candidates[j];
+      if (grouped.has(b.slug) || editDistance(a.slug, b.slug, 1) > 1) continue;
+      const sorted = [a, b].sort((x, y) => y.usageCount - x.usageCount || x.slug.localeCompare(y.slug));
+      grouped.add(a.slug);
+      grouped.add(b.slug);
+      suggestions.push({ tags: sorted, target: sorted[0].slug, reason: 'spelling' });
+      break;
+    }
+  }
+
+  const usage = (suggestion: TagMergeSuggestion) =>
+    suggestion.tags.reduce((sum, tag) => sum + tag.usageCount, 0);
+  return suggestions.sort((a, b) => usage(b) - usage(a));
+}
+
+/**
+ * Expand a search query with synonyms by substituting one word at a time
+ * ("city night" with city ~ urban -> ["city night", "urban night"])
+ * Understands websearch_to_tsquery syntax: quotes are kept around substituted words,
+ * while OR and excluded words or phrases (-city, -"city night") are left alone
+ * @param synonyms - Map of word slug to replacement terms
+ * @returns The original query followed by up to maxVariants - 1 variants
+ */
+export function expandQueryVariants(
+  query: string,
+  synonyms: Map<string, string[]>,
+  maxVariants: number = MAX_QUERY_VARIANTS
+): string[] {
+  const tokens = tokenizeSearchQuery(query);
+  const variants = [query.trim()];
+  const seen = new Set(variants.map((variant) => variant.toLowerCase()));
+
+  tokens.forEach((token, index) => {
+    if (!token.searchable) return;
+    for (const replacement of synonyms.get(slugifyTag(token.core)) || []) {
+      if (variants.length >= maxVariants) return;
+      const variant = joinSearchQuery(tokens, new Map([[index, replacement]]));
+      if (seen.has(variant.toLowerCase())) continue;
+      seen.add(variant.toLowerCase());
+      variants.push(variant);
+    }
+  });
+  return variants;
+}
+
+/**
+ * Get synonym terms for search words
+ * A word matching an alias also gets its tag's name, so "city-scape" finds "Cityscape"
+ * @returns Map of word slug to tag names to search for as well (empty when migration 023 hasn't run)
+ */
+export async function getSearchSynonyms(words: string[]): Promise<Map<string, string[]>> {
+  const synonyms = new Map<string, string[]>();
+  const slugs = Array.from(new Set(words.map(slugifyTag).filter(Boolean)));
+  if (slugs.length === 0) {
+    return synonyms;
+  }
+
+  try {
+    const result = await getPool().query(
+      `WITH matched AS (
+         SELECT input.slug AS word, t.id, t.name, t.slug
+         FROM UNNEST($1::text[]) AS input(slug)
+         JOIN tags t ON t.slug = input.slug
+           OR t.id IN (SELECT tag_id FROM tag_aliases a WHERE a.slug = input.slug)
+       )
+       SELECT m.word, s.name
+       FROM matched m
+       JOIN tag_synonyms ts ON m.id IN (ts.tag_id, ts.synonym_id)
+       JOIN tags s ON s.id = CASE WHEN ts.tag_id = m.id THEN ts.synonym_id ELSE ts.tag_id END
+       UNION
+       SELECT m.word, m.name FROM matched m WHERE m.slug <> m.word`,
+      [slugs]
+    );
+
+    for (const row of result.rows) {
+      const terms = synonyms.get(row.word);
+      if (terms) terms.push(row.name);
+      else synonyms.set(row.word, [row.name]);
+    }
+    return synonyms;
+  } catch (error) {
+    // 42P01 = undefined_table
+    if (getErrorCode(error) === '42P01') {
+      return synonyms;
+    }
+    throw error;
+  }
+}
+
+/**
+ * List tags with usage counts, aliases and synonyms (most used first)
+ * @param options.search - Matches slug prefixes and name substrings
+ */
+export async function listTags(options: { search?: string; limit?: number; offset?: number } = {}): Promise<{
+  success: boolean;
+  data: TagUsage[];
+  total: number;
+  error?: string;
+}> {
+  const limit = Math.min(Math.max(options.limit || 50, 1), 200);
+  const offset = Math.max(options.offset || 0, 0);
+  const search = options.search?.trim() || null;
+
+  try {
+    const pool = getPool();
+    const where = `WHERE ($1::text IS NULL OR t.slug LIKE $2::text || '%' OR t.name ILIKE '%' || $1::text || '%')`;
+    const searchParams = [search, search ? slugifyTag(search) : null];
+
+    const [result, countResult] = await Promise.all([
+      pool.query(
+        `SELECT
+          t.id, t.slug, t.name,
+          (SELECT COUNT(*)::int FROM image_tags it WHERE it.tag_id = t.id) AS usage_count,
+          ARRAY(SELECT a.slug FROM tag_aliases a WHERE a.tag_id = t.id ORDER BY a.slug) AS aliases,
+          ARRAY(
+            SELECT s.slug FROM tag_synonyms ts
+            JOIN tags s ON s.id = CASE WHEN ts.tag_id = t.id THEN ts.synonym_id ELSE ts.tag_id END
+            WHERE t.id IN (ts.tag_id, ts.synonym_id)
+            ORDER BY s.slug
+          ) AS synonyms
+        FROM tags t
+        ${where}
+        ORDER BY usage_count DESC, t.slug
+        LIMIT $3 OFFSET $4`,
+        [...searchParams, limit, offset]
+      ),
+      pool.query(`SELECT COUNT(*)::int AS count FROM tags t ${where}`, searchParams),
+    ]);
+
+    return {
+      success: true,
+      data: result.rows.map((row) => ({
+        id: row.id,
+        slug: row.slug,
+        name: row.name,
+        usageCount: row.usage_count,
+        aliases: row.aliases,
+        synonyms: row.synonyms,
+      })),
+      total: countResult.rows[0].count,
+    };
+  } catch (error) {
+    console.error('Error listing tags:', error);
+    return {
+      success: false,
+      data: [],
+      total: 0,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Suggest groups of near-duplicate tags to merge
+ * Looks at the SUGGESTION_TAG_LIMIT most used tags
+ */
+export async function suggestTagMerges(limit: number = 50): Promise<TagMergeSuggestion[]> {
+  const result = await getPool().query(
+    `SELECT t.slug, t.name, COUNT(it.image_id)::int AS usage_count
+     FROM tags t LEFT JOIN image_tags it ON it.tag_id = t.id
+     GROUP BY t.id
+     ORDER BY usage_count DESC, t.slug
+     LIMIT $1`,
+    [SUGGESTION_TAG_LIMIT]
+  );
+
+  return findNearDuplicateTags(
+    result.rows.map((row) => ({ slug: row.slug, name: row.name, usageCount: row.usage_count }))
+  ).slice(0, limit);
+}
+
+/**
+ * Look up tags by slug (or alias), locking them for the rest of the transaction
+ */
+async function lockTags(client: PoolClient, slugs: string[]): Promise<Map<string, { id: number; slug: string; name: string }>> {
+  const result = await client.query(
+    `SELECT input.slug AS requested, t.id, t.slug, t.name
+     FROM UNNEST($1::text[]) AS input(slug)
+     JOIN tags t ON t.slug = input.slug
+       OR t.id IN (SELECT tag_id FROM tag_aliases a WHERE a.slug = input.slug)
+     FOR UPDATE OF t`,
+    [slugs]
+  );
+  return new Map(result.rows.map((row) => [row.requested, { id: row.id, slug: row.slug, name: row.name }]));
+}
+
+/**
+ * Run a function in a transaction on its own client
+ */
+async function inTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Merge tags into a target tag
+ * Every image tagged with a source gets the target instead (at the source's position),
+ * the sources are deleted and their slugs become aliases of the target, and synonyms move over.
+ * All in one transaction - tag1..tag3 of the affected images are rewritten to match.
+ * @param sources - Tags to merge away (names, slugs or aliases)
+ * @param target - Tag to keep
+ */
+export async function mergeTags(sources: string[], target: string): Promise<{
+  success: boolean;
+  data?: { target: string; merged: string[]; imagesUpdated: number };
+  error?: string;
+  notFound?: string[];
+  invalid?: boolean;
+}> {
+  const targetSlug = slugifyTag(target);
+  const sourceSlugs = Array.from(new Set(sources.map(slugifyTag).filter((slug) => slug && slug !== targetSlug)));
+
+  if (!targetSlug || sourceSlugs.length === 0) {
+    return { success: false, error: 'A target tag and at least one other source tag are required', invalid: true };
+  }
+
+  try {
+    return await inTransaction(async (client) => {
+      const found = await lockTags(client, [targetSlug, ...sourceSlugs]);
+      const notFound = [targetSlug, ...sourceSlugs].filter((slug) => !found.has(slug));
+      if (notFound.length > 0) {
+        return { success: false, error: `Unknown tags: ${notFound.join(', ')}`, notFound };
+      }
+
+      const targetTag = found.get(targetSlug)!;
+      const sourceTags = Array.from(
+        new Map(sourceSlugs.map((slug) => found.get(slug)!).map((tag) => [tag.id, tag])).values()
+      ).filter((tag) => tag.id !== targetTag.id);
+      if (sourceTags.length === 0) {
+        return { success: false, error: 'Source tags are already aliases of the target', invalid: true };
+      }
+      const sourceIds = sourceTags.map((tag) => tag.id);
+
+      const affected = await client.query(
+        'SELECT DISTINCT image_id FROM image_tags WHERE tag_id = ANY($1::int[])',
+        [sourceIds]
+      );
+      const imageIds: number[] = affected.rows.map((row) => row.image_id);
+
+      // Move images over, keeping the earliest position when an image had several of the tags
+      await client.query(
+        `INSERT INTO image_tags (image_id, tag_id, position)
+         SELECT image_id, $1, MIN(position) FROM image_tags
+         WHERE tag_id = ANY($2::int[])
+         GROUP BY image_id
+         ON CONFLICT (image_id, tag_id) DO UPDATE SET position = LEAST(image_tags.position, EXCLUDED.position)`,
+        [targetTag.id, sourceIds]
+      );
+
+      // Synonyms of the sources become synonyms of the target
+      await client.query(
+        `INSERT INTO tag_synonyms (tag_id, synonym_id)
+         SELECT DISTINCT LEAST($1::int, other), GREATEST($1::int, other)
+         FROM (
+           SELECT CASE WHEN tag_id = ANY($2::int[]) THEN synonym_id ELSE tag_id END AS other
+           FROM tag_synonyms
+           WHERE tag_id = ANY($2::int[]) OR synonym_id = ANY($2::int[])
+         ) AS synonyms
+         WHERE other <> $1 AND NOT (other = ANY($2::int[]))
+         ON CONFLICT DO NOTHING`,
+        [targetTag.id, sourceIds]
+      );
+
+      // Existing aliases of the sources, then the sources' own slugs, point at the target
+      await client.query('UPDATE tag_aliases SET tag_id = $1 WHERE tag_id = ANY($2::int[])', [targetTag.id, sourceIds]);
+      await client.query(
+        `INSERT INTO tag_aliases (slug, tag_id)
+         SELECT slug, $1 FROM UNNEST($2::text[]) AS input(slug)
+         ON CONFLICT (slug) DO UPDATE SET tag_id = EXCLUDED.tag_id`,
+        [targetTag.id, sourceTags.map((tag) => tag.slug)]
+      );
+
+      // Cascades to the sources' image_tags and tag_synonyms rows
+      await client.query('DELETE FROM tags WHERE id = ANY($1::int[])', [sourceIds]);
+
+      await mirrorTagColumns(client, imageIds);
+
+      return {
+        success: true,
+        data: {
+          target: targetTag.slug,
+          merged: sourceTags.map((tag) => tag.slug),
+          imagesUpdated: imageIds.length,
+        },
+      };
+    });
+  } catch (error) {
+    console.error('Error merging tags:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Rewrite tag1..tag3 of the given images from image_tags
+ */
+async function mirrorTagColumns(client: PoolClient, imageIds: number[]): Promise<void> {
+  if (imageIds.length === 0) {
+    return;
+  }
+
+  await client.query(
+    `UPDATE generated_images g
+     SET tag1 = m.names[1], tag2 = m.names[2], tag3 = m.names[3], updated_at = CURRENT_TIMESTAMP
+     FROM (
+       SELECT it.image_id, array_agg(t.name ORDER BY it.position, t.name) AS names
+       FROM image_tags it JOIN tags t ON t.id = it.tag_id
+       WHERE it.image_id = ANY($1::int[])
+       GROUP BY it.image_id
+     ) AS m
+     WHERE g.id = m.image_id`,
+    [imageIds]
+  );
+}
+
+/**
+ * Add an alias slug for a tag
+ * Fails if the alias is itself a tag - merge it instead
+ */
+export async function addTagAlias(alias: string, tag: string): Promise<TagChangeResult> {
+  const aliasSlug = slugifyTag(alias);
+  const tagSlug = slugifyTag(tag);
+  if (!aliasSlug || !tagSlug) {
+    return { success: false, error: 'alias and tag are required', invalid: true };
+  }
+
+  try {
+    const pool = getPool();
+    const existing = await pool.query('SELECT 1 FROM tags WHERE slug = $1', [aliasSlug]);
+    if (existing.rows.length > 0) {
+      return { success: false, error: `"${aliasSlug}" is already a tag - merge it instead`, invalid: true };
+    }
+
+    const result = await pool.query(
+      `INSERT INTO tag_aliases (slug, tag_id)
+       SELECT $1, t.id FROM tags t
+       WHERE t.slug = $2 OR t.id IN (SELECT tag_id FROM tag_aliases a WHERE a.slug = $2)
+       LIMIT 1
+       ON CONFLICT (slug) DO UPDATE SET tag_id = EXCLUDED.tag_id
+       RETURNING slug`,
+      [aliasSlug, tagSlug]
+    );
+    if (result.rows.length === 0) {
+      return { success: false, error: `Unknown tag: ${tagSlug}`, notFound: true };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Error adding tag alias:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Remove an alias slug
+ */
+export async function removeTagAlias(alias: string): Promise<TagChangeResult> {
+  try {
+    const result = await getPool().query('DELETE FROM tag_aliases WHERE slug = $1', [slugifyTag(alias)]);
+    if (result.rowCount === 0) {
+      return { success: false, error: 'Alias not found', notFound: true };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Error removing tag alias:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Mark two tags as synonyms (or unmark them with remove = true)
+ */
+export async function setTagSynonym(
+  tag: string,
+  synonym: string,
+  remove: boolean = false
+): Promise<TagChangeResult> {
+  const slugs = [slugifyTag(tag), slugifyTag(synonym)];
+  if (!slugs[0] || !slugs[1]) {
+    return { success: false, error: 'tag and synonym are required', invalid: true };
+  }
+
+  try {
+    return await inTransaction(async (client) => {
+      const found = await lockTags(client, slugs);
+      const missing = slugs.filter((slug) => !found.has(slug));
+      if (missing.length > 0) {
+        return { success: false, error: `Unknown tags: ${missing.join(', ')}`, notFound: true };
+      }
+
+      const [a, b] = slugs.map((slug) => found.get(slug)!.id);
+      if (a === b) {
+        return { success: false, error: 'A tag cannot be its own synonym', invalid: true };
+      }
+
+      if (remove) {
+        await client.query(
+          'DELETE FROM tag_synonyms WHERE tag_id = $1 AND synonym_id = $2',
+          [Math.min(a, b), Math.max(a, b)]
+        );
+      } else {
+        await client.query(
+          'INSERT INTO tag_synonyms (tag_id, synonym_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+          [Math.min(a, b), Math.max(a, b)]
+        );
+      }
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Error updating tag synonym:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * Normalized image tags (tags + image_tags tables)
+ * Images can have any number of tags; each tag is stored once under a URL-safe slug
+ * ("Smart Home" -> "smart-home") and filters match slugs exactly or by prefix
+ * Alias slugs (tag_aliases, e.g. left behind by a merge) resolve to their tag when tagging and filtering
+ *
+ * tag1..tag3 on generated_images are kept as a mirror of the first three tags
+ * for code that still reads them
+ */
+
+import { PoolClient } from 'pg';
+import { getPool } from './db';
+import { getErrorCode } from './db-retry';
+
+export const MAX_TAGS_PER_IMAGE = 30;
+export const MAX_TAG_LENGTH = 100;
+
+export interface TagInput {
+  slug: string;
+  name: string; // Display name - first spelling seen wins
+}
+
+/**
+ * Convert a tag name to its slug: lowercase ASCII letters and digits joined by single dashes
+ * Keep in sync with the slug expression in migration 021_add_tags.sql
+ */
+export function slugifyTag(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Clean up a tag list: trim names, drop empty ones, dedupe by slug (first spelling wins)
+ * @throws If more than MAX_TAGS_PER_IMAGE distinct tags remain
+ */
+export function normalizeTags(names: Array<string | null | undefined>): TagInput[] {
+  const seen = new Set<string>();
+  const tags: TagInput[] = [];
+
+  for (const raw of names) {
+    if (typeof raw !== 'string') continue;
+    const name = raw.trim().replace(/\s+/g, ' ').substring(0, MAX_TAG_LENGTH);
+    const slug = slugifyTag(name);
+    if (!slug || seen.has(slug)) continue;
+    seen.add(slug);
+    tags.push({ slug, name });
+  }
+
+  if (tags.length > MAX_TAGS_PER_IMAGE) {
+    throw new Error(`Images can have at most ${MAX_TAGS_PER_IMAGE} tags`);
+  }
+  return tags;
+}
+
+/**
+ * Split tag filter values into exact slugs and prefixes
+ * A trailing * makes a prefix filter: "nat*" matches "nature" and "national-park"
+ */
+export function parseTagFilter(values: string[]): { exact: string[]; prefixes: string[] } {
+  const exact = new Set<string>();
+  const prefixes = new Set<string>();
+
+  for (const value of values) {
+    const isPrefix = value.trim().endsWith('*');
+    const slug = slugifyTag(isPrefix ? value.trim().slice(0, -1) : value);
+    if (!slug) continue;
+    (isPrefix ? prefixes : exact).add(slug);
+  }
+
+  return { exact: Array.from(exact), prefixes: Array.from(prefixes) };
+}
+
+/**
+ * Build the WHERE condition matching images that have any of the given tags
+ * Exact values also match through tag aliases
+ * @param values - Tag filter values (names or slugs, trailing * for prefix)
+ * @param paramIndex - Index of the first query parameter to use
+ * @param imageIdColumn - Column holding the image ID in the outer query
+ * @returns SQL condition and its parameter values (null when no usable values)
+ */
+export function buildTagCondition(
+  values: string[],
+  paramIndex: number,
+  imageIdColumn: string = 'generated_images.id'
+): { sql: string; values: string[][] } | null {
+  const { exact, prefixes } = parseTagFilter(values);
+  if (exact.length === 0 && prefixes.length === 0) {
+    return null;
+  }
+
+  const matches: string[] = [];
+  const params: string[][] = [];
+  if (exact.length > 0) {
+    const index = paramIndex + params.length;
+    matches.push(`t.slug = ANY($${index}::text[]) OR t.id IN (SELECT tag_id FROM tag_aliases WHERE slug = ANY($${index}::text[]))`);
+    params.push(exact);
+  }
+  if (prefixes.length > 0) {
+    // Slugs only contain [a-z0-9-], so they need no LIKE escaping
+    matches.push(`t.slug LIKE ANY($${paramIndex + params.length}::text[])`);
+    params.push(prefixes.map((prefix) => `${prefix}%`));
+  }
+
+  return {
+    sql: `EXISTS (
+      SELECT 1 FROM image_tags it JOIN tags t ON t.id = it.tag_id
+      WHERE it.image_id = ${imageIdColumn} AND (${matches.join(' OR ')})
+    )`,
+    values: params,
+  };
+}
+
+/**
+ * Get the tag names of several images, in tag order
+ * @returns Map of image ID to tag names, or null when the tag tables don't exist yet (migration 021 not run)
+ */
+export async function getTagsForImages(imageIds: number[]): Promise<Map<number, string[]> | null> {
+  const tagsByImage = new Map<number, string[]>();
+  if (imageIds.length === 0) {
+    return tagsByImage;
+  }
+
+  try {
+    const result = await getPool().query(
+      `SELECT it.image_id, t.name
+       FROM image_tags it JOIN tags t ON t.id = it.tag_id
+       WHERE it.image_id = ANY($1::int[])
+       ORDER BY it.image_id, it.position, t.name`,
+      [imageIds]
+    );
+
+    for (const row of result.rows) {
+      const tags = tagsByImage.get(row.image_id);
+      if (tags) tags.push(row.name);
+      else tagsByImage.set(row.image_id, [row.name]);
+    }
+    return tagsByImage;
+  } catch (error) {
+    // 42P01 = undefined_table
+    if (getErrorCode(error) === '42P01') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Resolve image tags for API responses
+ * Uses the tag tables when available, otherwise the legacy tag1..tag3 columns
+ */
+export async function resolveImageTags(
+  rows: Array<{ id: number; tag1?: string | null; tag2?: string | null; tag3?: string | null }>
+): Promise<Map<number, string[]>> {
+  const tagsByImage = await getTagsForImages(rows.map((row) => row.id));
+  const resolved = new Map<number, string[]>();
+  for (const row of rows) {
+    resolved.set(
+      row.id,
+      tagsByImage
+        ? tagsByImage.get(row.id) || []
+        : [row.tag1, row.tag2, row.tag3].filter(Boolean) as string[]
+    );
+  }
+  return resolved;
+}
+
+// Set once tag_aliases is known to exist (migration 023)
+let tagAliasesAvailable = false;
+
+/**
+ * Check whether the tag_aliases table exists
+ * Uses to_regclass so a missing table can't abort the caller's transaction
+ */
+async function hasTagAliases(client: PoolClient): Promise<boolean> {
+  if (!tagAliasesAvailable) {
+    const result = await client.query(`SELECT to_regclass('tag_aliases') IS NOT NULL AS available`);
+    tagAliasesAvailable = result.rows[0].available;
+  }
+  return tagAliasesAvailable;
+}
+
+/**
+ * Replace alias slugs with the tags they point to (dropping any duplicates that creates)
+ */
+async function resolveAliases(client: PoolClient, tags: TagInput[]): Promise<TagInput[]> {
+  if (tags.length === 0 || !(await hasTagAliases(client))) {
+    return tags;
+  }
+
+  const result = await client.query(
+    `SELECT a.slug AS alias, t.slug, t.name
+     FROM tag_aliases a JOIN tags t ON t.id = a.tag_id
+     WHERE a.slug = ANY($1::text[])`,
+    [tags.map((tag) => tag.slug)]
+  );
+  const targets = new Map<string, TagInput>(
+    result.rows.map((row) => [row.alias, { slug: row.slug, name: row.name }])
+  );
+
+  const seen = new Set<string>();
+  const resolved: TagInput[] = [];
+  for (const tag of tags) {
+    const target = targets.get(tag.slug) || tag;
+    if (seen.has(target.slug)) continue;
+    seen.add(target.slug);
+    resolved.push(target);
+  }
+  return resolved;
+}
+
+/**
+ * Find the canonical slug for a tag URL segment
+ * Follows aliases ("city-scape" -> "cityscape") and normalizes spelling ("City Scape" -> "city-scape")
+ * @returns The tag's slug, or null if no tag or alias matches (or the tables don't exist yet)
+ */
+export async function resolveTagSlug(value: string): Promise<string | null> {
+  const slug = slugifyTag(value);
+  if (!slug) {
+    return null;
+  }
+
+  try {
+    const result = await getPool().query(
+      `SELECT slug FROM tags WHERE slug = $1
+       UNION ALL
+       SELECT t.slug FROM tag_aliases a JOIN tags t ON t.id = a.tag_id WHERE a.slug = $1
+       LIMIT 1`,
+      [slug]
+    );
+    return result.rows[0]?.slug || null;
+  } catch (error) {
+    // 42P01 = undefined_table
+    if (getErrorCode(error) === '42P01') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Replace an image's tags (order is kept)
+ * Creates missing tags, resolves aliases and mirrors the first three into tag1..tag3
+ * @param client - Pool client (pass one inside a transaction to make this atomic with other writes)
+ * @returns The normalized tag names, in order
+ */
+export async function setImageTags(client: PoolClient, imageId: number, names: Array<string | null | undefined>): Promise<string[]> {
+  const tags = await resolveAliases(client, normalizeTags(names));
+
+  if (tags.length > 0) {
+    // Existing tags keep their display name
+    await client.query(
+      `INSERT INTO tags (slug, name)
+       SELECT * FROM UNNEST($1::text[], $2::text[])
+       ON CONFLICT (slug) DO NOTHING`,
+      [tags.map((tag) => tag.slug), tags.map((tag) => tag.name)]
+    );
+  }
+
+  await client.query('DELETE FROM image_tags WHERE image_id = $1', [imageId]);
+
+  if (tags.length > 0) {
+    await client.query(
+      `INSERT INTO image_tags (image_id, tag_id, position)
+       SELECT $1, t.id, input.position - 1
+       FROM UNNEST($2::text[]) WITH ORDINALITY AS input(slug, position)
+       JOIN tags t ON t.slug = input.slug`,
+      [imageId, tags.map((tag) => tag.slug)]
+    );
+  }
+
+  await client.query(
+    `UPDATE generated_images SET tag1 = $1, tag2 = $2, tag3 = $3 WHERE id = $4`,
+    [tags[0]?.name || null, tags[1]?.name || null, tags[2]?.name || null, imageId]
+  );
+
+  return tags.map((tag) => tag.name);
+}
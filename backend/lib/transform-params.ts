@@ -0,0 +1,144 @@
+/**
+ * Transform parameters - presets, query parsing and cache keys for image-transforms.ts
+ * Only type imports from image-processing, so this module loads without sharp
+ *
+ * Every accepted combination becomes a stored derivative, so the public surface is
+ * an allow-list: named presets plus a fixed set of widths and qualities
+ */
+
+import type { CropStrategy, ResizeFit, ResizeFormat } from './image-processing';
+
+export type TransformFormat = 'original' | ResizeFormat;
+
+// 'display': the stripped WebP display image (public transforms)
+// 'original': the uploaded file (authenticated downloads only)
+export type TransformSource = 'display' | 'original';
+
+export interface TransformParams {
+  width?: number;
+  height?: number;
+  fit: ResizeFit;
+  format: TransformFormat; // 'original' keeps PNG as PNG and everything else as JPEG
+  quality?: number;
+  crop?: CropStrategy; // 'auto' (default): focal point if set, otherwise smart crop
+  source?: TransformSource; // Default: 'display'
+}
+
+export const TRANSFORM_WIDTHS = [96, 128, 256, 320, 480, 640, 960, 1280, 1920];
+export const TRANSFORM_QUALITIES = [50, 70, 85];
+export const TRANSFORM_FORMATS: TransformFormat[] = ['original', 'jpeg', 'png', 'webp', 'avif'];
+export const TRANSFORM_CROPS: CropStrategy[] = ['auto', 'attention', 'entropy', 'center'];
+
+/**
+ * Named presets - the only way to choose an aspect ratio or fit
+ * Crop presets use crop 'auto', so they honor each image's focal point
+ */
+export const TRANSFORM_PRESETS: Record<string, TransformParams> = {
+  '16x9': { width: 1920, height: 1080, fit: 'cover', format: 'original' }, // Landscape
+  '9x16': { width: 1080, height: 1920, fit: 'cover', format: 'original' }, // Portrait
+  '4x3': { width: 1600, height: 1200, fit: 'cover', format: 'webp' }, // Cards and covers
+  'square': { width: 1080, height: 1080, fit: 'cover', format: 'original' },
+  'og': { width: 1200, height: 630, fit: 'cover', format: 'jpeg', quality: 85 }, // Social share cards
+  'hd': { width: 1920, height: 1920, fit: 'inside', format: 'webp' },
+};
+
+/**
+ * Aspect-ratio downloads - same crop as the public preset, rendered from the original file
+ */
+export const DOWNLOAD_PRESETS: Record<'16x9' | '9x16', TransformParams> = {
+  '16x9': { ...TRANSFORM_PRESETS['16x9'], source: 'original' },
+  '9x16': { ...TRANSFORM_PRESETS['9x16'], source: 'original' },
+};
+
+export type ParseTransformResult =
+  | { success: true; params: TransformParams }
+  | { success: false; error: string };
+
+/**
+ * Parse and validate public transform query parameters
+ * Supports ?preset=name and/or ?w=&format=&q=&crop=
+ * With a preset, w scales the preset box (height follows its aspect ratio);
+ * without one, w alone fits the image inside that width
+ * Always renders from the display image
+ */
+export function parseTransformParams(query: URLSearchParams): ParseTransformResult {
+  if (query.has('h') || query.has('fit')) {
+    return { success: false, error: 'h and fit are not supported - use a preset for the aspect ratio' };
+  }
+
+  const presetName = query.get('preset');
+  let base: TransformParams = { fit: 'inside', format: 'original', crop: 'auto' };
+
+  if (presetName) {
+    const preset = TRANSFORM_PRESETS[presetName];
+    if (!preset) {
+      return {
+        success: false,
+        error: `Unknown preset "${presetName}". Allowed: ${Object.keys(TRANSFORM_PRESETS).join(', ')}`,
+      };
+    }
+    base = { ...preset };
+  }
+
+  const params: TransformParams = { ...base, source: 'display' };
+
+  const width = query.get('w');
+  if (width) {
+    const value = Number(width);
+    if (!TRANSFORM_WIDTHS.includes(value)) {
+      return { success: false, error: `Invalid w. Allowed: ${TRANSFORM_WIDTHS.join(', ')}` };
+    }
+    if (base.width && base.height) {
+      params.height = Math.round((value * base.height) / base.width);
+    }
+    params.width = value;
+  }
+
+  if (!params.width) {
+    return { success: false, error: 'Provide w or a preset' };
+  }
+
+  let format = query.get('format');
+  if (format) {
+    format = format.toLowerCase() === 'jpg' ? 'jpeg' : format.toLowerCase();
+    if (!TRANSFORM_FORMATS.includes(format as TransformFormat)) {
+      return { success: false, error: `Invalid format. Allowed: ${TRANSFORM_FORMATS.join(', ')}` };
+    }
+    params.format = format as TransformFormat;
+  }
+
+  const crop = query.get('crop');
+  if (crop) {
+    if (!TRANSFORM_CROPS.includes(crop as CropStrategy)) {
+      return { success: false, error: `Invalid crop. Allowed: ${TRANSFORM_CROPS.join(', ')}` };
+    }
+    params.crop = crop as CropStrategy;
+  }
+
+  const quality = query.get('q');
+  if (quality) {
+    const value = Number(quality);
+    if (!TRANSFORM_QUALITIES.includes(value)) {
+      return { success: false, error: `Invalid q. Allowed: ${TRANSFORM_QUALITIES.join(', ')}` };
+    }
+    params.quality = value;
+  }
+
+  return { success: true, params };
+}
+
+/**
+ * Canonical cache key for a set of parameters
+ * Equivalent requests (e.g. ?preset=16x9 and ?preset=16x9&w=1920) share one derivative
+ */
+export function buildTransformKey(params: TransformParams): string {
+  return [
+    `src=${params.source || 'display'}`,
+    `w=${params.width ?? ''}`,
+    `h=${params.height ?? ''}`,
+    `fit=${params.fit}`,
+    `format=${params.format}`,
+    `q=${params.quality ?? ''}`,
+    `crop=${params.crop || 'auto'}`,
+  ].join('&');
+}
@@ -4,8 +4,9 @@
  */
 
 import { getPool } from './db';
-import { validateString } from './validation';
-import * as crypto from 'crypto';
+import { validateString, validateEmail, validateNewPassword } from './validation';
+import { hashPassword, verifyPassword, needsRehash, verifyDummyPassword } from './kdf';
+import { UserRole, isUserRole, DEFAULT_USER_ROLE } from './roles';
 
 export interface User {
   id: number;
@@ -16,39 +17,31 @@ export interface User {
   created_at: Date;
   updated_at: Date;
   last_login?: Date;
-}
-
-/**
- * Hash password using SHA-256 (for demo - use bcrypt in production)
- */
-export function hashPassword(password: string): string {
-  return crypto.createHash('sha256').update(password).digest('hex');
-}
-
-/**
- * Verify password
- */
-export function verifyPassword(password: string, hash: string): boolean {
-  return hashPassword(password) === hash;
+  email_verified_at?: Date | null;
+  role: UserRole;
 }
 
 /**
  * Create a new user
+ * The email must be well-formed and the password must pass the strength rules (see validation.ts)
  */
 export async function createUser(email: string, password: string, name?: string) {
   const pool = getPool();
   try {
-    const validatedEmail = validateString(email, 255);
+    const validatedEmail = validateEmail(email);
+    const validatedPassword = validateNewPassword(password, validatedEmail);
     const validatedName = name ? validateString(name, 100) : null;
-    const passwordHash = hashPassword(password);
+    const passwordHash = await hashPassword(validatedPassword);
     
     const client = await pool.connect();
     
+    // Older rows may hold mixed-case emails, which the unique constraint alone wouldn't catch
     const result = await client.query(
       `INSERT INTO users (email, password_hash, name, auth_provider) 
-       VALUES ($1, $2, $3, $4) 
+       SELECT $1, $2, $3, $4
+       WHERE NOT EXISTS (SELECT 1 FROM users WHERE LOWER(email) = $1)
        ON CONFLICT (email) DO NOTHING
-       RETURNING id, email, name, auth_provider, created_at, updated_at`,
+       RETURNING id, email, name, auth_provider, role, created_at, updated_at`,
       [validatedEmail, passwordHash, validatedName, 'email']
     );
     
@@ -67,6 +60,8 @@ export async function createUser(email: string, password: string, name?: string)
         id: result.rows[0].id,
         email: result.rows[0].email,
         name: result.rows[0].name,
+        auth_provider: result.rows[0].auth_provider,
+        role: result.rows[0].role as UserRole,
         created_at: result.rows[0].created_at,
         updated_at: result.rows[0].updated_at,
       },
@@ -86,17 +81,20 @@ export async function createUser(email: string, password: string, name?: string)
 export async function authenticateUser(email: string, password: string) {
   const pool = getPool();
   try {
-    const validatedEmail = validateString(email, 255);
+    const validatedEmail = validateString(email, 255).toLowerCase();
     const client = await pool.connect();
     
     const result = await client.query(
-      'SELECT * FROM users WHERE email = $1',
+      'SELECT * FROM users WHERE LOWER(email) = $1',
       [validatedEmail]
     );
     
     client.release();
     
-    if (result.rows.length === 0) {
+    // Accounts without a password (Google sign-in) can't log in this way
+    if (result.rows.length === 0 || !result.rows[0].password_hash) {
+      // Take as long as a wrong password so response times don't reveal which emails exist
+      await verifyDummyPassword(password);
       return {
         success: false,
         error: 'Invalid email or password',
@@ -104,7 +102,7 @@ export async function authenticateUser(email: string, password: string) {
     }
     
     const user = result.rows[0];
-    const isValid = verifyPassword(password, user.password_hash);
+    const isValid = await verifyPassword(password, user.password_hash);
     
     if (!isValid) {
       return {
@@ -113,6 +111,11 @@ export async function authenticateUser(email: string, password: string) {
       };
     }
     
+    // Upgrade legacy SHA-256 and lower-cost hashes now that we have the password
+    if (needsRehash(user.password_hash)) {
+      await rehashPassword(user.id, user.password_hash, password);
+    }
+    
     // Update last login
     await updateLastLogin(user.id);
     
@@ -122,6 +125,9 @@ export async function authenticateUser(email: string, password: string) {
         id: user.id,
         email: user.email,
         name: user.name,
+        auth_provider: user.auth_provider || 'email',
+        email_verified: Boolean(user.email_verified_at),
+        role: (user.role || DEFAULT_USER_ROLE) as UserRole,
         created_at: user.created_at,
       },
     };
@@ -134,6 +140,24 @@ export async function authenticateUser(email: string, password: string) {
   }
 }
 
+/**
+ * Replace a user's password hash with one in the current format
+ * Only if it is still the hash that was verified, so a concurrent password change wins
+ */
+async function rehashPassword(userId: number, oldHash: string, password: string) {
+  const pool = getPool();
+  try {
+    const newHash = await hashPassword(password);
+    await pool.query(
+      'UPDATE users SET password_hash = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 AND password_hash = $3',
+      [newHash, userId, oldHash]
+    );
+  } catch (error) {
+    // The old hash still works - try again on the next login
+    console.error('Error upgrading password hash:', error);
+  }
+}
+
 /**
  * Update last login timestamp
  */
@@ -160,7 +184,7 @@ export async function getUserById(userId: number) {
     const client = await pool.connect();
     
     const result = await client.query(
-      'SELECT id, email, name, auth_provider, firebase_uid, created_at, updated_at, last_login FROM users WHERE id = $1',
+      'SELECT id, email, name, auth_provider, firebase_uid, created_at, updated_at, last_login, email_verified_at, role FROM users WHERE id = $1',
       [userId]
     );
     
@@ -186,6 +210,164 @@ export async function getUserById(userId: number) {
   }
 }
 
+/**
+ * Get user by email (case-insensitive)
+ */
+export async function getUserByEmail(email: string) {
+  const pool = getPool();
+  try {
+    const validatedEmail = validateString(email, 255).toLowerCase();
+    
+    const result = await pool.query(
+      'SELECT id, email, name, auth_provider, created_at, email_verified_at FROM users WHERE LOWER(email) = $1',
+      [validatedEmail]
+    );
+    
+    if (result.rows.length === 0) {
+      return {
+        success: false,
+        error: 'User not found',
+      };
+    }
+    
+    return {
+      success: true,
+      data: result.rows[0],
+    };
+  } catch (error) {
+    console.error('Error fetching user by email:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Mark a user's email address as verified (no-op if it already is)
+ */
+export async function markEmailVerified(userId: number) {
+  const pool = getPool();
+  try {
+    await pool.query(
+      'UPDATE users SET email_verified_at = CURRENT_TIMESTAMP WHERE id = $1 AND email_verified_at IS NULL',
+      [userId]
+    );
+    return { success: true };
+  } catch (error) {
+    console.error('Error marking email verified:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Set a new password for a user
+ * The password must pass the strength rules (see validation.ts); callers should end the user's sessions
+ */
+export async function setUserPassword(userId: number, password: string) {
+  const pool = getPool();
+  try {
+    const user = await pool.query('SELECT email FROM users WHERE id = $1', [userId]);
+    if (user.rows.length === 0) {
+      return {
+        success: false,
+        error: 'User not found',
+      };
+    }
+    
+    const validatedPassword = validateNewPassword(password, user.rows[0].email);
+    const passwordHash = await hashPassword(validatedPassword);
+    
+    await pool.query(
+      'UPDATE users SET password_hash = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+      [passwordHash, userId]
+    );
+    
+    return { success: true };
+  } catch (error) {
+    console.error('Error setting password:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Change a user's role
+ */
+export async function setUserRole(userId: number, role: UserRole) {
+  const pool = getPool();
+  try {
+    if (!isUserRole(role)) {
+      throw new Error('Invalid role');
+    }
+    
+    const result = await pool.query<Pick<User, 'id' | 'email' | 'name' | 'role'>>(
+      `UPDATE users SET role = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2
+       RETURNING id, email, name, role`,
+      [role, userId]
+    );
+    
+    if (result.rows.length === 0) {
+      return {
+        success: false,
+        error: 'User not found',
+      };
+    }
+    
+    return {
+      success: true,
+      data: result.rows[0],
+    };
+  } catch (error) {
+    console.error('Error setting user role:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * List users with their roles, newest first
+ * @param options.role - Only users with exactly this role
+ */
+export async function listUsers(options: { role?: UserRole; limit?: number; offset?: number } = {}) {
+  const pool = getPool();
+  try {
+    const where = options.role ? 'WHERE role = $1' : '';
+    const filterParams = options.role ? [options.role] : [];
+    const next = filterParams.length + 1;
+    
+    const [result, countResult] = await Promise.all([
+      pool.query<Pick<User, 'id' | 'email' | 'name' | 'auth_provider' | 'role' | 'created_at' | 'last_login'>>(
+        `SELECT id, email, name, auth_provider, role, created_at, last_login
+         FROM users ${where}
+         ORDER BY created_at DESC, id DESC
+         LIMIT $${next} OFFSET $${next + 1}`,
+        [...filterParams, options.limit ?? 50, options.offset ?? 0]
+      ),
+      pool.query<{ total: string }>(`SELECT COUNT(*) AS total FROM users ${where}`, filterParams),
+    ]);
+    
+    return {
+      success: true,
+      data: result.rows,
+      total: parseInt(countResult.rows[0].total, 10),
+    };
+  } catch (error) {
+    console.error('Error listing users:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
 /**
  * Get user by Firebase UID
  */
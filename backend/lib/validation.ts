@@ -150,3 +150,98 @@ export function validatePagination(limit: unknown, offset: unknown): { limit: nu
   
   return { limit: limitNum, offset: offsetNum };
 }
+
+/**
+ * Validates a focal point (relative coordinates, 0 = left/top, 1 = right/bottom)
+ * @param input - Object with x and y
+ * @returns Validated focal point
+ */
+export function validateFocalPoint(input: unknown): { x: number; y: number } {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Focal point must be an object with x and y');
+  }
+  
+  const { x, y } = input as { x?: unknown; y?: unknown };
+  
+  if (typeof x !== 'number' || typeof y !== 'number' || !Number.isFinite(x) || !Number.isFinite(y)) {
+    throw new Error('Focal point x and y must be numbers');
+  }
+  
+  if (x < 0 || x > 1 || y < 0 || y > 1) {
+    throw new Error('Focal point x and y must be between 0 and 1');
+  }
+  
+  return { x, y };
+}
+
+export type ImageOrientation = 'landscape' | 'portrait' | 'square' | 'all';
+export const IMAGE_ORIENTATIONS: ImageOrientation[] = ['all', 'landscape', 'portrait', 'square'];
+
+/**
+ * Validates an orientation filter (missing/empty means 'all')
+ * @param input - The input to validate
+ * @returns Validated orientation
+ */
+export function validateOrientation(input: unknown): ImageOrientation {
+  if (input === undefined || input === null || input === '') {
+    return 'all';
+  }
+  
+  const orientation = String(input).toLowerCase();
+  
+  if (!IMAGE_ORIENTATIONS.includes(orientation as ImageOrientation)) {
+    throw new Error(`Invalid orientation. Must be one of: ${IMAGE_ORIENTATIONS.join(', ')}`);
+  }
+  
+  return orientation as ImageOrientation;
+}
+
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128;
+
+/**
+ * Validates an email address
+ * @param input - The input to validate
+ * @returns Trimmed, lowercased email (how emails are stored and looked up)
+ */
+export function validateEmail(input: unknown): string {
+  const email = validateString(input, 255).toLowerCase();
+  
+  // One @, something before it, a dotted domain after it, no whitespace
+  if (!/^[^\s@]+@[^\s@.]+(\.[^\s@.]+)+$/.test(email)) {
+    throw new Error('Invalid email address');
+  }
+  
+  return email;
+}
+
+/**
+ * Validates a new password against the strength rules
+ * @param input - The input to validate
+ * @param email - The account's email, which the password must not contain
+ * @returns The password, unchanged
+ */
+export function validateNewPassword(input: unknown, email?: string): string {
+  if (typeof input !== 'string') {
+    throw new Error('Password must be a string');
+  }
+  
+  if (input.length < PASSWORD_MIN_LENGTH) {
+    throw new Error(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+  }
+  
+  if (input.length > PASSWORD_MAX_LENGTH) {
+    throw new Error(`Password must be at most ${PASSWORD_MAX_LENGTH} characters`);
+  }
+  
+  if (!/[a-z]/i.test(input) || !/[0-9]/.test(input)) {
+    throw new Error('Password must contain at least one letter and one number');
+  }
+  
+  const localPart = email?.split('@')[0].toLowerCase();
+  if (localPart && localPart.length >= 3 && input.toLowerCase().includes(localPart)) {
+    throw new Error('Password must not contain your email address');
+  }
+  
+  return input;
+}
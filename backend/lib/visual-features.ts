@@ -0,0 +1,96 @@
+/**
+ * Visual features for "find visually similar" search
+ * Each image is described by its perceptual hash (structure) and a coarse color histogram (colors);
+ * visual distance blends the two so matches need to look alike in both
+ *
+ * Pure functions only (no sharp) - pixel decoding lives in image-processing.ts
+ */
+
+import { hammingDistance } from './perceptual-hash';
+
+// 4 levels per RGB channel -> 64 bins
+export const HISTOGRAM_LEVELS = 4;
+export const HISTOGRAM_BINS = HISTOGRAM_LEVELS ** 3;
+
+// Share of the distance that comes from structure (hash) vs. colors (histogram)
+const HASH_WEIGHT = 0.6;
+const HISTOGRAM_WEIGHT = 0.4;
+
+export interface VisualFeatures {
+  phash: string; // Hex dHash
+  histogram: number[] | null; // Normalized color histogram (sums to 1), null when not extracted yet
+}
+
+/**
+ * Build a normalized RGB histogram from raw interleaved pixels
+ * @param pixels - Raw pixel data (e.g. sharp().raw() output)
+ * @param channels - 3 (RGB) or 4 (RGBA - mostly transparent pixels are ignored)
+ * @returns HISTOGRAM_BINS values that sum to 1 (all zeros for a fully transparent image)
+ */
+export function buildColorHistogram(pixels: Uint8Array, channels: number): number[] {
+  const histogram = new Array<number>(HISTOGRAM_BINS).fill(0);
+  const step = 256 / HISTOGRAM_LEVELS;
+  let total = 0;
+
+  for (let i = 0; i + 2 < pixels.length; i += channels) {
+    if (channels === 4 && pixels[i + 3] < 128) continue;
+    const r = Math.floor(pixels[i] / step);
+    const g = Math.floor(pixels[i + 1] / step);
+    const b = Math.floor(pixels[i + 2] / step);
+    histogram[(r * HISTOGRAM_LEVELS + g) * HISTOGRAM_LEVELS + b]++;
+    total++;
+  }
+
+  if (total === 0) return histogram;
+  // Rounded so the stored REAL[] stays compact
+  return histogram.map((count) => Math.round((count / total) * 10000) / 10000);
+}
+
+/**
+ * Histogram distance: 1 - histogram intersection (0 = same colors, 1 = no colors in common)
+ */
+export function histogramDistance(a: number[], b: number[]): number {
+  let intersection = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    intersection += Math.min(a[i], b[i]);
+  }
+  return Math.max(0, Math.min(1, 1 - intersection));
+}
+
+/**
+ * Visual distance between two images (0 = identical, 1 = nothing alike)
+ * Falls back to the hash alone when either histogram is missing
+ */
+export function visualDistance(a: VisualFeatures, b: VisualFeatures): number {
+  const hash = hammingDistance(a.phash, b.phash) / 64;
+  if (!a.histogram || !b.histogram) {
+    return hash;
+  }
+  return HASH_WEIGHT * hash + HISTOGRAM_WEIGHT * histogramDistance(a.histogram, b.histogram);
+}
+
+/**
+ * Most differing hash bits a candidate can have and still be within maxDistance
+ * (with identical colors only the hash share counts) - lets the database pre-filter by hash
+ */
+export function maxHashDistance(maxDistance: number = 1): number {
+  // The epsilon keeps float error (e.g. 15.999...) from dropping a bit that is exactly on the bound
+  return Math.min(64, Math.floor((maxDistance * 64) / HASH_WEIGHT + 1e-9));
+}
+
+/**
+ * Rank candidates by visual distance to a target
+ * @returns Closest candidates first, at most `limit`, each with its distance (rounded to 4 places)
+ */
+export function rankBySimilarity<T extends VisualFeatures>(
+  target: VisualFeatures,
+  candidates: T[],
+  limit: number,
+  maxDistance: number = 1
+): Array<T & { distance: number }> {
+  return candidates
+    .map((candidate) => ({ ...candidate, distance: Math.round(visualDistance(target, candidate) * 10000) / 10000 }))
+    .filter((candidate) => candidate.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit);
+}
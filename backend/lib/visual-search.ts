@@ -0,0 +1,148 @@
+/**
+ * Reverse image search ("find visually similar")
+ * Ranks images by visual distance (perceptual hash + color histogram) to an uploaded file or a stored image
+ */
+
+import { getPool } from './db';
+import { getErrorCode } from './db-retry';
+import { validateId } from './validation';
+import { getImageFile, mapImageRow } from './images';
+import { publicImageCondition } from './image-visibility';
+import { generatePerceptualHash, generateColorHistogram } from './image-processing';
+import { hashToBigint, bigintToHash } from './perceptual-hash';
+import { rankBySimilarity, maxHashDistance, VisualFeatures } from './visual-features';
+import { resolveImageTags } from './tags';
+import { resolveImageCategories } from './categories';
+
+export const VISUAL_SEARCH_MAX_LIMIT = 50;
+
+// Hashes further apart than this (of 64 bits) don't look alike, whatever their colors
+const MAX_CANDIDATE_HASH_DISTANCE = 24;
+// Closest hashes loaded per result, so the colors can still reorder them
+const CANDIDATES_PER_RESULT = 10;
+
+// Hamming distance between the stored hash and the target ($1) - bit_count needs PostgreSQL 14
+const HASH_DISTANCE_SQL = 'bit_count((phash # $1::bigint)::bit(64))';
+
+/**
+ * Extract visual features from an image file (uploaded for search, or a stored image missing them)
+ */
+export async function extractVisualFeatures(imageBuffer: Buffer): Promise<VisualFeatures> {
+  const [phash, histogram] = await Promise.all([
+    generatePerceptualHash(imageBuffer),
+    generateColorHistogram(imageBuffer),
+  ]);
+  return { phash, histogram };
+}
+
+/**
+ * Get the stored visual features for an image
+ * Images uploaded before feature extraction get them computed (and saved) on first use
+ * @param id - Image ID
+ */
+export async function getImageVisualFeatures(id: number) {
+  const pool = getPool();
+  try {
+    const validatedId = validateId(id);
+    const result = await pool.query(
+      `SELECT phash, color_histogram FROM generated_images
+       WHERE id = $1 AND ${publicImageCondition()}`,
+      [validatedId]
+    );
+
+    if (result.rows.length === 0) {
+      return { success: false, error: 'Image not found' };
+    }
+
+    const row = result.rows[0];
+    if (row.phash !== null && row.color_histogram !== null) {
+      return {
+        success: true,
+        features: { phash: bigintToHash(row.phash), histogram: row.color_histogram as number[] },
+      };
+    }
+
+    const image = await getImageFile(validatedId);
+    if (!image.success || !image.data) {
+      return { success: false, error: image.error || 'Image data not available' };
+    }
+
+    const features = await extractVisualFeatures(image.data);
+    await pool.query(
+      'UPDATE generated_images SET phash = $1, color_histogram = $2 WHERE id = $3',
+      [hashToBigint(features.phash), features.histogram, validatedId]
+    );
+
+    return { success: true, features };
+  } catch (error) {
+    // phash/color_histogram columns don't exist yet (migrations 019/020 not run)
+    if (getErrorCode(error) === '42703') {
+      return { success: false, error: 'Visual search not available' };
+    }
+    console.error('Error fetching visual features:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Find the images that look most like the given features
+ * @param features - From extractVisualFeatures() or getImageVisualFeatures()
+ * @param options - excludeId (the source image), limit (max 50), maxDistance (0-1)
+ * @returns Images in gallery card format, closest first, each with its visual distance
+ */
+export async function findVisuallySimilarImages(
+  features: VisualFeatures,
+  options: { excludeId?: number; limit?: number; maxDistance?: number } = {}
+) {
+  const pool = getPool();
+  try {
+    const limit = Math.min(Math.max(options.limit || 12, 1), VISUAL_SEARCH_MAX_LIMIT);
+
+    // The database narrows the candidates to the closest hashes, then colors are blended in in memory
+    const hashBound = Math.min(MAX_CANDIDATE_HASH_DISTANCE, maxHashDistance(options.maxDistance));
+    const result = await pool.query(
+      `SELECT id, description, tag1, tag2, tag3, status, image_width, image_height, blurhash,
+        created_at, updated_at, phash, color_histogram
+       FROM generated_images
+       WHERE phash IS NOT NULL
+         AND ${publicImageCondition()}
+         AND id <> $2
+         AND ${HASH_DISTANCE_SQL} <= $3
+       ORDER BY ${HASH_DISTANCE_SQL} ASC, id ASC
+       LIMIT $4`,
+      [hashToBigint(features.phash), options.excludeId || 0, hashBound, limit * CANDIDATES_PER_RESULT]
+    );
+
+    const candidates = result.rows.map((row) => ({
+      row,
+      phash: bigintToHash(row.phash),
+      histogram: row.color_histogram as number[] | null,
+    }));
+
+    const ranked = rankBySimilarity(features, candidates, limit, options.maxDistance);
+    const tagsByImage = await resolveImageTags(ranked.map(({ row }) => row));
+    const categoriesByImage = await resolveImageCategories(ranked.map(({ row }) => row));
+
+    return {
+      success: true,
+      data: ranked.map(({ row, distance }) => ({
+        ...mapImageRow(row, tagsByImage.get(row.id) || [], categoriesByImage.get(row.id)),
+        distance, // 0 = identical, 1 = nothing alike
+      })),
+    };
+  } catch (error) {
+    // phash/color_histogram columns don't exist yet (migrations 019/020 not run)
+    if (getErrorCode(error) === '42703') {
+      return { success: true, data: [] };
+    }
+    console.error('Error finding visually similar images:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      data: [],
+    };
+  }
+}
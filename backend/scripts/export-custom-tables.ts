@@ -35,6 +35,11 @@ const CUSTOM_TABLES = [
   'image_action_history',
   'jobs',
   'keywords',
+  'tags',
+  'image_tags',
+  'categories',
+  'tag_aliases',
+  'tag_synonyms',
 ];
 
 // Tables to exclude (Django, system tables)
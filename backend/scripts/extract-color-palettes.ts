@@ -0,0 +1,141 @@
+/**
+ * Backfill Script: Dominant color palettes
+ * 
+ * This script:
+ * 1. Finds images without a stored palette (dominant_colors IS NULL)
+ * 2. Samples the full WebP image down to 64px and quantizes its colors
+ * 3. Stores the hex palette and the nearest named swatches (color_names)
+ *    used by the gallery color filter
+ * 
+ * Safe to re-run: only images without a palette are processed unless --force is given.
+ * 
+ * Usage: npx tsx scripts/extract-color-palettes.ts [--force] [--limit=N]
+ *   --force    Recompute palettes for every image
+ *   --limit=N  Stop after N images
+ */
+
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { getPool, closePool } from '../lib/db';
+import { getImageFile } from '../lib/images';
+import { extractColorPalette } from '../lib/image-processing';
+
+// Load environment variables (try multiple paths)
+const rootEnvPath = path.resolve(process.cwd(), '.env.local');
+const backendEnvPath = path.resolve(__dirname, '../../.env.local');
+const frontendEnvPath = path.resolve(__dirname, '../../frontend/.env.local');
+
+// Try loading from multiple locations
+dotenv.config({ path: rootEnvPath });
+if (!process.env.DATABASE_HOST) {
+  dotenv.config({ path: backendEnvPath });
+}
+if (!process.env.DATABASE_HOST) {
+  dotenv.config({ path: frontendEnvPath });
+}
+
+// Validate environment variables
+if (!process.env.DATABASE_HOST || !process.env.DATABASE_NAME || !process.env.DATABASE_USER || !process.env.DATABASE_PASSWORD) {
+  console.error('❌ Error: Missing required database environment variables.');
+  console.error('Please ensure .env.local exists in one of these locations:');
+  console.error(`  - ${rootEnvPath}`);
+  console.error(`  - ${backendEnvPath}`);
+  console.error(`  - ${frontendEnvPath}`);
+  console.error('\nRequired variables: DATABASE_HOST, DATABASE_NAME, DATABASE_USER, DATABASE_PASSWORD');
+  process.exit(1);
+}
+
+const force = process.argv.includes('--force');
+const limitArg = process.argv.find((arg) => arg.startsWith('--limit='));
+const limit = limitArg ? parseInt(limitArg.split('=')[1], 10) : undefined;
+
+/**
+ * Extract and save the palette for a single image
+ */
+async function processImage(imageId: number): Promise<string[]> {
+  const image = await getImageFile(imageId);
+  if (!image.success || !image.data) {
+    throw new Error(image.error || 'Image data not available');
+  }
+
+  const { palette, colorNames } = await extractColorPalette(image.data);
+
+  await getPool().query(
+    `UPDATE generated_images
+     SET dominant_colors = $1, color_names = $2
+     WHERE id = $3`,
+    [palette.map((color) => color.hex), colorNames, imageId]
+  );
+  return colorNames;
+}
+
+/**
+ * Main backfill function
+ */
+async function extractAllPalettes() {
+  const pool = getPool();
+
+  try {
+    console.log('🔄 Starting color palette backfill...\n');
+
+    const result = await pool.query(
+      `SELECT id
+       FROM generated_images
+       WHERE (is_deleted = false OR is_deleted IS NULL)
+         ${force ? '' : 'AND dominant_colors IS NULL'}
+       ORDER BY id ASC
+       ${limit ? 'LIMIT $1' : ''}`,
+      limit ? [limit] : []
+    );
+
+    const totalImages = result.rows.length;
+    console.log(`📊 Found ${totalImages} images to process\n`);
+
+    if (totalImages === 0) {
+      console.log('✅ No images need palettes. All done!');
+      return;
+    }
+
+    let processed = 0;
+    let failed = 0;
+    const startTime = Date.now();
+
+    for (const row of result.rows) {
+      try {
+        const colorNames = await processImage(row.id);
+        processed++;
+        console.log(`✅ Image ${row.id}: ${colorNames.length > 0 ? colorNames.join(', ') : 'no dominant swatch'}`);
+      } catch (error) {
+        failed++;
+        console.error(`❌ Image ${row.id}: failed -`, error instanceof Error ? error.message : error);
+      }
+
+      if ((processed + failed) % 10 === 0) {
+        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+        console.log(`📈 Progress: ${processed + failed}/${totalImages} (${elapsed}s)\n`);
+      }
+    }
+
+    const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
+    console.log('\n✨ Backfill complete!');
+    console.log(`   ✅ Processed: ${processed}`);
+    console.log(`   ❌ Failed: ${failed}`);
+    console.log(`   ⏱️  Total time: ${totalTime}s`);
+  } catch (error) {
+    console.error('❌ Fatal error:', error);
+    throw error;
+  } finally {
+    await closePool();
+  }
+}
+
+// Run the backfill
+extractAllPalettes()
+  .then(() => {
+    console.log('\n🎉 All done!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n💥 Script failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,143 @@
+/**
+ * Backfill Script: Visual features for reverse image search
+ * 
+ * This script:
+ * 1. Finds images missing a perceptual hash (phash) or color histogram
+ * 2. Decodes the full WebP image and extracts both features
+ * 3. Stores them so /api/search/by-image can rank the image
+ * 
+ * Images without features are computed on demand when used as a search source,
+ * but only images with stored features show up in results.
+ * Safe to re-run: only images missing features are processed unless --force is given.
+ * 
+ * Usage: npx tsx scripts/extract-visual-features.ts [--force] [--limit=N]
+ *   --force    Recompute features for every image
+ *   --limit=N  Stop after N images
+ */
+
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { getPool, closePool } from '../lib/db';
+import { getImageFile } from '../lib/images';
+import { hashToBigint } from '../lib/perceptual-hash';
+import { extractVisualFeatures } from '../lib/visual-search';
+
+// Load environment variables (try multiple paths)
+const rootEnvPath = path.resolve(process.cwd(), '.env.local');
+const backendEnvPath = path.resolve(__dirname, '../../.env.local');
+const frontendEnvPath = path.resolve(__dirname, '../../frontend/.env.local');
+
+// Try loading from multiple locations
+dotenv.config({ path: rootEnvPath });
+if (!process.env.DATABASE_HOST) {
+  dotenv.config({ path: backendEnvPath });
+}
+if (!process.env.DATABASE_HOST) {
+  dotenv.config({ path: frontendEnvPath });
+}
+
+// Validate environment variables
+if (!process.env.DATABASE_HOST || !process.env.DATABASE_NAME || !process.env.DATABASE_USER || !process.env.DATABASE_PASSWORD) {
+  console.error('❌ Error: Missing required database environment variables.');
+  console.error('Please ensure .env.local exists in one of these locations:');
+  console.error(`  - ${rootEnvPath}`);
+  console.error(`  - ${backendEnvPath}`);
+  console.error(`  - ${frontendEnvPath}`);
+  console.error('\nRequired variables: DATABASE_HOST, DATABASE_NAME, DATABASE_USER, DATABASE_PASSWORD');
+  process.exit(1);
+}
+
+const force = process.argv.includes('--force');
+const limitArg = process.argv.find((arg) => arg.startsWith('--limit='));
+const limit = limitArg ? parseInt(limitArg.split('=')[1], 10) : undefined;
+
+/**
+ * Extract and save the visual features for a single image
+ */
+async function processImage(imageId: number): Promise<string> {
+  const image = await getImageFile(imageId);
+  if (!image.success || !image.data) {
+    throw new Error(image.error || 'Image data not available');
+  }
+
+  const { phash, histogram } = await extractVisualFeatures(image.data);
+
+  await getPool().query(
+    `UPDATE generated_images
+     SET phash = $1, color_histogram = $2
+     WHERE id = $3`,
+    [hashToBigint(phash), histogram, imageId]
+  );
+  return phash;
+}
+
+/**
+ * Main backfill function
+ */
+async function extractAllFeatures() {
+  const pool = getPool();
+
+  try {
+    console.log('🔄 Starting visual feature backfill...\n');
+
+    const result = await pool.query(
+      `SELECT id
+       FROM generated_images
+       WHERE (is_deleted = false OR is_deleted IS NULL)
+         ${force ? '' : 'AND (phash IS NULL OR color_histogram IS NULL)'}
+       ORDER BY id ASC
+       ${limit ? 'LIMIT $1' : ''}`,
+      limit ? [limit] : []
+    );
+
+    const totalImages = result.rows.length;
+    console.log(`📊 Found ${totalImages} images to process\n`);
+
+    if (totalImages === 0) {
+      console.log('✅ No images need visual features. All done!');
+      return;
+    }
+
+    let processed = 0;
+    let failed = 0;
+    const startTime = Date.now();
+
+    for (const row of result.rows) {
+      try {
+        const phash = await processImage(row.id);
+        processed++;
+        console.log(`✅ Image ${row.id}: hash ${phash}`);
+      } catch (error) {
+        failed++;
+        console.error(`❌ Image ${row.id}: failed -`, error instanceof Error ? error.message : error);
+      }
+
+      if ((processed + failed) % 10 === 0) {
+        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+        console.log(`📈 Progress: ${processed + failed}/${totalImages} (${elapsed}s)\n`);
+      }
+    }
+
+    const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
+    console.log('\n✨ Backfill complete!');
+    console.log(`   ✅ Processed: ${processed}`);
+    console.log(`   ❌ Failed: ${failed}`);
+    console.log(`   ⏱️  Total time: ${totalTime}s`);
+  } catch (error) {
+    console.error('❌ Fatal error:', error);
+    throw error;
+  } finally {
+    await closePool();
+  }
+}
+
+// Run the backfill
+extractAllFeatures()
+  .then(() => {
+    console.log('\n🎉 All done!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n💥 Script failed:', error);
+    process.exit(1);
+  });
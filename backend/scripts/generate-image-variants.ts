@@ -0,0 +1,149 @@
+/**
+ * Backfill Script: Responsive AVIF/WebP variants
+ * 
+ * This script:
+ * 1. Finds images without a complete set of rows in image_variants
+ * 2. Loads the best available source (original upload, else the full WebP)
+ * 3. Encodes AVIF + WebP at each responsive width (320/640/1280/2560, capped at source width)
+ * 4. Stores binaries in the blob store and records them in image_variants
+ * 
+ * Safe to re-run: existing variants are replaced, not duplicated.
+ * 
+ * Usage: npx tsx scripts/generate-image-variants.ts [--force] [--limit=N]
+ *   --force    Regenerate variants for every image, not just missing ones
+ *   --limit=N  Stop after N images
+ */
+
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { getPool, closePool } from '../lib/db';
+import { getOriginalImageFile } from '../lib/images';
+import { generateImageVariants, getImageDimensions, getVariantWidths, VARIANT_FORMATS } from '../lib/image-processing';
+import { saveImageVariants } from '../lib/image-variants';
+
+// Load environment variables (try multiple paths)
+const rootEnvPath = path.resolve(process.cwd(), '.env.local');
+const backendEnvPath = path.resolve(__dirname, '../../.env.local');
+const frontendEnvPath = path.resolve(__dirname, '../../frontend/.env.local');
+
+// Try loading from multiple locations
+dotenv.config({ path: rootEnvPath });
+if (!process.env.DATABASE_HOST) {
+  dotenv.config({ path: backendEnvPath });
+}
+if (!process.env.DATABASE_HOST) {
+  dotenv.config({ path: frontendEnvPath });
+}
+
+// Validate environment variables
+if (!process.env.DATABASE_HOST || !process.env.DATABASE_NAME || !process.env.DATABASE_USER || !process.env.DATABASE_PASSWORD) {
+  console.error('❌ Error: Missing required database environment variables.');
+  console.error('Please ensure .env.local exists in one of these locations:');
+  console.error(`  - ${rootEnvPath}`);
+  console.error(`  - ${backendEnvPath}`);
+  console.error(`  - ${frontendEnvPath}`);
+  console.error('\nRequired variables: DATABASE_HOST, DATABASE_NAME, DATABASE_USER, DATABASE_PASSWORD');
+  process.exit(1);
+}
+
+const force = process.argv.includes('--force');
+const limitArg = process.argv.find((arg) => arg.startsWith('--limit='));
+const limit = limitArg ? parseInt(limitArg.split('=')[1], 10) : undefined;
+
+/**
+ * Generate and save variants for a single image
+ */
+async function processImage(imageId: number, imageWidth: number | null): Promise<number> {
+  const source = await getOriginalImageFile(imageId);
+  if (!source.success || !source.data) {
+    throw new Error(source.error || 'Image data not available');
+  }
+
+  // Prefer the stored width; fall back to reading it from the source
+  const width = imageWidth || (await getImageDimensions(source.data)).width;
+  const variants = await generateImageVariants(source.data, width);
+
+  const result = await saveImageVariants(imageId, variants);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return variants.length;
+}
+
+/**
+ * Main backfill function
+ */
+async function generateAllVariants() {
+  const pool = getPool();
+
+  try {
+    console.log('🔄 Starting responsive variant backfill...\n');
+
+    // Images whose variant count is below what their width calls for
+    const result = await pool.query(
+      `SELECT gi.id, gi.image_width, COUNT(iv.id)::int AS variant_count
+       FROM generated_images gi
+       LEFT JOIN image_variants iv ON iv.image_id = gi.id
+       WHERE (gi.is_deleted = false OR gi.is_deleted IS NULL)
+       GROUP BY gi.id, gi.image_width
+       ORDER BY gi.id ASC`
+    );
+
+    const pending = result.rows.filter((row) =>
+      force || row.variant_count < getVariantWidths(row.image_width || 0).length * VARIANT_FORMATS.length
+    );
+    const images = limit ? pending.slice(0, limit) : pending;
+
+    console.log(`📊 Found ${pending.length} images needing variants${limit ? ` (processing ${images.length})` : ''}\n`);
+
+    if (images.length === 0) {
+      console.log('✅ No images need variants. All done!');
+      return;
+    }
+
+    let processed = 0;
+    let failed = 0;
+    let variantTotal = 0;
+    const startTime = Date.now();
+
+    // One image at a time - AVIF encoding is CPU and memory heavy
+    for (const row of images) {
+      try {
+        const count = await processImage(row.id, row.image_width);
+        processed++;
+        variantTotal += count;
+        console.log(`✅ Image ${row.id}: ${count} variants`);
+      } catch (error) {
+        failed++;
+        console.error(`❌ Image ${row.id}: failed -`, error instanceof Error ? error.message : error);
+      }
+
+      if ((processed + failed) % 10 === 0) {
+        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+        console.log(`📈 Progress: ${processed + failed}/${images.length} (${elapsed}s)\n`);
+      }
+    }
+
+    const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
+    console.log('\n✨ Backfill complete!');
+    console.log(`   ✅ Processed: ${processed} (${variantTotal} variants)`);
+    console.log(`   ❌ Failed: ${failed}`);
+    console.log(`   ⏱️  Total time: ${totalTime}s`);
+  } catch (error) {
+    console.error('❌ Fatal error:', error);
+    throw error;
+  } finally {
+    await closePool();
+  }
+}
+
+// Run the backfill
+generateAllVariants()
+  .then(() => {
+    console.log('\n🎉 All done!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n💥 Script failed:', error);
+    process.exit(1);
+  });
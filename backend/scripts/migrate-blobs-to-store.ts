@@ -0,0 +1,198 @@
+/**
+ * Batch Migration Script: BYTEA columns → Blob store
+ * 
+ * This script:
+ * 1. Fetches images that still keep their binaries in generated_images (image_storage_key IS NULL)
+ * 2. Writes image_data, thumbnail_data and original_image_data to the configured blob store
+ * 3. Records storage keys, sizes and SHA-256 hashes on the row
+ * 4. Clears the BYTEA columns (unless --keep-bytea is passed)
+ * 
+ * Safe to re-run: rows are processed in id order and keys are content-addressed.
+ * 
+ * Usage: npx tsx scripts/migrate-blobs-to-store.ts [--keep-bytea] [--limit=N]
+ */
+
+import { Pool } from 'pg';
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+import { storeBlob, getBlobStore } from '../lib/blob-store';
+
+// Load environment variables (try multiple paths)
+// Try root directory first (where script is typically run from)
+const rootEnvPath = path.resolve(process.cwd(), '.env.local');
+const backendEnvPath = path.resolve(__dirname, '../../.env.local');
+const frontendEnvPath = path.resolve(__dirname, '../../frontend/.env.local');
+
+// Try loading from multiple locations
+dotenv.config({ path: rootEnvPath });
+if (!process.env.DATABASE_HOST) {
+  dotenv.config({ path: backendEnvPath });
+}
+if (!process.env.DATABASE_HOST) {
+  dotenv.config({ path: frontendEnvPath });
+}
+
+// Validate environment variables
+if (!process.env.DATABASE_HOST || !process.env.DATABASE_NAME || !process.env.DATABASE_USER || !process.env.DATABASE_PASSWORD) {
+  console.error('❌ Error: Missing required database environment variables.');
+  console.error('Please ensure .env.local exists in one of these locations:');
+  console.error(`  - ${rootEnvPath}`);
+  console.error(`  - ${backendEnvPath}`);
+  console.error(`  - ${frontendEnvPath}`);
+  console.error('\nRequired variables: DATABASE_HOST, DATABASE_NAME, DATABASE_USER, DATABASE_PASSWORD');
+  process.exit(1);
+}
+
+const dbConfig = {
+  host: process.env.DATABASE_HOST,
+  port: parseInt(process.env.DATABASE_PORT || '5432'),
+  database: process.env.DATABASE_NAME,
+  user: process.env.DATABASE_USER,
+  password: process.env.DATABASE_PASSWORD,
+  ssl: process.env.DATABASE_SSL === 'true' ? {
+    rejectUnauthorized: false
+  } : false,
+};
+
+const pool = new Pool(dbConfig);
+
+const keepBytea = process.argv.includes('--keep-bytea');
+const limitArg = process.argv.find((arg) => arg.startsWith('--limit='));
+const limit = limitArg ? parseInt(limitArg.split('=')[1], 10) : undefined;
+
+// Rows are fetched one batch at a time - BYTEA payloads are large
+const BATCH_SIZE = 5;
+
+// A row still holding its binaries in BYTEA columns
+interface LegacyBlobRow {
+  id: number;
+  image_data: Buffer;
+  thumbnail_data: Buffer | null;
+  original_image_data: Buffer | null;
+  image_mime_type: string | null;
+  original_mime_type: string | null;
+}
+
+/**
+ * Move one row's binaries into the blob store
+ */
+async function migrateRow(row: LegacyBlobRow): Promise<void> {
+  const imageMimeType = row.image_mime_type || 'image/webp';
+  const originalMimeType = row.original_mime_type || imageMimeType;
+
+  const fullBlob = await storeBlob('full', row.image_data, imageMimeType);
+  const thumbnailBlob = row.thumbnail_data
+    ? await storeBlob('thumbnail', row.thumbnail_data, 'image/webp')
+    : null;
+  const originalBlob = row.original_image_data
+    ? await storeBlob('original', row.original_image_data, originalMimeType)
+    : null;
+
+  await pool.query(
+    `UPDATE generated_images
+     SET image_storage_key = $1,
+         image_sha256 = $2,
+         image_size = $3,
+         thumbnail_storage_key = $4,
+         thumbnail_sha256 = $5,
+         thumbnail_size = $6,
+         original_storage_key = $7,
+         original_sha256 = $8,
+         original_image_size = COALESCE($9, original_image_size)
+         ${keepBytea ? '' : ', image_data = NULL, thumbnail_data = NULL, original_image_data = NULL'}
+     WHERE id = $10`,
+    [
+      fullBlob.key,
+      fullBlob.sha256,
+      fullBlob.size,
+      thumbnailBlob?.key || null,
+      thumbnailBlob?.sha256 || null,
+      thumbnailBlob?.size || null,
+      originalBlob?.key || null,
+      originalBlob?.sha256 || null,
+      originalBlob?.size || null,
+      row.id,
+    ]
+  );
+}
+
+/**
+ * Main migration function
+ */
+async function migrateAllBlobs() {
+  try {
+    console.log(`🔄 Migrating image binaries to the "${getBlobStore().driver}" blob store...`);
+    console.log(keepBytea ? 'ℹ️  --keep-bytea: BYTEA columns will be left in place\n' : '');
+
+    const countResult = await pool.query(
+      `SELECT COUNT(*) AS total FROM generated_images
+       WHERE image_storage_key IS NULL AND image_data IS NOT NULL`
+    );
+    const pending = parseInt(countResult.rows[0].total, 10);
+    const totalImages = limit ? Math.min(limit, pending) : pending;
+    console.log(`📊 Found ${pending} images to migrate${limit ? ` (limited to ${totalImages})` : ''}\n`);
+
+    if (totalImages === 0) {
+      console.log('✅ No images need migrating. All done!');
+      return;
+    }
+
+    let migrated = 0;
+    let failed = 0;
+    let lastId = 0;
+    const startTime = Date.now();
+
+    while (migrated + failed < totalImages) {
+      // Keyset paging on id - failed rows stay pending but are not retried in this run
+      const result = await pool.query<LegacyBlobRow>(
+        `SELECT id, image_data, thumbnail_data, original_image_data, image_mime_type, original_mime_type
+         FROM generated_images
+         WHERE image_storage_key IS NULL AND image_data IS NOT NULL AND id > $1
+         ORDER BY id ASC
+         LIMIT $2`,
+        [lastId, Math.min(BATCH_SIZE, totalImages - migrated - failed)]
+      );
+
+      if (result.rows.length === 0) {
+        break;
+      }
+
+      for (const row of result.rows) {
+        lastId = row.id;
+        try {
+          await migrateRow(row);
+          migrated++;
+          console.log(`✅ Image ${row.id}: migrated`);
+        } catch (error) {
+          failed++;
+          console.error(`❌ Image ${row.id}: failed -`, error instanceof Error ? error.message : error);
+        }
+      }
+
+      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+      console.log(`📈 Progress: ${migrated + failed}/${totalImages} (${elapsed}s)\n`);
+    }
+
+    const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
+    console.log('\n✨ Migration complete!');
+    console.log(`   ✅ Migrated: ${migrated}`);
+    console.log(`   ❌ Failed: ${failed}`);
+    console.log(`   ⏱️  Total time: ${totalTime}s`);
+  } catch (error) {
+    console.error('❌ Fatal error during migration:', error);
+    throw error;
+  } finally {
+    await pool.end();
+  }
+}
+
+// Run migration
+migrateAllBlobs()
+  .then(() => {
+    console.log('\n🎉 Script completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n💥 Script failed:', error);
+    process.exit(1);
+  });
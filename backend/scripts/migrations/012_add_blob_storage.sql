@@ -0,0 +1,27 @@
+-- Migration: 012_add_blob_storage.sql
+-- Description: Move image binaries out of BYTEA columns into a blob store (local disk or S3)
+-- The database keeps only the storage key, size and SHA-256 hash of each binary
+-- Created: 2025-02-XX
+
+-- Storage keys and content hashes for each stored binary
+ALTER TABLE generated_images
+ADD COLUMN IF NOT EXISTS image_storage_key VARCHAR(512),
+ADD COLUMN IF NOT EXISTS image_sha256 VARCHAR(64),
+ADD COLUMN IF NOT EXISTS thumbnail_storage_key VARCHAR(512),
+ADD COLUMN IF NOT EXISTS thumbnail_size BIGINT,
+ADD COLUMN IF NOT EXISTS thumbnail_sha256 VARCHAR(64),
+ADD COLUMN IF NOT EXISTS original_storage_key VARCHAR(512),
+ADD COLUMN IF NOT EXISTS original_sha256 VARCHAR(64);
+
+-- Legacy rows keep their BYTEA data until scripts/migrate-blobs-to-store.ts moves it out
+-- This index lets the migration script find rows that still need moving
+CREATE INDEX IF NOT EXISTS idx_generated_images_pending_blob_migration
+ON generated_images(id) WHERE image_storage_key IS NULL;
+
+-- Lookup by content hash (find duplicates, verify integrity)
+CREATE INDEX IF NOT EXISTS idx_generated_images_image_sha256
+ON generated_images(image_sha256) WHERE image_sha256 IS NOT NULL;
+
+-- Record this migration
+INSERT INTO schema_migrations (version) VALUES ('012_add_blob_storage')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,23 @@
+-- Migration: 013_add_image_variants.sql
+-- Description: Add image_variants table for responsive AVIF/WebP renditions (srcset / <picture>)
+-- Each row points at a binary in the blob store (see 012_add_blob_storage.sql)
+-- Created: 2025-02-XX
+
+-- Create image_variants table
+CREATE TABLE IF NOT EXISTS image_variants (
+  id SERIAL PRIMARY KEY,
+  image_id INTEGER NOT NULL REFERENCES generated_images(id) ON DELETE CASCADE,
+  format VARCHAR(10) NOT NULL, -- 'avif' or 'webp'
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  mime_type VARCHAR(50) NOT NULL,
+  size BIGINT NOT NULL,
+  storage_key VARCHAR(512) NOT NULL,
+  sha256 VARCHAR(64) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (image_id, format, width) -- Also serves as the lookup index (image -> format -> width)
+);
+
+-- Record this migration
+INSERT INTO schema_migrations (version) VALUES ('013_add_image_variants')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,29 @@
+-- Migration: 014_add_image_derivatives.sql
+-- Description: Add image_derivatives table - cache of on-the-fly transforms (/api/images/[id]/transform)
+-- Each row points at a binary in the blob store, keyed by the canonical transform parameters
+-- Created: 2025-02-XX
+
+-- Create image_derivatives table
+CREATE TABLE IF NOT EXISTS image_derivatives (
+  id SERIAL PRIMARY KEY,
+  image_id INTEGER NOT NULL REFERENCES generated_images(id) ON DELETE CASCADE,
+  params_key VARCHAR(255) NOT NULL, -- Canonical parameters, e.g. "w=1920&h=1080&fit=cover&format=jpeg&q=100"
+  width INTEGER,
+  height INTEGER,
+  mime_type VARCHAR(50) NOT NULL,
+  size BIGINT NOT NULL,
+  storage_key VARCHAR(512) NOT NULL,
+  sha256 VARCHAR(64) NOT NULL,
+  hit_count INTEGER DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_accessed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (image_id, params_key) -- Also serves as the cache lookup index
+);
+
+-- Find stale derivatives for cleanup
+CREATE INDEX IF NOT EXISTS idx_image_derivatives_last_accessed
+ON image_derivatives(last_accessed_at);
+
+-- Record this migration
+INSERT INTO schema_migrations (version) VALUES ('014_add_image_derivatives')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,27 @@
+-- Migration: 015_add_focal_point.sql
+-- Description: Add per-image focal point used by aspect-ratio crops (16x9, 9x16, transform presets)
+-- Coordinates are relative: 0,0 = top-left, 1,1 = bottom-right. NULL = automatic (smart crop)
+-- Created: 2025-02-XX
+
+ALTER TABLE generated_images
+ADD COLUMN IF NOT EXISTS focal_x REAL,
+ADD COLUMN IF NOT EXISTS focal_y REAL;
+
+-- Keep coordinates inside the image
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'chk_generated_images_focal_point'
+  ) THEN
+    ALTER TABLE generated_images
+    ADD CONSTRAINT chk_generated_images_focal_point
+    CHECK (
+      (focal_x IS NULL AND focal_y IS NULL)
+      OR (focal_x BETWEEN 0 AND 1 AND focal_y BETWEEN 0 AND 1)
+    );
+  END IF;
+END $$;
+
+-- Record this migration
+INSERT INTO schema_migrations (version) VALUES ('015_add_focal_point')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,30 @@
+-- Migration: 016_add_image_metadata.sql
+-- Description: Store EXIF/IPTC/XMP metadata extracted on upload and the per-image metadata policy
+-- GPS coordinates and serial numbers are never stored and are stripped from served files
+-- Created: 2025-02-XX
+
+ALTER TABLE generated_images
+ADD COLUMN IF NOT EXISTS camera_make VARCHAR(255),
+ADD COLUMN IF NOT EXISTS camera_model VARCHAR(255),
+ADD COLUMN IF NOT EXISTS lens_model VARCHAR(255),
+ADD COLUMN IF NOT EXISTS exposure_time VARCHAR(32),
+ADD COLUMN IF NOT EXISTS f_number REAL,
+ADD COLUMN IF NOT EXISTS iso INTEGER,
+ADD COLUMN IF NOT EXISTS focal_length REAL,
+ADD COLUMN IF NOT EXISTS captured_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS iptc_caption TEXT,
+ADD COLUMN IF NOT EXISTS iptc_keywords TEXT[] DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS creator VARCHAR(255),
+ADD COLUMN IF NOT EXISTS copyright VARCHAR(255),
+-- 'sensitive' = strip GPS/serials/owner, 'all' = strip every EXIF/IPTC/XMP field
+ADD COLUMN IF NOT EXISTS metadata_policy VARCHAR(20) DEFAULT 'sensitive',
+-- NULL = original not yet sanitized (uploaded before this migration)
+ADD COLUMN IF NOT EXISTS metadata_stripped_at TIMESTAMP;
+
+-- Lets scripts/strip-image-metadata.ts find originals that still need sanitizing
+CREATE INDEX IF NOT EXISTS idx_generated_images_metadata_unstripped
+ON generated_images(id) WHERE metadata_stripped_at IS NULL;
+
+-- Record this migration
+INSERT INTO schema_migrations (version) VALUES ('016_add_image_metadata')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,17 @@
+-- Migration: 017_add_color_palette.sql
+-- Description: Store each image's dominant color palette for the gallery color filter
+-- dominant_colors: hex values, most dominant first (e.g. {#1f4e79,#d9d9d9})
+-- color_names: nearest named swatches (red, teal, ...) - what the color filter matches on
+-- Created: 2025-02-XX
+
+ALTER TABLE generated_images
+ADD COLUMN IF NOT EXISTS dominant_colors TEXT[],
+ADD COLUMN IF NOT EXISTS color_names TEXT[];
+
+-- GIN index for color_names && '{red,teal}' lookups
+CREATE INDEX IF NOT EXISTS idx_generated_images_color_names
+ON generated_images USING GIN (color_names);
+
+-- Record this migration
+INSERT INTO schema_migrations (version) VALUES ('017_add_color_palette')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,11 @@
+-- Migration: 018_add_aspect_ratio_index.sql
+-- Description: Index the aspect ratio used by the orientation filter (landscape / portrait / square)
+-- The expression must match ASPECT_RATIO_SQL in backend/lib/images.ts exactly for the planner to use it
+-- Created: 2025-02-XX
+
+CREATE INDEX IF NOT EXISTS idx_generated_images_aspect_ratio
+ON generated_images ((image_width::real / NULLIF(image_height, 0)));
+
+-- Record this migration
+INSERT INTO schema_migrations (version) VALUES ('018_add_aspect_ratio_index')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,23 @@
+-- Migration: 019_add_perceptual_hash.sql
+-- Description: Perceptual hash (64-bit dHash) for duplicate detection on ingest
+-- phash: dHash stored as a signed BIGINT; near-duplicates differ in a few bits (Hamming distance)
+-- duplicate_of_id: set when an upload was accepted but flagged as a near-duplicate of an existing image
+-- Created: 2025-02-XX
+
+ALTER TABLE generated_images
+ADD COLUMN IF NOT EXISTS phash BIGINT,
+ADD COLUMN IF NOT EXISTS duplicate_of_id INTEGER REFERENCES generated_images(id) ON DELETE SET NULL;
+
+-- Exact-hash lookups (identical re-uploads) and the duplicate report
+CREATE INDEX IF NOT EXISTS idx_generated_images_phash
+ON generated_images(phash)
+WHERE phash IS NOT NULL;
+
+-- Review queue of flagged duplicates
+CREATE INDEX IF NOT EXISTS idx_generated_images_duplicate_of
+ON generated_images(duplicate_of_id)
+WHERE duplicate_of_id IS NOT NULL;
+
+-- Record this migration
+INSERT INTO schema_migrations (version) VALUES ('019_add_perceptual_hash')
+ON CONFLICT (version) DO NOTHING;
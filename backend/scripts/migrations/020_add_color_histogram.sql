@@ -0,0 +1,12 @@
+-- Migration: 020_add_color_histogram.sql
+-- Description: Per-image color histogram for "find visually similar" search
+-- color_histogram: 64 bins (4 levels per RGB channel), normalized to sum to 1
+-- Used together with phash (migration 019) to rank images by visual distance
+-- Created: 2025-02-XX
+
+ALTER TABLE generated_images
+ADD COLUMN IF NOT EXISTS color_histogram REAL[];
+
+-- Record this migration
+INSERT INTO schema_migrations (version) VALUES ('020_add_color_histogram')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,57 @@
+-- Migration: 021_add_tags.sql
+-- Description: Normalized tags - any number of tags per image, matched by slug
+-- tags: one row per distinct tag (slug is lowercase a-z, 0-9 and dashes, e.g. "smart-home")
+-- image_tags: which images carry which tags, in display order (position)
+-- tag1..tag3 stay on generated_images as a mirror of the first three tags
+-- Created: 2025-02-XX
+
+CREATE TABLE IF NOT EXISTS tags (
+  id SERIAL PRIMARY KEY,
+  slug VARCHAR(100) NOT NULL UNIQUE,
+  name VARCHAR(100) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS image_tags (
+  image_id INTEGER NOT NULL REFERENCES generated_images(id) ON DELETE CASCADE,
+  tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  position SMALLINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (image_id, tag_id)
+);
+
+-- Images by tag (the primary key covers tags by image)
+CREATE INDEX IF NOT EXISTS idx_image_tags_tag_id ON image_tags(tag_id, image_id);
+
+-- Prefix filters (slug LIKE 'nat%')
+CREATE INDEX IF NOT EXISTS idx_tags_slug_prefix ON tags(slug text_pattern_ops);
+
+-- Backfill from tag1..tag3
+-- Slug expression must match slugifyTag() in backend/lib/tags.ts
+CREATE TEMP TABLE legacy_tags ON COMMIT DROP AS
+SELECT
+  g.id AS image_id,
+  left(btrim(regexp_replace(t.tag, '\s+', ' ', 'g')), 100) AS name,
+  btrim(regexp_replace(lower(btrim(t.tag)), '[^a-z0-9]+', '-', 'g'), '-') AS slug,
+  t.position
+FROM generated_images g,
+  LATERAL (VALUES (g.tag1, 0), (g.tag2, 1), (g.tag3, 2)) AS t(tag, position)
+WHERE t.tag IS NOT NULL;
+
+INSERT INTO tags (slug, name)
+SELECT DISTINCT ON (slug) slug, name
+FROM legacy_tags
+WHERE slug <> ''
+ORDER BY slug, image_id, position
+ON CONFLICT (slug) DO NOTHING;
+
+INSERT INTO image_tags (image_id, tag_id, position)
+SELECT DISTINCT ON (l.image_id, t.id) l.image_id, t.id, l.position
+FROM legacy_tags l
+JOIN tags t ON t.slug = l.slug
+ORDER BY l.image_id, t.id, l.position
+ON CONFLICT (image_id, tag_id) DO NOTHING;
+
+-- Record this migration
+INSERT INTO schema_migrations (version) VALUES ('021_add_tags')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,66 @@
+-- Migration: 022_add_categories.sql
+-- Description: Category taxonomy - categories live in their own table instead of being inferred from tag1
+-- categories: one row per category (slug matches slugifyTag(), icon is an emoji)
+-- parent_id nests subcategories (e.g. finance under business); a category's image count includes its subcategories
+-- generated_images.category_id: the image's category (NULL = uncategorized)
+-- Created: 2025-02-XX
+
+CREATE TABLE IF NOT EXISTS categories (
+  id SERIAL PRIMARY KEY,
+  slug VARCHAR(100) NOT NULL UNIQUE,
+  name VARCHAR(100) NOT NULL,
+  icon VARCHAR(16),
+  description TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  parent_id INTEGER REFERENCES categories(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON categories(parent_id);
+
+ALTER TABLE generated_images
+ADD COLUMN IF NOT EXISTS category_id INTEGER REFERENCES categories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_generated_images_category_id ON generated_images(category_id);
+
+-- Seed the categories the site used to hardcode
+INSERT INTO categories (slug, name, icon, description, sort_order) VALUES
+  ('nature', 'Nature', '🌳', 'Landscapes, forests, wildlife and the great outdoors', 10),
+  ('business', 'Business', '💼', 'Work, teams and the business world', 20),
+  ('travel', 'Travel', '✈️', 'Destinations, journeys and landmarks', 30),
+  ('people', 'People', '👥', 'Portraits, lifestyle and everyday moments', 40),
+  ('abstract', 'Abstract', '🎨', 'Shapes, textures and patterns', 50),
+  ('food', 'Food', '🍔', 'Dishes, drinks and ingredients', 60),
+  ('technology', 'Technology', '💻', 'Devices, code and the digital world', 70),
+  ('architecture', 'Architecture', '🏛️', 'Buildings, interiors and cityscapes', 80)
+ON CONFLICT (slug) DO NOTHING;
+
+INSERT INTO categories (slug, name, icon, description, sort_order, parent_id)
+SELECT sub.slug, sub.name, sub.icon, sub.description, sub.sort_order, parent.id
+FROM (VALUES
+  ('office', 'Office', '🏢', 'Workspaces and desks', 10),
+  ('finance', 'Finance', '💰', 'Money, markets and charts', 20),
+  ('marketing', 'Marketing', '📈', 'Campaigns, brands and analytics', 30),
+  ('corporate', 'Corporate', '🤝', 'Meetings, handshakes and boardrooms', 40)
+) AS sub(slug, name, icon, description, sort_order)
+JOIN categories parent ON parent.slug = 'business'
+ON CONFLICT (slug) DO NOTHING;
+
+-- Backfill from tag1 (falling back to tag2), which used to double as the category
+-- Slug expression must match slugifyTag() in backend/lib/tags.ts
+UPDATE generated_images g
+SET category_id = c.id
+FROM categories c
+WHERE g.category_id IS NULL
+  AND c.slug = btrim(regexp_replace(lower(btrim(g.tag1)), '[^a-z0-9]+', '-', 'g'), '-');
+
+UPDATE generated_images g
+SET category_id = c.id
+FROM categories c
+WHERE g.category_id IS NULL
+  AND c.slug = btrim(regexp_replace(lower(btrim(g.tag2)), '[^a-z0-9]+', '-', 'g'), '-');
+
+-- Record this migration
+INSERT INTO schema_migrations (version) VALUES ('022_add_categories')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,30 @@
+-- Migration: 023_add_tag_aliases.sql
+-- Description: Tag aliases and synonyms
+-- tag_aliases: alternative slugs for a tag ("city-scape" -> cityscape); merged tags leave their slug here
+--   so old /tag/[tagName] URLs redirect and old filters keep matching
+-- tag_synonyms: pairs of distinct tags that search treats as interchangeable ("urban" ~ "cityscape")
+--   each pair is stored once with the lower tag ID first
+-- Created: 2025-02-XX
+
+CREATE TABLE IF NOT EXISTS tag_aliases (
+  slug VARCHAR(100) PRIMARY KEY,
+  tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_tag_aliases_tag_id ON tag_aliases(tag_id);
+
+CREATE TABLE IF NOT EXISTS tag_synonyms (
+  tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  synonym_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (tag_id, synonym_id),
+  CHECK (tag_id < synonym_id)
+);
+
+-- Synonyms by either side (the primary key covers tag_id)
+CREATE INDEX IF NOT EXISTS idx_tag_synonyms_synonym_id ON tag_synonyms(synonym_id);
+
+-- Record this migration
+INSERT INTO schema_migrations (version) VALUES ('023_add_tag_aliases')
+ON CONFLICT (version) DO NOTHING;
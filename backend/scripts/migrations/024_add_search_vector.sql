@@ -0,0 +1,89 @@
+-- Migration: 024_add_search_vector.sql
+-- Description: Stored, weighted full-text search vector for generated_images
+-- search_vector = description (A) + tag names (B) + prompt_used (C), kept up to date by triggers:
+--   generated_images: recomputed when description or prompt_used changes
+--   image_tags: recomputed for the image when its tags change
+--   tags: recomputed for every image carrying a tag when the tag is renamed
+-- Must run after 021_add_tags.sql
+-- Created: 2025-02-XX
+
+ALTER TABLE generated_images
+ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+-- Weighted vector from the searchable fields (keep in sync with INLINE_SEARCH_VECTOR_SQL in backend/lib/search.ts)
+CREATE OR REPLACE FUNCTION build_image_search_vector(p_description TEXT, p_tag_names TEXT, p_prompt TEXT)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(p_description, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(p_tag_names, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(p_prompt, '')), 'C');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- All tag names of an image, space separated
+CREATE OR REPLACE FUNCTION image_tag_names(p_image_id INTEGER)
+RETURNS TEXT AS $$
+  SELECT COALESCE(string_agg(t.name, ' ' ORDER BY it.position), '')
+  FROM image_tags it JOIN tags t ON t.id = it.tag_id
+  WHERE it.image_id = p_image_id;
+$$ LANGUAGE sql STABLE;
+
+-- generated_images: description / prompt changes
+CREATE OR REPLACE FUNCTION generated_images_search_vector_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := build_image_search_vector(NEW.description, image_tag_names(NEW.id), NEW.prompt_used);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_generated_images_search_vector ON generated_images;
+CREATE TRIGGER trg_generated_images_search_vector
+BEFORE INSERT OR UPDATE OF description, prompt_used ON generated_images
+FOR EACH ROW EXECUTE FUNCTION generated_images_search_vector_trigger();
+
+-- image_tags: an image's tags were added or removed
+CREATE OR REPLACE FUNCTION image_tags_search_vector_trigger()
+RETURNS TRIGGER AS $$
+DECLARE
+  affected_id INTEGER := CASE WHEN TG_OP = 'DELETE' THEN OLD.image_id ELSE NEW.image_id END;
+BEGIN
+  UPDATE generated_images
+  SET search_vector = build_image_search_vector(description, image_tag_names(id), prompt_used)
+  WHERE id = affected_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_image_tags_search_vector ON image_tags;
+CREATE TRIGGER trg_image_tags_search_vector
+AFTER INSERT OR UPDATE OR DELETE ON image_tags
+FOR EACH ROW EXECUTE FUNCTION image_tags_search_vector_trigger();
+
+-- tags: a tag was renamed
+CREATE OR REPLACE FUNCTION tags_search_vector_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE generated_images g
+  SET search_vector = build_image_search_vector(g.description, image_tag_names(g.id), g.prompt_used)
+  FROM image_tags it
+  WHERE it.tag_id = NEW.id AND g.id = it.image_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_tags_search_vector ON tags;
+CREATE TRIGGER trg_tags_search_vector
+AFTER UPDATE OF name ON tags
+FOR EACH ROW WHEN (OLD.name IS DISTINCT FROM NEW.name)
+EXECUTE FUNCTION tags_search_vector_trigger();
+
+-- Backfill
+UPDATE generated_images
+SET search_vector = build_image_search_vector(description, image_tag_names(id), prompt_used);
+
+CREATE INDEX IF NOT EXISTS idx_generated_images_search_vector
+ON generated_images USING GIN (search_vector);
+
+-- Record this migration
+INSERT INTO schema_migrations (version) VALUES ('024_add_search_vector')
+ON CONFLICT (version) DO NOTHING;
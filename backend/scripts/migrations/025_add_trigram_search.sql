@@ -0,0 +1,21 @@
+-- Migration: 025_add_trigram_search.sql
+-- Description: Trigram indexes for typo-tolerant search and autocomplete
+-- pg_trgm powers fuzzy matching ("archetecture" finds "architecture"), "did you mean" corrections
+-- and search suggestions over tag names, category names and image descriptions (titles)
+-- Must run after 021_add_tags.sql and 022_add_categories.sql
+-- Created: 2025-02-XX
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Similarity (%), word similarity (<%) and ILIKE '%...%' on tag names
+CREATE INDEX IF NOT EXISTS idx_tags_name_trgm ON tags USING GIN (name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_categories_name_trgm ON categories USING GIN (name gin_trgm_ops);
+
+-- Titles are the description column
+CREATE INDEX IF NOT EXISTS idx_generated_images_description_trgm
+ON generated_images USING GIN (description gin_trgm_ops);
+
+-- Record this migration
+INSERT INTO schema_migrations (version) VALUES ('025_add_trigram_search')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,34 @@
+-- Migration: 026_add_popularity_sorts.sql
+-- Description: View/download events and a trending score for the popular, trending and downloads sorts
+-- image_events records when each view and download happened; the trending job
+-- (scripts/update-trending-scores.ts) turns recent events into a time-decayed trending_score
+-- Must run after 005_add_analytics_columns.sql
+-- Created: 2025-02-XX
+
+CREATE TABLE IF NOT EXISTS image_events (
+  id BIGSERIAL PRIMARY KEY,
+  image_id INTEGER NOT NULL REFERENCES generated_images(id) ON DELETE CASCADE,
+  event_type VARCHAR(16) NOT NULL CHECK (event_type IN ('view', 'download')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_image_events_created_at ON image_events(created_at);
+
+ALTER TABLE generated_images
+ADD COLUMN IF NOT EXISTS trending_score DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS trending_updated_at TIMESTAMPTZ;
+
+-- Keyset order of each sort: (sort key DESC, id DESC)
+-- The popularity expression must stay in sync with POPULARITY_SQL in lib/popularity.ts
+CREATE INDEX IF NOT EXISTS idx_generated_images_popularity
+ON generated_images ((COALESCE(view_count, 0) + 5 * COALESCE(downloads, 0)) DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_generated_images_downloads_keyset
+ON generated_images ((COALESCE(downloads, 0)) DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_generated_images_trending
+ON generated_images (trending_score DESC, id DESC);
+
+-- Record this migration
+INSERT INTO schema_migrations (version) VALUES ('026_add_popularity_sorts')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,26 @@
+-- Migration: 027_add_sessions.sql
+-- Description: Server-side login sessions
+-- Each row is one signed-in device. Only the SHA-256 hash of the opaque session token is stored,
+-- so a leaked table can't be used to sign in. Sessions expire after a period of inactivity
+-- (renewed as they are used), at an absolute maximum age, or when revoked (logout)
+-- Must run after 007_add_users.sql
+-- Created: 2025-02-XX
+
+CREATE TABLE IF NOT EXISTS sessions (
+  id BIGSERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash CHAR(64) NOT NULL UNIQUE,
+  user_agent VARCHAR(512),
+  ip_address VARCHAR(64),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ
+);
+
+-- Device list and logout-everywhere
+CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
+
+-- Record this migration
+INSERT INTO schema_migrations (version) VALUES ('027_add_sessions')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,30 @@
+-- Migration: 028_add_email_verification.sql
+-- Description: Email verification state and single-use account tokens
+-- auth_tokens holds the links we email out (verify an address, reset a password). As with sessions
+-- only the SHA-256 hash of a token is stored. A token works once (used_at) and until expires_at;
+-- issuing a new one for the same purpose replaces the previous one
+-- Must run after 007_add_users.sql
+-- Created: 2025-02-XX
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMPTZ;
+
+-- Google has already verified the addresses of Google accounts
+UPDATE users SET email_verified_at = COALESCE(created_at, NOW())
+WHERE auth_provider = 'google' AND email_verified_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS auth_tokens (
+  id BIGSERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose VARCHAR(20) NOT NULL CHECK (purpose IN ('verify_email', 'reset_password')),
+  token_hash CHAR(64) NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ
+);
+
+-- Replacing a user's earlier tokens
+CREATE INDEX IF NOT EXISTS idx_auth_tokens_user_purpose ON auth_tokens(user_id, purpose);
+
+-- Record this migration
+INSERT INTO schema_migrations (version) VALUES ('028_add_email_verification')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,28 @@
+-- Migration: 029_add_user_roles.sql
+-- Description: Roles for access control (see backend/lib/roles.ts)
+-- viewer < contributor < moderator < admin; every account starts as a viewer. Grant the first
+-- admin with PATCH /api/admin/users/[id] and the ADMIN_API_TOKEN, or by hand:
+--   UPDATE users SET role = 'admin' WHERE email = 'you@example.com';
+-- Must run after 007_add_users.sql
+-- Created: 2025-02-XX
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'viewer';
+
+-- Only known roles
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'chk_users_role'
+  ) THEN
+    ALTER TABLE users
+    ADD CONSTRAINT chk_users_role
+    CHECK (role IN ('viewer', 'contributor', 'moderator', 'admin'));
+  END IF;
+END $$;
+
+-- Staff listing in the admin API
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role) WHERE role <> 'viewer';
+
+-- Record this migration
+INSERT INTO schema_migrations (version) VALUES ('029_add_user_roles')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,203 @@
+/**
+ * Duplicate Report: Cluster near-duplicate images for review
+ * 
+ * This script:
+ * 1. Computes perceptual hashes (dHash) for images that don't have one yet
+ * 2. Groups images whose hashes differ by at most --threshold bits
+ * 3. Prints each cluster (oldest image first) with size, dimensions and description
+ * 4. With --flag, marks every newer image in a cluster as a duplicate of the oldest
+ *    (duplicate_of_id) - nothing is ever deleted
+ * 
+ * Usage: npx tsx scripts/report-duplicates.ts [--threshold=N] [--flag] [--json]
+ *   --threshold=N  Max Hamming distance between hashes (0-7, default 6)
+ *   --flag         Record duplicate_of_id for the newer images in each cluster
+ *   --json         Print clusters as JSON instead of a table
+ */
+
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { getPool, closePool } from '../lib/db';
+import { getImageFile } from '../lib/images';
+import { generatePerceptualHash } from '../lib/image-processing';
+import { clusterByHash, hammingDistance, hashToBigint, bigintToHash, DEFAULT_DUPLICATE_THRESHOLD } from '../lib/perceptual-hash';
+
+// Load environment variables (try multiple paths)
+const rootEnvPath = path.resolve(process.cwd(), '.env.local');
+const backendEnvPath = path.resolve(__dirname, '../../.env.local');
+const frontendEnvPath = path.resolve(__dirname, '../../frontend/.env.local');
+
+// Try loading from multiple locations
+dotenv.config({ path: rootEnvPath });
+if (!process.env.DATABASE_HOST) {
+  dotenv.config({ path: backendEnvPath });
+}
+if (!process.env.DATABASE_HOST) {
+  dotenv.config({ path: frontendEnvPath });
+}
+
+// Validate environment variables
+if (!process.env.DATABASE_HOST || !process.env.DATABASE_NAME || !process.env.DATABASE_USER || !process.env.DATABASE_PASSWORD) {
+  console.error('❌ Error: Missing required database environment variables.');
+  console.error('Please ensure .env.local exists in one of these locations:');
+  console.error(`  - ${rootEnvPath}`);
+  console.error(`  - ${backendEnvPath}`);
+  console.error(`  - ${frontendEnvPath}`);
+  console.error('\nRequired variables: DATABASE_HOST, DATABASE_NAME, DATABASE_USER, DATABASE_PASSWORD');
+  process.exit(1);
+}
+
+const thresholdArg = process.argv.find((arg) => arg.startsWith('--threshold='));
+const threshold = thresholdArg ? parseInt(thresholdArg.split('=')[1], 10) : DEFAULT_DUPLICATE_THRESHOLD;
+const flag = process.argv.includes('--flag');
+const json = process.argv.includes('--json');
+
+if (!Number.isInteger(threshold) || threshold < 0 || threshold > 7) {
+  console.error('❌ Error: --threshold must be an integer between 0 and 7');
+  process.exit(1);
+}
+
+// A hashed image as read for the report (phash is a BIGINT, returned as a string)
+interface HashedImageRow {
+  id: number;
+  phash: string;
+  description: string | null;
+  image_width: number | null;
+  image_height: number | null;
+  original_image_size: number | null;
+  image_size: number | null;
+  created_at: Date;
+}
+
+// Progress goes to stderr in --json mode so stdout stays parseable
+const log = (message: string) => (json ? console.error(message) : console.log(message));
+
+/**
+ * Compute and store hashes for images uploaded before perceptual hashing
+ */
+async function backfillHashes() {
+  const pool = getPool();
+  const result = await pool.query(
+    `SELECT id FROM generated_images
+     WHERE phash IS NULL AND (is_deleted = false OR is_deleted IS NULL)
+     ORDER BY id ASC`
+  );
+
+  if (result.rows.length === 0) {
+    return;
+  }
+
+  log(`🔄 Hashing ${result.rows.length} images without a perceptual hash...`);
+  let failed = 0;
+
+  for (const row of result.rows) {
+    try {
+      const image = await getImageFile(row.id);
+      if (!image.success || !image.data) {
+        throw new Error(image.error || 'Image data not available');
+      }
+      const phash = await generatePerceptualHash(image.data);
+      await pool.query('UPDATE generated_images SET phash = $1 WHERE id = $2', [hashToBigint(phash), row.id]);
+    } catch (error) {
+      failed++;
+      console.error(`❌ Image ${row.id}: hashing failed -`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  log(`✅ Hashed ${result.rows.length - failed} images${failed ? ` (${failed} failed)` : ''}\n`);
+}
+
+/**
+ * Main report function
+ */
+async function reportDuplicates() {
+  const pool = getPool();
+
+  try {
+    log(`🔍 Looking for near-duplicates (threshold: ${threshold} bits)...\n`);
+
+    await backfillHashes();
+
+    const result = await pool.query<HashedImageRow>(
+      `SELECT id, phash, description, image_width, image_height, original_image_size, image_size, created_at
+       FROM generated_images
+       WHERE phash IS NOT NULL AND (is_deleted = false OR is_deleted IS NULL)
+       ORDER BY id ASC`
+    );
+
+    const rowsById = new Map(result.rows.map((row) => [row.id, row]));
+    const hashes = result.rows.map((row) => ({ id: row.id, hash: bigintToHash(row.phash) }));
+    const hashById = new Map(hashes.map((item) => [item.id, item.hash]));
+    const clusters = clusterByHash(hashes, threshold);
+
+    // Oldest image (lowest ID) is treated as the canonical copy
+    const report = clusters.map((ids) => ({
+      canonicalId: ids[0],
+      images: ids.map((id) => {
+        const row = rowsById.get(id)!;
+        return {
+          id,
+          distance: hammingDistance(hashById.get(ids[0])!, hashById.get(id)!),
+          description: row.description,
+          width: row.image_width,
+          height: row.image_height,
+          size: row.original_image_size || row.image_size,
+          createdAt: row.created_at,
+        };
+      }),
+    }));
+
+    if (json) {
+      console.log(JSON.stringify({ threshold, scanned: hashes.length, clusters: report }, null, 2));
+    } else {
+      report.forEach((cluster, index) => {
+        console.log(`📦 Cluster ${index + 1} (${cluster.images.length} images, keep #${cluster.canonicalId})`);
+        for (const image of cluster.images) {
+          const marker = image.id === cluster.canonicalId ? '⭐' : '  ';
+          const dimensions = image.width && image.height ? `${image.width}x${image.height}` : 'unknown size';
+          console.log(
+            `   ${marker} #${image.id}  distance ${image.distance}  ${dimensions}  ${image.description || '(no description)'}`
+          );
+        }
+        console.log('');
+      });
+    }
+
+    let flagged = 0;
+    if (flag) {
+      for (const cluster of report) {
+        const duplicateIds = cluster.images.map((image) => image.id).filter((id) => id !== cluster.canonicalId);
+        const update = await pool.query(
+          `UPDATE generated_images SET duplicate_of_id = $1
+           WHERE id = ANY($2::int[]) AND duplicate_of_id IS DISTINCT FROM $1`,
+          [cluster.canonicalId, duplicateIds]
+        );
+        flagged += update.rowCount || 0;
+      }
+    }
+
+    const duplicateTotal = report.reduce((sum, cluster) => sum + cluster.images.length - 1, 0);
+    log('✨ Report complete!');
+    log(`   📊 Scanned: ${hashes.length} images`);
+    log(`   📦 Clusters: ${report.length}`);
+    log(`   🔁 Duplicates: ${duplicateTotal}`);
+    if (flag) {
+      log(`   🏷️  Newly flagged: ${flagged}`);
+    }
+  } catch (error) {
+    console.error('❌ Fatal error:', error);
+    throw error;
+  } finally {
+    await closePool();
+  }
+}
+
+// Run the report
+reportDuplicates()
+  .then(() => {
+    log('\n🎉 All done!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n💥 Script failed:', error);
+    process.exit(1);
+  });
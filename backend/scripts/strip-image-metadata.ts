@@ -0,0 +1,132 @@
+/**
+ * Backfill Script: Extract EXIF/IPTC/XMP and strip sensitive metadata from stored originals
+ * 
+ * This script:
+ * 1. Finds images uploaded before metadata stripping (metadata_stripped_at IS NULL)
+ * 2. Extracts camera, exposure, capture date, caption and keywords into columns
+ * 3. Rewrites the stored original without GPS/serial numbers (or without any metadata
+ *    for images with metadata_policy = 'all')
+ * 4. Clears cached transform derivatives rendered from the old original
+ * 
+ * Safe to re-run: processed images are skipped.
+ * 
+ * Usage: npx tsx scripts/strip-image-metadata.ts [--limit=N]
+ */
+
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { getPool, closePool } from '../lib/db';
+import { applyImageMetadataPolicy } from '../lib/images';
+import { purgeImageDerivatives } from '../lib/image-transforms';
+import { MetadataPolicy } from '../lib/image-metadata';
+
+// Load environment variables (try multiple paths)
+const rootEnvPath = path.resolve(process.cwd(), '.env.local');
+const backendEnvPath = path.resolve(__dirname, '../../.env.local');
+const frontendEnvPath = path.resolve(__dirname, '../../frontend/.env.local');
+
+// Try loading from multiple locations
+dotenv.config({ path: rootEnvPath });
+if (!process.env.DATABASE_HOST) {
+  dotenv.config({ path: backendEnvPath });
+}
+if (!process.env.DATABASE_HOST) {
+  dotenv.config({ path: frontendEnvPath });
+}
+
+// Validate environment variables
+if (!process.env.DATABASE_HOST || !process.env.DATABASE_NAME || !process.env.DATABASE_USER || !process.env.DATABASE_PASSWORD) {
+  console.error('❌ Error: Missing required database environment variables.');
+  console.error('Please ensure .env.local exists in one of these locations:');
+  console.error(`  - ${rootEnvPath}`);
+  console.error(`  - ${backendEnvPath}`);
+  console.error(`  - ${frontendEnvPath}`);
+  console.error('\nRequired variables: DATABASE_HOST, DATABASE_NAME, DATABASE_USER, DATABASE_PASSWORD');
+  process.exit(1);
+}
+
+const limitArg = process.argv.find((arg) => arg.startsWith('--limit='));
+const limit = limitArg ? parseInt(limitArg.split('=')[1], 10) : undefined;
+
+/**
+ * Main backfill function
+ */
+async function stripAllImages() {
+  const pool = getPool();
+
+  try {
+    console.log('🔄 Starting metadata extraction and stripping...\n');
+
+    const result = await pool.query(
+      `SELECT id, metadata_policy
+       FROM generated_images
+       WHERE metadata_stripped_at IS NULL
+         AND (is_deleted = false OR is_deleted IS NULL)
+       ORDER BY id ASC
+       ${limit ? 'LIMIT $1' : ''}`,
+      limit ? [limit] : []
+    );
+
+    const totalImages = result.rows.length;
+    console.log(`📊 Found ${totalImages} images to process\n`);
+
+    if (totalImages === 0) {
+      console.log('✅ No images need processing. All done!');
+      return;
+    }
+
+    let stripped = 0;
+    let unchanged = 0;
+    let failed = 0;
+    const startTime = Date.now();
+
+    // One image at a time - originals can be large
+    for (const row of result.rows) {
+      const policy: MetadataPolicy = row.metadata_policy === 'all' ? 'all' : 'sensitive';
+      const outcome = await applyImageMetadataPolicy(row.id, policy, { extractMetadata: true });
+
+      if (!outcome.success) {
+        failed++;
+        console.error(`❌ Image ${row.id}: failed - ${outcome.error}`);
+        continue;
+      }
+
+      if (outcome.stripped) {
+        stripped++;
+        await purgeImageDerivatives(row.id);
+        console.log(`✅ Image ${row.id}: metadata stripped (${policy})`);
+      } else {
+        unchanged++;
+        console.log(`➖ Image ${row.id}: no metadata to strip`);
+      }
+
+      if ((stripped + unchanged + failed) % 10 === 0) {
+        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+        console.log(`📈 Progress: ${stripped + unchanged + failed}/${totalImages} (${elapsed}s)\n`);
+      }
+    }
+
+    const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
+    console.log('\n✨ Backfill complete!');
+    console.log(`   ✅ Stripped: ${stripped}`);
+    console.log(`   ➖ Unchanged: ${unchanged}`);
+    console.log(`   ❌ Failed: ${failed}`);
+    console.log(`   ⏱️  Total time: ${totalTime}s`);
+  } catch (error) {
+    console.error('❌ Fatal error:', error);
+    throw error;
+  } finally {
+    await closePool();
+  }
+}
+
+// Run the backfill
+stripAllImages()
+  .then(() => {
+    console.log('\n🎉 All done!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n💥 Script failed:', error);
+    process.exit(1);
+  });
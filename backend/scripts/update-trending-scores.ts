@@ -0,0 +1,105 @@
+/**
+ * Background Job: Trending scores
+ *
+ * This script:
+ * 1. Scores every image from its views and downloads in the last 7 days, each event
+ *    halving in weight every 24 hours (downloads count 5x)
+ * 2. Resets the score of images without recent events
+ * 3. Deletes events older than the window
+ *
+ * The trending sort reads the stored score, so run this on a schedule (e.g. cron every 15 minutes)
+ * or keep it running with --watch.
+ *
+ * Usage: npx tsx scripts/update-trending-scores.ts [--watch[=MINUTES]]
+ *   --watch[=MINUTES]  Keep running, updating every MINUTES minutes (default 15)
+ */
+
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { closePool } from '../lib/db';
+import { updateTrendingScores } from '../lib/popularity';
+
+// Load environment variables (try multiple paths)
+const rootEnvPath = path.resolve(process.cwd(), '.env.local');
+const backendEnvPath = path.resolve(__dirname, '../../.env.local');
+const frontendEnvPath = path.resolve(__dirname, '../../frontend/.env.local');
+
+// Try loading from multiple locations
+dotenv.config({ path: rootEnvPath });
+if (!process.env.DATABASE_HOST) {
+  dotenv.config({ path: backendEnvPath });
+}
+if (!process.env.DATABASE_HOST) {
+  dotenv.config({ path: frontendEnvPath });
+}
+
+// Validate environment variables
+if (!process.env.DATABASE_HOST || !process.env.DATABASE_NAME || !process.env.DATABASE_USER || !process.env.DATABASE_PASSWORD) {
+  console.error('❌ Error: Missing required database environment variables.');
+  console.error('Please ensure .env.local exists in one of these locations:');
+  console.error(`  - ${rootEnvPath}`);
+  console.error(`  - ${backendEnvPath}`);
+  console.error(`  - ${frontendEnvPath}`);
+  console.error('\nRequired variables: DATABASE_HOST, DATABASE_NAME, DATABASE_USER, DATABASE_PASSWORD');
+  process.exit(1);
+}
+
+const watchArg = process.argv.find((arg) => arg === '--watch' || arg.startsWith('--watch='));
+const intervalMinutes = watchArg?.includes('=') ? parseFloat(watchArg.split('=')[1]) : 15;
+
+/**
+ * Run one update and report it
+ */
+async function runUpdate() {
+  const startTime = Date.now();
+  const result = await updateTrendingScores();
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Trending update failed');
+  }
+
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log(
+    `✅ ${new Date().toISOString()}: scored ${result.data.scored} images, reset ${result.data.reset}, ` +
+      `pruned ${result.data.pruned} old events (${elapsed}s)`
+  );
+}
+
+/**
+ * Main job function
+ */
+async function updateTrending() {
+  try {
+    console.log('🔄 Updating trending scores...\n');
+    await runUpdate();
+
+    if (!watchArg) return;
+
+    if (!(intervalMinutes > 0)) {
+      throw new Error(`Invalid --watch interval: ${watchArg}`);
+    }
+    console.log(`\n⏱️  Updating every ${intervalMinutes} minutes (Ctrl+C to stop)\n`);
+
+    for (;;) {
+      await new Promise((resolve) => setTimeout(resolve, intervalMinutes * 60 * 1000));
+      try {
+        await runUpdate();
+      } catch (error) {
+        // Keep watching - the next run may succeed (e.g. after a connection blip)
+        console.error('❌ Update failed -', error instanceof Error ? error.message : error);
+      }
+    }
+  } finally {
+    await closePool();
+  }
+}
+
+// Run the job
+updateTrending()
+  .then(() => {
+    console.log('\n🎉 All done!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n💥 Script failed:', error);
+    process.exit(1);
+  });
@@ -8,17 +8,21 @@
  * - Processes each image (generates thumbnail, blurhash, resizes)
  * - Inserts into generated_images table
  * - Shows progress and statistics
+ * - Skips near-duplicates of images already in the database (perceptual hash)
  * 
  * Usage: 
  *   npx tsx backend/scripts/upload-images.ts
  *   OR
  *   cd backend && npm run upload:images (if script is added to package.json)
+ *
+ * Options:
+ *   --duplicates=reject|flag|allow  Near-duplicate handling (default: reject)
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
-import { insertImage } from '../lib/images';
+import { insertImage, DUPLICATE_POLICIES, DuplicatePolicy } from '../lib/images';
 
 // Load environment variables
 const rootEnvPath = path.resolve(process.cwd(), '.env.local');
@@ -45,6 +49,14 @@ if (!process.env.DATABASE_HOST || !process.env.DATABASE_NAME || !process.env.DAT
   process.exit(1);
 }
 
+// Near-duplicate handling (--duplicates=reject|flag|allow)
+const duplicatesArg = process.argv.find((arg) => arg.startsWith('--duplicates='));
+const duplicatePolicy = (duplicatesArg ? duplicatesArg.split('=')[1] : 'reject') as DuplicatePolicy;
+if (!DUPLICATE_POLICIES.includes(duplicatePolicy)) {
+  console.error(`❌ Error: --duplicates must be one of: ${DUPLICATE_POLICIES.join(', ')}`);
+  process.exit(1);
+}
+
 // Path to webp_images directory (relative to project root)
 const WEBP_IMAGES_DIR = path.resolve(process.cwd(), 'webp_images');
 
@@ -109,7 +121,7 @@ function generateTags(imageNumber: number): { tag1: string | null; tag2: string
 /**
  * Upload a single image
  */
-async function uploadImage(filePath: string, index: number, total: number): Promise<{ success: boolean; id?: number; error?: string }> {
+async function uploadImage(filePath: string, index: number, total: number): Promise<{ success: boolean; id?: number; error?: string; duplicateOf?: number }> {
   try {
     // Read image file
     const imageBuffer = fs.readFileSync(filePath);
@@ -125,11 +137,20 @@ async function uploadImage(filePath: string, index: number, total: number): Prom
       tag2: tags.tag2,
       tag3: tags.tag3,
       status: 'approved', // Set status to approved for bulk uploads
+      duplicatePolicy,
     };
     
     // Insert image (automatically processes: WebP conversion, thumbnail, blurhash)
     const result = await insertImage(imageBuffer, metadata);
     
+    if ('duplicateOf' in result && result.duplicateOf) {
+      return {
+        success: false,
+        error: result.error,
+        duplicateOf: result.duplicateOf.id,
+      };
+    }
+    
     if (!result.success || !result.data) {
       return {
         success: false,
@@ -171,10 +192,12 @@ async function uploadAllImages() {
   const startTime = Date.now();
   let successCount = 0;
   let failCount = 0;
+  let duplicateCount = 0;
   const errors: Array<{ file: string; error: string }> = [];
   
   // Process images in batches to avoid overwhelming the database
-  const BATCH_SIZE = 5; // Process 5 images at a time
+  // Duplicate checks only see committed rows, so go one at a time unless duplicates are allowed
+  const BATCH_SIZE = duplicatePolicy === 'allow' ? 5 : 1;
   
   for (let i = 0; i < totalImages; i += BATCH_SIZE) {
     const batch = imageFiles.slice(i, i + BATCH_SIZE);
@@ -199,6 +222,11 @@ async function uploadAllImages() {
         console.log(
           `✅ [${globalIndex}/${totalImages}] (${percentage}%) ${filename} → ID: ${result.id}`
         );
+      } else if (result.duplicateOf) {
+        duplicateCount++;
+        console.log(
+          `⏭️  [${globalIndex}/${totalImages}] ${filename} → Skipped: duplicate of ID ${result.duplicateOf}`
+        );
       } else {
         failCount++;
         errors.push({ file: filename, error: result.error || 'Unknown error' });
@@ -221,6 +249,7 @@ async function uploadAllImages() {
   console.log('📊 Upload Summary');
   console.log('='.repeat(60));
   console.log(`✅ Successfully uploaded: ${successCount} images`);
+  console.log(`⏭️  Skipped duplicates: ${duplicateCount} images`);
   console.log(`❌ Failed: ${failCount} images`);
   console.log(`⏱️  Total time: ${duration} seconds`);
   if (successCount > 0) {
@@ -236,7 +265,7 @@ async function uploadAllImages() {
   
   console.log('\n' + '='.repeat(60));
   
-  if (successCount === totalImages) {
+  if (successCount + duplicateCount === totalImages) {
     console.log('🎉 All images uploaded successfully!');
   } else if (successCount > 0) {
     console.log(`⚠️  Uploaded ${successCount} out of ${totalImages} images`);
@@ -0,0 +1,37 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { UserRole } from '@/backend/lib/roles';
+
+/**
+ * Guard for admin API routes
+ * Scripts send the ADMIN_API_TOKEN env value in the x-admin-token header (and count as admin);
+ * otherwise the caller must be signed in with at least `role`
+ * @returns An error response to return as-is, or null when the request is allowed
+ */
+export async function requireAdmin(request: NextRequest, role: UserRole = 'admin'): Promise<NextResponse | null> {
+  const provided = request.headers.get('x-admin-token');
+  if (provided === null) {
+    const { denied } = await requireRole(request, role);
+    return denied;
+  }
+
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    return NextResponse.json(
+      { success: false, error: 'Admin API token is not configured' },
+      { status: 503 }
+    );
+  }
+
+  // Compare digests so the check takes the same time whatever the token length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  if (!timingSafeEqual(digest(provided), digest(expected))) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addTagAlias, removeTagAlias } from '@/backend/lib/tag-management';
+import { requireAdmin } from '../../admin-auth';
+import { tagChangeResponse } from '../tag-change-response';
+
+/**
+ * Add an alias slug for a tag (e.g. so /tag/city-scape redirects to /tag/cityscape)
+ * POST /api/admin/tags/aliases { alias: "city-scape", tag: "cityscape" }
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireAdmin(request, 'moderator');
+  if (denied) return denied;
+
+  try {
+    const { alias, tag } = await request.json();
+    if (typeof alias !== 'string' || typeof tag !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'alias and tag are required' },
+        { status: 400 }
+      );
+    }
+    return tagChangeResponse(await addTagAlias(alias, tag));
+  } catch (error) {
+    console.error('Tag alias API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove an alias
+ * DELETE /api/admin/tags/aliases?alias=city-scape
+ */
+export async function DELETE(request: NextRequest) {
+  const denied = await requireAdmin(request, 'moderator');
+  if (denied) return denied;
+
+  const alias = request.nextUrl.searchParams.get('alias');
+  if (!alias) {
+    return NextResponse.json(
+      { success: false, error: 'alias is required' },
+      { status: 400 }
+    );
+  }
+  return tagChangeResponse(await removeTagAlias(alias));
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { mergeTags } from '@/backend/lib/tag-management';
+import { validateStringArray, validateString } from '@/backend/lib/validation';
+import { requireAdmin } from '../../admin-auth';
+
+/**
+ * Merge tags into a target tag
+ * POST /api/admin/tags/merge { sources: ["city-scape"], target: "cityscape" }
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireAdmin(request, 'moderator');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+
+    let sources: string[];
+    let target: string;
+    try {
+      sources = validateStringArray(body.sources, 50);
+      target = validateString(body.target, 100);
+    } catch (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError instanceof Error ? validationError.message : 'Invalid request' },
+        { status: 400 }
+      );
+    }
+
+    const result = await mergeTags(sources, target);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, notFound: result.notFound },
+        { status: result.notFound ? 404 : result.invalid ? 400 : 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Tag merge API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
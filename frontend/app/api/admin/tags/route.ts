@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listTags, suggestTagMerges } from '@/backend/lib/tag-management';
+import { requireAdmin } from '../admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * List tags with usage counts, aliases and synonyms, plus near-duplicate merge suggestions
+ * GET /api/admin/tags?q=&limit=&offset=&suggestions=false
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requireAdmin(request, 'moderator');
+  if (denied) return denied;
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const limit = parseInt(searchParams.get('limit') || '50', 10);
+    const offset = parseInt(searchParams.get('offset') || '0', 10);
+
+    const result = await listTags({
+      search: searchParams.get('q') || undefined,
+      limit,
+      offset,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 500 }
+      );
+    }
+
+    const suggestions = searchParams.get('suggestions') === 'false' ? undefined : await suggestTagMerges();
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      suggestions,
+      pagination: {
+        total: result.total,
+        limit,
+        offset,
+        hasMore: offset + result.data.length < result.total,
+      },
+    });
+  } catch (error) {
+    console.error('Admin tags API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { setTagSynonym } from '@/backend/lib/tag-management';
+import { requireAdmin } from '../../admin-auth';
+import { tagChangeResponse } from '../tag-change-response';
+
+/**
+ * Mark two tags as synonyms - searching for one also finds the other
+ * POST /api/admin/tags/synonyms { tag: "cityscape", synonym: "urban" }
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireAdmin(request, 'moderator');
+  if (denied) return denied;
+
+  try {
+    const { tag, synonym } = await request.json();
+    if (typeof tag !== 'string' || typeof synonym !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'tag and synonym are required' },
+        { status: 400 }
+      );
+    }
+    return tagChangeResponse(await setTagSynonym(tag, synonym));
+  } catch (error) {
+    console.error('Tag synonym API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Unmark two tags as synonyms
+ * DELETE /api/admin/tags/synonyms?tag=cityscape&synonym=urban
+ */
+export async function DELETE(request: NextRequest) {
+  const denied = await requireAdmin(request, 'moderator');
+  if (denied) return denied;
+
+  const tag = request.nextUrl.searchParams.get('tag');
+  const synonym = request.nextUrl.searchParams.get('synonym');
+  if (!tag || !synonym) {
+    return NextResponse.json(
+      { success: false, error: 'tag and synonym are required' },
+      { status: 400 }
+    );
+  }
+  return tagChangeResponse(await setTagSynonym(tag, synonym, true));
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { TagChangeResult } from '@/backend/lib/tag-management';
+
+/**
+ * Build the HTTP response for an alias or synonym change
+ * Shared by /api/admin/tags/aliases and /api/admin/tags/synonyms
+ */
+export function tagChangeResponse(result: TagChangeResult): NextResponse {
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, error: result.error },
+      { status: result.notFound ? 404 : result.invalid ? 400 : 500 }
+    );
+  }
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { setUserRole } from '@/backend/lib/users';
+import { isUserRole, USER_ROLES } from '@/backend/lib/roles';
+import { getSessionFromRequest } from '@/lib/auth';
+import { requireAdmin } from '../../admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Change a user's role - takes effect on their next request, no new sign-in needed
+ * PATCH /api/admin/users/[id] { role: "contributor" }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const userId = parseInt(params.id, 10);
+    if (isNaN(userId) || userId <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid user ID' },
+        { status: 400 }
+      );
+    }
+
+    const { role } = await request.json().catch(() => ({}));
+    if (!isUserRole(role)) {
+      return NextResponse.json(
+        { success: false, error: `role must be one of: ${USER_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // An admin demoting themselves could leave nobody able to undo it
+    const session = await getSessionFromRequest(request);
+    if (session?.userId === userId) {
+      return NextResponse.json(
+        { success: false, error: "You can't change your own role" },
+        { status: 400 }
+      );
+    }
+
+    const result = await setUserRole(userId, role);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'User not found' ? 404 : 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Admin user role API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
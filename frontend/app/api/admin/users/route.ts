@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listUsers } from '@/backend/lib/users';
+import { isUserRole, USER_ROLES } from '@/backend/lib/roles';
+import { requireAdmin } from '../admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * List users with their roles, newest first
+ * GET /api/admin/users?role=moderator&limit=&offset=
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const role = searchParams.get('role') || undefined;
+    const limit = parseInt(searchParams.get('limit') || '50', 10);
+    const offset = parseInt(searchParams.get('offset') || '0', 10);
+
+    if (role !== undefined && !isUserRole(role)) {
+      return NextResponse.json(
+        { success: false, error: `role must be one of: ${USER_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await listUsers({
+      role,
+      limit: isNaN(limit) ? 50 : Math.min(Math.max(limit, 1), 200),
+      offset: isNaN(offset) ? 0 : Math.max(offset, 0),
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      total: result.total,
+    });
+  } catch (error) {
+    console.error('Admin users API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sendAccountEmail } from '@/backend/lib/account-emails';
+import { getUserByEmail } from '@/backend/lib/users';
+import { validateEmail } from '@/backend/lib/validation';
+import { checkRateLimit, getClientIdentifier } from '../../rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+// Same answer whether or not the account exists, so this can't be used to find out
+const SENT_MESSAGE = 'If an account exists for that email, we sent it a link to reset the password';
+
+/**
+ * POST /api/auth/forgot
+ * Email a password reset link to an account
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(clientId, { windowMs: 60000, maxRequests: 5 });
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { success: false, error: rateLimit.error },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    let email: string;
+    try {
+      email = validateEmail(body?.email);
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'A valid email address is required' },
+        { status: 400 }
+      );
+    }
+
+    // Don't let anyone flood an inbox with reset emails
+    const accountLimit = checkRateLimit(`forgot:${email}`, { windowMs: 60 * 60 * 1000, maxRequests: 3 });
+    if (!accountLimit.success) {
+      return NextResponse.json({ success: true, message: SENT_MESSAGE });
+    }
+
+    const userResult = await getUserByEmail(email);
+    if (userResult.success && userResult.data) {
+      const sent = await sendAccountEmail(userResult.data, 'reset_password');
+      if (!sent.success) {
+        throw new Error(sent.error || 'Failed to send reset email');
+      }
+    } else if (userResult.error !== 'User not found') {
+      throw new Error(userResult.error || 'Failed to look up account');
+    }
+
+    return NextResponse.json({ success: true, message: SENT_MESSAGE });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to send reset email' },
+      { status: 500 }
+    );
+  }
+}
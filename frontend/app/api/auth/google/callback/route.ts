@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateSessionToken } from '@/lib/auth';
-import { createGoogleUser, authenticateGoogleUser, getUserByFirebaseUid } from '@/backend/lib/users';
+import { startSession, setSessionCookie } from '@/lib/auth';
+import { createGoogleUser, authenticateGoogleUser, getUserByFirebaseUid, markEmailVerified } from '@/backend/lib/users';
 import { checkRateLimit, getClientIdentifier } from '../../../rate-limit';
 
 export const dynamic = 'force-dynamic';
@@ -113,7 +113,7 @@ export async function GET(request: NextRequest) {
     }
 
     const userInfo = await userInfoResponse.json();
-    const { id: googleId, email, name } = userInfo;
+    const { id: googleId, email, name, verified_email: verifiedEmail } = userInfo;
 
     if (!email) {
       return NextResponse.redirect(new URL('/?error=no_email', request.url));
@@ -150,8 +150,17 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Generate session token
-    const token = generateSessionToken(String(user.id));
+    // Google has checked the address, so the account doesn't need our verification email
+    if (verifiedEmail === true) {
+      await markEmailVerified(user.id);
+    }
+
+    // Start a session for this device
+    const session = await startSession(request, user.id);
+    if (!session.success || !session.data) {
+      console.error('Failed to start session:', session.error);
+      return NextResponse.redirect(new URL('/?error=auth_failed', request.url));
+    }
 
     // Build redirect URL with pending download info if available
     // Handle both absolute and relative URLs
@@ -182,13 +191,7 @@ export async function GET(request: NextRequest) {
     // Clear OAuth state cookie
     const response = NextResponse.redirect(redirectUrl);
     response.cookies.delete('oauth_state');
-    response.cookies.set('session_token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 86400, // 24 hours
-      path: '/',
-    });
+    setSessionCookie(response, session.data.token);
 
     return response;
   } catch (error) {
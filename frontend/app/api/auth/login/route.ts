@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateSessionToken } from '@/lib/auth';
-import { checkRateLimit, getClientIdentifier } from '../../rate-limit';
+import { startSession, setSessionCookie } from '@/lib/auth';
+import { authenticateUser } from '@/backend/lib/users';
+import { checkRateLimit, recordAttempt, clearFailures, getClientIdentifier } from '../../rate-limit';
+
+// Wrong passwords allowed per account before it is locked for the rest of the window
+const ACCOUNT_FAILURE_LIMIT = { windowMs: 15 * 60 * 1000, maxRequests: 5 };
 
 /**
- * Simple login endpoint
- * In production, integrate with proper authentication service (NextAuth, Auth0, etc.)
+ * Email/password login - starts a session for the account
+ * Failed attempts are limited per IP and per account, so spreading a guess over many IPs doesn't help
  */
 export async function POST(request: NextRequest) {
   try {
@@ -21,33 +25,63 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { email, password } = body;
 
-    // Simple validation (replace with proper authentication in production)
-    if (!email || !password) {
+    if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
       return NextResponse.json(
         { success: false, error: 'Email and password are required' },
         { status: 400 }
       );
     }
 
-    // TODO: In production, verify credentials against database
-    // For now, generate a session token
-    const userId = email.split('@')[0]; // Simple user ID from email
-    const token = generateSessionToken(userId);
+    // Count the attempt before the (slow) password check; a successful login clears it below
+    const accountKey = `login:${email.trim().toLowerCase()}`;
+    const accountLimit = recordAttempt(accountKey, ACCOUNT_FAILURE_LIMIT);
+    if (!accountLimit.success) {
+      return NextResponse.json(
+        { success: false, error: accountLimit.error },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': Math.ceil((accountLimit.resetTime - Date.now()) / 1000).toString(),
+          },
+        }
+      );
+    }
 
-    return NextResponse.json({
+    // A session needs a real account
+    const authResult = await authenticateUser(email, password);
+    if (!authResult.success || !authResult.data) {
+      if (authResult.error !== 'Invalid email or password') {
+        throw new Error(authResult.error || 'Authentication failed');
+      }
+      return NextResponse.json(
+        { success: false, error: 'Invalid email or password' },
+        { status: 401 }
+      );
+    }
+
+    clearFailures(accountKey);
+    const user = authResult.data;
+    const session = await startSession(request, user.id);
+    if (!session.success || !session.data) {
+      throw new Error(session.error || 'Failed to start session');
+    }
+
+    const response = NextResponse.json({
       success: true,
       data: {
-        token,
+        token: session.data.token,
         user: {
-          id: userId,
-          email,
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          auth_provider: user.auth_provider,
+          role: user.role,
+          email_verified: user.email_verified,
         },
       },
-    }, {
-      headers: {
-        'Set-Cookie': `session_token=${token}; HttpOnly; Secure; SameSite=Strict; Path=/; Max-Age=86400`,
-      },
     });
+    setSessionCookie(response, session.data.token);
+    return response;
   } catch (error) {
     console.error('Login error:', error);
     return NextResponse.json(
@@ -1,12 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getSessionToken, getSessionFromRequest, clearSessionCookie } from '@/lib/auth';
+import { revokeSession, revokeAllSessions } from '@/backend/lib/sessions';
 
+/**
+ * POST /api/auth/logout
+ * Revoke the current session, or with { "everywhere": true } every session of the account
+ */
 export async function POST(request: NextRequest) {
-  return NextResponse.json({
-    success: true,
-    message: 'Logged out successfully',
-  }, {
-    headers: {
-      'Set-Cookie': 'session_token=; HttpOnly; Secure; SameSite=Strict; Path=/; Max-Age=0',
-    },
-  });
+  try {
+    const body = await request.json().catch(() => ({}));
+    const token = getSessionToken(request);
+
+    if (token) {
+      if (body?.everywhere === true) {
+        const session = await getSessionFromRequest(request);
+        if (session) {
+          const result = await revokeAllSessions(session.userId);
+          if (!result.success) throw new Error(result.error);
+        }
+      } else {
+        const result = await revokeSession(token);
+        if (!result.success) throw new Error(result.error);
+      }
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      message: 'Logged out successfully',
+    });
+    clearSessionCookie(response);
+    return response;
+  } catch (error) {
+    console.error('Logout error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Logout failed',
+      },
+      { status: 500 }
+    );
+  }
 }
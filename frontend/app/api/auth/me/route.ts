@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserIdFromRequest, isAuthenticated } from '@/lib/auth';
+import { getSessionFromRequest } from '@/lib/auth';
 import { getUserById } from '@/backend/lib/users';
 
 export async function GET(request: NextRequest) {
   try {
-    if (!isAuthenticated(request)) {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
       // Return 200 with authenticated: false to prevent console errors
       // 401 is expected when not authenticated, so we handle it gracefully
       return NextResponse.json(
@@ -13,18 +14,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const userId = getUserIdFromRequest(request);
-    const userIdNum = parseInt(userId, 10);
-
-    if (isNaN(userIdNum)) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid user ID' },
-        { status: 400 }
-      );
-    }
-
     // Fetch full user data from database
-    const userResult = await getUserById(userIdNum);
+    const userResult = await getUserById(session.userId);
 
     if (!userResult.success || !userResult.data) {
       return NextResponse.json(
@@ -41,6 +32,8 @@ export async function GET(request: NextRequest) {
         email: userResult.data.email,
         name: userResult.data.name,
         auth_provider: userResult.data.auth_provider || 'email',
+        email_verified: Boolean(userResult.data.email_verified_at),
+        role: userResult.data.role || 'viewer',
         picture: null, // Picture is not stored in DB, can be fetched from Google if needed
       },
     });
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateSessionToken } from '@/lib/auth';
+import { startSession, setSessionCookie } from '@/lib/auth';
 import { createUser } from '@/backend/lib/users';
+import { validateEmail, validateNewPassword } from '@/backend/lib/validation';
+import { sendAccountEmail } from '@/backend/lib/account-emails';
 import { checkRateLimit, getClientIdentifier } from '../../rate-limit';
 
 /**
- * User registration endpoint
+ * User registration endpoint - creates the account, signs it in and emails a verification link
  */
 export async function POST(request: NextRequest) {
   try {
@@ -28,16 +30,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate password strength (basic)
-    if (password.length < 6) {
+    // Check the email format and password strength rules up front so they come back as 400s
+    let validatedEmail: string;
+    try {
+      validatedEmail = validateEmail(email);
+      validateNewPassword(password, validatedEmail);
+    } catch (validationError) {
       return NextResponse.json(
-        { success: false, error: 'Password must be at least 6 characters' },
+        { success: false, error: validationError instanceof Error ? validationError.message : 'Invalid input' },
         { status: 400 }
       );
     }
 
     // Create user
-    const result = await createUser(email, password, name);
+    const result = await createUser(validatedEmail, password, name);
     
     if (!result.success) {
       return NextResponse.json(
@@ -47,23 +53,34 @@ export async function POST(request: NextRequest) {
     }
 
     const user = result.data!;
-    const token = generateSessionToken(String(user.id));
 
-    return NextResponse.json({
+    // The account works without it - the link can be sent again from POST /api/auth/verify
+    const verification = await sendAccountEmail(user, 'verify_email');
+    if (!verification.success) {
+      console.error('Failed to send verification email:', verification.error);
+    }
+
+    const session = await startSession(request, user.id);
+    if (!session.success || !session.data) {
+      throw new Error(session.error || 'Failed to start session');
+    }
+
+    const response = NextResponse.json({
       success: true,
       data: {
-        token,
+        token: session.data.token,
         user: {
           id: user.id,
           email: user.email,
           name: user.name,
+          auth_provider: user.auth_provider,
+          role: user.role,
+          email_verified: false,
         },
       },
-    }, {
-      headers: {
-        'Set-Cookie': `session_token=${token}; HttpOnly; Secure; SameSite=Strict; Path=/; Max-Age=86400`,
-      },
     });
+    setSessionCookie(response, session.data.token);
+    return response;
   } catch (error) {
     console.error('Registration error:', error);
     return NextResponse.json(
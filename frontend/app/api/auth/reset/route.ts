@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findAuthToken, consumeAuthToken } from '@/backend/lib/auth-tokens';
+import { revokeAllSessions } from '@/backend/lib/sessions';
+import { getUserById, markEmailVerified, setUserPassword } from '@/backend/lib/users';
+import { validateNewPassword } from '@/backend/lib/validation';
+import { checkRateLimit, clearFailures, getClientIdentifier } from '../../rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/auth/reset
+ * Set a new password with the token from a reset email. Signs the account out everywhere.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(clientId, { windowMs: 60000, maxRequests: 10 });
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { success: false, error: rateLimit.error },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { token, password } = body ?? {};
+
+    if (!token || !password) {
+      return NextResponse.json(
+        { success: false, error: 'Token and password are required' },
+        { status: 400 }
+      );
+    }
+
+    const invalidLink = NextResponse.json(
+      { success: false, error: 'This link is invalid or has expired' },
+      { status: 400 }
+    );
+
+    // Check the new password before using up the token, so a rejected one can be retried
+    const found = await findAuthToken(token, 'reset_password');
+    if (!found.success || !found.data) {
+      if (found.error !== 'Invalid or expired token') {
+        throw new Error(found.error || 'Failed to check token');
+      }
+      return invalidLink;
+    }
+
+    const userResult = await getUserById(found.data.userId);
+    if (!userResult.success || !userResult.data) {
+      return invalidLink;
+    }
+    const user = userResult.data;
+
+    try {
+      validateNewPassword(password, user.email);
+    } catch (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError instanceof Error ? validationError.message : 'Invalid password' },
+        { status: 400 }
+      );
+    }
+
+    const consumed = await consumeAuthToken(token, 'reset_password');
+    if (!consumed.success) {
+      // Used by a concurrent request in the meantime
+      return invalidLink;
+    }
+
+    const updated = await setUserPassword(user.id, password);
+    if (!updated.success) {
+      throw new Error(updated.error || 'Failed to set password');
+    }
+
+    // Whoever knew the old password is signed out; the link also proves the address is theirs
+    const revoked = await revokeAllSessions(user.id);
+    if (!revoked.success) {
+      console.error('Failed to revoke sessions after password reset:', revoked.error);
+    }
+    await markEmailVerified(user.id);
+    clearFailures(`login:${String(user.email).toLowerCase()}`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Password updated. Sign in with your new password.',
+    });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Password reset failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { revokeSessionById } from '@/backend/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * DELETE /api/auth/sessions/[id]
+ * Sign out one of the current account's devices
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const sessionId = parseInt(params.id, 10);
+    if (isNaN(sessionId) || sessionId <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid session ID' },
+        { status: 400 }
+      );
+    }
+
+    const result = await revokeSessionById(session.userId, sessionId);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Session not found' ? 404 : 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Session revoked' });
+  } catch (error) {
+    console.error('Sessions DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke session' },
+      { status: 500 }
+    );
+  }
+}
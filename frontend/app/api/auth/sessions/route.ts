@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { listSessions } from '@/backend/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/auth/sessions
+ * List the signed-in devices of the current account; the one making the request has current: true
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const result = await listSessions(session.userId);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error || 'Failed to list sessions' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data.map((device) => ({ ...device, current: device.id === session.id })),
+    });
+  } catch (error) {
+    console.error('Sessions GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list sessions' },
+      { status: 500 }
+    );
+  }
+}
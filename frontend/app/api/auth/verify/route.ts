@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { consumeAuthToken } from '@/backend/lib/auth-tokens';
+import { sendAccountEmail } from '@/backend/lib/account-emails';
+import { getUserById, markEmailVerified } from '@/backend/lib/users';
+import { checkRateLimit, getClientIdentifier } from '../../rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/auth/verify
+ * { "token": "..." } verifies the email address the link was sent to.
+ * Without a token, (re)sends the verification link to the signed-in account.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(clientId, { windowMs: 60000, maxRequests: 10 });
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { success: false, error: rateLimit.error },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const token = body?.token;
+
+    if (token !== undefined) {
+      const result = await consumeAuthToken(token, 'verify_email');
+      if (!result.success || !result.data) {
+        if (result.error !== 'Invalid or expired token') {
+          throw new Error(result.error || 'Failed to verify token');
+        }
+        return NextResponse.json(
+          { success: false, error: 'This link is invalid or has expired' },
+          { status: 400 }
+        );
+      }
+
+      const verified = await markEmailVerified(result.data.userId);
+      if (!verified.success) {
+        throw new Error(verified.error || 'Failed to verify email');
+      }
+
+      return NextResponse.json({ success: true, message: 'Email verified' });
+    }
+
+    const session = await getSessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userResult = await getUserById(session.userId);
+    if (!userResult.success || !userResult.data) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (userResult.data.email_verified_at) {
+      return NextResponse.json({ success: true, message: 'Email already verified' });
+    }
+
+    const resendLimit = checkRateLimit(`verify:${session.userId}`, { windowMs: 60 * 60 * 1000, maxRequests: 3 });
+    if (!resendLimit.success) {
+      return NextResponse.json(
+        { success: false, error: resendLimit.error },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': Math.ceil((resendLimit.resetTime - Date.now()) / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    const sent = await sendAccountEmail(userResult.data, 'verify_email');
+    if (!sent.success) {
+      throw new Error(sent.error || 'Failed to send verification email');
+    }
+
+    return NextResponse.json({ success: true, message: 'Verification email sent' });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Email verification failed' },
+      { status: 500 }
+    );
+  }
+}
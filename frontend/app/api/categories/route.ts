@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCategories } from '@/backend/lib/categories';
+import { checkRateLimit, getClientIdentifier } from '../rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * List all categories in display order with live image counts
+ * Counts include subcategories; subcategories name their parent in parentSlug
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Rate limiting
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(clientId, { windowMs: 60000, maxRequests: 100 });
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { success: false, error: rateLimit.error },
+        { status: 429 }
+      );
+    }
+
+    const result = await getCategories();
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    }, {
+      headers: {
+        // Counts only need to be roughly live
+        'Cache-Control': 'public, max-age=60, stale-while-revalidate=300',
+      },
+    });
+  } catch (error) {
+    console.error('Categories API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { deleteCollection, addImageToCollection, removeImageFromCollection } from '@/backend/lib/collections';
+import { getUserIdFromRequest } from '@/lib/auth';
 import { checkRateLimit, getClientIdentifier } from '../../rate-limit';
 
 export async function DELETE(
@@ -18,7 +19,14 @@ export async function DELETE(
     }
 
     const id = parseInt(params.id, 10);
-    const userId = request.headers.get('x-user-id') || 'anonymous';
+    const userId = await getUserIdFromRequest(request);
+
+    if (userId === 'anonymous') {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
 
     if (isNaN(id) || id <= 0) {
       return NextResponse.json(
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserCollections, createCollection } from '@/backend/lib/collections';
+import { getUserIdFromRequest } from '@/lib/auth';
 import { checkRateLimit, getClientIdentifier } from '../rate-limit';
 
 export async function GET(request: NextRequest) {
@@ -15,7 +16,15 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const userId = request.headers.get('x-user-id') || 'anonymous';
+    const userId = await getUserIdFromRequest(request);
+
+    if (userId === 'anonymous') {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
     const result = await getUserCollections(userId);
 
     if (!result.success) {
@@ -62,7 +71,14 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json();
     const { name, description } = body;
-    const userId = request.headers.get('x-user-id') || 'anonymous';
+    const userId = await getUserIdFromRequest(request);
+
+    if (userId === 'anonymous') {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
 
     if (!name) {
       return NextResponse.json(
@@ -7,11 +7,12 @@ export const dynamic = 'force-dynamic';
 
 /**
  * GET /api/favorites
- * Get all favorited images for the authenticated user
+ * Get favorited images for the authenticated user, most recent first
+ * Query params: limit and cursor page through them (pagination.nextCursor); without either, all are returned
  */
 export async function GET(request: NextRequest) {
   try {
-    const userId = getUserIdFromRequest(request);
+    const userId = await getUserIdFromRequest(request);
     
     if (!userId || userId === 'anonymous') {
       return NextResponse.json(
@@ -20,12 +21,17 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const result = await getUserFavorites(userId);
+    const { searchParams } = new URL(request.url);
+    const limitParam = searchParams.get('limit');
+    const result = await getUserFavorites(userId, {
+      limit: limitParam ? parseInt(limitParam, 10) : undefined,
+      cursor: searchParams.get('cursor') || undefined,
+    });
 
     if (!result.success) {
       return NextResponse.json(
         { success: false, error: result.error || 'Failed to fetch favorites' },
-        { status: 500 }
+        { status: result.invalid ? 400 : 500 }
       );
     }
 
@@ -33,6 +39,10 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       success: true,
       data: result.data,
+      pagination: {
+        hasMore: result.hasMore,
+        nextCursor: result.nextCursor ?? null,
+      },
     });
   } catch (error) {
     console.error('Favorites GET error:', error);
@@ -52,7 +62,7 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
-    const userId = getUserIdFromRequest(request);
+    const userId = await getUserIdFromRequest(request);
     
     if (!userId || userId === 'anonymous') {
       return NextResponse.json(
@@ -104,7 +114,7 @@ export async function POST(request: NextRequest) {
  */
 export async function DELETE(request: NextRequest) {
   try {
-    const userId = getUserIdFromRequest(request);
+    const userId = await getUserIdFromRequest(request);
     
     if (!userId || userId === 'anonymous') {
       return NextResponse.json(
@@ -1,13 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getResizedOriginalImage } from '@/backend/lib/images';
+import { DOWNLOAD_PRESETS } from '@/backend/lib/image-transforms';
 import { getUserIdFromRequest } from '@/lib/auth';
 import { decodeId } from '@/backend/lib/hashids';
+import { transformImageResponse } from '../../../transform-response';
+import { recordDownloadResponse } from '../../../image-events';
 
 export const dynamic = 'force-dynamic';
 
 /**
  * GET /api/images/[id]/download/16x9
  * Returns 16:9 landscape format (1920x1080) in highest quality (PNG/JPG)
+ * Same crop as the "16x9" transform preset, rendered from the original file
  * Requires authentication
  * Accepts both hash IDs (e.g., "a3xK9m") and numeric IDs for backward compatibility
  */
@@ -17,7 +20,7 @@ export async function GET(
 ) {
   try {
     // Check authentication
-    const userId = getUserIdFromRequest(request);
+    const userId = await getUserIdFromRequest(request);
     if (!userId || userId === 'anonymous') {
       return new NextResponse('Authentication required', { status: 401 });
     }
@@ -37,49 +40,16 @@ export async function GET(
       return new NextResponse('Invalid image ID', { status: 400 });
     }
 
-    // Resize to 16:9 format (1920x1080) in highest quality
-    const result = await getResizedOriginalImage(id, 1920, 1080);
-
-    if (!result.success) {
-      return new NextResponse(result.error || 'Image not found', {
-        status: result.error === 'Image not found' || result.error === 'Original image data not available' ? 404 : 500,
-      });
-    }
-
-    // Convert BYTEA buffer to Buffer if needed
-    const imageBuffer = Buffer.isBuffer(result.data) 
-      ? result.data 
-      : Buffer.from(result.data);
-
-    // Generate ETag for cache validation
-    const crypto = await import('crypto');
-    const etag = crypto.createHash('md5').update(imageBuffer).digest('hex');
-
-    // Check if client has cached version
-    const ifNoneMatch = request.headers.get('if-none-match');
-    if (ifNoneMatch === `"${etag}"`) {
-      return new NextResponse(null, { status: 304 }); // Not Modified
-    }
+    const response = await transformImageResponse(request, id, DOWNLOAD_PRESETS['16x9'], {
+      disposition: 'attachment',
+      filename: `image-${id}-16x9-1920x1080`,
+      cacheControl: 'private, no-cache, must-revalidate', // Authenticated download - revalidate with ETag
+    });
 
-    // Determine file extension from MIME type
-    const mimeToExt: Record<string, string> = {
-      'image/png': 'png',
-      'image/jpeg': 'jpg',
-      'image/jpg': 'jpg',
-    };
-    const extension = mimeToExt[result.mimeType || 'image/jpeg'] || 'jpg';
+    // Count downloads that send the image, once per client - not 304 revalidations or errors
+    await recordDownloadResponse(request, id, response.status);
 
-    // Return binary image data with proper headers
-    return new NextResponse(imageBuffer, {
-      status: 200,
-      headers: {
-        'Content-Type': result.mimeType || 'image/jpeg',
-        'Content-Length': imageBuffer.length.toString(),
-        'Cache-Control': 'no-cache, must-revalidate',
-        'ETag': `"${etag}"`,
-        'Content-Disposition': `attachment; filename="image-${id}-16x9-1920x1080.${extension}"`,
-      },
-    });
+    return response;
   } catch (error) {
     console.error('16:9 Download API Error:', error);
     return new NextResponse('Internal server error', { status: 500 });
@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getImageFile } from '@/backend/lib/images';
+import { getImageBlobInfo } from '@/backend/lib/images';
 import { decodeId } from '@/backend/lib/hashids';
+import { imageBlobResponse } from '../../blob-response';
 
 export const dynamic = 'force-dynamic';
 
 /**
  * GET /api/images/[id]/file
- * Returns full resolution image binary data
+ * HEAD /api/images/[id]/file
+ * Returns full resolution image binary data (streamed, supports Range requests)
  * Public endpoint - anyone can view HD images
  * (Download functionality still requires authentication)
  * Accepts both hash IDs (e.g., "a3xK9m") and numeric IDs for backward compatibility
@@ -34,43 +36,29 @@ export async function GET(
       return new NextResponse('Invalid image ID', { status: 400 });
     }
 
-    const result = await getImageFile(id);
+    const result = await getImageBlobInfo(id, 'full');
 
-    if (!result.success) {
+    if (!result.success || !result.data) {
       return new NextResponse(result.error || 'Image not found', {
         status: result.error === 'Image not found' || result.error === 'Image data not available' ? 404 : 500,
       });
     }
 
-    // Convert BYTEA buffer to Buffer if needed
-    const imageBuffer = Buffer.isBuffer(result.data) 
-      ? result.data 
-      : Buffer.from(result.data);
-
-    // Generate ETag for cache validation (hash of image data)
-    const crypto = await import('crypto');
-    const etag = crypto.createHash('md5').update(imageBuffer).digest('hex');
-
-    // Check if client has cached version (If-None-Match header)
-    const ifNoneMatch = request.headers.get('if-none-match');
-    if (ifNoneMatch === `"${etag}"`) {
-      return new NextResponse(null, { status: 304 }); // Not Modified
-    }
-
-    // Return binary image data with proper headers (aggressive browser cache)
-    return new NextResponse(imageBuffer, {
-      status: 200,
-      headers: {
-        'Content-Type': result.mimeType || 'image/webp', // WebP format
-        'Content-Length': imageBuffer.length.toString(),
-        // Aggressive caching: 1 hour public cache, browser can cache for 1 hour without revalidation
-        'Cache-Control': 'public, max-age=3600, stale-while-revalidate=86400', // 1 hour cache, 24h stale-while-revalidate
-        'ETag': `"${etag}"`, // ETag for cache validation
-        'Content-Disposition': `inline; filename="image-${id}.webp"`,
-      },
+    return await imageBlobResponse(request, result.data, {
+      disposition: 'inline',
+      filename: `image-${id}`,
+      // Aggressive caching: 1 hour public cache, 24h stale-while-revalidate
+      cacheControl: 'public, max-age=3600, stale-while-revalidate=86400',
     });
   } catch (error) {
     console.error('Image File API Error:', error);
     return new NextResponse('Internal server error', { status: 500 });
   }
 }
+
+export async function HEAD(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  return GET(request, context);
+}
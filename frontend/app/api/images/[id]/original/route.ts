@@ -1,13 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getOriginalImageFile } from '@/backend/lib/images';
+import { getImageBlobInfo } from '@/backend/lib/images';
 import { getUserIdFromRequest } from '@/lib/auth';
 import { decodeId } from '@/backend/lib/hashids';
+import { imageBlobResponse } from '../../blob-response';
+import { recordDownloadResponse } from '../../image-events';
 
 export const dynamic = 'force-dynamic';
 
 /**
  * GET /api/images/[id]/original
- * Returns original image binary data (highest quality - PNG/JPG)
+ * HEAD /api/images/[id]/original
+ * Returns original image binary data (highest quality - PNG/JPG), streamed with Range support
  * Requires authentication for downloads
  * Accepts both hash IDs (e.g., "a3xK9m") and numeric IDs for backward compatibility
  */
@@ -17,7 +20,7 @@ export async function GET(
 ) {
   try {
     // Check authentication for downloads
-    const userId = getUserIdFromRequest(request);
+    const userId = await getUserIdFromRequest(request);
     if (!userId || userId === 'anonymous') {
       return new NextResponse('Authentication required', { status: 401 });
     }
@@ -37,51 +40,33 @@ export async function GET(
       return new NextResponse('Invalid image ID', { status: 400 });
     }
 
-    const result = await getOriginalImageFile(id);
+    const result = await getImageBlobInfo(id, 'original');
 
-    if (!result.success) {
+    if (!result.success || !result.data) {
       return new NextResponse(result.error || 'Image not found', {
         status: result.error === 'Image not found' || result.error === 'Image data not available' ? 404 : 500,
       });
     }
 
-    // Convert BYTEA buffer to Buffer if needed
-    const imageBuffer = Buffer.isBuffer(result.data) 
-      ? result.data 
-      : Buffer.from(result.data);
-
-    // Generate ETag for cache validation (hash of image data)
-    const crypto = await import('crypto');
-    const etag = crypto.createHash('md5').update(imageBuffer).digest('hex');
-
-    // Check if client has cached version (If-None-Match header)
-    const ifNoneMatch = request.headers.get('if-none-match');
-    if (ifNoneMatch === `"${etag}"`) {
-      return new NextResponse(null, { status: 304 }); // Not Modified
-    }
+    const response = await imageBlobResponse(request, result.data, {
+      disposition: 'attachment', // Force download
+      filename: `image-${id}-original`,
+      cacheControl: 'no-cache, must-revalidate', // Browser caches but validates with server
+    });
 
-    // Determine file extension from MIME type
-    const mimeToExt: Record<string, string> = {
-      'image/png': 'png',
-      'image/jpeg': 'jpg',
-      'image/jpg': 'jpg',
-      'image/webp': 'webp',
-    };
-    const extension = mimeToExt[result.mimeType || 'image/jpeg'] || 'jpg';
+    // Count downloads that send the image, once per client - not HEAD checks, 304 revalidations or errors
+    await recordDownloadResponse(request, id, response.status);
 
-    // Return binary image data with proper headers
-    return new NextResponse(imageBuffer, {
-      status: 200,
-      headers: {
-        'Content-Type': result.mimeType || 'image/jpeg',
-        'Content-Length': imageBuffer.length.toString(),
-        'Cache-Control': 'no-cache, must-revalidate', // Browser caches but validates with server
-        'ETag': `"${etag}"`, // ETag for cache validation
-        'Content-Disposition': `attachment; filename="image-${id}-original.${extension}"`, // Force download
-      },
-    });
+    return response;
   } catch (error) {
     console.error('Original Image API Error:', error);
     return new NextResponse('Internal server error', { status: 500 });
   }
 }
+
+export async function HEAD(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  return GET(request, context);
+}
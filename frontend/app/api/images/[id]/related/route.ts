@@ -1,8 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getPool } from '@/backend/lib/db';
+import { getErrorCode } from '@/backend/lib/db-retry';
 import { validateId } from '@/backend/lib/validation';
-import { decodeId } from '@/backend/lib/hashids';
+import { decodeId, encodeId } from '@/backend/lib/hashids';
+import { resolveImageTags } from '@/backend/lib/tags';
+import { resolveImageCategories } from '@/backend/lib/categories';
+import { publicImageCondition } from '@/backend/lib/image-visibility';
 
+/**
+ * GET /api/images/[id]/related
+ * Images sharing tags with this one, ranked by the number of shared tags
+ * Accepts both hash IDs (e.g., "a3xK9m") and numeric IDs for backward compatibility
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -31,10 +40,10 @@ export async function GET(
     const pool = getPool();
     const client = await pool.connect();
     
+    let result;
     try {
-      // Get current image to find related images
       const currentImage = await client.query(
-        'SELECT tag1, tag2, category FROM generated_images WHERE id = $1',
+        `SELECT id FROM generated_images WHERE id = $1 AND ${publicImageCondition()}`,
         [validatedId]
       );
       
@@ -45,59 +54,56 @@ export async function GET(
         );
       }
       
-      const image = currentImage.rows[0];
-      const tags = [image.tag1, image.tag2].filter(Boolean);
-      
-      // Find related images by tags
-      let query = `
-        SELECT * FROM generated_images 
-        WHERE id != $1 
-        AND (deleted_at IS NULL OR deleted_at = '')
-      `;
-      const params: any[] = [validatedId];
-      
-      if (tags.length > 0) {
-        const tagConditions = tags.map((_, idx) => 
-          `(tag1 ILIKE $${idx + 2} OR tag2 ILIKE $${idx + 2})`
-        ).join(' OR ');
-        query += ` AND (${tagConditions})`;
-        tags.forEach(tag => params.push(`%${tag}%`));
-      }
-      
-      query += ' ORDER BY created_at DESC LIMIT 12';
-      
-      const result = await client.query(query, params);
-      
-      // Map to frontend format
-      const relatedImages = result.rows.map(row => {
-        const tags: string[] = [];
-        if (row.tag1) tags.push(row.tag1);
-        if (row.tag2) tags.push(row.tag2);
-        
-        return {
-          id: row.id,
-          url: row.image_url || row.image_file || '',
-          title: row.description || row.prompt_used || `Image ${row.id}`,
-          author: 'system',
-          downloads: row.downloads || 0,
-          width: 600,
-          height: 400,
-          category: row.tag1 || 'uncategorized',
-          tags: tags,
-          type: 'photo' as const,
-        };
-      });
-      
-      client.release();
-      
-      return NextResponse.json({
-        success: true,
-        data: relatedImages,
-      });
+      // Related = shares tags with this image, most shared tags first
+      result = await client.query(
+        `SELECT g.id, g.description, g.tag1, g.image_width, g.image_height, g.blurhash,
+           COUNT(*) AS shared_tags
+         FROM image_tags source
+         JOIN image_tags other ON other.tag_id = source.tag_id AND other.image_id <> source.image_id
+         JOIN generated_images g ON g.id = other.image_id
+         WHERE source.image_id = $1 AND ${publicImageCondition('g')}
+         GROUP BY g.id
+         ORDER BY shared_tags DESC, g.created_at DESC
+         LIMIT 12`,
+        [validatedId]
+      );
     } catch (error) {
-      client.release();
+      // 42P01 = undefined_table - tag tables not created yet (migration 021)
+      if (getErrorCode(error) === '42P01') {
+        return NextResponse.json({ success: true, data: [] });
+      }
       throw error;
+    } finally {
+      client.release();
     }
+
+    const tagsByImage = await resolveImageTags(result.rows);
+    const categoriesByImage = await resolveImageCategories(result.rows);
+    
+    // Map to frontend format
+    const relatedImages = result.rows.map(row => {
+      const hashId = encodeId(row.id);
+      return {
+        id: row.id,
+        hashId,
+        title: row.description || `Image ${row.id}`,
+        author: 'system',
+        width: row.image_width || 600,
+        height: row.image_height || 400,
+        category: categoriesByImage.get(row.id) || 'uncategorized',
+        tags: tagsByImage.get(row.id) || [],
+        type: 'photo' as const,
+        thumbnailUrl: `/api/images/${hashId}/thumbnail`,
+        imageUrl: `/api/images/${hashId}/file`,
+        blurhash: row.blurhash || null,
+        sharedTags: parseInt(row.shared_tags, 10),
+      };
+    });
+    
+    return NextResponse.json({
+      success: true,
+      data: relatedImages,
+    });
   } catch (error) {
     console.error('API Error:', error);
     return NextResponse.json(
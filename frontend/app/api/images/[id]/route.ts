@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getImageById } from '@/backend/lib/images';
+import { getImageById, deleteImage } from '@/backend/lib/images';
 import { decodeId } from '@/backend/lib/hashids';
+import { hasRole } from '@/backend/lib/roles';
+import { getRequestUser, requireRole } from '@/lib/auth';
 
 export const dynamic = 'force-dynamic';
 
@@ -27,7 +29,9 @@ export async function GET(
       );
     }
 
-    const result = await getImageById(id, false); // Don't track view for metadata requests
+    // Pending and rejected uploads are visible to moderators only
+    const viewer = await getRequestUser(request);
+    const result = await getImageById(id, false, hasRole(viewer?.role, 'moderator')); // Don't track view for metadata requests
 
     if (!result.success) {
       return NextResponse.json(
@@ -52,3 +56,54 @@ export async function GET(
     );
   }
 }
+
+/**
+ * DELETE /api/images/[id]
+ * Delete an image (moderators and admins)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { denied } = await requireRole(request, 'moderator');
+  if (denied) return denied;
+
+  try {
+    // Try to decode hash ID first, fallback to numeric ID for backward compatibility
+    let id: number | null = decodeId(params.id);
+    
+    if (id === null) {
+      const numericId = parseInt(params.id, 10);
+      if (!isNaN(numericId) && numericId > 0) {
+        id = numericId;
+      }
+    }
+    
+    if (!id || id <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid image ID' },
+        { status: 400 }
+      );
+    }
+
+    const result = await deleteImage(id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Image not found' ? 404 : 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Image deleted',
+    });
+  } catch (error) {
+    console.error('Delete image error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete image' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { setImageStatus, IMAGE_STATUSES, ImageStatus } from '@/backend/lib/images';
+import { decodeId } from '@/backend/lib/hashids';
+import { requireRole } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PATCH /api/images/[id]/status
+ * Moderate an image: { "status": "approved" | "rejected" | "pending" } (moderators and admins)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { denied } = await requireRole(request, 'moderator');
+  if (denied) return denied;
+
+  try {
+    // Try to decode hash ID first, fallback to numeric ID for backward compatibility
+    let id: number | null = decodeId(params.id);
+    
+    if (id === null) {
+      const numericId = parseInt(params.id, 10);
+      if (!isNaN(numericId) && numericId > 0) {
+        id = numericId;
+      }
+    }
+    
+    if (!id || id <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid image ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const status = body?.status as ImageStatus;
+    if (!IMAGE_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of: ${IMAGE_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await setImageStatus(id, status);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Image not found' ? 404 : 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Image status error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update image status' },
+      { status: 500 }
+    );
+  }
+}
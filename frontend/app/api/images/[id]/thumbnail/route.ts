@@ -31,16 +31,13 @@ export async function GET(
 
     const result = await getImageThumbnail(id);
 
-    if (!result.success) {
+    if (!result.success || !result.data) {
       return new NextResponse(result.error || 'Thumbnail not found', {
         status: result.error === 'Image not found' || result.error === 'Thumbnail not available' ? 404 : 500,
       });
     }
 
-    // Convert BYTEA buffer to Buffer if needed
-    const imageBuffer = Buffer.isBuffer(result.data) 
-      ? result.data 
-      : Buffer.from(result.data);
+    const imageBuffer = result.data;
 
     // Generate ETag for cache validation (hash of image data)
     const crypto = await import('crypto');
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseTransformParams } from '@/backend/lib/image-transforms';
+import { decodeId } from '@/backend/lib/hashids';
+import { checkRateLimit, getClientIdentifier } from '../../../rate-limit';
+import { transformImageResponse } from '../../transform-response';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/images/[id]/transform?w=&format=&q=&crop=
+ * GET /api/images/[id]/transform?preset=16x9&w=640
+ * Returns a resized/re-encoded copy of the display image. Each distinct result is rendered once and cached.
+ * Only presets and the fixed widths/qualities are accepted, so the cache stays bounded
+ * Accepts both hash IDs (e.g., "a3xK9m") and numeric IDs for backward compatibility
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Rate limiting - cache misses are CPU heavy
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(`transform:${clientId}`, { windowMs: 60000, maxRequests: 60 });
+
+    if (!rateLimit.success) {
+      return new NextResponse(rateLimit.error || 'Too many requests', {
+        status: 429,
+        headers: {
+          'Retry-After': Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
+        },
+      });
+    }
+
+    // Try to decode hash ID first, fallback to numeric ID for backward compatibility
+    let id: number | null = decodeId(params.id);
+    
+    // If hash decoding failed, try parsing as numeric ID (backward compatibility)
+    if (id === null) {
+      const numericId = parseInt(params.id, 10);
+      if (!isNaN(numericId) && numericId > 0) {
+        id = numericId;
+      }
+    }
+    
+    if (!id || id <= 0) {
+      return new NextResponse('Invalid image ID', { status: 400 });
+    }
+
+    const parsed = parseTransformParams(request.nextUrl.searchParams);
+    if (!parsed.success) {
+      return new NextResponse(parsed.error, { status: 400 });
+    }
+
+    const { width, height } = parsed.params;
+    return await transformImageResponse(request, id, parsed.params, {
+      disposition: 'inline',
+      filename: `image-${id}-${width || 'auto'}x${height || 'auto'}`,
+      // Same URL always yields the same derivative - cache for a day, revalidate with ETag after
+      cacheControl: 'public, max-age=86400, stale-while-revalidate=604800',
+    });
+  } catch (error) {
+    console.error('Image Transform API Error:', error);
+    return new NextResponse('Internal server error', { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getImageBlobInfo } from '@/backend/lib/images';
+import { getImageVariantFile, isVariantFormat } from '@/backend/lib/image-variants';
+import { decodeId } from '@/backend/lib/hashids';
+import { imageBlobResponse } from '../../../../blob-response';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/images/[id]/variants/[format]/[width]
+ * Returns a responsive AVIF/WebP variant (used in srcset / <picture>)
+ * Serves the closest stored width; falls back to the full WebP image for images not yet backfilled
+ * (the gallery only requests variants of images that have them - see hasVariants)
+ * Accepts both hash IDs (e.g., "a3xK9m") and numeric IDs for backward compatibility
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; format: string; width: string } }
+) {
+  try {
+    // Try to decode hash ID first, fallback to numeric ID for backward compatibility
+    let id: number | null = decodeId(params.id);
+    
+    // If hash decoding failed, try parsing as numeric ID (backward compatibility)
+    if (id === null) {
+      const numericId = parseInt(params.id, 10);
+      if (!isNaN(numericId) && numericId > 0) {
+        id = numericId;
+      }
+    }
+    
+    if (!id || id <= 0) {
+      return new NextResponse('Invalid image ID', { status: 400 });
+    }
+
+    if (!isVariantFormat(params.format)) {
+      return new NextResponse('Invalid format. Use "avif" or "webp"', { status: 400 });
+    }
+
+    const width = parseInt(params.width, 10);
+    if (isNaN(width) || width <= 0 || width > 10000) {
+      return new NextResponse('Invalid width', { status: 400 });
+    }
+
+    // Same policy as /file: 1 hour fresh, 24h stale-while-revalidate (a backfill can replace the fallback)
+    const cacheControl = 'public, max-age=3600, stale-while-revalidate=86400';
+
+    const variant = await getImageVariantFile(id, params.format, width);
+
+    if (!variant.success || !variant.data) {
+      if (variant.error !== 'Variant not available') {
+        return new NextResponse(variant.error || 'Internal server error', { status: 500 });
+      }
+
+      // Not backfilled yet - stream the full image (with its stored ETag) so srcset still works
+      const fallback = await getImageBlobInfo(id, 'full');
+      if (!fallback.success || !fallback.data) {
+        return new NextResponse(fallback.error || 'Image not found', {
+          status: fallback.error === 'Image not found' || fallback.error === 'Image data not available' ? 404 : 500,
+        });
+      }
+      return await imageBlobResponse(request, fallback.data, {
+        disposition: 'inline',
+        filename: `image-${id}`,
+        cacheControl,
+      });
+    }
+
+    const imageBuffer = variant.data;
+    const mimeType = variant.mimeType || `image/${params.format}`;
+    const etag = variant.sha256;
+
+    // Check if client has cached version (If-None-Match header)
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (ifNoneMatch === `"${etag}"`) {
+      return new NextResponse(null, { status: 304 }); // Not Modified
+    }
+
+    return new NextResponse(imageBuffer, {
+      status: 200,
+      headers: {
+        'Content-Type': mimeType,
+        'Content-Length': imageBuffer.length.toString(),
+        'Cache-Control': cacheControl,
+        'ETag': `"${etag}"`,
+        'Content-Disposition': `inline; filename="image-${id}-${width}w.${mimeType.split('/')[1] || params.format}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Image Variant API Error:', error);
+    return new NextResponse('Internal server error', { status: 500 });
+  }
+}
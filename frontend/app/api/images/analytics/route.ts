@@ -1,12 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getPool } from '@/backend/lib/db';
+import { recordImageEvent } from '@/backend/lib/popularity';
 import { validateId } from '@/backend/lib/validation';
+import { checkRateLimit, getClientIdentifier } from '../../rate-limit';
+import { isRepeatImageEvent } from '../image-events';
 
 /**
- * Track image view
+ * Track an image view or download (feeds the popular, trending and downloads sorts)
+ * Rate limited per client, and repeats from the same client are ignored, so a script can't push an image up the sorts
  */
 export async function POST(request: NextRequest) {
   try {
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(`analytics:${clientId}`, { windowMs: 60000, maxRequests: 60 });
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { success: false, error: rateLimit.error },
+        { status: 429 }
+      );
+    }
+
     const body = await request.json();
     const { imageId, action } = body; // action: 'view' | 'download'
 
@@ -17,41 +30,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const validatedId = validateId(imageId);
-
-    const pool = getPool();
-    const client = await pool.connect();
-
-    try {
-      if (action === 'view') {
-        // Update view count in generated_images table
-        await client.query(
-          `UPDATE generated_images 
-           SET view_count = COALESCE(view_count, 0) + 1,
-               last_viewed_at = CURRENT_TIMESTAMP
-           WHERE id = $1`,
-          [validatedId]
-        );
-      } else if (action === 'download') {
-        // Track download (can be added to a downloads table)
-        await client.query(
-          `UPDATE generated_images 
-           SET downloads = COALESCE(downloads, 0) + 1
-           WHERE id = $1`,
-          [validatedId]
-        );
-      }
+    if (action !== 'view' && action !== 'download') {
+      return NextResponse.json(
+        { success: false, error: "action must be 'view' or 'download'" },
+        { status: 400 }
+      );
+    }
 
-      client.release();
+    const validatedId = validateId(imageId);
 
+    // Already counted for this client - acknowledge without counting again
+    if (isRepeatImageEvent(request, action, validatedId)) {
       return NextResponse.json({
         success: true,
-        message: `${action} tracked successfully`,
+        message: `${action} already tracked`,
       });
-    } catch (error) {
-      client.release();
-      throw error;
     }
+
+    const result = await recordImageEvent(validatedId, action);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `${action} tracked successfully`,
+    });
   } catch (error) {
     console.error('Analytics error:', error);
     return NextResponse.json(
@@ -0,0 +1,81 @@
+import { Readable } from 'stream';
+import { NextRequest, NextResponse } from 'next/server';
+import { ImageBlobInfo } from '@/backend/lib/images';
+import { openBlobStream } from '@/backend/lib/blob-store';
+import { parseRangeHeader, etagMatches, ifRangeMatches } from '@/backend/lib/http-range';
+
+export interface BlobResponseOptions {
+  disposition: 'inline' | 'attachment';
+  filename: string; // Without extension - added from the MIME type
+  cacheControl: string;
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+/**
+ * Build the HTTP response for a stored image binary
+ * Shared by /api/images/[id]/file and /api/images/[id]/original
+ *
+ * - Body is streamed from the blob store, never buffered whole
+ * - ETag is the SHA-256 recorded at ingest
+ * - Single-range requests get 206 Partial Content (If-Range honoured), out-of-range ones 416
+ * - HEAD requests get the same headers without opening the blob
+ */
+export async function imageBlobResponse(
+  request: NextRequest,
+  blob: ImageBlobInfo,
+  options: BlobResponseOptions
+): Promise<NextResponse> {
+  const etag = `"${blob.sha256}"`;
+  const extension = MIME_EXTENSIONS[blob.mimeType] || 'jpg';
+  const headers: Record<string, string> = {
+    'Content-Type': blob.mimeType,
+    'Cache-Control': options.cacheControl,
+    'ETag': etag,
+    'Accept-Ranges': 'bytes',
+    'Content-Disposition': `${options.disposition}; filename="${options.filename}.${extension}"`,
+  };
+
+  // Check if client has cached version (If-None-Match header)
+  if (etagMatches(request.headers.get('if-none-match'), etag)) {
+    return new NextResponse(null, {
+      status: 304, // Not Modified
+      headers: { 'ETag': etag, 'Cache-Control': options.cacheControl },
+    });
+  }
+
+  // A stale If-Range means the client's partial copy is outdated - send the whole thing
+  const range = ifRangeMatches(request.headers.get('if-range'), etag)
+    ? parseRangeHeader(request.headers.get('range'), blob.size)
+    : null;
+
+  if (range === 'unsatisfiable') {
+    return new NextResponse(null, {
+      status: 416, // Range Not Satisfiable
+      headers: { 'Content-Range': `bytes */${blob.size}`, 'ETag': etag },
+    });
+  }
+
+  if (range) {
+    headers['Content-Range'] = `bytes ${range.start}-${range.end}/${blob.size}`;
+  }
+  headers['Content-Length'] = (range ? range.end - range.start + 1 : blob.size).toString();
+  const status = range ? 206 : 200;
+
+  if (request.method === 'HEAD') {
+    return new NextResponse(null, { status, headers });
+  }
+
+  const stream = await openBlobStream(blob.key, blob.data, range || undefined);
+  if (!stream) {
+    return new NextResponse('Image data not available', { status: 404 });
+  }
+
+  return new NextResponse(Readable.toWeb(stream) as ReadableStream<Uint8Array>, { status, headers });
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { recordImageEvent, ImageEvent } from '@/backend/lib/popularity';
+import { checkRateLimit, getClientIdentifier } from '../rate-limit';
+
+// Each client counts once per image and event in this window
+const REPEAT_WINDOW_MS = 30 * 60 * 1000;
+
+/**
+ * Whether the client already counted this event for the image within the repeat window
+ * Shared by /api/images/analytics and the download routes, so a client counts once whichever way it comes in
+ * The first call in a window returns false and marks the event as counted
+ */
+export function isRepeatImageEvent(request: NextRequest, event: ImageEvent, imageId: number): boolean {
+  const clientId = getClientIdentifier(request);
+  const repeat = checkRateLimit(`analytics:${event}:${clientId}:${imageId}`, {
+    windowMs: REPEAT_WINDOW_MS,
+    maxRequests: 1,
+  });
+  return !repeat.success;
+}
+
+/**
+ * Count a download for a response a download route built
+ * Only GET responses that send the image count (200, or 206 for a resumed download) - not HEAD checks,
+ * 304 revalidations, 416s or errors - and repeats from the same client are ignored
+ */
+export async function recordDownloadResponse(request: NextRequest, imageId: number, status: number) {
+  if (request.method !== 'GET' || (status !== 200 && status !== 206)) {
+    return;
+  }
+  if (isRepeatImageEvent(request, 'download', imageId)) {
+    return;
+  }
+  await recordImageEvent(imageId, 'download');
+}
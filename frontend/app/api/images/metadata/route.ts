@@ -1,14 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getPool } from '@/backend/lib/db';
-import { validateId, validateString, validateStringArray, validateCategory } from '@/backend/lib/validation';
+import { validateId, validateString, validateStringArray, validateFocalPoint } from '@/backend/lib/validation';
+import { purgeImageDerivatives } from '@/backend/lib/image-transforms';
+import { applyImageMetadataPolicy } from '@/backend/lib/images';
+import { setImageTags, MAX_TAGS_PER_IMAGE } from '@/backend/lib/tags';
+import { getCategoryBySlug } from '@/backend/lib/categories';
+import { METADATA_POLICIES, MetadataPolicy } from '@/backend/lib/image-metadata';
+import { requireRole } from '@/lib/auth';
 
 /**
- * Update image metadata (title, tags, category)
+ * Update image metadata (title, tags, category, focal point, metadata policy)
+ * tags: the complete tag list (replaces the current tags, order is kept; the first three are mirrored into tag1..tag3)
+ * category: a category slug or name from GET /api/categories, or null for uncategorized
+ * focalPoint: { x, y } in 0-1 relative coordinates, or null to go back to automatic smart crop
+ * metadataPolicy: 'sensitive' or 'all' - 'all' rewrites the stored original without any EXIF/IPTC/XMP
+ * Requires the moderator role.
  */
 export async function PATCH(request: NextRequest) {
+  const { denied } = await requireRole(request, 'moderator');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
-    const { imageId, title, tags, category } = body;
+    const { imageId, title, tags, category, focalPoint, metadataPolicy } = body;
 
     if (!imageId) {
       return NextResponse.json(
@@ -17,7 +31,28 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    if (metadataPolicy !== undefined && !METADATA_POLICIES.includes(metadataPolicy)) {
+      return NextResponse.json(
+        { success: false, error: `metadataPolicy must be one of: ${METADATA_POLICIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
     const validatedId = validateId(imageId);
+
+    // Policy changes rewrite the stored original, so they run outside the column update below
+    if (metadataPolicy !== undefined) {
+      const policyResult = await applyImageMetadataPolicy(validatedId, metadataPolicy as MetadataPolicy);
+      if (!policyResult.success) {
+        return NextResponse.json(
+          { success: false, error: policyResult.error },
+          { status: policyResult.error === 'Image not found' ? 404 : 500 }
+        );
+      }
+      // Derivatives were rendered from the previous original
+      await purgeImageDerivatives(validatedId);
+    }
+
     const pool = getPool();
     const client = await pool.connect();
 
@@ -25,6 +60,24 @@ export async function PATCH(request: NextRequest) {
       const updates: string[] = [];
       const params: any[] = [];
       let paramCount = 1;
+      let storedTags: string[] | undefined;
+
+      // Tags and column updates are written together
+      await client.query('BEGIN');
+
+      if (tags !== undefined) {
+        const validatedTags = validateStringArray(tags, MAX_TAGS_PER_IMAGE);
+        const existing = await client.query('SELECT id FROM generated_images WHERE id = $1', [validatedId]);
+        if (existing.rows.length === 0) {
+          await client.query('ROLLBACK');
+          client.release();
+          return NextResponse.json(
+            { success: false, error: 'Image not found' },
+            { status: 404 }
+          );
+        }
+        storedTags = await setImageTags(client, validatedId, validatedTags);
+      }
 
       if (title !== undefined) {
         const validatedTitle = validateString(title, 255);
@@ -33,29 +86,43 @@ export async function PATCH(request: NextRequest) {
         paramCount++;
       }
 
-      if (tags !== undefined) {
-        const validatedTags = validateStringArray(tags);
-        // Update tag1 and tag2 (simplified - can be improved)
-        if (validatedTags.length > 0) {
-          updates.push(`tag1 = $${paramCount}`);
-          params.push(validatedTags[0]);
-          paramCount++;
-        }
-        if (validatedTags.length > 1) {
-          updates.push(`tag2 = $${paramCount}`);
-          params.push(validatedTags[1]);
-          paramCount++;
+      if (category !== undefined) {
+        const found = category === null ? null : await getCategoryBySlug(validateString(category, 100), client);
+        if (category !== null && !found) {
+          await client.query('ROLLBACK');
+          client.release();
+          return NextResponse.json(
+            { success: false, error: `Unknown category: ${category}` },
+            { status: 400 }
+          );
         }
+        updates.push(`category_id = $${paramCount}`);
+        params.push(found ? found.id : null);
+        paramCount++;
       }
 
-      if (category !== undefined) {
-        const validatedCategory = validateCategory(category);
-        updates.push(`tag1 = $${paramCount}`);
-        params.push(validatedCategory);
+      if (focalPoint !== undefined) {
+        const validatedFocalPoint = focalPoint === null ? null : validateFocalPoint(focalPoint);
+        updates.push(`focal_x = $${paramCount}`);
+        params.push(validatedFocalPoint ? validatedFocalPoint.x : null);
+        paramCount++;
+        updates.push(`focal_y = $${paramCount}`);
+        params.push(validatedFocalPoint ? validatedFocalPoint.y : null);
         paramCount++;
       }
 
-      if (updates.length === 0) {
+      if (updates.length === 0 && tags === undefined && metadataPolicy !== undefined) {
+        await client.query('ROLLBACK');
+        client.release();
+        return NextResponse.json({
+          success: true,
+          message: 'Metadata policy updated successfully',
+        });
+      }
+
+      if (updates.length === 0 && tags === undefined) {
+        await client.query('ROLLBACK');
+        client.release();
         return NextResponse.json(
           { success: false, error: 'No fields to update' },
           { status: 400 }
@@ -75,20 +142,29 @@ export async function PATCH(request: NextRequest) {
       const result = await client.query(query, params);
 
       if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        client.release();
         return NextResponse.json(
           { success: false, error: 'Image not found' },
           { status: 404 }
         );
       }
 
+      await client.query('COMMIT');
       client.release();
 
+      // Cached crops were rendered around the old focal point
+      if (focalPoint !== undefined) {
+        await purgeImageDerivatives(validatedId);
+      }
+
       return NextResponse.json({
         success: true,
-        data: result.rows[0],
+        data: storedTags ? { ...result.rows[0], tags: storedTags } : result.rows[0],
         message: 'Metadata updated successfully',
       });
     } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
       client.release();
       throw error;
     }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getImages, getImagesCount } from '@/backend/lib/images';
+import { searchImages } from '@/backend/lib/search';
 import { checkRateLimit, getClientIdentifier } from '../rate-limit';
+import { parseSearchRequest, searchResponseBody } from '../search-request';
 import { log, trackPerformance } from '@/lib/monitoring';
 
 export const dynamic = 'force-dynamic';
@@ -28,77 +29,34 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const searchParams = request.nextUrl.searchParams;
-    
     // Extract and validate query parameters
-    const category = searchParams.get('category') || undefined;
-    const search = searchParams.get('q') || searchParams.get('search') || undefined;
-    const orientation = searchParams.get('orientation') || 'all';
-    const sort = (searchParams.get('sort') || 'recent') as 'recent' | 'popular' | 'trending';
-    const limit = parseInt(searchParams.get('limit') || '40', 10);
-    const offset = parseInt(searchParams.get('offset') || '0', 10);
-    
-    // Parse tags from query string
-    const tagsParam = searchParams.get('tags');
-    const tags = tagsParam ? tagsParam.split(',').filter(Boolean) : undefined;
-
-    // Fetch images with filters
-    let result;
-    try {
-      result = await getImages({
-        category,
-        search,
-        orientation: orientation as 'landscape' | 'portrait' | 'square' | 'all',
-        tags,
-        sort,
-        limit,
-        offset,
-      });
-    } catch (dbError) {
-      console.error('❌ Database error in getImages:', dbError);
+    const parsed = parseSearchRequest(request.nextUrl.searchParams, 40);
+    if (parsed.error !== undefined) {
       return NextResponse.json(
-        {
-          success: false,
-          error: 'Database query failed',
-          details: dbError instanceof Error ? dbError.message : 'Unknown database error',
-        },
-        { status: 500 }
+        { success: false, error: parsed.error },
+        { status: 400 }
       );
     }
 
+    // Fetch images with filters (and the search, when there is one)
+    const result = await searchImages(parsed.options);
+
     if (!result.success) {
-      console.error('❌ getImages returned error:', result.error);
+      console.error('❌ searchImages returned error:', result.error);
       return NextResponse.json(
         { 
           success: false, 
           error: result.error || 'Failed to fetch images',
           details: result.error,
         },
-        { status: 500 }
+        { status: result.invalid ? 400 : 500 }
       );
     }
 
-    // Get total count for pagination
-    const countResult = await getImagesCount({
-      category,
-      search,
-      orientation: orientation as 'landscape' | 'portrait' | 'square' | 'all',
-      tags,
-    });
-
     const duration = Date.now() - startTime;
     trackPerformance('api.images.get', duration);
 
-    return NextResponse.json({
-      success: true,
-      data: result.data,
-      pagination: {
-        total: countResult.success ? countResult.count : 0,
-        limit,
-        offset,
-        hasMore: countResult.success ? offset + limit < countResult.count : false,
-      },
-    }, {
+    return NextResponse.json(searchResponseBody(result, parsed.options), {
       headers: {
         'X-RateLimit-Limit': '100',
         'X-RateLimit-Remaining': rateLimit.remaining.toString(),
@@ -1,47 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getImages, getImagesCount } from '@/backend/lib/images';
+import { searchImages } from '@/backend/lib/search';
+import { parseSearchRequest, searchResponseBody } from '../../search-request';
 
 export async function GET(request: NextRequest) {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    
-    const search = searchParams.get('q') || searchParams.get('search');
-    if (!search) {
+    const parsed = parseSearchRequest(request.nextUrl.searchParams, 20);
+    if (parsed.error !== undefined) {
       return NextResponse.json(
-        { success: false, error: 'Search query is required' },
+        { success: false, error: parsed.error },
         { status: 400 }
       );
     }
 
-    const limit = parseInt(searchParams.get('limit') || '20', 10);
-    const offset = parseInt(searchParams.get('offset') || '0', 10);
+    if (!parsed.options.query) {
+      return NextResponse.json(
+        { success: false, error: 'Search query is required' },
+        { status: 400 }
+      );
+    }
 
-    const result = await getImages({
-      search,
-      limit,
-      offset,
-      sort: 'recent',
-    });
+    const result = await searchImages(parsed.options);
 
     if (!result.success) {
       return NextResponse.json(
         { success: false, error: result.error },
-        { status: 500 }
+        { status: result.invalid ? 400 : 500 }
       );
     }
 
-    const countResult = await getImagesCount({ search });
-
-    return NextResponse.json({
-      success: true,
-      data: result.data,
-      pagination: {
-        total: countResult.success ? countResult.count : 0,
-        limit,
-        offset,
-        hasMore: countResult.success ? offset + limit < countResult.count : false,
-      },
-    });
+    return NextResponse.json(searchResponseBody(result, parsed.options));
   } catch (error) {
     console.error('API Error:', error);
     return NextResponse.json(
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTransformedImage, TransformParams } from '@/backend/lib/image-transforms';
+
+export interface TransformResponseOptions {
+  disposition: 'inline' | 'attachment';
+  filename: string; // Without extension - added from the output MIME type
+  cacheControl: string;
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+};
+
+/**
+ * Build the HTTP response for a transformed image
+ * Shared by /api/images/[id]/transform and the download presets (16x9, 9x16)
+ * ETag is the stored SHA-256 of the derivative, so cache hits never rehash the image
+ */
+export async function transformImageResponse(
+  request: NextRequest,
+  id: number,
+  params: TransformParams,
+  options: TransformResponseOptions
+): Promise<NextResponse> {
+  const result = await getTransformedImage(id, params);
+
+  if (!result.success || !result.data) {
+    return new NextResponse(result.error || 'Image not found', {
+      status: result.error === 'Image not found' || result.error === 'Image data not available' ? 404 : 500,
+    });
+  }
+
+  const etag = `"${result.sha256}"`;
+
+  // Check if client has cached version (If-None-Match header)
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (ifNoneMatch === etag) {
+    return new NextResponse(null, {
+      status: 304, // Not Modified
+      headers: { 'ETag': etag, 'Cache-Control': options.cacheControl },
+    });
+  }
+
+  const mimeType = result.mimeType || 'image/jpeg';
+  const extension = MIME_EXTENSIONS[mimeType] || 'jpg';
+
+  return new NextResponse(result.data, {
+    status: 200,
+    headers: {
+      'Content-Type': mimeType,
+      'Content-Length': result.data.length.toString(),
+      'Cache-Control': options.cacheControl,
+      'ETag': etag,
+      'Content-Disposition': `${options.disposition}; filename="${options.filename}.${extension}"`,
+      'X-Transform-Cache': result.cached ? 'HIT' : 'MISS',
+    },
+  });
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { insertImage } from '@/backend/lib/images';
+import { insertImage, DUPLICATE_POLICIES, DuplicatePolicy, IMAGE_STATUSES, ImageStatus } from '@/backend/lib/images';
+import { METADATA_POLICIES, MetadataPolicy } from '@/backend/lib/image-metadata';
+import { normalizeTags } from '@/backend/lib/tags';
+import { hasRole } from '@/backend/lib/roles';
+import { requireRole } from '@/lib/auth';
 
 export const dynamic = 'force-dynamic';
 
@@ -12,16 +16,32 @@ export const dynamic = 'force-dynamic';
  * - Creates thumbnail (150x150 WebP)
  * - Resizes full image (max 800x800 WebP)
  * - Generates BlurHash for instant preview
+ * - Extracts EXIF/IPTC/XMP (camera, exposure, capture date, caption, keywords)
+ * - Strips GPS, serial numbers and owner from the stored original
  * - Saves to database (generated_images table)
+ * 
+ * Requires the contributor role. Contributors' uploads wait in 'pending' for a moderator.
+ * 
+ * Optional form fields:
+ * - status: 'pending' (default), 'approved' or 'rejected' - moderators and admins only
+ * - metadataPolicy: 'sensitive' (default) or 'all' (strip every metadata field)
+ * - seedTagsFromKeywords: 'true' to fill empty tags from IPTC/XMP keywords
+ * - duplicatePolicy: 'allow', 'flag' or 'reject' near-duplicates (default: DUPLICATE_POLICY env)
  */
 export async function POST(request: NextRequest) {
+  const { user, denied } = await requireRole(request, 'contributor');
+  if (denied) return denied;
+
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File;
     const description = formData.get('description') as string || formData.get('title') as string;
     const category = formData.get('category') as string;
     const tags = formData.get('tags') as string;
-    const status = formData.get('status') as string || 'pending';
+    const status = (formData.get('status') as string || 'pending') as ImageStatus;
+    const metadataPolicy = (formData.get('metadataPolicy') as string || 'sensitive') as MetadataPolicy;
+    const seedTagsFromKeywords = formData.get('seedTagsFromKeywords') === 'true';
+    const duplicatePolicy = (formData.get('duplicatePolicy') as string || undefined) as DuplicatePolicy | undefined;
 
     if (!file) {
       return NextResponse.json(
@@ -30,6 +50,35 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!IMAGE_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of: ${IMAGE_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Skipping moderation is a moderation decision
+    if (status !== 'pending' && !hasRole(user.role, 'moderator')) {
+      return NextResponse.json(
+        { success: false, error: 'Only moderators can set the status of an upload' },
+        { status: 403 }
+      );
+    }
+
+    if (!METADATA_POLICIES.includes(metadataPolicy)) {
+      return NextResponse.json(
+        { success: false, error: `metadataPolicy must be one of: ${METADATA_POLICIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (duplicatePolicy && !DUPLICATE_POLICIES.includes(duplicatePolicy)) {
+      return NextResponse.json(
+        { success: false, error: `duplicatePolicy must be one of: ${DUPLICATE_POLICIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
     // Validate file type
     const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/gif'];
     if (!validTypes.includes(file.type)) {
@@ -52,22 +101,46 @@ export async function POST(request: NextRequest) {
     const bytes = await file.arrayBuffer();
     const imageBuffer = Buffer.from(bytes);
 
-    // Parse tags (comma-separated)
+    // Parse tags (comma-separated) - the category is also kept as the first tag
     const tagArray = tags ? tags.split(',').map(t => t.trim()).filter(Boolean) : [];
+    const tagList = category ? [category, ...tagArray] : tagArray;
+
+    try {
+      normalizeTags(tagList); // Throws past the per-image tag limit
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Invalid tags' },
+        { status: 400 }
+      );
+    }
 
     // Prepare metadata
     const metadata = {
       description: description || file.name,
-      tag1: category || tagArray[0] || null,
-      tag2: tagArray[1] || null,
-      tag3: tagArray[2] || null,
+      tags: tagList,
+      category: category || undefined, // Unknown categories leave the image uncategorized
       status,
+      metadataPolicy,
+      seedTagsFromKeywords,
+      duplicatePolicy,
     };
 
     // Insert image (automatically converts to WebP and generates BlurHash)
     const result = await insertImage(imageBuffer, metadata);
 
-    if (!result.success) {
+    // Rejected as a near-duplicate of an existing image
+    if ('duplicateOf' in result && result.duplicateOf) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.error,
+          duplicateOf: result.duplicateOf,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (!result.success || !result.data) {
       return NextResponse.json(
         {
           success: false,
@@ -83,8 +156,13 @@ export async function POST(request: NextRequest) {
       data: {
         id: result.data.id,
         description: metadata.description,
-        category: metadata.tag1,
-        tags: [metadata.tag1, metadata.tag2, metadata.tag3].filter(Boolean),
+        category: result.data.tags[0] || null,
+        tags: result.data.tags,
+        keywords: result.data.keywords,
+        metadataStripped: result.data.metadataStripped,
+        colors: result.data.colorNames,
+        duplicateOf: result.data.duplicateOf,
+        palette: result.data.palette.map((color) => color.hex),
         blurhash: result.data.blurhash,
         width: result.data.width,
         height: result.data.height,
@@ -11,14 +11,17 @@ interface RateLimitStore {
 }
 
 const store: RateLimitStore = {};
+const failureStore: RateLimitStore = {};
 
 // Clean up old entries every 5 minutes
 setInterval(() => {
   const now = Date.now();
-  Object.keys(store).forEach(key => {
-    if (store[key].resetTime < now) {
-      delete store[key];
-    }
+  [store, failureStore].forEach(entries => {
+    Object.keys(entries).forEach(key => {
+      if (entries[key].resetTime < now) {
+        delete entries[key];
+      }
+    });
   });
 }, 5 * 60 * 1000);
 
@@ -74,6 +77,45 @@ export function checkRateLimit(
   };
 }
 
+/**
+ * Count an attempt against an identifier (e.g. an account being logged into) and check the limit
+ * Counting and checking happen in one synchronous step, before the slow verification,
+ * so parallel requests can't all pass the check before any failure is counted.
+ * Call clearFailures after a success - only failed attempts stay counted
+ */
+export function recordAttempt(
+  identifier: string,
+  options: RateLimitOptions
+): RateLimitResult {
+  const now = Date.now();
+  const entry = failureStore[identifier];
+
+  // The window starts at the first attempt
+  if (!entry || entry.resetTime < now) {
+    failureStore[identifier] = { count: 1, resetTime: now + options.windowMs };
+    return { success: true, remaining: options.maxRequests - 1, resetTime: failureStore[identifier].resetTime };
+  }
+
+  if (entry.count >= options.maxRequests) {
+    return {
+      success: false,
+      remaining: 0,
+      resetTime: entry.resetTime,
+      error: 'Too many failed attempts. Please try again later.',
+    };
+  }
+
+  entry.count++;
+  return { success: true, remaining: options.maxRequests - entry.count, resetTime: entry.resetTime };
+}
+
+/**
+ * Forget the failed attempts of an identifier (after a success)
+ */
+export function clearFailures(identifier: string) {
+  delete failureStore[identifier];
+}
+
 /**
  * Get client identifier from request (IP address)
  */
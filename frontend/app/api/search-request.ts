@@ -0,0 +1,79 @@
+import { SearchOptions, SearchResult, SearchSort, SEARCH_SORTS } from '@/backend/lib/search';
+import { isColorName, COLOR_NAMES } from '@/backend/lib/image-colors';
+import { validateOrientation } from '@/backend/lib/validation';
+
+/**
+ * Parse the search and filter query parameters shared by /api/images, /api/images/search and /api/search
+ * q (or query / search), category, tags, colors, orientation, sort (and seed), limit, cursor (or offset) and facets
+ * @param defaultLimit - Page size when limit is missing
+ * @returns Search service options, or an error for a 400 response
+ */
+export function parseSearchRequest(
+  searchParams: URLSearchParams,
+  defaultLimit: number
+): { options: SearchOptions; error?: undefined } | { options?: undefined; error: string } {
+  const query = searchParams.get('q') || searchParams.get('query') || searchParams.get('search') || undefined;
+
+  // Validate orientation (landscape, portrait, square or all)
+  let orientation;
+  try {
+    orientation = validateOrientation(searchParams.get('orientation'));
+  } catch (validationError) {
+    return { error: validationError instanceof Error ? validationError.message : 'Invalid orientation' };
+  }
+
+  // Parse color swatches (e.g. ?colors=red,teal)
+  const colorsParam = searchParams.get('colors');
+  const colors = colorsParam ? colorsParam.split(',').map(c => c.trim().toLowerCase()).filter(Boolean) : undefined;
+  const unknownColor = colors?.find(color => !isColorName(color));
+  if (unknownColor) {
+    return { error: `Unknown color "${unknownColor}". Allowed: ${COLOR_NAMES.join(', ')}` };
+  }
+
+  // Parse tags from query string
+  const tagsParam = searchParams.get('tags');
+  const tags = tagsParam ? tagsParam.split(',').filter(Boolean) : undefined;
+
+  // Unknown sorts fall back to the default order
+  const sortParam = searchParams.get('sort');
+  const sort = SEARCH_SORTS.includes(sortParam as SearchSort) ? (sortParam as SearchSort) : undefined;
+
+  return {
+    options: {
+      query,
+      category: searchParams.get('category') || undefined,
+      tags,
+      colors,
+      orientation,
+      sort,
+      seed: searchParams.get('seed') || undefined,
+      limit: parseInt(searchParams.get('limit') || String(defaultLimit), 10),
+      offset: parseInt(searchParams.get('offset') || '0', 10),
+      cursor: searchParams.get('cursor') || undefined,
+      facets: searchParams.get('facets') === 'true',
+    },
+  };
+}
+
+/**
+ * Response body for a successful search: results, pagination and (when present) didYouMean, facets and the random sort's seed
+ * pagination.nextCursor fetches the next page; offset is kept for clients that still page by offset
+ */
+export function searchResponseBody(result: SearchResult, options: SearchOptions) {
+  const limit = options.limit!;
+  const offset = options.cursor ? 0 : options.offset || 0;
+  return {
+    success: true,
+    data: result.data,
+    ...(result.didYouMean ? { didYouMean: result.didYouMean } : {}),
+    ...(result.facets ? { facets: result.facets } : {}),
+    ...(result.seed ? { seed: result.seed } : {}),
+    pagination: {
+      total: result.total,
+      limit,
+      offset,
+      hasMore: result.hasMore,
+      nextCursor: result.nextCursor ?? null,
+    },
+  };
+}
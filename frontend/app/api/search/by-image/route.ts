@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  extractVisualFeatures,
+  getImageVisualFeatures,
+  findVisuallySimilarImages,
+  VISUAL_SEARCH_MAX_LIMIT,
+} from '@/backend/lib/visual-search';
+import { decodeId } from '@/backend/lib/hashids';
+import { checkRateLimit, getClientIdentifier } from '../../rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Resolve a hash ID (e.g., "a3xK9m") or numeric ID to a database ID
+ */
+function resolveImageId(value: string): number | null {
+  let id: number | null = decodeId(value);
+  if (id === null) {
+    const numericId = parseInt(value, 10);
+    if (!isNaN(numericId) && numericId > 0) {
+      id = numericId;
+    }
+  }
+  return id && id > 0 ? id : null;
+}
+
+/**
+ * POST /api/search/by-image
+ * Reverse image search: returns the images that look most like the query image, closest first
+ *
+ * Accepts either:
+ * - multipart/form-data with `file` (JPEG, PNG, WebP or GIF, max 10MB)
+ * - multipart/form-data or JSON with `imageId` (hash ID or numeric ID of an existing image)
+ *
+ * Optional: `limit` (default 12, max 50)
+ * Each result carries `distance` (0 = identical, 1 = nothing alike)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Rate limiting - uploads are decoded and every candidate is scored
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(`by-image:${clientId}`, { windowMs: 60000, maxRequests: 20 });
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { success: false, error: rateLimit.error },
+        { status: 429 }
+      );
+    }
+
+    let file: File | null = null;
+    let imageIdParam: string | null = null;
+    let limitParam: string | null = null;
+
+    const contentType = request.headers.get('content-type') || '';
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const fileEntry = formData.get('file');
+      file = fileEntry instanceof File ? fileEntry : null;
+      imageIdParam = formData.get('imageId') as string | null;
+      limitParam = formData.get('limit') as string | null;
+    } else {
+      const body = await request.json().catch(() => null);
+      if (body?.imageId !== undefined && body?.imageId !== null) {
+        imageIdParam = String(body.imageId);
+      }
+      if (body?.limit !== undefined) {
+        limitParam = String(body.limit);
+      }
+    }
+
+    const limit = parseInt(limitParam || '12', 10);
+    if (isNaN(limit) || limit < 1 || limit > VISUAL_SEARCH_MAX_LIMIT) {
+      return NextResponse.json(
+        { success: false, error: `limit must be between 1 and ${VISUAL_SEARCH_MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    let features;
+    let excludeId: number | undefined;
+
+    if (file) {
+      // Same limits as /api/images/upload
+      const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/gif'];
+      if (!validTypes.includes(file.type)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid file type. Only images are allowed.' },
+          { status: 400 }
+        );
+      }
+
+      const maxSize = 10 * 1024 * 1024; // 10MB
+      if (file.size > maxSize) {
+        return NextResponse.json(
+          { success: false, error: 'File size exceeds 10MB limit' },
+          { status: 400 }
+        );
+      }
+
+      try {
+        features = await extractVisualFeatures(Buffer.from(await file.arrayBuffer()));
+      } catch (error) {
+        console.error('Error reading search image:', error);
+        return NextResponse.json(
+          { success: false, error: 'Could not read image file' },
+          { status: 400 }
+        );
+      }
+    } else if (imageIdParam) {
+      const id = resolveImageId(imageIdParam);
+      if (!id) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid image ID' },
+          { status: 400 }
+        );
+      }
+
+      const result = await getImageVisualFeatures(id);
+      if (!result.success || !result.features) {
+        if (result.error === 'Image not found') {
+          return NextResponse.json(
+            { success: false, error: 'Image not found' },
+            { status: 404 }
+          );
+        }
+        console.error('Error reading image features:', result.error);
+        return NextResponse.json(
+          { success: false, error: 'Failed to read image features' },
+          { status: 500 }
+        );
+      }
+
+      features = result.features;
+      excludeId = id;
+    } else {
+      return NextResponse.json(
+        { success: false, error: 'Provide an image file or an imageId' },
+        { status: 400 }
+      );
+    }
+
+    const result = await findVisuallySimilarImages(features, { excludeId, limit });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to search by image' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    }, {
+      headers: {
+        'X-RateLimit-Limit': '20',
+        'X-RateLimit-Remaining': rateLimit.remaining.toString(),
+        'X-RateLimit-Reset': rateLimit.resetTime.toString(),
+      },
+    });
+  } catch (error) {
+    console.error('Error in reverse image search:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
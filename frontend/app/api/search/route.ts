@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fullTextSearch } from '@/backend/lib/search';
+import { searchImages } from '@/backend/lib/search';
 import { checkRateLimit, getClientIdentifier } from '../rate-limit';
+import { parseSearchRequest, searchResponseBody } from '../search-request';
 
 export async function GET(request: NextRequest) {
   try {
@@ -15,44 +16,31 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const searchParams = request.nextUrl.searchParams;
-    const query = searchParams.get('q') || searchParams.get('query');
-    
-    if (!query) {
+    const parsed = parseSearchRequest(request.nextUrl.searchParams, 20);
+    if (parsed.error !== undefined) {
       return NextResponse.json(
-        { success: false, error: 'Search query is required' },
+        { success: false, error: parsed.error },
         { status: 400 }
       );
     }
 
-    const category = searchParams.get('category') || undefined;
-    const limit = parseInt(searchParams.get('limit') || '20', 10);
-    const offset = parseInt(searchParams.get('offset') || '0', 10);
+    if (!parsed.options.query) {
+      return NextResponse.json(
+        { success: false, error: 'Search query is required' },
+        { status: 400 }
+      );
+    }
 
-    const result = await fullTextSearch({
-      query,
-      category,
-      limit,
-      offset,
-    });
+    const result = await searchImages(parsed.options);
 
     if (!result.success) {
       return NextResponse.json(
         { success: false, error: result.error },
-        { status: 500 }
+        { status: result.invalid ? 400 : 500 }
       );
     }
 
-    return NextResponse.json({
-      success: true,
-      data: result.data,
-      pagination: {
-        total: result.total || 0,
-        limit,
-        offset,
-        hasMore: result.total ? offset + limit < result.total : false,
-      },
-    }, {
+    return NextResponse.json(searchResponseBody(result, parsed.options), {
       headers: {
         'X-RateLimit-Limit': '100',
         'X-RateLimit-Remaining': rateLimit.remaining.toString(),
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSearchSuggestions, MAX_SUGGESTIONS_PER_GROUP } from '@/backend/lib/search-suggestions';
+import { checkRateLimit, getClientIdentifier } from '../../rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Autocomplete suggestions for a partial search query
+ * Returns tag, category and title completions (close spellings included when pg_trgm is installed)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Rate limiting (called on every keystroke, after debouncing)
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(clientId, { windowMs: 60000, maxRequests: 300 });
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { success: false, error: rateLimit.error },
+        { status: 429 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const query = searchParams.get('q') || '';
+    const limit = parseInt(searchParams.get('limit') || '5', 10);
+
+    if (!query.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Search query is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await getSearchSuggestions(
+      query,
+      Number.isNaN(limit) ? 5 : Math.min(limit, MAX_SUGGESTIONS_PER_GROUP)
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    }, {
+      headers: {
+        'Cache-Control': 'public, max-age=30',
+        'X-RateLimit-Limit': '300',
+        'X-RateLimit-Remaining': rateLimit.remaining.toString(),
+        'X-RateLimit-Reset': rateLimit.resetTime.toString(),
+      },
+    });
+  } catch (error) {
+    console.error('Search suggest API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
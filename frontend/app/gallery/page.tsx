@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback, Suspense, useMemo } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
-import { useQuery } from '@tanstack/react-query';
+import { useInfiniteQuery } from '@tanstack/react-query';
 import Masonry from 'react-masonry-css';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Loader2, ArrowUp, ArrowDown, Sparkles, TrendingUp, Clock, Grid3X3, LayoutGrid, Search, SlidersHorizontal, X } from 'lucide-react';
@@ -10,7 +10,8 @@ import dynamic from 'next/dynamic';
 import Header from '@/components/layout/Header';
 import Footer from '@/components/layout/Footer';
 import ImageCard from '@/components/gallery/ImageCard';
-import FilterSidebar from '@/components/gallery/FilterSidebar';
+import FilterSidebar, { type ImageFacets } from '@/components/gallery/FilterSidebar';
+import { SearchSuggestions } from '@/components/search/SearchSuggestions';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 
@@ -30,24 +31,60 @@ const sortTabs = [
   { id: 'trending', label: 'Trending', icon: Sparkles },
 ];
 
+// Offered (and the default) while searching
+const relevanceTab = { id: 'relevance', label: 'Relevant', icon: Search };
+
+interface ImagesPage {
+  success: boolean;
+  data: any[];
+  didYouMean?: string; // Spelling-corrected search, when nothing matched
+  facets?: ImageFacets; // Requested with the first page only
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+    nextCursor: string | null; // Cursor for the next page (keyset pagination)
+  };
+}
+
+// A search the API rejected - retrying won't help
+class InvalidSearchError extends Error {}
+
+const INITIAL_LIMIT = 30;
+const PAGE_SIZE = 50;
+
 // Fetch images from API
 async function fetchImages(params: {
   category?: string;
   search?: string;
   orientation?: string;
+  colors?: string[];
+  tags?: string;
   sort?: string;
+  seed?: string;
   limit?: number;
-  offset?: number;
-}) {
+  cursor?: string;
+  facets?: boolean;
+}): Promise<ImagesPage> {
   const searchParams = new URLSearchParams();
   if (params.category) searchParams.set('category', params.category);
   if (params.search) searchParams.set('q', params.search);
   if (params.orientation) searchParams.set('orientation', params.orientation);
+  if (params.colors && params.colors.length > 0) searchParams.set('colors', params.colors.join(','));
+  if (params.tags) searchParams.set('tags', params.tags);
   if (params.sort) searchParams.set('sort', params.sort);
+  if (params.seed) searchParams.set('seed', params.seed);
   if (params.limit) searchParams.set('limit', String(params.limit));
-  if (params.offset) searchParams.set('offset', String(params.offset));
+  if (params.cursor) searchParams.set('cursor', params.cursor);
+  if (params.facets) searchParams.set('facets', 'true');
 
   const response = await fetch(`/api/images?${searchParams.toString()}`);
+  if (response.status === 400) {
+    // e.g. an unknown search operator - the message says how to fix the query
+    const body = await response.json().catch(() => null);
+    throw new InvalidSearchError(body?.error || 'Invalid search');
+  }
   if (!response.ok) throw new Error('Failed to fetch images');
   return response.json();
 }
@@ -58,71 +95,55 @@ function GalleryContent() {
   const categoryParam = searchParams.get('category');
   const sortParam = searchParams.get('sort');
   const searchQuery = searchParams.get('q') || '';
+  const orientationParam = searchParams.get('orientation');
+  const tagsParam = searchParams.get('tags') || ''; // Set by /tag/[tagName] redirects
   
   const [selectedImage, setSelectedImage] = useState<any | null>(null);
   const [isFilterOpen, setIsFilterOpen] = useState(false);
-  const [loadedImages, setLoadedImages] = useState<any[]>([]); // Accumulated images from all pages
-  const [currentPage, setCurrentPage] = useState(0); // 0 = initial 30, then 1, 2, 3... for 50 each
   const [showScrollTop, setShowScrollTop] = useState(false);
   const [viewMode, setViewMode] = useState<'masonry' | 'grid'>('masonry');
   const [localSearch, setLocalSearch] = useState(searchQuery);
   const [isLoadingOAuthImage, setIsLoadingOAuthImage] = useState(false); // Track OAuth return image loading
-  
-  // Memoize images array to prevent unnecessary re-renders of ImageCard components
-  const memoizedImages = useMemo(() => loadedImages, [loadedImages]);
-  const INITIAL_LIMIT = 30;
-  const PAGE_SIZE = 50;
+  const [randomSeed] = useState(() => Math.random().toString(36).slice(2, 10)); // One shuffle per visit for the random sort
   const [filters, setFilters] = useState({
     categories: categoryParam ? [categoryParam] : [],
-    orientation: 'all',
+    orientation: orientationParam || 'all',
     colors: [] as string[],
-    sort: sortParam || 'recent',
+    sort: sortParam || (searchQuery ? 'relevance' : 'recent'),
   });
 
-  // Reset pagination when filters change
+  // Sync filters with the URL
   useEffect(() => {
     setFilters(prev => ({
       ...prev,
       categories: categoryParam ? [categoryParam] : prev.categories,
-      sort: sortParam || prev.sort,
+      orientation: orientationParam || prev.orientation,
+      // Searches default to relevance; relevance makes no sense without one
+      sort: sortParam || (searchQuery ? 'relevance' : prev.sort === 'relevance' ? 'recent' : prev.sort),
     }));
-    // Reset pagination when filters/search change
-    setCurrentPage(0);
-    setLoadedImages([]);
-  }, [categoryParam, sortParam, searchQuery, filters.orientation]);
-
-  // Calculate limit and offset based on current page
-  const getLimitAndOffset = () => {
-    if (currentPage === 0) {
-      return { limit: INITIAL_LIMIT, offset: 0 };
-    }
-    // Page 1+ loads 50 images each, starting after the initial 30
-    const offset = INITIAL_LIMIT + (currentPage - 1) * PAGE_SIZE;
-    return { limit: PAGE_SIZE, offset };
-  };
-
-  const { limit, offset } = getLimitAndOffset();
-
-  // Fetch images using React Query with session-level caching
-  const { data, isLoading, error, refetch } = useQuery<{
-    success: boolean;
-    data: any[];
-    pagination: {
-      total: number;
-      limit: number;
-      offset: number;
-      hasMore: boolean;
-    };
-  }>({
-    queryKey: ['images', filters.categories[0], searchQuery, filters.orientation, filters.sort, limit, offset],
-    queryFn: () => fetchImages({
+  }, [categoryParam, sortParam, searchQuery, orientationParam]);
+
+  // Fetch pages of images using React Query with session-level caching
+  // The first page is 30 images (with facet counts), then 50 per page following each page's nextCursor;
+  // a filter change is a new query key, so pagination starts over
+  const seed = filters.sort === 'random' ? randomSeed : undefined;
+  const { data, isLoading, error, refetch, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['images', filters.categories[0], searchQuery, tagsParam, filters.orientation, filters.colors, filters.sort, seed],
+    queryFn: ({ pageParam }) => fetchImages({
       category: filters.categories[0],
       search: searchQuery,
       orientation: filters.orientation,
+      colors: filters.colors,
+      tags: tagsParam,
       sort: filters.sort,
-      limit,
-      offset,
+      seed,
+      limit: pageParam ? PAGE_SIZE : INITIAL_LIMIT,
+      cursor: pageParam ?? undefined,
+      facets: !pageParam,
     }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.pagination.nextCursor ?? undefined,
+    retry: (failureCount, queryError) => !(queryError instanceof InvalidSearchError) && failureCount < 3,
     // Session-level cache: 30 minutes stale time (inherits from defaultOptions)
     // This means data won't be refetched for 30 minutes after first load
     staleTime: 30 * 60 * 1000, // 30 minutes - data stays fresh
@@ -136,24 +157,13 @@ function GalleryContent() {
     enabled: true, // Always enabled, but we'll show loading overlay for OAuth return
   });
 
-  // Update loaded images when new data arrives
-  useEffect(() => {
-    if (data?.data) {
-      if (currentPage === 0) {
-        // First page: replace all images
-        setLoadedImages(data.data);
-      } else {
-        // Subsequent pages: append new images
-        setLoadedImages(prev => [...prev, ...data.data]);
-      }
-    }
-  }, [data, currentPage]);
-
-  // Use memoized images to prevent re-renders when modal state changes
-  const images = memoizedImages;
-  const hasMore = data?.pagination?.hasMore || false;
-  const totalImages = data?.pagination?.total || 0;
-  const isInitialLoading = isLoading && currentPage === 0 && loadedImages.length === 0;
+  // Memoize the accumulated images to prevent re-renders of ImageCard components when modal state changes
+  const images = useMemo(() => data?.pages.flatMap((page) => page.data) ?? [], [data]);
+  const firstPage = data?.pages[0];
+  const facets = firstPage?.facets; // Result counts per filter option
+  const hasMore = hasNextPage;
+  const totalImages = firstPage?.pagination?.total || 0;
+  const isInitialLoading = isLoading;
 
   // Fetch a single image by ID or hashId (supports both)
   const fetchImageById = useCallback(async (idOrHash: number | string) => {
@@ -291,7 +301,7 @@ function GalleryContent() {
     
     // If images are still loading, we'll retry when images load (this effect will re-run due to images dependency)
   }, [searchParams, images, selectedImage, fetchImageById]);
-  const isLoadingMore = isLoading && currentPage > 0;
+  const isLoadingMore = isFetchingNextPage;
 
   const breakpointColumns = viewMode === 'masonry' 
     ? { default: 4, 1280: 4, 1024: 3, 768: 2, 640: 2 }
@@ -299,9 +309,9 @@ function GalleryContent() {
 
   // Load next page
   const loadNextPage = useCallback(() => {
-    if (isLoading || !hasMore) return;
-    setCurrentPage(prev => prev + 1);
-  }, [isLoading, hasMore]);
+    if (isFetchingNextPage || !hasMore) return;
+    fetchNextPage();
+  }, [isFetchingNextPage, hasMore, fetchNextPage]);
 
   // Scroll tracking for "Scroll to Top" button
   useEffect(() => {
@@ -355,6 +365,13 @@ function GalleryContent() {
     router.push(`/gallery?${params.toString()}`);
   };
 
+  const searchFor = (query: string) => {
+    setLocalSearch(query);
+    const params = new URLSearchParams(searchParams.toString());
+    params.set('q', query);
+    router.push(`/gallery?${params.toString()}`);
+  };
+
   const clearSearch = () => {
     setLocalSearch('');
     const params = new URLSearchParams(searchParams.toString());
@@ -381,7 +398,7 @@ function GalleryContent() {
       
       <main className={`pt-14 ${isLoadingOAuthImage ? 'opacity-0 pointer-events-none' : ''}`}>
         {/* Enhanced Page Header */}
-        <div className="relative overflow-hidden">
+        <div className="relative">
           {/* Background gradient */}
           <div className="absolute inset-0 bg-gradient-to-br from-primary/10 via-background to-accent/5" />
           <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_top_right,_var(--tw-gradient-stops))] from-primary/20 via-transparent to-transparent" />
@@ -404,32 +421,34 @@ function GalleryContent() {
 
               {/* Search Bar */}
               <form onSubmit={handleSearch} className="relative max-w-2xl">
-                <div className="relative group">
-                  <Search className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground group-focus-within:text-primary transition-colors" />
-                  <input
-                    type="text"
-                    value={localSearch}
-                    onChange={(e) => setLocalSearch(e.target.value)}
-                    placeholder="Search for images..."
-                    className="w-full h-14 pl-12 pr-24 bg-card/80 backdrop-blur-sm rounded-2xl text-foreground placeholder:text-muted-foreground border border-border/50 focus:border-primary/50 focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
-                  />
-                  {localSearch && (
-                    <button
-                      type="button"
-                      onClick={clearSearch}
-                      className="absolute right-20 top-1/2 -translate-y-1/2 p-1.5 rounded-full hover:bg-secondary transition-colors"
+                <SearchSuggestions query={localSearch}>
+                  <div className="relative group">
+                    <Search className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground group-focus-within:text-primary transition-colors" />
+                    <input
+                      type="text"
+                      value={localSearch}
+                      onChange={(e) => setLocalSearch(e.target.value)}
+                      placeholder="Search for images..."
+                      className="w-full h-14 pl-12 pr-24 bg-card/80 backdrop-blur-sm rounded-2xl text-foreground placeholder:text-muted-foreground border border-border/50 focus:border-primary/50 focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
+                    />
+                    {localSearch && (
+                      <button
+                        type="button"
+                        onClick={clearSearch}
+                        className="absolute right-20 top-1/2 -translate-y-1/2 p-1.5 rounded-full hover:bg-secondary transition-colors"
+                      >
+                        <X className="h-4 w-4 text-muted-foreground" />
+                      </button>
+                    )}
+                    <Button
+                      type="submit"
+                      size="sm"
+                      className="absolute right-2 top-1/2 -translate-y-1/2 rounded-xl h-10"
                     >
-                      <X className="h-4 w-4 text-muted-foreground" />
-                    </button>
-                  )}
-                  <Button
-                    type="submit"
-                    size="sm"
-                    className="absolute right-2 top-1/2 -translate-y-1/2 rounded-xl h-10"
-                  >
-                    Search
-                  </Button>
-                </div>
+                      Search
+                    </Button>
+                  </div>
+                </SearchSuggestions>
               </form>
             </motion.div>
           </div>
@@ -441,7 +460,7 @@ function GalleryContent() {
             <div className="flex items-center justify-between py-3 gap-4 min-h-[64px]">
               {/* Sort Tabs */}
               <div className="flex items-center gap-1 p-1 bg-secondary/50 rounded-xl">
-                {sortTabs.map((tab) => (
+                {(searchQuery ? [relevanceTab, ...sortTabs] : sortTabs).map((tab) => (
                   <button
                     key={tab.id}
                     onClick={() => handleSortChange(tab.id)}
@@ -551,6 +570,7 @@ function GalleryContent() {
             onClose={() => setIsFilterOpen(false)}
             filters={filters}
             onFilterChange={setFilters}
+            facets={facets}
           />
 
           {/* Gallery Grid */}
@@ -567,12 +587,19 @@ function GalleryContent() {
 
             {/* Error State */}
             {error && (
-              <div className="text-center py-16">
-                <p className="text-destructive mb-4">Failed to load images. Please try again.</p>
-                <Button onClick={() => refetch()} variant="outline">
-                  Retry
-                </Button>
-              </div>
+              error instanceof InvalidSearchError ? (
+                <div className="text-center py-16">
+                  <p className="text-destructive mb-2">{error.message}</p>
+                  <p className="text-sm text-muted-foreground">Open the filters for the search syntax help.</p>
+                </div>
+              ) : (
+                <div className="text-center py-16">
+                  <p className="text-destructive mb-4">Failed to load images. Please try again.</p>
+                  <Button onClick={() => refetch()} variant="outline">
+                    Retry
+                  </Button>
+                </div>
+              )
             )}
 
             {/* Initial Loading State */}
@@ -671,6 +698,19 @@ function GalleryContent() {
                   <Search className="h-10 w-10 text-muted-foreground" />
                 </div>
                 <h3 className="text-xl font-semibold text-foreground mb-2">No images found</h3>
+                {firstPage?.didYouMean && (
+                  <p className="text-foreground mb-2">
+                    Did you mean{' '}
+                    <button
+                      type="button"
+                      onClick={() => searchFor(firstPage.didYouMean!)}
+                      className="font-semibold text-primary hover:underline"
+                    >
+                      {firstPage.didYouMean}
+                    </button>
+                    ?
+                  </p>
+                )}
                 <p className="text-muted-foreground mb-6">Try adjusting your filters or search terms</p>
                 <Button variant="outline" onClick={() => {
                   setFilters({ categories: [], orientation: 'all', colors: [], sort: 'recent' });
@@ -1,6 +1,10 @@
 import { MetadataRoute } from 'next';
+import { getCategories } from '@/backend/lib/categories';
 
-export default function sitemap(): MetadataRoute.Sitemap {
+// Regenerated hourly so new categories show up
+export const revalidate = 3600;
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://pixelvault.com';
   
   // Static pages
@@ -15,24 +19,14 @@ export default function sitemap(): MetadataRoute.Sitemap {
     priority: route === '' ? 1 : 0.8,
   }));
 
-  // Common tag pages (you can expand this with actual tags from database)
-  const commonTags = [
-    'nature',
-    'business',
-    'travel',
-    'people',
-    'abstract',
-    'food',
-    'technology',
-    'architecture',
-  ];
-
-  const tagRoutes = commonTags.map((tag) => ({
-    url: `${baseUrl}/tag/${tag}`,
+  // Category pages - categories come from the database, so a DB outage only drops these
+  const categories = await getCategories();
+  const categoryRoutes = categories.data.map((category) => ({
+    url: `${baseUrl}/gallery?category=${encodeURIComponent(category.slug)}`,
     lastModified: new Date(),
-    changeFrequency: 'weekly' as const,
-    priority: 0.7,
+    changeFrequency: 'daily' as const,
+    priority: category.parentSlug ? 0.6 : 0.7,
   }));
 
-  return [...routes, ...tagRoutes];
+  return [...routes, ...categoryRoutes];
 }
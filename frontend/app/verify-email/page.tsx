@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useRef, useState, Suspense } from 'react';
+import { useSearchParams, useRouter } from 'next/navigation';
+import { Loader2, CheckCircle2, XCircle } from 'lucide-react';
+import { AuthCard } from '@/components/auth/AuthCard';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+
+type VerifyState = 'verifying' | 'verified' | 'failed';
+
+function VerifyEmailContent() {
+  const router = useRouter();
+  const { isAuthenticated } = useAuth();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [state, setState] = useState<VerifyState>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState<string | null>(token ? null : 'This link is missing its token.');
+  const [resendState, setResendState] = useState<'idle' | 'sending' | 'sent'>('idle');
+  const requested = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single-use - don't send it twice (React strict mode runs effects twice)
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    fetch('/api/auth/verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ token }),
+    })
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}));
+        if (response.ok && data.success) {
+          setState('verified');
+        } else {
+          setState('failed');
+          setError(data.error || 'Verification failed. Please try again.');
+        }
+      })
+      .catch(() => {
+        setState('failed');
+        setError('Verification failed. Please try again.');
+      });
+  }, [token]);
+
+  // Signed-in users can get a fresh link for their account
+  const handleResend = async () => {
+    setResendState('sending');
+    try {
+      const response = await fetch('/api/auth/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({}),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to send a new link');
+      }
+      setResendState('sent');
+    } catch (err) {
+      setResendState('idle');
+      setError(err instanceof Error ? err.message : 'Failed to send a new link');
+    }
+  };
+
+  if (state === 'verifying') {
+    return (
+      <AuthCard title="Verifying your email" description="This will only take a moment.">
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </AuthCard>
+    );
+  }
+
+  if (state === 'verified') {
+    return (
+      <AuthCard title="Email verified" description="Thanks for confirming your email address.">
+        <div className="flex justify-center">
+          <CheckCircle2 className="h-10 w-10 text-primary" />
+        </div>
+        <Button className="w-full" size="lg" onClick={() => router.push('/')}>
+          Continue
+        </Button>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard
+      title="Couldn't verify your email"
+      description={error || 'This link is invalid or has expired.'}
+    >
+      <div className="flex justify-center">
+        <XCircle className="h-10 w-10 text-destructive" />
+      </div>
+      {isAuthenticated && (
+        <Button
+          className="w-full"
+          size="lg"
+          onClick={handleResend}
+          disabled={resendState !== 'idle'}
+        >
+          {resendState === 'sending' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {resendState === 'sent' ? 'New link sent - check your inbox' : 'Send a new link'}
+        </Button>
+      )}
+      <div className="text-center">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => router.push('/')}
+          className="text-muted-foreground"
+        >
+          Go to PixelVault
+        </Button>
+      </div>
+    </AuthCard>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-muted flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    }>
+      <VerifyEmailContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import Link from 'next/link';
+
+interface AuthCardProps {
+  title: string;
+  description: string;
+  children: ReactNode;
+}
+
+/**
+ * Full-page card for the account pages (verify email, forgot/reset password)
+ * Laid out like SignInModal so the flows feel like one
+ */
+export function AuthCard({ title, description, children }: AuthCardProps) {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted px-4">
+      <div className="w-full border bg-background p-6 shadow-lg sm:max-w-md sm:rounded-lg">
+        <div className="flex flex-col space-y-1.5 text-center sm:text-left">
+          <h1 className="text-xl font-semibold leading-none tracking-tight">{title}</h1>
+          <p className="text-base mt-2 text-muted-foreground">{description}</p>
+        </div>
+
+        <div className="mt-6 space-y-4">{children}</div>
+
+        <div className="mt-4 text-xs text-center text-muted-foreground">
+          <Link href="/" className="underline hover:text-foreground">
+            Back to PixelVault
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,8 +3,24 @@
 import { useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Search, X, ChevronDown, SlidersHorizontal, Check } from 'lucide-react';
+import { Search, X, ChevronDown, SlidersHorizontal, Check, HelpCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { SEARCH_OPERATORS, SEARCH_TEXT_SYNTAX } from '@/backend/lib/search-syntax';
+import { useCategories } from '@/hooks/useCategories';
+import { formatCount } from '@/lib/utils';
+
+/**
+ * Result counts per filter option, as returned by GET /api/images?facets=true
+ * Each facet is counted with every other active filter applied
+ */
+export interface ImageFacets {
+  category: Record<string, number>;
+  tag: Array<{ slug: string; name: string; count: number }>;
+  orientation: { landscape: number; portrait: number; square: number };
+  color: Record<string, number>;
+  date: { day: number; week: number; month: number; year: number };
+}
 
 interface FilterSidebarProps {
   isOpen: boolean;
@@ -16,19 +32,9 @@ interface FilterSidebarProps {
     sort: string;
   };
   onFilterChange: (filters: FilterSidebarProps['filters']) => void;
+  facets?: ImageFacets; // Without facets, categories show their overall counts and nothing is disabled
 }
 
-const categories = [
-  { id: 'nature', name: 'Nature', icon: '🌳', count: '2.5K' },
-  { id: 'business', name: 'Business', icon: '💼', count: '1.8K' },
-  { id: 'travel', name: 'Travel', icon: '✈️', count: '3.2K' },
-  { id: 'people', name: 'People', icon: '👥', count: '1.2K' },
-  { id: 'abstract', name: 'Abstract', icon: '🎨', count: '890' },
-  { id: 'food', name: 'Food', icon: '🍔', count: '1.5K' },
-  { id: 'technology', name: 'Technology', icon: '💻', count: '980' },
-  { id: 'architecture', name: 'Architecture', icon: '🏛️', count: '1.1K' },
-];
-
 const orientations = [
   { id: 'all', name: 'All Orientations' },
   { id: 'landscape', name: 'Landscape' },
@@ -36,6 +42,7 @@ const orientations = [
   { id: 'square', name: 'Square' },
 ];
 
+// Swatch ids match COLOR_SWATCHES in backend/lib/image-colors.ts (images are tagged with the nearest ones)
 const colors = [
   { id: 'red', color: '#EF4444', name: 'Red' },
   { id: 'orange', color: '#F97316', name: 'Orange' },
@@ -58,11 +65,12 @@ const sortOptions = [
   { id: 'random', name: 'Random' },
 ];
 
-const FilterSidebar = ({ isOpen, onClose, filters, onFilterChange }: FilterSidebarProps) => {
+const FilterSidebar = ({ isOpen, onClose, filters, onFilterChange, facets }: FilterSidebarProps) => {
   const searchParams = useSearchParams();
   const router = useRouter();
   const [searchQuery, setSearchQuery] = useState(searchParams.get('q') || '');
   const [expandedSections, setExpandedSections] = useState<string[]>(['categories', 'orientation', 'colors']);
+  const { data: categories = [] } = useCategories();
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
@@ -74,6 +82,11 @@ const FilterSidebar = ({ isOpen, onClose, filters, onFilterChange }: FilterSideb
     onClose();
   };
 
+  // Add a syntax example from the help to the search box
+  const insertExample = (example: string) => {
+    setSearchQuery(prev => (prev.trim() ? `${prev.trim()} ${example}` : example));
+  };
+
   const toggleSection = (section: string) => {
     setExpandedSections(prev => 
       prev.includes(section) 
@@ -100,6 +113,12 @@ const FilterSidebar = ({ isOpen, onClose, filters, onFilterChange }: FilterSideb
     onFilterChange({ categories: [], orientation: 'all', colors: [], sort: 'recent' });
   };
 
+  // Result counts for the current search and filters (undefined until facets arrive)
+  const categoryCount = (slug: string, overall: number) => (facets ? facets.category[slug] || 0 : overall);
+  const orientationCount = (id: string) =>
+    facets && id !== 'all' ? facets.orientation[id as keyof ImageFacets['orientation']] : undefined;
+  const colorCount = (id: string) => (facets ? facets.color[id] || 0 : undefined);
+
   const hasActiveFilters = filters.categories.length > 0 || filters.colors.length > 0 || filters.orientation !== 'all';
 
   const SidebarContent = () => (
@@ -124,8 +143,36 @@ const FilterSidebar = ({ isOpen, onClose, filters, onFilterChange }: FilterSideb
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               placeholder="Search images..."
-              className="w-full h-11 pl-10 pr-4 bg-secondary/50 rounded-xl text-foreground text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/30 focus:bg-secondary transition-all"
+              className="w-full h-11 pl-10 pr-10 bg-secondary/50 rounded-xl text-foreground text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/30 focus:bg-secondary transition-all"
             />
+            <Popover>
+              <PopoverTrigger asChild>
+                <button
+                  type="button"
+                  aria-label="Search syntax help"
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  <HelpCircle className="h-4 w-4" />
+                </button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-80 p-4 text-sm">
+                <p className="font-semibold text-foreground mb-1">Search syntax</p>
+                <p className="text-xs text-muted-foreground mb-3">Combine filters and text, e.g. tag:nature color:blue -people</p>
+                <div className="space-y-1">
+                  {[...SEARCH_OPERATORS, ...SEARCH_TEXT_SYNTAX].map((item) => (
+                    <button
+                      key={item.example}
+                      type="button"
+                      onClick={() => insertExample(item.example)}
+                      className="flex w-full items-baseline gap-3 rounded-lg p-2 text-left hover:bg-secondary/50 transition-colors"
+                    >
+                      <code className="shrink-0 text-xs text-primary">{item.example}</code>
+                      <span className="text-xs text-muted-foreground">{item.description}</span>
+                    </button>
+                  ))}
+                </div>
+              </PopoverContent>
+            </Popover>
           </div>
         </form>
       </div>
@@ -157,24 +204,31 @@ const FilterSidebar = ({ isOpen, onClose, filters, onFilterChange }: FilterSideb
                 className="overflow-hidden"
               >
                 <div className="px-5 pb-5 space-y-1">
-                  {categories.map((category) => (
-                    <button
-                      key={category.id}
-                      onClick={() => toggleCategory(category.id)}
-                      className={`flex items-center gap-3 w-full p-3 rounded-xl transition-all ${
-                        filters.categories.includes(category.id)
-                          ? 'bg-primary/10 text-primary'
-                          : 'hover:bg-secondary/50 text-foreground'
-                      }`}
-                    >
-                      <span className="text-lg">{category.icon}</span>
-                      <span className="flex-1 text-sm text-left">{category.name}</span>
-                      <span className="text-xs text-muted-foreground">{category.count}</span>
-                      {filters.categories.includes(category.id) && (
-                        <Check className="h-4 w-4 text-primary" />
-                      )}
-                    </button>
-                  ))}
+                  {categories.map((category) => {
+                    const count = categoryCount(category.slug, category.imageCount);
+                    const isSelected = filters.categories.includes(category.slug);
+                    return (
+                      <button
+                        key={category.slug}
+                        onClick={() => toggleCategory(category.slug)}
+                        disabled={count === 0 && !isSelected}
+                        className={`flex items-center gap-3 w-full p-3 rounded-xl transition-all disabled:opacity-40 disabled:pointer-events-none ${
+                          category.parentSlug ? 'pl-8' : ''
+                        } ${
+                          isSelected
+                            ? 'bg-primary/10 text-primary'
+                            : 'hover:bg-secondary/50 text-foreground'
+                        }`}
+                      >
+                        <span className="text-lg">{category.icon}</span>
+                        <span className="flex-1 text-sm text-left">{category.name}</span>
+                        <span className="text-xs text-muted-foreground">{formatCount(count)}</span>
+                        {isSelected && (
+                          <Check className="h-4 w-4 text-primary" />
+                        )}
+                      </button>
+                    );
+                  })}
                 </div>
               </motion.div>
             )}
@@ -199,19 +253,26 @@ const FilterSidebar = ({ isOpen, onClose, filters, onFilterChange }: FilterSideb
                 className="overflow-hidden"
               >
                 <div className="px-5 pb-5 grid grid-cols-2 gap-2">
-                  {orientations.map((orientation) => (
-                    <button
-                      key={orientation.id}
-                      onClick={() => onFilterChange({ ...filters, orientation: orientation.id })}
-                      className={`px-3 py-2.5 rounded-xl text-sm font-medium transition-all ${
-                        filters.orientation === orientation.id
-                          ? 'bg-primary text-primary-foreground'
-                          : 'bg-secondary/50 text-foreground hover:bg-secondary'
-                      }`}
-                    >
-                      {orientation.name}
-                    </button>
-                  ))}
+                  {orientations.map((orientation) => {
+                    const count = orientationCount(orientation.id);
+                    return (
+                      <button
+                        key={orientation.id}
+                        onClick={() => onFilterChange({ ...filters, orientation: orientation.id })}
+                        disabled={count === 0 && filters.orientation !== orientation.id}
+                        className={`px-3 py-2.5 rounded-xl text-sm font-medium transition-all disabled:opacity-40 disabled:pointer-events-none ${
+                          filters.orientation === orientation.id
+                            ? 'bg-primary text-primary-foreground'
+                            : 'bg-secondary/50 text-foreground hover:bg-secondary'
+                        }`}
+                      >
+                        {orientation.name}
+                        {count !== undefined && (
+                          <span className="ml-1 text-xs opacity-70">({formatCount(count)})</span>
+                        )}
+                      </button>
+                    );
+                  })}
                 </div>
               </motion.div>
             )}
@@ -243,25 +304,29 @@ const FilterSidebar = ({ isOpen, onClose, filters, onFilterChange }: FilterSideb
                 className="overflow-hidden"
               >
                 <div className="px-5 pb-5 grid grid-cols-6 gap-3">
-                  {colors.map((color) => (
-                    <button
-                      key={color.id}
-                      onClick={() => toggleColor(color.id)}
-                      title={color.name}
-                      className={`relative w-9 h-9 rounded-full transition-all hover:scale-110 ${
-                        filters.colors.includes(color.id)
-                          ? 'ring-2 ring-primary ring-offset-2 ring-offset-card scale-110'
-                          : ''
-                      }`}
-                      style={{ backgroundColor: color.color }}
-                    >
-                      {filters.colors.includes(color.id) && (
-                        <Check className={`absolute inset-0 m-auto h-4 w-4 ${
-                          color.id === 'white' || color.id === 'yellow' ? 'text-gray-800' : 'text-white'
-                        }`} />
-                      )}
-                    </button>
-                  ))}
+                  {colors.map((color) => {
+                    const count = colorCount(color.id);
+                    return (
+                      <button
+                        key={color.id}
+                        onClick={() => toggleColor(color.id)}
+                        disabled={count === 0 && !filters.colors.includes(color.id)}
+                        title={count !== undefined ? `${color.name} (${formatCount(count)})` : color.name}
+                        className={`relative w-9 h-9 rounded-full transition-all hover:scale-110 disabled:opacity-25 disabled:pointer-events-none ${
+                          filters.colors.includes(color.id)
+                            ? 'ring-2 ring-primary ring-offset-2 ring-offset-card scale-110'
+                            : ''
+                        }`}
+                        style={{ backgroundColor: color.color }}
+                      >
+                        {filters.colors.includes(color.id) && (
+                          <Check className={`absolute inset-0 m-auto h-4 w-4 ${
+                            color.id === 'white' || color.id === 'yellow' ? 'text-gray-800' : 'text-white'
+                          }`} />
+                        )}
+                      </button>
+                    );
+                  })}
                 </div>
               </motion.div>
             )}
@@ -6,6 +6,7 @@ import { motion } from 'framer-motion';
 import { Heart, Download, Eye, Bookmark } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { BlurHashImage } from '@/components/ui/blurhash-image';
+import { buildPictureSources } from '@/lib/image-variants';
 import { useAuth } from '@/hooks/useAuth';
 import { SignInModal } from '@/components/auth/SignInModal';
 import { useQueryClient } from '@tanstack/react-query';
@@ -19,6 +20,7 @@ interface ImageCardProps {
     thumbnailUrl?: string; // API returns this
     imageUrl?: string; // API returns this
     blurhash?: string | null; // BlurHash for instant preview
+    hasVariants?: boolean; // Responsive variants are stored - without them the thumbnail is used as is
     title: string;
     author: string;
     downloads: number;
@@ -45,6 +47,12 @@ const ImageCard = React.memo(({ image, onClick }: ImageCardProps) => {
     return image.thumbnailUrl || image.url || `/api/images/${image.hashId || image.id}/thumbnail`;
   }, [image.thumbnailUrl, image.url, image.id, image.hashId]);
 
+  // Responsive AVIF/WebP sources - the browser picks a width from `sizes`, thumbnail stays as fallback
+  // Only for images with stored variants: otherwise every source would be the full display image
+  const pictureSources = useMemo(() => {
+    return image.hasVariants ? buildPictureSources(image.hashId || image.id, image.width) : undefined;
+  }, [image.hasVariants, image.hashId, image.id, image.width]);
+
   // Handle image click - navigate to dedicated image page
   const handleImageClick = () => {
     if (onClick) {
@@ -278,6 +286,7 @@ const ImageCard = React.memo(({ image, onClick }: ImageCardProps) => {
       <div className="relative w-full overflow-hidden" style={{ aspectRatio: '600 / ' + (image.height || 400) }}>
         <BlurHashImage
           src={thumbnailUrl}
+          sources={pictureSources}
           blurhash={image.blurhash}
           alt={image.title}
           fill
@@ -376,6 +385,7 @@ const ImageCard = React.memo(({ image, onClick }: ImageCardProps) => {
   return (
     prevProps.image.id === nextProps.image.id &&
     prevProps.image.thumbnailUrl === nextProps.image.thumbnailUrl &&
+    prevProps.image.width === nextProps.image.width &&
     prevProps.image.blurhash === nextProps.image.blurhash &&
     prevProps.image.title === nextProps.image.title &&
     prevProps.onClick === nextProps.onClick
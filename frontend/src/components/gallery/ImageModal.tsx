@@ -10,7 +10,9 @@ import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
 import { SignInModal } from '@/components/auth/SignInModal';
-import { useQueryClient } from '@tanstack/react-query';
+import { BlurHashImage } from '@/components/ui/blurhash-image';
+import { buildPictureSources } from '@/lib/image-variants';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 
 interface ImageModalProps {
   image: {
@@ -19,6 +21,9 @@ interface ImageModalProps {
     url?: string; // For backward compatibility
     thumbnailUrl?: string; // API returns this
     imageUrl?: string; // API returns this (full resolution)
+    blurhash?: string | null; // BlurHash for instant preview
+    width?: number; // Source width - limits which responsive variants are requested
+    hasVariants?: boolean; // Responsive variants are stored - without them only the full image is used
     title: string;
     author: string;
     downloads: number;
@@ -31,6 +36,14 @@ interface ImageModalProps {
   currentPage?: 'gallery' | 'favorites'; // Explicitly pass current page context
 }
 
+// Crop previews for the aspect-ratio downloads - small renders of the same transform preset,
+// so they show exactly what the download will contain (focal point / smart crop included)
+// renderWidth: an allowed transform width at about 2x the box, for high-DPI screens
+const CROP_PREVIEWS = [
+  { preset: '16x9', label: '16:9', width: 128, height: 72, renderWidth: 256 },
+  { preset: '9x16', label: '9:16', width: 41, height: 72, renderWidth: 96 },
+];
+
 // Generate recommended images based on seed
 const generateRecommendedImages = (currentId: number, count: number = 8) => {
   return Array.from({ length: count }, (_, i) => ({
@@ -55,6 +68,18 @@ const ImageModal = ({ image, onClose, onNavigate, currentPage }: ImageModalProps
   const hasCheckedFavoriteRef = useRef(false); // Track if we've already checked favorite status for this image
   const currentImageIdRef = useRef<number | null>(null); // Track current image ID
 
+  // Count a view each time a different image is opened (feeds the popular and trending sorts)
+  useEffect(() => {
+    if (!image?.id) return;
+    fetch('/api/images/analytics', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ imageId: image.id, action: 'view' }),
+    }).catch(() => {
+      // Analytics are best effort
+    });
+  }, [image?.id]);
+
   // Check if image is favorited on mount or when image changes (silently in background)
   // Only check once per image ID to prevent duplicate API calls
   useEffect(() => {
@@ -235,6 +260,31 @@ const ImageModal = ({ image, onClose, onNavigate, currentPage }: ImageModalProps
     [image?.id]
   );
 
+  // Visually similar images (perceptual hash + color histogram) from reverse image search
+  const visualImageId = image ? (image.hashId || String(image.id)) : null;
+  const { data: visuallySimilar = [], isLoading: isLoadingVisual } = useQuery<Array<{
+    id: number;
+    hashId: string;
+    title: string;
+    thumbnailUrl: string;
+    blurhash: string | null;
+    distance: number;
+  }>>({
+    queryKey: ['visually-similar', visualImageId],
+    queryFn: async () => {
+      const response = await fetch('/api/search/by-image', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ imageId: visualImageId, limit: 6 }),
+      });
+      if (!response.ok) return [];
+      const result = await response.json();
+      return result.success ? result.data : [];
+    },
+    enabled: !!visualImageId,
+    staleTime: 5 * 60 * 1000,
+  });
+
   if (!image) return null;
 
   const imageType = image.type || 'photo';
@@ -590,25 +640,17 @@ const ImageModal = ({ image, onClose, onNavigate, currentPage }: ImageModalProps
             <div className="relative rounded-2xl overflow-hidden shadow-card-hover bg-card">
               <div className="relative w-full" style={{ transform: `scale(${zoom})`, transformOrigin: 'center' }}>
                 <div className="relative w-full" style={{ aspectRatio: '3 / 2', maxHeight: '70vh' }}>
-                  <Image
-                    src={
-                      // Always use full resolution HD image for viewing (public endpoint)
-                      image.imageUrl || image.url || `/api/images/${(image as any).hashId || image.id}/file`
-                    }
+                  <BlurHashImage
+                    // Full resolution HD image as fallback; <picture> picks the best AVIF/WebP variant for the viewport
+                    src={image.imageUrl || image.url || `/api/images/${image.hashId || image.id}/file`}
+                    sources={image.hasVariants ? buildPictureSources(image.hashId || image.id, image.width) : undefined}
+                    blurhash={image.blurhash}
                     alt={image.title}
                     fill
                     className="object-contain"
-                    quality={90}
                     priority
                     unoptimized={true}
                     sizes="(max-width: 768px) 100vw, (max-width: 1200px) 90vw, 1200px"
-                    onError={(e) => {
-                      // Fallback to thumbnail if full image fails
-                      if (image.thumbnailUrl) {
-                        const target = e.target as HTMLImageElement;
-                        target.src = image.thumbnailUrl;
-                      }
-                    }}
                   />
                 </div>
               </div>
@@ -689,6 +731,29 @@ const ImageModal = ({ image, onClose, onNavigate, currentPage }: ImageModalProps
                 Download Formats
               </div>
 
+              {/* Crop Preview */}
+              <div className="flex items-end gap-4">
+                {CROP_PREVIEWS.map((crop) => (
+                  <div key={crop.preset} className="flex flex-col items-center gap-1">
+                    <div
+                      className="relative rounded-md overflow-hidden border border-border bg-secondary/30"
+                      style={{ width: crop.width, height: crop.height }}
+                    >
+                      <Image
+                        src={`/api/images/${image.hashId || image.id}/transform?preset=${crop.preset}&w=${crop.renderWidth}&format=webp&q=70`}
+                        alt={`${crop.label} crop preview`}
+                        fill
+                        className="object-cover"
+                        sizes={`${crop.width}px`}
+                        loading="lazy"
+                        unoptimized={true}
+                      />
+                    </div>
+                    <span className="text-xs text-muted-foreground">{crop.label} crop</span>
+                  </div>
+                ))}
+              </div>
+
               {/* Three Download Buttons */}
               <div className="grid grid-cols-3 gap-3">
                 {/* 16:9 Landscape - Highest Quality */}
@@ -814,6 +879,50 @@ const ImageModal = ({ image, onClose, onNavigate, currentPage }: ImageModalProps
             </div>
           </motion.div>
 
+          {/* More like this visually */}
+          {(isLoadingVisual || visuallySimilar.length > 0) && (
+            <motion.div 
+              className="w-full max-w-5xl mt-10"
+              initial={{ y: 40, opacity: 0 }}
+              animate={{ y: 0, opacity: 1 }}
+              transition={{ delay: 0.4 }}
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-xl md:text-2xl font-bold text-foreground">
+                  More like this visually
+                </h3>
+              </div>
+
+              <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+                {isLoadingVisual
+                  ? Array.from({ length: 6 }, (_, i) => (
+                      <div key={i} className="aspect-square rounded-lg bg-muted animate-pulse" />
+                    ))
+                  : visuallySimilar.map((simImage, index) => (
+                      <motion.div
+                        key={simImage.id}
+                        initial={{ opacity: 0, scale: 0.9 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        transition={{ delay: 0.5 + index * 0.05 }}
+                        onClick={() => { onClose(); router.push(`/image/${simImage.hashId}`); }}
+                        className="cursor-pointer group"
+                      >
+                        <div className="relative aspect-square rounded-lg overflow-hidden bg-muted border border-border hover:border-primary/50 transition-all duration-300 hover:shadow-md">
+                          <BlurHashImage
+                            src={simImage.thumbnailUrl}
+                            blurhash={simImage.blurhash}
+                            alt={simImage.title}
+                            fill
+                            className="object-cover transition-transform duration-500 group-hover:scale-105"
+                            sizes="(max-width: 768px) 33vw, 16vw"
+                          />
+                        </div>
+                      </motion.div>
+                    ))}
+              </div>
+            </motion.div>
+          )}
+
           {/* Related by Category */}
           <motion.div 
             className="w-full max-w-5xl mt-10"
@@ -5,26 +5,7 @@ import { useRouter } from 'next/navigation';
 import { Search, ArrowRight, ChevronDown, Sparkles, Zap, Globe } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
-
-// Business categories - First row (primary focus)
-const businessCategories = [
-  { name: 'Business', icon: '💼', color: 'bg-category-business' },
-  { name: 'Office', icon: '🏢', color: 'bg-category-business' },
-  { name: 'Finance', icon: '💰', color: 'bg-category-business' },
-  { name: 'Marketing', icon: '📈', color: 'bg-category-business' },
-  { name: 'Technology', icon: '💻', color: 'bg-category-abstract' },
-  { name: 'Corporate', icon: '🤝', color: 'bg-category-business' },
-];
-
-// Other categories - Second row
-const otherCategories = [
-  { name: 'Nature', icon: '🌳', color: 'bg-category-nature' },
-  { name: 'Travel', icon: '✈️', color: 'bg-category-travel' },
-  { name: 'People', icon: '👥', color: 'bg-category-people' },
-  { name: 'Abstract', icon: '🎨', color: 'bg-category-abstract' },
-  { name: 'Food', icon: '🍔', color: 'bg-category-food' },
-  { name: 'Architecture', icon: '🏛️', color: 'bg-category-travel' },
-];
+import { useCategories } from '@/hooks/useCategories';
 
 // Large floating background cards with real images
 const backgroundCards = [
@@ -45,6 +26,17 @@ const HeroSection = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [isMounted, setIsMounted] = useState(false);
   const router = useRouter();
+  const { data: categories = [] } = useCategories();
+
+  // First row: categories that have subcategories, each followed by its subcategories
+  // Second row: the remaining top-level categories
+  const parentSlugs = new Set(categories.map((category) => category.parentSlug).filter(Boolean));
+  const featuredCategories = categories
+    .filter((category) => parentSlugs.has(category.slug))
+    .flatMap((parent) => [parent, ...categories.filter((category) => category.parentSlug === parent.slug)]);
+  const otherCategories = categories.filter(
+    (category) => !category.parentSlug && !parentSlugs.has(category.slug)
+  );
 
   // Fix hydration mismatch - only render animations after mount
   useEffect(() => {
@@ -60,8 +52,8 @@ const HeroSection = () => {
     }
   };
 
-  const handleCategoryClick = (category: string) => {
-    router.push('/gallery');
+  const handleCategoryClick = (slug: string) => {
+    router.push(`/gallery?category=${encodeURIComponent(slug)}`);
   };
 
   return (
@@ -223,12 +215,12 @@ const HeroSection = () => {
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.6 }}
           >
-            {/* Business Categories - First Row */}
+            {/* Categories with subcategories - First Row */}
             <div className="flex flex-wrap justify-center gap-3">
-              {businessCategories.map((category) => (
+              {featuredCategories.map((category) => (
                 <button
-                  key={category.name}
-                  onClick={() => handleCategoryClick(category.name)}
+                  key={category.slug}
+                  onClick={() => handleCategoryClick(category.slug)}
                   className="category-pill"
                 >
                   <span>{category.icon}</span>
@@ -240,8 +232,8 @@ const HeroSection = () => {
             <div className="flex flex-wrap justify-center gap-3">
               {otherCategories.map((category) => (
                 <button
-                  key={category.name}
-                  onClick={() => handleCategoryClick(category.name)}
+                  key={category.slug}
+                  onClick={() => handleCategoryClick(category.slug)}
                   className="category-pill"
                 >
                   <span>{category.icon}</span>
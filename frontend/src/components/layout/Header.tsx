@@ -10,6 +10,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import ThemeToggle from '@/components/ThemeToggle';
 import { useAuth } from '@/hooks/useAuth';
 import { SignInModal } from '@/components/auth/SignInModal';
+import { SearchSuggestions } from '@/components/search/SearchSuggestions';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -75,21 +76,23 @@ const Header = () => {
 
           {/* Search Bar - Center, takes available space */}
           <form onSubmit={handleSearch} className="hidden md:flex flex-1 max-w-xl">
-            <div className="flex items-center w-full h-10 bg-muted/40 rounded-lg border border-border/50 overflow-hidden">
-              <Input
-                type="text"
-                placeholder="Search the perfect image, document or graphic..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="flex-1 h-full px-4 bg-transparent border-0 focus-visible:ring-0 focus-visible:ring-offset-0 placeholder:text-muted-foreground/60 text-sm"
-              />
-              <button 
-                type="submit" 
-                className="h-full px-4 bg-primary hover:bg-primary/90 transition-colors flex items-center justify-center"
-              >
-                <Search className="h-4 w-4 text-primary-foreground" />
-              </button>
-            </div>
+            <SearchSuggestions query={searchQuery} onNavigate={() => setSearchQuery('')} className="w-full">
+              <div className="flex items-center w-full h-10 bg-muted/40 rounded-lg border border-border/50 overflow-hidden">
+                <Input
+                  type="text"
+                  placeholder="Search the perfect image, document or graphic..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="flex-1 h-full px-4 bg-transparent border-0 focus-visible:ring-0 focus-visible:ring-offset-0 placeholder:text-muted-foreground/60 text-sm"
+                />
+                <button 
+                  type="submit" 
+                  className="h-full px-4 bg-primary hover:bg-primary/90 transition-colors flex items-center justify-center"
+                >
+                  <Search className="h-4 w-4 text-primary-foreground" />
+                </button>
+              </div>
+            </SearchSuggestions>
           </form>
 
           {/* Desktop Navigation & Actions */}
@@ -192,7 +195,14 @@ const Header = () => {
             <div className="container mx-auto px-4 py-4 flex flex-col gap-4">
               {/* Mobile Search */}
               <form onSubmit={handleSearch} className="flex items-center gap-2">
-                <div className="relative flex-1">
+                <SearchSuggestions
+                  query={searchQuery}
+                  onNavigate={() => {
+                    setSearchQuery('');
+                    setIsMenuOpen(false);
+                  }}
+                  className="flex-1"
+                >
                   <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                   <Input
                     type="text"
@@ -201,7 +211,7 @@ const Header = () => {
                     onChange={(e) => setSearchQuery(e.target.value)}
                     className="pl-10 w-full bg-background/50 border-border/50 rounded-full"
                   />
-                </div>
+                </SearchSuggestions>
                 <Button type="submit" variant="gradient" size="icon" className="rounded-full">
                   <Search className="h-4 w-4" />
                 </Button>
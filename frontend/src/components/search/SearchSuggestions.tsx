@@ -0,0 +1,143 @@
+'use client';
+
+import { useState, type KeyboardEvent, type ReactNode } from 'react';
+import { useRouter } from 'next/navigation';
+import { Tag, Folder, Image as ImageIcon } from 'lucide-react';
+import { Command, CommandList, CommandGroup, CommandItem } from '@/components/ui/command';
+import { useSearchSuggestions } from '@/hooks/useSearchSuggestions';
+import { cn } from '@/lib/utils';
+
+interface SearchSuggestionsProps {
+  query: string; // Current value of the wrapped input
+  children: ReactNode; // The search input
+  onNavigate?: () => void; // Called after a suggestion is picked (e.g. to clear the input)
+  className?: string;
+}
+
+interface SuggestionItem {
+  group: 'Tags' | 'Categories' | 'Images';
+  label: string;
+  detail?: string;
+  href: string;
+}
+
+/**
+ * Live autocomplete dropdown for a search input
+ * Arrow keys move through the suggestions and Enter opens the highlighted one;
+ * with nothing highlighted Enter submits the surrounding form as usual
+ */
+export function SearchSuggestions({ query, children, onNavigate, className }: SearchSuggestionsProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const { data } = useSearchSuggestions(query);
+
+  const items: SuggestionItem[] = data
+    ? [
+        ...data.tags.map((tag) => ({
+          group: 'Tags' as const,
+          label: tag.name,
+          detail: tag.usageCount > 0 ? `${tag.usageCount}` : undefined,
+          href: `/gallery?tags=${encodeURIComponent(tag.slug)}`,
+        })),
+        ...data.categories.map((category) => ({
+          group: 'Categories' as const,
+          label: category.icon ? `${category.icon} ${category.name}` : category.name,
+          href: `/gallery?category=${encodeURIComponent(category.slug)}`,
+        })),
+        ...data.titles.map((image) => ({
+          group: 'Images' as const,
+          label: image.title,
+          href: `/image/${image.hashId}`,
+        })),
+      ]
+    : [];
+  const visible = open && query.trim().length >= 2 && items.length > 0;
+
+  const select = (item: SuggestionItem) => {
+    setOpen(false);
+    setActiveIndex(-1);
+    router.push(item.href);
+    onNavigate?.();
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (!visible) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % items.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((index) => (index <= 0 ? items.length - 1 : index - 1));
+    } else if (e.key === 'Enter' && items[activeIndex]) {
+      e.preventDefault();
+      select(items[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  return (
+    <div
+      className={cn('relative', className)}
+      onKeyDown={handleKeyDown}
+      onFocus={() => setOpen(true)}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setOpen(false);
+      }}
+      onChange={() => {
+        setOpen(true);
+        setActiveIndex(-1);
+      }}
+    >
+      {children}
+      {visible && (
+        // Keep focus in the input while clicking a suggestion
+        <div
+          className="absolute left-0 right-0 top-full mt-1 z-50 rounded-lg border border-border bg-popover shadow-lg"
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {/* cmdk highlights the first item when its value is empty, so "nothing highlighted" uses a placeholder value */}
+          <Command
+            shouldFilter={false}
+            value={activeIndex >= 0 ? `suggestion-${activeIndex}` : 'none'}
+            onValueChange={(value) => {
+              if (value.startsWith('suggestion-')) setActiveIndex(Number(value.slice('suggestion-'.length)));
+            }}
+          >
+            <CommandList>
+              {(['Tags', 'Categories', 'Images'] as const).map((group) => {
+                const groupItems = items
+                  .map((item, index) => ({ item, index }))
+                  .filter(({ item }) => item.group === group);
+                if (groupItems.length === 0) return null;
+
+                return (
+                  <CommandGroup key={group} heading={group}>
+                    {groupItems.map(({ item, index }) => (
+                      <CommandItem
+                        key={index}
+                        value={`suggestion-${index}`}
+                        onSelect={() => select(item)}
+                        className="gap-2 cursor-pointer"
+                      >
+                        {group === 'Tags' && <Tag className="h-3.5 w-3.5 text-muted-foreground" />}
+                        {group === 'Categories' && <Folder className="h-3.5 w-3.5 text-muted-foreground" />}
+                        {group === 'Images' && <ImageIcon className="h-3.5 w-3.5 text-muted-foreground" />}
+                        <span className="truncate">{item.label}</span>
+                        {item.detail && (
+                          <span className="ml-auto text-xs text-muted-foreground">{item.detail}</span>
+                        )}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </div>
+      )}
+    </div>
+  );
+}
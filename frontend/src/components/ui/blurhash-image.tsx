@@ -4,6 +4,7 @@ import { useEffect, useState, useRef } from 'react';
 import React from 'react';
 import Image from 'next/image';
 import { decode } from 'blurhash';
+import type { PictureSource } from '@/lib/image-variants';
 
 interface BlurHashImageProps {
   src: string;
@@ -18,6 +19,7 @@ interface BlurHashImageProps {
   unoptimized?: boolean;
   sizes?: string;
   loading?: 'lazy' | 'eager';
+  sources?: PictureSource[]; // Responsive AVIF/WebP sources - renders a <picture> with src as fallback
 }
 
 /**
@@ -25,6 +27,7 @@ interface BlurHashImageProps {
  * 
  * Shows BlurHash placeholder instantly (0ms), then fades to actual image when loaded.
  * Provides instant visual feedback while images are loading.
+ * Pass `sources` to serve responsive AVIF/WebP variants through <picture>/srcset.
  */
 export function BlurHashImage({
   src,
@@ -39,6 +42,7 @@ export function BlurHashImage({
   unoptimized = false,
   sizes,
   loading,
+  sources,
 }: BlurHashImageProps) {
   const [imageLoaded, setImageLoaded] = useState(false);
   const [blurDataUrl, setBlurDataUrl] = useState<string | null>(null);
@@ -78,9 +82,20 @@ export function BlurHashImage({
   // Check if image is already in browser cache (for instant display)
   // Use ref to track if we've already checked this src to prevent duplicate checks
   const checkedSrcRef = useRef<string | null>(null);
+  const pictureImgRef = useRef<HTMLImageElement | null>(null);
+  const hasSources = !!sources && sources.length > 0;
   
   useEffect(() => {
     if (!src || imageLoaded || checkedSrcRef.current === src) return;
+
+    // <picture> picks its own source - check the rendered element instead of preloading src
+    if (hasSources) {
+      checkedSrcRef.current = src;
+      if (pictureImgRef.current?.complete && pictureImgRef.current.naturalWidth > 0) {
+        handleImageLoad();
+      }
+      return;
+    }
     
     checkedSrcRef.current = src;
     
@@ -117,8 +132,31 @@ export function BlurHashImage({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [src]);
 
-  // If no BlurHash, just show regular image
-  if (!blurhash || !blurDataUrl) {
+  // Render the actual image: <picture> with AVIF/WebP sources when available, otherwise next/image
+  const renderImage = () => {
+    if (hasSources) {
+      return (
+        <picture>
+          {sources!.map((source) => (
+            <source key={source.type} type={source.type} srcSet={source.srcSet} sizes={sizes} />
+          ))}
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            ref={pictureImgRef}
+            src={src}
+            alt={alt}
+            width={fill ? undefined : width}
+            height={fill ? undefined : height}
+            className={className}
+            style={fill ? { position: 'absolute', inset: 0, width: '100%', height: '100%' } : undefined}
+            onLoad={handleImageLoad}
+            loading={priority ? 'eager' : loading || 'lazy'}
+            decoding="async"
+          />
+        </picture>
+      );
+    }
+
     if (fill) {
       return (
         <Image
@@ -146,6 +184,11 @@ export function BlurHashImage({
         sizes={sizes}
       />
     );
+  };
+
+  // If no BlurHash, just show regular image
+  if (!blurhash || !blurDataUrl) {
+    return renderImage();
   }
 
   // Show BlurHash placeholder with fade transition to actual image
@@ -178,30 +221,7 @@ export function BlurHashImage({
           zIndex: 2,
         }}
       >
-        {fill ? (
-          <Image
-            src={src}
-            alt={alt}
-            fill
-            className={className}
-            onLoad={handleImageLoad}
-            priority={priority}
-            unoptimized={unoptimized}
-            sizes={sizes}
-          />
-        ) : (
-          <Image
-            src={src}
-            alt={alt}
-            width={width}
-            height={height}
-            className={className}
-            onLoad={handleImageLoad}
-            priority={priority}
-            unoptimized={unoptimized}
-            sizes={sizes}
-          />
-        )}
+        {renderImage()}
       </div>
     </div>
   );
@@ -7,6 +7,8 @@ interface User {
   email: string;
   name?: string;
   auth_provider?: 'email' | 'google';
+  email_verified?: boolean;
+  role?: 'viewer' | 'contributor' | 'moderator' | 'admin';
   picture?: string | null;
 }
 
@@ -42,6 +44,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             email: data.data.email || '',
             name: data.data.name,
             auth_provider: data.data.auth_provider || 'email',
+            email_verified: Boolean(data.data.email_verified),
+            role: data.data.role || 'viewer',
             picture: data.data.picture || null,
           });
           setError(null);
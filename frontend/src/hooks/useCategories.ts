@@ -0,0 +1,33 @@
+import { useQuery } from '@tanstack/react-query';
+
+/**
+ * Category as returned by GET /api/categories
+ */
+export interface Category {
+  id: number;
+  slug: string;
+  name: string;
+  icon: string | null;
+  description: string | null;
+  sortOrder: number;
+  parentSlug: string | null; // Set for subcategories
+  imageCount: number; // Includes subcategories
+  coverImageId: string | null; // Hash ID of the newest image in the category
+}
+
+/**
+ * Fetch the category taxonomy with live image counts
+ * Shared query key, so the sidebar, home page and hero all reuse one request
+ */
+export function useCategories() {
+  return useQuery<Category[]>({
+    queryKey: ['categories'],
+    queryFn: async () => {
+      const response = await fetch('/api/categories');
+      if (!response.ok) return [];
+      const result = await response.json();
+      return result.success ? result.data : [];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+
+/**
+ * Suggestions as returned by GET /api/search/suggest
+ */
+export interface SearchSuggestions {
+  tags: Array<{ slug: string; name: string; usageCount: number }>;
+  categories: Array<{ slug: string; name: string; icon: string | null }>;
+  titles: Array<{ hashId: string; title: string }>;
+}
+
+const MIN_QUERY_LENGTH = 2;
+const DEBOUNCE_MS = 200;
+
+/**
+ * Fetch autocomplete suggestions for what the user is typing
+ * Debounced, and only once the query has at least two characters
+ */
+export function useSearchSuggestions(query: string) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  return useQuery<SearchSuggestions | null>({
+    queryKey: ['search-suggest', debouncedQuery],
+    queryFn: async () => {
+      const response = await fetch(`/api/search/suggest?q=${encodeURIComponent(debouncedQuery)}`);
+      if (!response.ok) return null;
+      const result = await response.json();
+      return result.success ? result.data : null;
+    },
+    enabled: debouncedQuery.length >= MIN_QUERY_LENGTH,
+    staleTime: 60 * 1000,
+    placeholderData: (previous) => previous,
+  });
+}
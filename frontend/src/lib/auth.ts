@@ -1,67 +1,176 @@
 /**
- * Simple authentication utilities
- * For production, consider using NextAuth.js, Auth0, or similar
+ * Authentication utilities for API routes
+ * Requests are authenticated by a session token (see backend/lib/sessions.ts), sent as the
+ * session_token cookie or as "Authorization: Bearer <token>"
  */
 
+import { NextResponse } from 'next/server';
+import { createSession, validateSession, getSessionConfig, ActiveSession } from '@/backend/lib/sessions';
+import { getUserById } from '@/backend/lib/users';
+import { hasRole, UserRole, DEFAULT_USER_ROLE } from '@/backend/lib/roles';
+import { getClientIdentifier } from '@/app/api/rate-limit';
+
+export const SESSION_COOKIE = 'session_token';
+
+/**
+ * Get the session token sent with a request (Bearer header first, then the cookie)
+ */
+export function getSessionToken(request: Request): string | null {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.substring(7).trim() || null;
+  }
+
+  const cookieHeader = request.headers.get('cookie');
+  if (cookieHeader) {
+    for (const cookie of cookieHeader.split(';')) {
+      const [key, ...value] = cookie.trim().split('=');
+      if (key === SESSION_COOKIE) return value.join('=') || null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the live session of a request (renewing its expiry when due)
+ */
+export async function getSessionFromRequest(request: Request): Promise<ActiveSession | null> {
+  const token = getSessionToken(request);
+  if (!token) return null;
+  const result = await validateSession(token);
+  return result.success && result.data ? result.data : null;
+}
+
 /**
- * Generate a simple session token (for demo purposes)
- * In production, use proper JWT or session management
+ * Get the signed-in user's ID, or 'anonymous'
  */
-export function generateSessionToken(userId: string): string {
-  // Simple token generation (replace with proper JWT in production)
-  const timestamp = Date.now();
-  const random = Math.random().toString(36).substring(2);
-  return Buffer.from(`${userId}:${timestamp}:${random}`).toString('base64');
+export async function getUserIdFromRequest(request: Request): Promise<string> {
+  const session = await getSessionFromRequest(request);
+  return session ? String(session.userId) : 'anonymous';
 }
 
 /**
- * Verify session token
+ * Check if user is authenticated
  */
-export function verifySessionToken(token: string): { userId: string; valid: boolean } {
-  try {
-    const decoded = Buffer.from(token, 'base64').toString('utf-8');
-    const [userId] = decoded.split(':');
-    return { userId, valid: !!userId };
-  } catch {
-    return { userId: '', valid: false };
+export async function isAuthenticated(request: Request): Promise<boolean> {
+  return (await getSessionFromRequest(request)) !== null;
+}
+
+export interface RequestUser {
+  id: number;
+  email: string;
+  role: UserRole;
+}
+
+export type RoleCheck =
+  | { user: RequestUser; denied: null }
+  | { user: null; denied: NextResponse };
+
+/**
+ * The signed-in user with their role, or null when signed out (or the lookup failed)
+ * For routes that show more to some roles without requiring one - guard routes with requireRole
+ */
+export async function getRequestUser(request: Request): Promise<RequestUser | null> {
+  const session = await getSessionFromRequest(request);
+  if (!session) {
+    return null;
+  }
+
+  const result = await getUserById(session.userId);
+  if (!result.success || !result.data) {
+    return null;
   }
+
+  return {
+    id: result.data.id,
+    email: result.data.email,
+    role: result.data.role || DEFAULT_USER_ROLE,
+  };
 }
 
 /**
- * Get user ID from request headers or cookies
+ * Guard for route handlers that need a role (see backend/lib/roles.ts)
+ * Roles are read from the database on every call, so changes apply to existing sessions at once
+ * @example
+ * const { user, denied } = await requireRole(request, 'moderator');
+ * if (denied) return denied;
+ * @returns The signed-in user, or an error response to return as-is (401 signed out, 403 role too low)
  */
-export function getUserIdFromRequest(request: Request): string {
-  // Check for auth token in headers
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    const token = authHeader.substring(7);
-    const { userId, valid } = verifySessionToken(token);
-    if (valid) return userId;
+export async function requireRole(request: Request, role: UserRole): Promise<RoleCheck> {
+  const session = await getSessionFromRequest(request);
+  if (!session) {
+    return {
+      user: null,
+      denied: NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      ),
+    };
   }
-  
-  // Check for session token in cookies
-  const cookieHeader = request.headers.get('cookie');
-  if (cookieHeader) {
-    const cookies = cookieHeader.split(';').reduce((acc, cookie) => {
-      const [key, value] = cookie.trim().split('=');
-      acc[key] = value;
-      return acc;
-    }, {} as Record<string, string>);
-    
-    if (cookies.session_token) {
-      const { userId, valid } = verifySessionToken(cookies.session_token);
-      if (valid) return userId;
-    }
+
+  const result = await getUserById(session.userId);
+  if (!result.success || !result.data) {
+    // A failed lookup must not grant access
+    return {
+      user: null,
+      denied: NextResponse.json(
+        { success: false, error: result.error === 'User not found' ? 'Authentication required' : 'Failed to check permissions' },
+        { status: result.error === 'User not found' ? 401 : 500 }
+      ),
+    };
   }
-  
-  // Fallback to x-user-id header (for development)
-  return request.headers.get('x-user-id') || 'anonymous';
+
+  const user: RequestUser = {
+    id: result.data.id,
+    email: result.data.email,
+    role: result.data.role || DEFAULT_USER_ROLE,
+  };
+  if (!hasRole(user.role, role)) {
+    return {
+      user: null,
+      denied: NextResponse.json(
+        { success: false, error: `This action requires the ${role} role` },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { user, denied: null };
 }
 
 /**
- * Check if user is authenticated
+ * Start a session for a user who just signed in, recording the device it came from
+ * @returns The session token (also to be set as the cookie - see setSessionCookie)
+ */
+export async function startSession(request: Request, userId: number) {
+  return createSession(userId, {
+    userAgent: request.headers.get('user-agent'),
+    ipAddress: getClientIdentifier(request),
+  });
+}
+
+/**
+ * Set the session cookie on a response - it lasts as long as a session can (the server enforces expiry)
+ */
+export function setSessionCookie(response: NextResponse, token: string) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: Math.floor(getSessionConfig().maxAgeMs / 1000),
+    path: '/',
+  });
+}
+
+/**
+ * Remove the session cookie
  */
-export function isAuthenticated(request: Request): boolean {
-  const userId = getUserIdFromRequest(request);
-  return userId !== 'anonymous';
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: 0,
+    path: '/',
+  });
 }
@@ -0,0 +1,55 @@
+/**
+ * Responsive image variants (client-side)
+ * Builds srcset / <picture> sources for /api/images/[id]/variants/[format]/[width]
+ * Width selection matches backend/lib/image-processing.ts getVariantWidths()
+ */
+
+export const VARIANT_WIDTHS = [320, 640, 1280, 2560];
+export const VARIANT_FORMATS = ['avif', 'webp'] as const;
+export type VariantFormat = typeof VARIANT_FORMATS[number];
+
+export interface PictureSource {
+  type: string; // MIME type, e.g. "image/avif"
+  srcSet: string;
+}
+
+/**
+ * Variant widths for an image of the given width
+ * Every standard width below the source width, plus the source width itself (capped at the largest)
+ */
+export function getVariantWidths(sourceWidth?: number | null): number[] {
+  const maxWidth = VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1];
+  if (!sourceWidth || sourceWidth <= 0) {
+    return [VARIANT_WIDTHS[0]];
+  }
+  const cappedWidth = Math.min(sourceWidth, maxWidth);
+  const widths = VARIANT_WIDTHS.filter((width) => width < cappedWidth);
+  widths.push(cappedWidth);
+  return widths;
+}
+
+/**
+ * URL of a single variant
+ */
+export function getVariantUrl(id: number | string, format: VariantFormat, width: number): string {
+  return `/api/images/${id}/variants/${format}/${width}`;
+}
+
+/**
+ * srcset string for one format, e.g. "/api/images/a3xK9m/variants/webp/320 320w, ..."
+ */
+export function buildVariantSrcSet(id: number | string, format: VariantFormat, sourceWidth?: number | null): string {
+  return getVariantWidths(sourceWidth)
+    .map((width) => `${getVariantUrl(id, format, width)} ${width}w`)
+    .join(', ');
+}
+
+/**
+ * <picture> sources in order of preference (AVIF first, WebP as fallback)
+ */
+export function buildPictureSources(id: number | string, sourceWidth?: number | null): PictureSource[] {
+  return VARIANT_FORMATS.map((format) => ({
+    type: `image/${format}`,
+    srcSet: buildVariantSrcSet(id, format, sourceWidth),
+  }));
+}
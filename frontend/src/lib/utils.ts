@@ -12,3 +12,16 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * Format a count for compact display
+ * @param count - Number to format
+ * @returns Short string (e.g. 890, 1.2K, 3M)
+ * @example
+ * formatCount(2500) // "2.5K"
+ */
+export function formatCount(count: number): string {
+  if (count < 1000) return String(count);
+  if (count < 1_000_000) return `${+(count / 1000).toFixed(1)}K`;
+  return `${+(count / 1_000_000).toFixed(1)}M`;
+}
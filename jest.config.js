@@ -5,11 +5,16 @@ const config = {
   roots: ['<rootDir>/tests'],
   testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
   transform: {
-    '^.+\\.ts$': 'ts-jest',
+    // Compile like backend/ and frontend/: default imports of CommonJS modules (sharp, exif-reader)
+    // and the @/backend alias used by the shared route helpers
+    '^.+\\.ts$': ['ts-jest', {
+      tsconfig: { esModuleInterop: true, baseUrl: '.', paths: { '@/backend/*': ['backend/*'] } },
+    }],
   },
   moduleNameMapper: {
-    '^@/(.*)$': '<rootDir>/src/$1',
+    // Most specific first - jest uses the first pattern that matches
     '^@/backend/(.*)$': '<rootDir>/backend/$1',
+    '^@/(.*)$': '<rootDir>/src/$1',
   },
   collectCoverageFrom: [
     'src/**/*.{ts,tsx}',
@@ -43,6 +43,104 @@ describe('API Routes', () => {
     });
   });
 
+  describe('Role-guarded routes', () => {
+    // Each route with the role it needs
+    const guardedRoutes: Array<{ name: string; role: string; request: () => [string, RequestInit] }> = [
+      {
+        name: 'POST /api/images/upload',
+        role: 'contributor',
+        request: () => {
+          const form = new FormData();
+          form.append('file', new Blob([new Uint8Array([0xff, 0xd8, 0xff])], { type: 'image/jpeg' }), 'test.jpg');
+          return ['/api/images/upload', { method: 'POST', body: form }];
+        },
+      },
+      {
+        name: 'PATCH /api/images/metadata',
+        role: 'moderator',
+        request: () => ['/api/images/metadata', {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ imageId: 1, title: 'Rewritten' }),
+        }],
+      },
+      {
+        name: 'DELETE /api/images/[id]',
+        role: 'moderator',
+        request: () => ['/api/images/1', { method: 'DELETE' }],
+      },
+      {
+        name: 'PATCH /api/images/[id]/status',
+        role: 'moderator',
+        request: () => ['/api/images/1/status', {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ status: 'approved' }),
+        }],
+      },
+      {
+        name: 'POST /api/admin/tags/merge',
+        role: 'moderator',
+        request: () => ['/api/admin/tags/merge', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sources: ['city-scape'], target: 'cityscape' }),
+        }],
+      },
+      {
+        name: 'GET /api/admin/users',
+        role: 'admin',
+        request: () => ['/api/admin/users', {}],
+      },
+      {
+        name: 'PATCH /api/admin/users/[id]',
+        role: 'admin',
+        request: () => ['/api/admin/users/1', {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ role: 'admin' }),
+        }],
+      },
+    ];
+
+    // New accounts are viewers
+    let viewerToken: string;
+
+    beforeAll(async () => {
+      const response = await fetch(`${baseUrl}/api/auth/register`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          email: `rbac-${Date.now()}@example.com`,
+          password: 'viewer only 42',
+        }),
+      });
+      const data = await response.json();
+      viewerToken = data.data.token;
+    });
+
+    for (const route of guardedRoutes) {
+      it(`${route.name} should require a session`, async () => {
+        const [path, init] = route.request();
+        const response = await fetch(`${baseUrl}${path}`, init);
+
+        expect(response.status).toBe(401);
+      });
+
+      it(`${route.name} should require the ${route.role} role`, async () => {
+        const [path, init] = route.request();
+        const response = await fetch(`${baseUrl}${path}`, {
+          ...init,
+          headers: { ...(init.headers as Record<string, string>), Authorization: `Bearer ${viewerToken}` },
+        });
+        const data = await response.json();
+
+        expect(response.status).toBe(403);
+        expect(data.error).toContain(route.role);
+      });
+    }
+  });
+
   describe('Rate Limiting', () => {
     it('should enforce rate limits', async () => {
       // Make many requests quickly
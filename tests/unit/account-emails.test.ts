@@ -0,0 +1,83 @@
+/**
+ * Unit tests for account emails and the mailer
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildAccountLink, buildAccountEmail } from '../../backend/lib/account-emails';
+import { createFileMailer, sendMail, setMailer } from '../../backend/lib/mailer';
+
+describe('Account emails', () => {
+  describe('buildAccountLink', () => {
+    it('should point each purpose at its page', () => {
+      expect(buildAccountLink('verify_email', 'abc_-123', 'https://pixelvault.test'))
+        .toBe('https://pixelvault.test/verify-email?token=abc_-123');
+      expect(buildAccountLink('reset_password', 'abc_-123', 'https://pixelvault.test'))
+        .toBe('https://pixelvault.test/reset?token=abc_-123');
+    });
+  });
+
+  describe('buildAccountEmail', () => {
+    it('should include the link and its expiry in both versions', () => {
+      const link = 'https://pixelvault.test/reset?token=abc&x=1';
+      const message = buildAccountEmail('reset_password', 'jane@example.com', link);
+
+      expect(message.to).toBe('jane@example.com');
+      expect(message.subject).toContain('Reset');
+      expect(message.text).toContain(link);
+      expect(message.text).toContain('expires in 1 hour');
+      expect(message.html).toContain('href="https://pixelvault.test/reset?token=abc&amp;x=1"');
+    });
+  });
+
+  describe('file mailer', () => {
+    let mailDir: string;
+
+    beforeAll(() => {
+      mailDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mailer-'));
+      setMailer(createFileMailer(mailDir, 'PixelVault <test@pixelvault.test>'));
+    });
+
+    afterAll(() => {
+      setMailer(null);
+      fs.rmSync(mailDir, { recursive: true, force: true });
+    });
+
+    it('should write each message to a JSON file', async () => {
+      const result = await sendMail({ to: 'jane@example.com', subject: 'Hello', text: 'Hi Jane' });
+      expect(result.success).toBe(true);
+
+      const files = fs.readdirSync(mailDir);
+      expect(files).toHaveLength(1);
+      const saved = JSON.parse(fs.readFileSync(path.join(mailDir, files[0]), 'utf8'));
+      expect(saved).toMatchObject({
+        from: 'PixelVault <test@pixelvault.test>',
+        to: 'jane@example.com',
+        subject: 'Hello',
+        text: 'Hi Jane',
+      });
+    });
+  });
+
+  describe('mailer from the environment', () => {
+    const env = { ...process.env };
+
+    afterAll(() => {
+      process.env = env;
+      setMailer(null);
+    });
+
+    it('should refuse to send in production when no driver is configured', async () => {
+      process.env = { ...env, NODE_ENV: 'production' };
+      delete process.env.MAIL_DRIVER;
+      setMailer(null);
+
+      const result = await sendMail({ to: 'jane@example.com', subject: 'Reset', text: 'https://pixelvault.test/reset?token=abc' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('MAIL_DRIVER must be set in production');
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Unit tests for blob storage
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import {
+  buildBlobKey,
+  createLocalBlobStore,
+  createS3BlobStore,
+  loadBlob,
+  openBlobStream,
+  setBlobStore,
+  sha256,
+  storeBlob,
+} from '../../backend/lib/blob-store';
+
+async function readStream(stream: Readable | null): Promise<string | null> {
+  if (!stream) return null;
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+// A local stand-in for an S3-compatible service: path-style GET/PUT/DELETE on an in-memory bucket,
+// with single byte ranges and NoSuchKey errors
+function startS3Stub() {
+  const objects = new Map<string, { body: Buffer; contentType: string }>();
+  const requests: Array<{ method: string; path: string; range?: string }> = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const path = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname);
+      requests.push({ method: req.method || '', path, range: req.headers.range });
+
+      if (req.method === 'PUT') {
+        objects.set(path, { body: Buffer.concat(chunks), contentType: String(req.headers['content-type']) });
+        res.writeHead(200, { ETag: '"stub"' }).end();
+        return;
+      }
+      if (req.method === 'DELETE') {
+        objects.delete(path);
+        res.writeHead(204).end();
+        return;
+      }
+
+      const object = objects.get(path);
+      if (!object) {
+        res.writeHead(404, { 'Content-Type': 'application/xml' }).end(
+          '<?xml version="1.0" encoding="UTF-8"?><Error><Code>NoSuchKey</Code><Message>The specified key does not exist.</Message></Error>'
+        );
+        return;
+      }
+
+      const range = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range || '');
+      if (range) {
+        const [start, end] = [Number(range[1]), Number(range[2])];
+        res.writeHead(206, {
+          'Content-Type': object.contentType,
+          'Content-Range': `bytes ${start}-${end}/${object.body.length}`,
+          'Content-Length': end - start + 1,
+        }).end(object.body.subarray(start, end + 1));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': object.contentType, 'Content-Length': object.body.length }).end(object.body);
+    });
+  });
+
+  return { server, objects, requests };
+}
+
+describe('Blob store', () => {
+  let rootDir: string;
+
+  beforeAll(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'blob-store-'));
+    setBlobStore(createLocalBlobStore(rootDir));
+  });
+
+  afterAll(() => {
+    setBlobStore(null);
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('buildBlobKey', () => {
+    it('should build a sharded key with the MIME extension', () => {
+      expect(buildBlobKey('full', 'abcdef', 'image/webp')).toBe('full/ab/abcdef.webp');
+    });
+
+    it('should fall back to .bin for unknown MIME types', () => {
+      expect(buildBlobKey('original', 'abcdef', 'application/x-foo')).toBe('original/ab/abcdef.bin');
+    });
+  });
+
+  describe('local driver', () => {
+    it('should store and load a blob by content hash', async () => {
+      const data = Buffer.from('hello world');
+      const stored = await storeBlob('full', data, 'image/webp');
+
+      expect(stored.sha256).toBe(sha256(data));
+      expect(stored.size).toBe(data.length);
+      expect(await loadBlob(stored.key)).toEqual(data);
+    });
+
+    it('should return null for missing keys', async () => {
+      const store = createLocalBlobStore(rootDir);
+      expect(await store.get('full/00/missing.webp')).toBeNull();
+    });
+
+    it('should reject keys that escape the storage root', async () => {
+      const store = createLocalBlobStore(rootDir);
+      await expect(store.get('../etc/passwd')).rejects.toThrow('Invalid blob key');
+    });
+  });
+
+  describe('s3 driver', () => {
+    const stub = startS3Stub();
+    let store: ReturnType<typeof createS3BlobStore>;
+
+    beforeAll(async () => {
+      await new Promise<void>((resolve) => stub.server.listen(0, '127.0.0.1', resolve));
+      store = createS3BlobStore({
+        bucket: 'images',
+        endpoint: `http://127.0.0.1:${(stub.server.address() as AddressInfo).port}`,
+        accessKeyId: 'test',
+        secretAccessKey: 'test',
+        forcePathStyle: true,
+        prefix: 'gallery/',
+      });
+    });
+
+    afterAll(async () => {
+      stub.server.closeAllConnections();
+      await new Promise((resolve) => stub.server.close(resolve));
+    });
+
+    it('should put objects under the prefix with their content type', async () => {
+      await store.put('full/ab/abcdef.webp', Buffer.from('s3 data'), 'image/webp');
+
+      expect(stub.objects.get('/images/gallery/full/ab/abcdef.webp')).toEqual({
+        body: Buffer.from('s3 data'),
+        contentType: 'image/webp',
+      });
+    });
+
+    it('should get objects back', async () => {
+      await store.put('full/cd/cdef01.webp', Buffer.from('0123456789'), 'image/webp');
+
+      expect(await store.get('full/cd/cdef01.webp')).toEqual(Buffer.from('0123456789'));
+    });
+
+    it('should stream a byte range', async () => {
+      await store.put('full/ef/ef0123.webp', Buffer.from('0123456789'), 'image/webp');
+
+      expect(await readStream(await store.getStream('full/ef/ef0123.webp', { start: 2, end: 5 }))).toBe('2345');
+      expect(stub.requests[stub.requests.length - 1].range).toBe('bytes=2-5');
+      expect(await readStream(await store.getStream('full/ef/ef0123.webp'))).toBe('0123456789');
+    });
+
+    it('should return null for missing keys', async () => {
+      expect(await store.get('full/00/missing.webp')).toBeNull();
+      expect(await store.getStream('full/00/missing.webp')).toBeNull();
+    });
+
+    it('should delete objects', async () => {
+      await store.put('full/12/123456.webp', Buffer.from('gone'), 'image/webp');
+      await store.delete('full/12/123456.webp');
+
+      expect(await store.get('full/12/123456.webp')).toBeNull();
+    });
+
+    it('should reject keys that escape the prefix without a request', async () => {
+      const before = stub.requests.length;
+      await expect(store.get('../secret.webp')).rejects.toThrow('Invalid blob key');
+      expect(stub.requests).toHaveLength(before);
+    });
+  });
+
+  describe('loadBlob', () => {
+    it('should fall back to legacy BYTEA data when no key is set', async () => {
+      const legacy = Buffer.from('legacy');
+      expect(await loadBlob(null, legacy)).toBe(legacy);
+      expect(await loadBlob(null, null)).toBeNull();
+    });
+  });
+
+  describe('openBlobStream', () => {
+    it('should stream a stored blob, optionally limited to a byte range', async () => {
+      const stored = await storeBlob('full', Buffer.from('0123456789'), 'image/webp');
+
+      expect(await readStream(await openBlobStream(stored.key))).toBe('0123456789');
+      expect(await readStream(await openBlobStream(stored.key, null, { start: 2, end: 5 }))).toBe('2345');
+      expect(await openBlobStream('full/00/missing.webp')).toBeNull();
+    });
+
+    it('should slice legacy BYTEA data', async () => {
+      const legacy = Buffer.from('legacy data');
+      expect(await readStream(await openBlobStream(null, legacy, { start: 7, end: 10 }))).toBe('data');
+      expect(await openBlobStream(null, null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Unit tests for category tree helpers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { rollUpCategoryCounts, sortCategoryTree } from '../../backend/lib/category-tree';
+
+describe('Category tree helpers', () => {
+  describe('rollUpCategoryCounts', () => {
+    it('should add subcategory counts to every ancestor', () => {
+      const totals = rollUpCategoryCounts([
+        { id: 1, parent_id: null, image_count: 2 },
+        { id: 2, parent_id: 1, image_count: 3 },
+        { id: 3, parent_id: 2, image_count: 4 },
+        { id: 4, parent_id: null, image_count: 5 },
+      ]);
+      expect(Object.fromEntries(totals)).toEqual({ 1: 9, 2: 7, 3: 4, 4: 5 });
+    });
+
+    it('should not count parent loops twice', () => {
+      const totals = rollUpCategoryCounts([
+        { id: 1, parent_id: 2, image_count: 1 },
+        { id: 2, parent_id: 1, image_count: 1 },
+      ]);
+      expect(Object.fromEntries(totals)).toEqual({ 1: 2, 2: 2 });
+    });
+  });
+
+  describe('sortCategoryTree', () => {
+    it('should place subcategories right after their parent', () => {
+      const sorted = sortCategoryTree([
+        { id: 1, parent_id: null },
+        { id: 3, parent_id: 2 },
+        { id: 2, parent_id: null },
+        { id: 4, parent_id: 1 },
+      ]);
+      expect(sorted.map((row) => row.id)).toEqual([1, 4, 2, 3]);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Unit tests for keyset pagination cursors
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { encodeCursor, decodeCursor, isValidCursorKey } from '../../backend/lib/cursor';
+
+describe('Pagination cursors', () => {
+  it('should round-trip a cursor', () => {
+    const cursor = { sort: 'recent', key: '2024-05-01 10:20:30.123456+00', id: 42 };
+    const encoded = encodeCursor(cursor);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(encoded, 'recent', 'timestamp')).toEqual(cursor);
+  });
+
+  it('should reject a cursor issued for another sort', () => {
+    const encoded = encodeCursor({ sort: 'relevance', key: '0.0607927', id: 7 });
+
+    expect(decodeCursor(encoded, 'recent', 'timestamp')).toBeNull();
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(decodeCursor('not-a-cursor', 'recent', 'timestamp')).toBeNull();
+    expect(decodeCursor(Buffer.from('{"sort":"recent"}').toString('base64url'), 'recent', 'timestamp')).toBeNull();
+    expect(decodeCursor(Buffer.from('["recent","x",1.5]').toString('base64url'), 'recent', 'timestamp')).toBeNull();
+  });
+
+  it('should reject keys and IDs the database could not cast', () => {
+    const forged = (key: string, id: number = 7) => encodeCursor({ sort: 'popular', key, id });
+
+    expect(decodeCursor(forged('12'), 'popular', 'integer')).not.toBeNull();
+    expect(decodeCursor(forged('yesterday'), 'popular', 'integer')).toBeNull();
+    expect(decodeCursor(forged('12', 2 ** 40), 'popular', 'integer')).toBeNull();
+  });
+
+  describe('isValidCursorKey', () => {
+    it('should accept timestamps as Postgres prints them', () => {
+      expect(isValidCursorKey('2024-05-01 10:20:30', 'timestamp')).toBe(true);
+      expect(isValidCursorKey('2024-05-01 10:20:30.123456+00', 'timestamp')).toBe(true);
+      expect(isValidCursorKey('2024-05-01 10:20:30.5-05:30', 'timestamp')).toBe(true);
+    });
+
+    it('should reject text and impossible dates as timestamps', () => {
+      for (const key of ['42', 'now', '2024-05-01', '2024-02-30 10:20:30', '2024-05-01 24:00:00', "2024-05-01 10:20:30'; --"]) {
+        expect(isValidCursorKey(key, 'timestamp')).toBe(false);
+      }
+    });
+
+    it('should only accept integers in the INTEGER range', () => {
+      expect(isValidCursorKey('0', 'integer')).toBe(true);
+      expect(isValidCursorKey('-15', 'integer')).toBe(true);
+      for (const key of ['1.5', '2147483648', '1e3', '', 'abc']) {
+        expect(isValidCursorKey(key, 'integer')).toBe(false);
+      }
+    });
+
+    it('should accept real and double precision numbers', () => {
+      for (const key of ['0.0607927', '12', '1e-05', '-3.25E+10']) {
+        expect(isValidCursorKey(key, 'number')).toBe(true);
+      }
+      for (const key of ['NaN', '.5', '2024-05-01 10:20:30']) {
+        expect(isValidCursorKey(key, 'number')).toBe(false);
+      }
+    });
+
+    it('should accept md5 hex digests only', () => {
+      expect(isValidCursorKey('0cc175b9c0f1b6a831c399e269772661', 'md5')).toBe(true);
+      expect(isValidCursorKey('0CC175B9C0F1B6A831C399E269772661', 'md5')).toBe(false);
+      expect(isValidCursorKey('abc', 'md5')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Unit tests for the shared image filter conditions and facet counts (database calls are mocked)
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+type QueryResult = { rows: any[] };
+
+const mockQuery = jest.fn<(sql: string, values?: unknown[]) => Promise<QueryResult>>();
+
+jest.mock('../../backend/lib/db', () => ({
+  getPool: () => ({ query: mockQuery }),
+}));
+
+import { buildImageFilterConditions, buildOrientationCondition } from '../../backend/lib/images';
+import { queryImageFacets } from '../../backend/lib/facets';
+import { COLOR_NAMES } from '../../backend/lib/image-colors';
+
+// Placeholders ($1, $2, ...) used in a SQL string, in order of first appearance
+const placeholders = (sql: string) => Array.from(new Set(sql.match(/\$\d+/g) || []));
+
+// Answer each facet query by what it selects (filter conditions can contain the other queries' tables)
+const answerFacetQueries = (overrides: { categories?: any } = {}) => {
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('LEFT JOIN (SELECT id, category_id')) {
+      if (overrides.categories instanceof Error) throw overrides.categories;
+      return {
+        rows: overrides.categories ?? [
+          { id: 1, parent_id: null, slug: 'nature', image_count: 2 },
+          { id: 2, parent_id: 1, slug: 'forests', image_count: 3 },
+        ],
+      };
+    }
+    if (sql.includes('SELECT t.slug, t.name')) {
+      return { rows: [{ slug: 'trees', name: 'Trees', count: 4 }] };
+    }
+    if (sql.includes('AS landscape')) {
+      return { rows: [{ landscape: 3, portrait: 1, square: 1 }] };
+    }
+    if (sql.includes('UNNEST(color_names)')) {
+      return { rows: [{ color: 'green', count: 4 }, { color: 'chartreuse', count: 9 }] };
+    }
+    return { rows: [{ day: 1, week: 2, month: 3, year: 5 }] };
+  });
+};
+
+const queryFor = (fragment: string) => {
+  const call = mockQuery.mock.calls.find(([sql]) => sql.includes(fragment));
+  if (!call) throw new Error(`No query containing "${fragment}"`);
+  return { sql: call[0], values: call[1] || [] };
+};
+
+describe('Image filters and facets', () => {
+  describe('buildOrientationCondition', () => {
+    it('should add nothing for all orientations', () => {
+      expect(buildOrientationCondition('all', 1)).toBeNull();
+      expect(buildOrientationCondition(undefined, 1)).toBeNull();
+    });
+
+    it('should match square images within the tolerance', () => {
+      const condition = buildOrientationCondition('square', 4)!;
+      expect(condition.sql).toContain('BETWEEN $4 AND $5');
+      expect(condition.values[0]).toBeCloseTo(1 / 1.05);
+      expect(condition.values[1]).toBeCloseTo(1.05);
+    });
+  });
+
+  describe('buildImageFilterConditions', () => {
+    it('should add nothing without filters', () => {
+      expect(buildImageFilterConditions({}, 1)).toEqual({ sql: '', values: [] });
+      expect(buildImageFilterConditions({ category: 'all', orientation: 'all', tags: [], colors: [] }, 1))
+        .toEqual({ sql: '', values: [] });
+    });
+
+    it('should number parameters consecutively from the given index', () => {
+      const conditions = buildImageFilterConditions({
+        category: 'Nature',
+        tags: ['trees'],
+        colors: ['green'],
+        createdAfter: '2026-01-01',
+        orientation: 'landscape',
+      }, 3);
+
+      expect(placeholders(conditions.sql)).toEqual(['$3', '$4', '$5', '$6', '$7']);
+      expect(conditions.values.slice(0, 4)).toEqual(['nature', ['trees'], ['green'], '2026-01-01']);
+      expect(conditions.sql.trim().startsWith('AND')).toBe(true);
+    });
+  });
+
+  describe('queryImageFacets', () => {
+    beforeEach(() => {
+      mockQuery.mockReset();
+      answerFacetQueries();
+    });
+
+    it('should count each facet under every filter except its own', async () => {
+      await queryImageFacets({ category: 'nature', tags: ['trees'], colors: ['green'] });
+
+      const category = queryFor('LEFT JOIN (SELECT id, category_id');
+      expect(category.values).toEqual([['trees'], ['green']]);
+
+      const tag = queryFor('SELECT t.slug, t.name');
+      expect(tag.values).toEqual(['nature', ['green']]);
+
+      const color = queryFor('UNNEST(color_names)');
+      expect(color.values).toEqual(['nature', ['trees']]);
+
+      const date = queryFor('AS day');
+      expect(date.values).toEqual(['nature', ['trees'], ['green']]);
+    });
+
+    it('should count only approved images', async () => {
+      await queryImageFacets({});
+
+      for (const fragment of ['LEFT JOIN (SELECT id, category_id', 'SELECT t.slug, t.name', 'AS landscape', 'UNNEST(color_names)', 'AS day']) {
+        expect(queryFor(fragment).sql).toContain("status = 'approved'");
+      }
+    });
+
+    it('should count every orientation without the orientation filter', async () => {
+      await queryImageFacets({ orientation: 'portrait' });
+
+      const orientation = queryFor('AS landscape');
+      // One landscape, one portrait and two square bounds - no filter value before them
+      expect(orientation.values).toHaveLength(4);
+      expect(placeholders(orientation.sql)).toEqual(['$1', '$2', '$3', '$4']);
+    });
+
+    it('should put the text search match before the filters', async () => {
+      await queryImageFacets({ colors: ['green'] }, { sql: 'search_vector @@ to_tsquery($1)', values: ['forest'] });
+
+      const date = queryFor('AS day');
+      expect(date.sql).toContain('search_vector @@ to_tsquery($1)');
+      expect(date.sql).toContain('color_names && $2::text[]');
+      expect(date.values).toEqual(['forest', ['green']]);
+    });
+
+    it('should shape the counts, rolling categories up and listing every color', async () => {
+      const facets = await queryImageFacets({});
+
+      expect(facets.category).toEqual({ nature: 5, forests: 3 });
+      expect(facets.tag).toEqual([{ slug: 'trees', name: 'Trees', count: 4 }]);
+      expect(facets.orientation).toEqual({ landscape: 3, portrait: 1, square: 1 });
+      expect(Object.keys(facets.color).sort()).toEqual([...COLOR_NAMES].sort());
+      expect(facets.color.green).toBe(4);
+      expect(facets.color).not.toHaveProperty('chartreuse');
+      expect(facets).not.toHaveProperty('type');
+      expect(facets.date).toEqual({ day: 1, week: 2, month: 3, year: 5 });
+    });
+
+    it('should return no category counts before the categories migration', async () => {
+      answerFacetQueries({ categories: Object.assign(new Error('relation "categories" does not exist'), { code: '42P01' }) });
+
+      const facets = await queryImageFacets({});
+
+      expect(facets.category).toEqual({});
+    });
+
+    it('should pass on other database errors', async () => {
+      answerFacetQueries({ categories: Object.assign(new Error('connection lost'), { code: '08006' }) });
+
+      await expect(queryImageFacets({})).rejects.toThrow('connection lost');
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Unit tests for HTTP Range / conditional request helpers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseRangeHeader, etagMatches, ifRangeMatches } from '../../backend/lib/http-range';
+
+describe('HTTP range helpers', () => {
+  describe('parseRangeHeader', () => {
+    it('should parse bounded, open-ended and suffix ranges', () => {
+      expect(parseRangeHeader('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 });
+      expect(parseRangeHeader('bytes=500-', 1000)).toEqual({ start: 500, end: 999 });
+      expect(parseRangeHeader('bytes=-100', 1000)).toEqual({ start: 900, end: 999 });
+    });
+
+    it('should clamp ranges that run past the end', () => {
+      expect(parseRangeHeader('bytes=900-5000', 1000)).toEqual({ start: 900, end: 999 });
+      expect(parseRangeHeader('bytes=-5000', 1000)).toEqual({ start: 0, end: 999 });
+    });
+
+    it('should report ranges that start past the end as unsatisfiable', () => {
+      expect(parseRangeHeader('bytes=1000-', 1000)).toBe('unsatisfiable');
+      expect(parseRangeHeader('bytes=-0', 1000)).toBe('unsatisfiable');
+    });
+
+    it('should ignore missing, malformed and multi-range headers', () => {
+      expect(parseRangeHeader(null, 1000)).toBeNull();
+      expect(parseRangeHeader('items=0-1', 1000)).toBeNull();
+      expect(parseRangeHeader('bytes=5-2', 1000)).toBeNull();
+      expect(parseRangeHeader('bytes=0-1,5-6', 1000)).toBeNull();
+    });
+  });
+
+  describe('etagMatches', () => {
+    it('should match lists, weak tags and wildcards', () => {
+      expect(etagMatches('"abc"', '"abc"')).toBe(true);
+      expect(etagMatches('"x", W/"abc"', '"abc"')).toBe(true);
+      expect(etagMatches('*', '"abc"')).toBe(true);
+      expect(etagMatches('"x"', '"abc"')).toBe(false);
+      expect(etagMatches(null, '"abc"')).toBe(false);
+    });
+  });
+
+  describe('ifRangeMatches', () => {
+    it('should only allow partial responses for the current ETag', () => {
+      expect(ifRangeMatches(null, '"abc"')).toBe(true);
+      expect(ifRangeMatches('"abc"', '"abc"')).toBe(true);
+      expect(ifRangeMatches('"old"', '"abc"')).toBe(false);
+      expect(ifRangeMatches('Wed, 21 Oct 2015 07:28:00 GMT', '"abc"')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for dominant color palette helpers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildPalette,
+  mapPaletteToColorNames,
+  nearestSwatch,
+  isColorName,
+  hexToRgb,
+} from '../../backend/lib/image-colors';
+
+/**
+ * Build raw RGB pixels from [hex, pixelCount] pairs
+ */
+function pixels(...runs: Array<[string, number]>): Uint8Array {
+  const values: number[] = [];
+  for (const [hex, count] of runs) {
+    const rgb = hexToRgb(hex);
+    for (let i = 0; i < count; i++) values.push(...rgb);
+  }
+  return new Uint8Array(values);
+}
+
+describe('Color palette helpers', () => {
+  describe('nearestSwatch', () => {
+    it('should map colors to the closest named swatch', () => {
+      expect(nearestSwatch('#ff0000')).toBe('red');
+      expect(nearestSwatch('#1e90ff')).toBe('blue');
+      expect(nearestSwatch('#000000')).toBe('black');
+      expect(nearestSwatch('#ffffff')).toBe('white');
+      expect(nearestSwatch('#808080')).toBe('gray');
+      expect(nearestSwatch('#8b4513')).toBe('brown');
+      expect(nearestSwatch('#800080')).toBe('purple');
+    });
+  });
+
+  describe('buildPalette', () => {
+    it('should order colors by share of pixels', () => {
+      const palette = buildPalette(pixels(['#2050e0', 300], ['#f0f0f0', 100]), 3);
+      expect(palette).toHaveLength(2);
+      expect(nearestSwatch(palette[0].hex)).toBe('blue');
+      expect(palette[0].weight).toBeCloseTo(0.75);
+      expect(palette[1].weight).toBeCloseTo(0.25);
+    });
+
+    it('should merge near-identical shades', () => {
+      const palette = buildPalette(pixels(['#e03030', 50], ['#e23434', 50]), 3);
+      expect(palette).toHaveLength(1);
+      expect(palette[0].weight).toBe(1);
+    });
+
+    it('should ignore transparent pixels', () => {
+      const rgba = new Uint8Array([255, 0, 0, 255, 0, 0, 255, 0]);
+      const palette = buildPalette(rgba, 4);
+      expect(palette).toHaveLength(1);
+      expect(nearestSwatch(palette[0].hex)).toBe('red');
+    });
+  });
+
+  describe('mapPaletteToColorNames', () => {
+    it('should drop swatches covering less than 10% of the image', () => {
+      const names = mapPaletteToColorNames([
+        { hex: '#14b8a6', weight: 0.6 },
+        { hex: '#fafafa', weight: 0.35 },
+        { hex: '#ef4444', weight: 0.05 },
+      ]);
+      expect(names).toEqual(['teal', 'white']);
+    });
+  });
+
+  describe('isColorName', () => {
+    it('should only accept known swatches', () => {
+      expect(isColorName('teal')).toBe(true);
+      expect(isColorName('magenta')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for counting downloads from the download routes (popularity tracking is mocked)
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { NextRequest } from 'next/server';
+
+const mockRecordImageEvent = jest.fn<(imageId: number, event: string) => Promise<{ success: boolean }>>();
+
+jest.mock('../../backend/lib/popularity', () => ({
+  recordImageEvent: mockRecordImageEvent,
+}));
+
+// rate-limit.ts starts its cleanup interval on load - with fake timers it doesn't keep the test run open
+jest.useFakeTimers();
+
+import { isRepeatImageEvent, recordDownloadResponse } from '../../frontend/app/api/images/image-events';
+
+let nextImageId = 1;
+
+// Each test gets its own image, so the in-memory repeat window of one test doesn't leak into the next
+const request = (method: string = 'GET', ip: string = '203.0.113.7') =>
+  new Request('http://localhost/api/images/x/original', { method, headers: { 'x-forwarded-for': ip } }) as unknown as NextRequest;
+
+describe('Image events', () => {
+  let imageId: number;
+
+  beforeEach(() => {
+    imageId = nextImageId++;
+    mockRecordImageEvent.mockReset();
+    mockRecordImageEvent.mockResolvedValue({ success: true });
+  });
+
+  describe('recordDownloadResponse', () => {
+    it('should count full and partial responses to GET', async () => {
+      await recordDownloadResponse(request(), imageId, 200);
+      await recordDownloadResponse(request('GET', '203.0.113.8'), imageId, 206);
+
+      expect(mockRecordImageEvent).toHaveBeenCalledTimes(2);
+      expect(mockRecordImageEvent).toHaveBeenCalledWith(imageId, 'download');
+    });
+
+    it('should not count HEAD requests, revalidations or errors', async () => {
+      await recordDownloadResponse(request('HEAD'), imageId, 200);
+      for (const status of [304, 404, 416, 500]) {
+        await recordDownloadResponse(request(), imageId, status);
+      }
+
+      expect(mockRecordImageEvent).not.toHaveBeenCalled();
+    });
+
+    it('should count a client once per image', async () => {
+      await recordDownloadResponse(request(), imageId, 200);
+      await recordDownloadResponse(request(), imageId, 200);
+      await recordDownloadResponse(request(), imageId + 1000, 200);
+
+      expect(mockRecordImageEvent).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share the repeat window with the analytics endpoint', async () => {
+      expect(isRepeatImageEvent(request(), 'download', imageId)).toBe(false);
+
+      await recordDownloadResponse(request(), imageId, 200);
+
+      expect(mockRecordImageEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isRepeatImageEvent', () => {
+    it('should keep views and downloads apart', () => {
+      expect(isRepeatImageEvent(request(), 'view', imageId)).toBe(false);
+      expect(isRepeatImageEvent(request(), 'download', imageId)).toBe(false);
+      expect(isRepeatImageEvent(request(), 'view', imageId)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Unit tests for image metadata parsing, the strip policy and tag seeding
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  formatExposureTime,
+  parseIptc,
+  parseXmp,
+  selectRetainedExif,
+  seedTagsFromKeywords,
+} from '../../backend/lib/metadata-fields';
+
+// One IPTC-IIM dataset in record 2: 0x1C, record, dataset, 2-byte length, value
+const iptcDataset = (dataset: number, value: string) => {
+  const data = Buffer.from(value, 'utf8');
+  const header = Buffer.from([0x1c, 0x02, dataset, 0, 0]);
+  header.writeUInt16BE(data.length, 3);
+  return Buffer.concat([header, data]);
+};
+
+const xmpPacket = (body: string) => Buffer.from(
+  `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF><rdf:Description>${body}</rdf:Description></rdf:RDF></x:xmpmeta>`,
+  'utf8'
+);
+
+// exif-reader output of a phone photo with location and owner data
+const phoneExif = {
+  Image: {
+    Make: 'Apple',
+    Model: 'iPhone 15 Pro',
+    Software: '17.4',
+    Artist: 'Jane Doe',
+    Copyright: '© Jane Doe',
+    HostComputer: 'Jane\'s iPhone',
+    ImageDescription: 'At home',
+  },
+  Photo: {
+    BodySerialNumber: 'F17ABC123',
+    CameraOwnerName: 'Jane Doe',
+    LensSerialNumber: 'L-99',
+  },
+  GPSInfo: {
+    GPSLatitude: [52, 31, 12.5],
+    GPSLongitude: [13, 24, 18.1],
+  },
+};
+
+describe('Image metadata', () => {
+  describe('selectRetainedExif', () => {
+    it('should keep only camera and credit tags under the default policy', () => {
+      expect(selectRetainedExif(phoneExif, 'sensitive')).toEqual({
+        Make: 'Apple',
+        Model: 'iPhone 15 Pro',
+        Software: '17.4',
+        Artist: 'Jane Doe',
+        Copyright: '© Jane Doe',
+      });
+    });
+
+    it('should never keep GPS, serial numbers or owner fields', () => {
+      const kept = JSON.stringify(selectRetainedExif(phoneExif, 'sensitive'));
+      for (const value of ['52', 'F17ABC123', 'L-99', 'HostComputer', 'At home', 'CameraOwnerName']) {
+        expect(kept).not.toContain(value);
+      }
+    });
+
+    it('should keep nothing under the all policy', () => {
+      expect(selectRetainedExif(phoneExif, 'all')).toBeNull();
+    });
+
+    it('should drop empty and non-text values', () => {
+      expect(selectRetainedExif({ Image: { Make: '  ', Model: 42, Software: '\0' } }, 'sensitive')).toBeNull();
+      expect(selectRetainedExif({}, 'sensitive')).toBeNull();
+    });
+  });
+
+  describe('formatExposureTime', () => {
+    it('should show fast shutter speeds as fractions', () => {
+      expect(formatExposureTime(0.004)).toBe('1/250');
+      expect(formatExposureTime(1 / 3)).toBe('1/3');
+    });
+
+    it('should show long exposures in seconds', () => {
+      expect(formatExposureTime(2)).toBe('2');
+      expect(formatExposureTime(1.25)).toBe('1.3');
+    });
+  });
+
+  describe('parseIptc', () => {
+    it('should read caption, keywords, creator, copyright and title', () => {
+      const iptc = Buffer.concat([
+        iptcDataset(5, 'Harbor'),
+        iptcDataset(25, 'boats'),
+        iptcDataset(25, 'sunset'),
+        iptcDataset(80, 'Jane Doe'),
+        iptcDataset(116, '© Jane Doe'),
+        iptcDataset(120, 'Fishing boats at dusk'),
+      ]);
+
+      expect(parseIptc(iptc)).toEqual({
+        title: 'Harbor',
+        keywords: ['boats', 'sunset'],
+        creator: 'Jane Doe',
+        copyright: '© Jane Doe',
+        caption: 'Fishing boats at dusk',
+      });
+    });
+
+    it('should skip other records and padding before a dataset', () => {
+      const iptc = Buffer.concat([
+        Buffer.from('8BIM\x04\x04', 'binary'),
+        Buffer.from([0x1c, 0x01, 90, 0, 3, 0x1b, 0x25, 0x47]), // Record 1 (envelope)
+        iptcDataset(25, 'harbor'),
+      ]);
+
+      expect(parseIptc(iptc).keywords).toEqual(['harbor']);
+    });
+
+    it('should ignore blank values and read what is left of a truncated dataset', () => {
+      const truncated = iptcDataset(120, 'Cut off caption').subarray(0, 10);
+      expect(parseIptc(Buffer.concat([iptcDataset(25, '   ')])).keywords).toEqual([]);
+      expect(parseIptc(truncated).caption).toBe('Cut o');
+    });
+  });
+
+  describe('parseXmp', () => {
+    it('should read description, subjects, creator and rights', () => {
+      const xmp = xmpPacket(
+        '<dc:description><rdf:Alt><rdf:li xml:lang="x-default">Boats &amp; nets</rdf:li></rdf:Alt></dc:description>' +
+        '<dc:subject><rdf:Bag><rdf:li>boats</rdf:li><rdf:li>sea &lt;3</rdf:li></rdf:Bag></dc:subject>' +
+        '<dc:creator><rdf:Seq><rdf:li>Jane Doe</rdf:li></rdf:Seq></dc:creator>' +
+        '<dc:rights><rdf:Alt><rdf:li xml:lang="x-default">CC BY 4.0</rdf:li></rdf:Alt></dc:rights>'
+      );
+
+      expect(parseXmp(xmp)).toEqual({
+        description: 'Boats & nets',
+        subjects: ['boats', 'sea <3'],
+        creator: 'Jane Doe',
+        rights: 'CC BY 4.0',
+      });
+    });
+
+    it('should return no fields for a packet without Dublin Core', () => {
+      expect(parseXmp(xmpPacket('<xmp:Rating>5</xmp:Rating>'))).toEqual({
+        description: undefined,
+        subjects: [],
+        creator: undefined,
+        rights: undefined,
+      });
+    });
+  });
+
+  describe('seedTagsFromKeywords', () => {
+    it('should fill only the empty tag slots, in order', () => {
+      expect(seedTagsFromKeywords(['Boats', 'Sunset'], { tag1: 'nature', tag2: null, tag3: '' })).toEqual({
+        tag1: 'nature',
+        tag2: 'boats',
+        tag3: 'sunset',
+      });
+    });
+
+    it('should leave existing tags untouched when every slot is taken', () => {
+      const tags = { tag1: 'nature', tag2: 'sea', tag3: 'boats' };
+      expect(seedTagsFromKeywords(['harbor'], tags)).toEqual(tags);
+    });
+
+    it('should skip keywords already used as tags, ignoring case', () => {
+      expect(seedTagsFromKeywords(['NATURE', 'nature', 'harbor'], { tag1: 'Nature' })).toEqual({
+        tag1: 'Nature',
+        tag2: 'harbor',
+        tag3: null,
+      });
+    });
+
+    it('should skip blank and oversized keywords', () => {
+      expect(seedTagsFromKeywords(['  ', 'x'.repeat(101), 'dusk'], {})).toEqual({
+        tag1: 'dusk',
+        tag2: null,
+        tag3: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Unit tests for responsive variant helpers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { getVariantWidths, buildVariantSrcSet, buildPictureSources } from '../../frontend/src/lib/image-variants';
+
+describe('Image variant helpers', () => {
+  describe('getVariantWidths', () => {
+    it('should include standard widths below the source plus the source width', () => {
+      expect(getVariantWidths(1000)).toEqual([320, 640, 1000]);
+    });
+
+    it('should not duplicate a source width that matches a standard width', () => {
+      expect(getVariantWidths(1280)).toEqual([320, 640, 1280]);
+    });
+
+    it('should cap at the largest standard width', () => {
+      expect(getVariantWidths(6000)).toEqual([320, 640, 1280, 2560]);
+    });
+
+    it('should return a single width for small or unknown sources', () => {
+      expect(getVariantWidths(200)).toEqual([200]);
+      expect(getVariantWidths(undefined)).toEqual([320]);
+    });
+  });
+
+  describe('buildVariantSrcSet', () => {
+    it('should build width descriptors for each variant', () => {
+      expect(buildVariantSrcSet('a3xK9m', 'webp', 700)).toBe(
+        '/api/images/a3xK9m/variants/webp/320 320w, /api/images/a3xK9m/variants/webp/640 640w, /api/images/a3xK9m/variants/webp/700 700w'
+      );
+    });
+  });
+
+  describe('buildPictureSources', () => {
+    it('should list AVIF before WebP', () => {
+      expect(buildPictureSources(1, 320).map((source) => source.type)).toEqual(['image/avif', 'image/webp']);
+    });
+  });
+});
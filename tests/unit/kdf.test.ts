@@ -0,0 +1,44 @@
+/**
+ * Unit tests for password hashing
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as crypto from 'crypto';
+import { hashPassword, verifyPassword, needsRehash } from '../../backend/lib/kdf';
+
+// Low cost keeps the tests fast
+const TEST_COST = 10;
+
+describe('Password hashing', () => {
+  it('should hash in the versioned scrypt format with a per-hash salt', async () => {
+    const first = await hashPassword('correct horse', TEST_COST);
+    const second = await hashPassword('correct horse', TEST_COST);
+
+    expect(first).toMatch(/^\$scrypt\$v=1\$ln=10,r=8,p=1\$[A-Za-z0-9+/]+\$[A-Za-z0-9+/]+$/);
+    expect(first).not.toBe(second);
+  });
+
+  it('should verify the right password only', async () => {
+    const hash = await hashPassword('correct horse', TEST_COST);
+
+    expect(await verifyPassword('correct horse', hash)).toBe(true);
+    expect(await verifyPassword('wrong horse', hash)).toBe(false);
+    expect(await verifyPassword('correct horse', null)).toBe(false);
+    expect(await verifyPassword('correct horse', '$scrypt$garbage')).toBe(false);
+  });
+
+  it('should verify legacy SHA-256 hashes and flag them for rehashing', async () => {
+    const legacy = crypto.createHash('sha256').update('correct horse').digest('hex');
+
+    expect(await verifyPassword('correct horse', legacy)).toBe(true);
+    expect(await verifyPassword('wrong horse', legacy)).toBe(false);
+    expect(needsRehash(legacy)).toBe(true);
+  });
+
+  it('should flag hashes below the configured cost', async () => {
+    const hash = await hashPassword('correct horse', TEST_COST);
+
+    expect(needsRehash(hash, TEST_COST)).toBe(false);
+    expect(needsRehash(hash, TEST_COST + 1)).toBe(true);
+  });
+});
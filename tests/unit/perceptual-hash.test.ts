@@ -0,0 +1,62 @@
+/**
+ * Unit tests for perceptual hash helpers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  computeDHash,
+  hammingDistance,
+  hashToBigint,
+  bigintToHash,
+  clusterByHash,
+} from '../../backend/lib/perceptual-hash';
+
+describe('Perceptual hash helpers', () => {
+  describe('computeDHash', () => {
+    it('should set a bit wherever a pixel is brighter than its right neighbour', () => {
+      // Every row decreasing left to right -> all 64 bits set
+      const decreasing = new Uint8Array(72).map((_, i) => 255 - (i % 9) * 10);
+      expect(computeDHash(decreasing)).toBe('ffffffffffffffff');
+
+      const flat = new Uint8Array(72).fill(128);
+      expect(computeDHash(flat)).toBe('0000000000000000');
+    });
+
+    it('should reject too few pixels', () => {
+      expect(() => computeDHash(new Uint8Array(10))).toThrow();
+    });
+  });
+
+  describe('hammingDistance', () => {
+    it('should count differing bits', () => {
+      expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+      expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4);
+      expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+    });
+  });
+
+  describe('BIGINT conversion', () => {
+    it('should round-trip hashes with the high bit set', () => {
+      expect(hashToBigint('ffffffffffffffff')).toBe('-1');
+      expect(bigintToHash('-1')).toBe('ffffffffffffffff');
+      expect(bigintToHash(hashToBigint('8000000000000001'))).toBe('8000000000000001');
+      expect(bigintToHash(hashToBigint('00ff00ff00ff00ff'))).toBe('00ff00ff00ff00ff');
+    });
+  });
+
+  describe('clusterByHash', () => {
+    it('should group hashes within the threshold and drop singletons', () => {
+      const clusters = clusterByHash([
+        { id: 1, hash: 'a5a5a5a5a5a5a5a5' },
+        { id: 7, hash: 'a5a5a5a5a5a5a5a4' }, // 1 bit from #1
+        { id: 3, hash: 'a5a5a5a5a5a5a5a7' }, // 1 bit from #1, 2 from #7
+        { id: 4, hash: '5a5a5a5a5a5a5a5a' }, // Unrelated
+      ], 2);
+      expect(clusters).toEqual([[1, 3, 7]]);
+    });
+
+    it('should reject thresholds the band index cannot guarantee', () => {
+      expect(() => clusterByHash([], 8)).toThrow();
+    });
+  });
+});
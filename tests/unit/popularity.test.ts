@@ -0,0 +1,141 @@
+/**
+ * Unit tests for popularity tracking and trending scores (database calls are mocked)
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+type QueryResult = { rowCount?: number; rows?: unknown[] };
+
+const mockQuery = jest.fn<(sql: string, values?: unknown[]) => Promise<QueryResult>>();
+const mockRelease = jest.fn();
+
+jest.mock('../../backend/lib/db', () => ({
+  getPool: () => ({
+    query: mockQuery,
+    connect: async () => ({ query: mockQuery, release: mockRelease }),
+  }),
+}));
+
+import {
+  recordImageEvent,
+  updateTrendingScores,
+  POPULARITY_SQL,
+  DOWNLOADS_SQL,
+  DOWNLOAD_WEIGHT,
+  TRENDING_HALF_LIFE_HOURS,
+  TRENDING_WINDOW_DAYS,
+} from '../../backend/lib/popularity';
+
+const executedSql = () => mockQuery.mock.calls.map(([sql]) => sql.replace(/\s+/g, ' ').trim());
+
+describe('Popularity', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockRelease.mockReset();
+    mockQuery.mockResolvedValue({ rowCount: 0, rows: [] });
+  });
+
+  describe('sort expressions', () => {
+    it('should weight downloads in the popularity score and treat missing counts as zero', () => {
+      expect(POPULARITY_SQL).toBe(`(COALESCE(view_count, 0) + ${DOWNLOAD_WEIGHT} * COALESCE(downloads, 0))`);
+    });
+
+    it('should sort downloads by the download count alone', () => {
+      expect(DOWNLOADS_SQL).toBe('(COALESCE(downloads, 0))');
+    });
+  });
+
+  describe('recordImageEvent', () => {
+    it('should bump the view counter and record the event', async () => {
+      const result = await recordImageEvent(7, 'view');
+
+      expect(result.success).toBe(true);
+      const [update, insert] = executedSql();
+      expect(update).toContain('view_count = COALESCE(view_count, 0) + 1');
+      expect(insert).toContain('INSERT INTO image_events');
+      expect(mockQuery.mock.calls[1][1]).toEqual([7, 'view']);
+    });
+
+    it('should bump the download counter for downloads', async () => {
+      await recordImageEvent(7, 'download');
+
+      expect(executedSql()[0]).toContain('downloads = COALESCE(downloads, 0) + 1');
+      expect(mockQuery.mock.calls[1][1]).toEqual([7, 'download']);
+    });
+
+    it('should still count when the events table does not exist yet', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rowCount: 1 })
+        .mockRejectedValueOnce(Object.assign(new Error('relation "image_events" does not exist'), { code: '42P01' }));
+
+      const result = await recordImageEvent(7, 'view');
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should report other database errors', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rowCount: 1 })
+        .mockRejectedValueOnce(Object.assign(new Error('connection lost'), { code: '08006' }));
+
+      const result = await recordImageEvent(7, 'view');
+
+      expect(result).toEqual({ success: false, error: 'connection lost' });
+    });
+
+    it('should reject invalid image IDs without querying', async () => {
+      const result = await recordImageEvent(0, 'view');
+
+      expect(result.success).toBe(false);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateTrendingScores', () => {
+    it('should score, reset and prune inside one transaction', async () => {
+      mockQuery
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rowCount: 12 }) // scores
+        .mockResolvedValueOnce({ rowCount: 3 }) // resets
+        .mockResolvedValueOnce({ rowCount: 40 }); // pruned events
+
+      const result = await updateTrendingScores();
+
+      expect(result).toEqual({ success: true, data: { scored: 12, reset: 3, pruned: 40 } });
+      const sql = executedSql();
+      expect(sql[0]).toBe('BEGIN');
+      expect(sql[sql.length - 1]).toBe('COMMIT');
+      expect(mockRelease).toHaveBeenCalledTimes(1);
+    });
+
+    it('should decay each event by the half-life and weight downloads', async () => {
+      await updateTrendingScores();
+
+      const scoring = executedSql()[1];
+      expect(scoring).toContain(`CASE WHEN event_type = 'download' THEN ${DOWNLOAD_WEIGHT} ELSE 1 END`);
+      expect(scoring).toContain(`POWER(0.5, EXTRACT(EPOCH FROM (NOW() - created_at)) / 3600 / ${TRENDING_HALF_LIFE_HOURS})`);
+      expect(scoring).toContain(`created_at >= NOW() - INTERVAL '${TRENDING_WINDOW_DAYS} days'`);
+    });
+
+    it('should only prune events older than the window', async () => {
+      await updateTrendingScores();
+
+      expect(executedSql()).toContain(
+        `DELETE FROM image_events WHERE created_at < NOW() - INTERVAL '${TRENDING_WINDOW_DAYS} days'`
+      );
+    });
+
+    it('should roll back and release the client when a step fails', async () => {
+      mockQuery
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockRejectedValueOnce(new Error('deadlock detected'));
+
+      const result = await updateTrendingScores();
+
+      expect(result).toEqual({ success: false, error: 'deadlock detected' });
+      expect(executedSql()).toContain('ROLLBACK');
+      expect(executedSql()).not.toContain('COMMIT');
+      expect(mockRelease).toHaveBeenCalledTimes(1);
+    });
+  });
+});
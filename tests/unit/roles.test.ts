@@ -0,0 +1,36 @@
+/**
+ * Unit tests for user roles
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { hasRole, isUserRole } from '../../backend/lib/roles';
+
+describe('Roles', () => {
+  describe('hasRole', () => {
+    it('should include the permissions of lower roles', () => {
+      expect(hasRole('admin', 'moderator')).toBe(true);
+      expect(hasRole('moderator', 'contributor')).toBe(true);
+      expect(hasRole('contributor', 'contributor')).toBe(true);
+      expect(hasRole('viewer', 'viewer')).toBe(true);
+    });
+
+    it('should not include the permissions of higher roles', () => {
+      expect(hasRole('viewer', 'contributor')).toBe(false);
+      expect(hasRole('contributor', 'moderator')).toBe(false);
+      expect(hasRole('moderator', 'admin')).toBe(false);
+    });
+
+    it('should treat unknown roles as viewer', () => {
+      expect(hasRole('superuser', 'contributor')).toBe(false);
+      expect(hasRole(undefined, 'viewer')).toBe(true);
+    });
+  });
+
+  describe('isUserRole', () => {
+    it('should accept only known roles', () => {
+      expect(isUserRole('moderator')).toBe(true);
+      expect(isUserRole('Moderator')).toBe(false);
+      expect(isUserRole(null)).toBe(false);
+    });
+  });
+});
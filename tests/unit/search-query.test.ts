@@ -0,0 +1,40 @@
+/**
+ * Unit tests for search query text helpers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { extractQueryWords, applyQueryCorrections, escapeLikePattern } from '../../backend/lib/search-query';
+
+describe('Search query helpers', () => {
+  describe('extractQueryWords', () => {
+    it('should skip OR, excluded words and excluded phrases', () => {
+      expect(extractQueryWords('"Red Car" OR archetecture -night -"blue sky" sunset')).toEqual([
+        'red',
+        'car',
+        'archetecture',
+        'sunset',
+      ]);
+    });
+  });
+
+  describe('applyQueryCorrections', () => {
+    const corrections = new Map([['archetecture', 'architecture'], ['sunst', 'sunset']]);
+
+    it('should correct misspelled words and keep quotes, OR and exclusions', () => {
+      expect(applyQueryCorrections('"archetecture sunst" OR city -archetecture', corrections)).toBe(
+        '"architecture sunset" OR city -archetecture'
+      );
+    });
+
+    it('should return null when nothing needs correcting', () => {
+      expect(applyQueryCorrections('architecture', new Map([['architecture', 'architecture']]))).toBeNull();
+      expect(applyQueryCorrections('mountain lake', corrections)).toBeNull();
+    });
+  });
+
+  describe('escapeLikePattern', () => {
+    it('should escape LIKE wildcards', () => {
+      expect(escapeLikePattern('100%_off\\')).toBe('100\\%\\_off\\\\');
+    });
+  });
+});
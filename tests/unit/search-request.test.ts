@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the search request parsing and response shape shared by the image list and search routes
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseSearchRequest, searchResponseBody } from '../../frontend/app/api/search-request';
+import { SearchResult } from '../../backend/lib/search';
+
+const parse = (query: string, defaultLimit: number = 20) => parseSearchRequest(new URLSearchParams(query), defaultLimit);
+
+const result = (overrides: Partial<SearchResult> = {}): SearchResult => ({
+  success: true,
+  data: [],
+  total: 42,
+  hasMore: true,
+  nextCursor: 'next-page',
+  ...overrides,
+});
+
+describe('Search request', () => {
+  describe('parseSearchRequest', () => {
+    it('should read every search and filter parameter', () => {
+      const { options, error } = parse(
+        'q=forest&category=nature&tags=trees,moss&colors=Green, teal&orientation=landscape&sort=popular&limit=12&cursor=abc&facets=true'
+      );
+
+      expect(error).toBeUndefined();
+      expect(options).toEqual({
+        query: 'forest',
+        category: 'nature',
+        tags: ['trees', 'moss'],
+        colors: ['green', 'teal'],
+        orientation: 'landscape',
+        sort: 'popular',
+        seed: undefined,
+        limit: 12,
+        offset: 0,
+        cursor: 'abc',
+        facets: true,
+      });
+    });
+
+    it('should accept query and search as aliases of q', () => {
+      expect(parse('query=lake').options?.query).toBe('lake');
+      expect(parse('search=lake').options?.query).toBe('lake');
+      expect(parse('q=sea&query=lake').options?.query).toBe('sea');
+    });
+
+    it('should apply defaults when parameters are missing', () => {
+      const { options } = parse('', 24);
+
+      expect(options).toMatchObject({
+        query: undefined,
+        category: undefined,
+        tags: undefined,
+        colors: undefined,
+        orientation: 'all',
+        sort: undefined,
+        limit: 24,
+        offset: 0,
+        cursor: undefined,
+        facets: false,
+      });
+    });
+
+    it('should keep the random sort seed and the legacy offset', () => {
+      expect(parse('sort=random&seed=s1&offset=40').options).toMatchObject({ sort: 'random', seed: 's1', offset: 40 });
+    });
+
+    it('should fall back to the default order for unknown sorts', () => {
+      expect(parse('sort=oldest').options?.sort).toBeUndefined();
+    });
+
+    it('should drop empty tags', () => {
+      expect(parse('tags=trees,,moss,').options?.tags).toEqual(['trees', 'moss']);
+    });
+
+    it('should reject unknown colors', () => {
+      const { options, error } = parse('colors=green,chartreuse');
+
+      expect(options).toBeUndefined();
+      expect(error).toContain('Unknown color "chartreuse"');
+    });
+
+    it('should reject invalid orientations', () => {
+      expect(parse('orientation=diagonal').error).toContain('Invalid orientation');
+    });
+  });
+
+  describe('searchResponseBody', () => {
+    it('should return results with pagination', () => {
+      const options = parse('limit=10&offset=20').options!;
+
+      expect(searchResponseBody(result(), options)).toEqual({
+        success: true,
+        data: [],
+        pagination: { total: 42, limit: 10, offset: 20, hasMore: true, nextCursor: 'next-page' },
+      });
+    });
+
+    it('should report offset 0 for cursor pages', () => {
+      const options = parse('limit=10&offset=20&cursor=abc').options!;
+
+      expect(searchResponseBody(result(), options).pagination.offset).toBe(0);
+    });
+
+    it('should include didYouMean, facets and seed only when present', () => {
+      const options = parse('q=forst&sort=random').options!;
+      const facets = {
+        category: {},
+        tag: [],
+        orientation: { landscape: 0, portrait: 0, square: 0 },
+        color: {},
+        date: { day: 0, week: 0, month: 0, year: 0 },
+      };
+
+      const full = searchResponseBody(result({ didYouMean: 'forest', facets, seed: 'abc' }), options);
+      expect(full).toMatchObject({ didYouMean: 'forest', facets, seed: 'abc' });
+
+      const plain = searchResponseBody(result({ nextCursor: undefined }), options);
+      expect(plain).not.toHaveProperty('didYouMean');
+      expect(plain).not.toHaveProperty('facets');
+      expect(plain).not.toHaveProperty('seed');
+      expect(plain.pagination.nextCursor).toBeNull();
+    });
+  });
+});
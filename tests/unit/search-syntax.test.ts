@@ -0,0 +1,47 @@
+/**
+ * Unit tests for the structured search syntax
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseSearchSyntax } from '../../backend/lib/search-syntax';
+
+describe('parseSearchSyntax', () => {
+  it('should split operators from full-text terms', () => {
+    const result = parseSearchSyntax(
+      'tag:nature orientation:portrait color:blue -people after:2025-01-01 "mountain lake"'
+    );
+
+    expect(result.error).toBeUndefined();
+    expect(result.parsed).toEqual({
+      text: '-people "mountain lake"',
+      filters: { tags: ['nature'], orientation: 'portrait', colors: ['blue'], createdAfter: '2025-01-01' },
+      operators: ['tag:nature', 'orientation:portrait', 'color:blue', 'after:2025-01-01'],
+    });
+  });
+
+  it('should accept quoted values and repeated tags', () => {
+    const result = parseSearchSyntax('Tag:"new york" tag:night CATEGORY:Travel skyline');
+
+    expect(result.parsed?.filters).toEqual({ tags: ['new york', 'night'], category: 'travel' });
+    expect(result.parsed?.text).toBe('skyline');
+  });
+
+  it('should leave colons inside quotes and non-operator words as text', () => {
+    expect(parseSearchSyntax('"ratio: wide" 16:9').parsed?.text).toBe('"ratio: wide" 16:9');
+  });
+
+  it('should suggest the closest operator for unknown ones', () => {
+    expect(parseSearchSyntax('tagg:nature').error).toMatch(/Unknown operator "tagg:"\. Did you mean "tag:"\?/);
+    expect(parseSearchSyntax('https://example.com').error).toMatch(/Unknown operator "https:"/);
+  });
+
+  it('should reject bad operator values', () => {
+    expect(parseSearchSyntax('orientation:diagonal').error).toMatch(/Invalid orientation "diagonal"/);
+    expect(parseSearchSyntax('color:mauve').error).toMatch(/Unknown color "mauve"/);
+    expect(parseSearchSyntax('after:2025-02-30').error).toMatch(/Invalid date "2025-02-30"/);
+    expect(parseSearchSyntax('tag:').error).toMatch(/needs a value/);
+    expect(parseSearchSyntax('-tag:people').error).toMatch(/can't be excluded/);
+    expect(parseSearchSyntax('category:travel category:food').error).toMatch(/Only one "category:"/);
+    expect(parseSearchSyntax('after:2025-06-01 before:2025-01-01').error).toMatch(/nothing can match/);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Unit tests for session expiry and token hashing
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { computeSessionExpiry, hashSessionToken } from '../../backend/lib/sessions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const config = { idleMs: 14 * DAY_MS, maxAgeMs: 90 * DAY_MS };
+
+describe('Sessions', () => {
+  describe('computeSessionExpiry', () => {
+    const createdAt = new Date('2025-01-01T00:00:00Z');
+
+    it('should expire after the idle period from the last use', () => {
+      const now = new Date('2025-01-10T12:00:00Z');
+
+      expect(computeSessionExpiry(createdAt, now, config)).toEqual(new Date('2025-01-24T12:00:00Z'));
+    });
+
+    it('should never extend past the maximum age', () => {
+      const now = new Date('2025-03-25T00:00:00Z');
+
+      expect(computeSessionExpiry(createdAt, now, config)).toEqual(new Date('2025-04-01T00:00:00Z'));
+    });
+  });
+
+  describe('hashSessionToken', () => {
+    it('should store a SHA-256 hex digest, never the token', () => {
+      const token = 'q5m0Zc1bYJ8sVtWw3X9kPz7oLr2NfGhD4EaUiC6yTxS';
+      const hash = hashSessionToken(token);
+
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(hash).not.toContain(token);
+      expect(hashSessionToken(token)).toBe(hash);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Unit tests for tag curation helpers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { findNearDuplicateTags, expandQueryVariants } from '../../backend/lib/tag-management';
+
+const tag = (slug: string, usageCount: number) => ({ slug, name: slug, usageCount });
+
+describe('Tag management helpers', () => {
+  describe('findNearDuplicateTags', () => {
+    it('should group spacing, plural and spelling variants with the most used tag as target', () => {
+      const suggestions = findNearDuplicateTags([
+        tag('cityscape', 40),
+        tag('city-scape', 3),
+        tag('mountains', 5),
+        tag('mountain', 20),
+        tag('architecure', 1),
+        tag('architecture', 30),
+        tag('urban', 12),
+      ]);
+
+      expect(suggestions.map(({ reason, target, tags }) => [reason, target, tags.map((t) => t.slug)])).toEqual([
+        ['spacing', 'cityscape', ['cityscape', 'city-scape']],
+        ['spelling', 'architecture', ['architecture', 'architecure']],
+        ['plural', 'mountain', ['mountain', 'mountains']],
+      ]);
+    });
+
+    it('should not suggest unrelated short tags', () => {
+      expect(findNearDuplicateTags([tag('cat', 1), tag('car', 1), tag('art', 1)])).toEqual([]);
+    });
+  });
+
+  describe('expandQueryVariants', () => {
+    it('should substitute synonyms one word at a time', () => {
+      const synonyms = new Map([['city', ['urban', 'City']]]);
+      expect(expandQueryVariants('city night', synonyms)).toEqual(['city night', 'urban night']);
+    });
+
+    it('should keep quotes and leave OR and exclusions alone', () => {
+      const synonyms = new Map([['city', ['urban']], ['night', ['evening']]]);
+      expect(expandQueryVariants('"city lights" OR -night', synonyms)).toEqual([
+        '"city lights" OR -night',
+        '"urban lights" OR -night',
+      ]);
+      expect(expandQueryVariants('-"night city" city', synonyms)).toEqual([
+        '-"night city" city',
+        '-"night city" urban',
+      ]);
+    });
+
+    it('should cap the number of variants', () => {
+      const synonyms = new Map([['a', ['b', 'c', 'd']]]);
+      expect(expandQueryVariants('a', synonyms, 2)).toEqual(['a', 'b']);
+    });
+  });
+});
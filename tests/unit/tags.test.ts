@@ -0,0 +1,60 @@
+/**
+ * Unit tests for normalized tag helpers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  MAX_TAGS_PER_IMAGE,
+  slugifyTag,
+  normalizeTags,
+  parseTagFilter,
+  buildTagCondition,
+} from '../../backend/lib/tags';
+
+describe('Tag helpers', () => {
+  describe('slugifyTag', () => {
+    it('should lowercase and dash-join words', () => {
+      expect(slugifyTag('Smart Home')).toBe('smart-home');
+      expect(slugifyTag('  Rock & Roll!! ')).toBe('rock-roll');
+      expect(slugifyTag('4K')).toBe('4k');
+      expect(slugifyTag('***')).toBe('');
+    });
+  });
+
+  describe('normalizeTags', () => {
+    it('should dedupe by slug, keep the first spelling and drop empty tags', () => {
+      expect(normalizeTags(['Nature', 'nature', '  ', null, 'Smart  Home', 'smart-home'])).toEqual([
+        { slug: 'nature', name: 'Nature' },
+        { slug: 'smart-home', name: 'Smart Home' },
+      ]);
+    });
+
+    it('should reject more tags than an image can hold', () => {
+      const tooMany = Array.from({ length: MAX_TAGS_PER_IMAGE + 1 }, (_, i) => `tag ${i}`);
+      expect(() => normalizeTags(tooMany)).toThrow();
+    });
+  });
+
+  describe('parseTagFilter', () => {
+    it('should split exact and prefix filters', () => {
+      expect(parseTagFilter(['Nature', 'nat*', 'art', '*'])).toEqual({
+        exact: ['nature', 'art'],
+        prefixes: ['nat'],
+      });
+    });
+  });
+
+  describe('buildTagCondition', () => {
+    it('should match exact slugs and prefixes through image_tags', () => {
+      const condition = buildTagCondition(['art', 'nat*'], 3);
+      expect(condition).not.toBeNull();
+      expect(condition!.sql).toContain('t.slug = ANY($3::text[])');
+      expect(condition!.sql).toContain('t.slug LIKE ANY($4::text[])');
+      expect(condition!.values).toEqual([['art'], ['nat%']]);
+    });
+
+    it('should return null without usable values', () => {
+      expect(buildTagCondition(['!!'], 1)).toBeNull();
+    });
+  });
+});
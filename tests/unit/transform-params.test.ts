@@ -0,0 +1,104 @@
+/**
+ * Unit tests for image transform parameter parsing and cache keys
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  parseTransformParams,
+  buildTransformKey,
+  TRANSFORM_PRESETS,
+  DOWNLOAD_PRESETS,
+} from '../../backend/lib/transform-params';
+
+const parse = (query: string) => parseTransformParams(new URLSearchParams(query));
+
+describe('Transform parameters', () => {
+  describe('parseTransformParams', () => {
+    it('should resolve a preset to its dimensions', () => {
+      const result = parse('preset=16x9');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.params).toMatchObject({ width: 1920, height: 1080, fit: 'cover', format: 'original' });
+      }
+    });
+
+    it('should scale a preset to an allowed width, keeping its aspect ratio', () => {
+      const landscape = parse('preset=16x9&w=640');
+      const portrait = parse('preset=9x16&w=96');
+      expect(landscape.success && landscape.params).toMatchObject({ width: 640, height: 360, fit: 'cover' });
+      expect(portrait.success && portrait.params).toMatchObject({ width: 96, height: 171, fit: 'cover' });
+    });
+
+    it('should fit inside the width when no preset is given', () => {
+      const result = parse('w=480');
+      expect(result.success && result.params).toMatchObject({ width: 480, fit: 'inside' });
+      if (result.success) {
+        expect(result.params.height).toBeUndefined();
+      }
+    });
+
+    it('should always render from the display image', () => {
+      const result = parse('preset=16x9');
+      expect(result.success && result.params.source).toBe('display');
+    });
+
+    it('should accept format, q and crop from the allowed sets', () => {
+      const result = parse('preset=square&w=320&format=jpg&q=70&crop=entropy');
+      expect(result.success && result.params).toMatchObject({ format: 'jpeg', quality: 70, crop: 'entropy' });
+    });
+
+    it('should reject unknown presets', () => {
+      const result = parse('preset=banner');
+      expect(result).toMatchObject({ success: false });
+      expect((result as { error: string }).error).toContain('Unknown preset');
+    });
+
+    it('should reject widths outside the allowed list', () => {
+      for (const width of ['0', '100', '4096', '5000', '640.5', 'abc', '-320']) {
+        expect(parse(`w=${width}`).success).toBe(false);
+      }
+    });
+
+    it('should reject qualities outside the allowed list', () => {
+      for (const quality of ['0', '71', '100', 'high']) {
+        expect(parse(`w=640&q=${quality}`).success).toBe(false);
+      }
+    });
+
+    it('should reject h and fit', () => {
+      expect(parse('w=640&h=480').success).toBe(false);
+      expect(parse('preset=16x9&fit=fill').success).toBe(false);
+    });
+
+    it('should reject invalid formats and crops', () => {
+      expect(parse('w=640&format=gif').success).toBe(false);
+      expect(parse('w=640&crop=top').success).toBe(false);
+    });
+
+    it('should require a width or a preset', () => {
+      expect(parse('').success).toBe(false);
+      expect(parse('format=webp').success).toBe(false);
+    });
+  });
+
+  describe('buildTransformKey', () => {
+    it('should give equivalent requests the same key', () => {
+      const preset = parse('preset=16x9');
+      const presetAtFullWidth = parse('preset=16x9&w=1920');
+      expect(preset.success && presetAtFullWidth.success).toBe(true);
+      if (preset.success && presetAtFullWidth.success) {
+        expect(buildTransformKey(preset.params)).toBe(buildTransformKey(presetAtFullWidth.params));
+      }
+    });
+
+    it('should list every parameter with defaults filled in', () => {
+      expect(buildTransformKey({ width: 640, fit: 'inside', format: 'webp' }))
+        .toBe('src=display&w=640&h=&fit=inside&format=webp&q=&crop=auto');
+    });
+
+    it('should keep download and public derivatives apart', () => {
+      expect(buildTransformKey(DOWNLOAD_PRESETS['16x9'])).not.toBe(buildTransformKey(TRANSFORM_PRESETS['16x9']));
+      expect(buildTransformKey(DOWNLOAD_PRESETS['16x9'])).toContain('src=original');
+    });
+  });
+});
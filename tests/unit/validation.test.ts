@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from '@jest/globals';
-import { validateString, validateId, validateCategory } from '../../backend/lib/validation';
+import { validateString, validateId, validateCategory, validateFocalPoint, validateOrientation, validateEmail, validateNewPassword } from '../../backend/lib/validation';
 
 describe('Validation functions', () => {
   describe('validateString', () => {
@@ -48,4 +48,68 @@ describe('Validation functions', () => {
       expect(() => validateCategory('invalid')).toThrow();
     });
   });
+
+  describe('validateFocalPoint', () => {
+    it('should validate points inside the unit square', () => {
+      expect(validateFocalPoint({ x: 0.5, y: 0.25 })).toEqual({ x: 0.5, y: 0.25 });
+      expect(validateFocalPoint({ x: 0, y: 1 })).toEqual({ x: 0, y: 1 });
+    });
+
+    it('should throw error for out-of-range or missing coordinates', () => {
+      expect(() => validateFocalPoint({ x: 1.2, y: 0.5 })).toThrow();
+      expect(() => validateFocalPoint({ x: '0.5', y: 0.5 })).toThrow();
+      expect(() => validateFocalPoint(null)).toThrow();
+    });
+  });
+
+  describe('validateOrientation', () => {
+    it('should accept known orientations case-insensitively', () => {
+      expect(validateOrientation('landscape')).toBe('landscape');
+      expect(validateOrientation('Square')).toBe('square');
+    });
+
+    it('should default to all when missing', () => {
+      expect(validateOrientation(null)).toBe('all');
+      expect(validateOrientation('')).toBe('all');
+    });
+
+    it('should throw error for unknown orientations', () => {
+      expect(() => validateOrientation('diagonal')).toThrow();
+    });
+  });
+
+  describe('validateEmail', () => {
+    it('should trim and lowercase valid emails', () => {
+      expect(validateEmail('  Jane.Doe@Example.com ')).toBe('jane.doe@example.com');
+      expect(validateEmail('a+tag@mail.co.uk')).toBe('a+tag@mail.co.uk');
+    });
+
+    it('should throw error for malformed emails', () => {
+      expect(() => validateEmail('jane')).toThrow('Invalid email address');
+      expect(() => validateEmail('jane@localhost')).toThrow('Invalid email address');
+      expect(() => validateEmail('jane doe@example.com')).toThrow('Invalid email address');
+      expect(() => validateEmail('jane@@example.com')).toThrow('Invalid email address');
+      expect(() => validateEmail('jane@example..com')).toThrow('Invalid email address');
+    });
+  });
+
+  describe('validateNewPassword', () => {
+    it('should accept passwords that follow the rules', () => {
+      expect(validateNewPassword('correct horse 42', 'jane@example.com')).toBe('correct horse 42');
+    });
+
+    it('should enforce length limits', () => {
+      expect(() => validateNewPassword('abc123')).toThrow('at least 8');
+      expect(() => validateNewPassword('a1'.repeat(65))).toThrow('at most 128');
+    });
+
+    it('should require a letter and a number', () => {
+      expect(() => validateNewPassword('onlyletters')).toThrow('letter and one number');
+      expect(() => validateNewPassword('1234567890')).toThrow('letter and one number');
+    });
+
+    it('should reject passwords containing the email name', () => {
+      expect(() => validateNewPassword('JaneDoe2024', 'janedoe@example.com')).toThrow('email');
+    });
+  });
 });
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for visual similarity features
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  HISTOGRAM_BINS,
+  buildColorHistogram,
+  histogramDistance,
+  visualDistance,
+  maxHashDistance,
+  rankBySimilarity,
+} from '../../backend/lib/visual-features';
+
+const solid = (r: number, g: number, b: number, count: number = 16) =>
+  new Uint8Array(count * 3).map((_, i) => [r, g, b][i % 3]);
+
+describe('Visual features', () => {
+  describe('buildColorHistogram', () => {
+    it('should produce a normalized histogram', () => {
+      const histogram = buildColorHistogram(solid(255, 0, 0), 3);
+      expect(histogram).toHaveLength(HISTOGRAM_BINS);
+      expect(histogram.reduce((sum, value) => sum + value, 0)).toBeCloseTo(1);
+      expect(Math.max(...histogram)).toBe(1);
+    });
+
+    it('should ignore transparent pixels', () => {
+      const pixels = new Uint8Array([255, 0, 0, 255, 0, 0, 255, 0]);
+      const histogram = buildColorHistogram(pixels, 4);
+      expect(histogram.filter((value) => value > 0)).toEqual([1]);
+
+      expect(buildColorHistogram(new Uint8Array([0, 0, 0, 0]), 4).every((value) => value === 0)).toBe(true);
+    });
+  });
+
+  describe('histogramDistance', () => {
+    it('should be 0 for identical colors and 1 for disjoint colors', () => {
+      const red = buildColorHistogram(solid(255, 0, 0), 3);
+      const blue = buildColorHistogram(solid(0, 0, 255), 3);
+      expect(histogramDistance(red, red)).toBe(0);
+      expect(histogramDistance(red, blue)).toBe(1);
+    });
+  });
+
+  describe('visualDistance', () => {
+    it('should blend hash and histogram distances', () => {
+      const red = buildColorHistogram(solid(255, 0, 0), 3);
+      const blue = buildColorHistogram(solid(0, 0, 255), 3);
+      const a = { phash: '0000000000000000', histogram: red };
+
+      expect(visualDistance(a, a)).toBe(0);
+      expect(visualDistance(a, { phash: 'ffffffffffffffff', histogram: blue })).toBeCloseTo(1);
+      // Same structure, different colors -> only the histogram share counts
+      expect(visualDistance(a, { phash: '0000000000000000', histogram: blue })).toBeCloseTo(0.4);
+    });
+
+    it('should fall back to the hash when a histogram is missing', () => {
+      const a = { phash: '0000000000000000', histogram: null };
+      const b = { phash: '00000000000000ff', histogram: [1] };
+      expect(visualDistance(a, b)).toBeCloseTo(8 / 64);
+    });
+  });
+
+  describe('maxHashDistance', () => {
+    it('should allow every hash without a distance bound', () => {
+      expect(maxHashDistance()).toBe(64);
+    });
+
+    it('should keep every hash that could be within the bound', () => {
+      const bits = maxHashDistance(0.15);
+      expect(bits).toBe(16);
+
+      const target = { phash: '0000000000000000', histogram: [1] };
+      // 16 differing bits with identical colors is just inside 0.15, 17 is outside
+      expect(visualDistance(target, { phash: '000000000000ffff', histogram: [1] })).toBeLessThanOrEqual(0.15);
+      expect(visualDistance(target, { phash: '000000000001ffff', histogram: [1] })).toBeGreaterThan(0.15);
+    });
+  });
+
+  describe('rankBySimilarity', () => {
+    it('should return the closest candidates first, within the limit', () => {
+      const target = { phash: '0000000000000000', histogram: null };
+      const candidates = [
+        { id: 1, phash: '00000000000000ff', histogram: null },
+        { id: 2, phash: '0000000000000001', histogram: null },
+        { id: 3, phash: 'ffffffffffffffff', histogram: null },
+      ];
+
+      const ranked = rankBySimilarity(target, candidates, 2);
+      expect(ranked.map((candidate) => candidate.id)).toEqual([2, 1]);
+      expect(ranked[0].distance).toBeCloseTo(1 / 64);
+
+      expect(rankBySimilarity(target, candidates, 10, 0.5).map((candidate) => candidate.id)).toEqual([2, 1]);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for finding visually similar images (database calls are mocked)
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+type QueryResult = { rows: any[] };
+
+const mockQuery = jest.fn<(sql: string, values?: unknown[]) => Promise<QueryResult>>();
+
+jest.mock('../../backend/lib/db', () => ({
+  getPool: () => ({ query: mockQuery }),
+}));
+
+jest.mock('../../backend/lib/tags', () => ({
+  resolveImageTags: async () => new Map([[2, ['sea']]]),
+}));
+
+jest.mock('../../backend/lib/categories', () => ({
+  resolveImageCategories: async () => new Map([[2, 'nature']]),
+}));
+
+import { findVisuallySimilarImages } from '../../backend/lib/visual-search';
+import { hashToBigint } from '../../backend/lib/perceptual-hash';
+
+const target = { phash: '0000000000000000', histogram: null };
+
+const row = (id: number, phash: string) => ({
+  id,
+  description: `Image ${id}`,
+  status: 'approved',
+  image_width: 800,
+  image_height: 600,
+  blurhash: null,
+  phash: hashToBigint(phash),
+  color_histogram: null,
+});
+
+describe('Visual search', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockResolvedValue({ rows: [] });
+  });
+
+  it('should pre-filter and limit candidates by hash distance in the database', async () => {
+    await findVisuallySimilarImages(target, { excludeId: 7, limit: 5 });
+
+    const [sql, values] = mockQuery.mock.calls[0];
+    expect(sql).toContain('bit_count((phash # $1::bigint)::bit(64)) <= $3');
+    expect(sql).toContain("status = 'approved'");
+    expect(sql).toMatch(/LIMIT \$4$/);
+    expect(values).toEqual([hashToBigint(target.phash), 7, 24, 50]);
+  });
+
+  it('should tighten the hash bound for a small maxDistance', async () => {
+    await findVisuallySimilarImages(target, { maxDistance: 0.15 });
+
+    expect(mockQuery.mock.calls[0][1]?.[2]).toBe(16);
+  });
+
+  it('should return ranked images in the gallery shape with their distance', async () => {
+    mockQuery.mockResolvedValue({ rows: [row(3, '00000000000000ff'), row(2, '0000000000000001')] });
+
+    const result = await findVisuallySimilarImages(target, { limit: 1 });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toHaveLength(1);
+    expect(result.data[0]).toMatchObject({
+      id: 2,
+      title: 'Image 2',
+      category: 'nature',
+      tags: ['sea'],
+      thumbnailUrl: expect.stringContaining('/thumbnail'),
+      distance: 0.0156,
+    });
+  });
+
+  it('should return no results before the visual feature columns exist', async () => {
+    mockQuery.mockRejectedValue(Object.assign(new Error('column "phash" does not exist'), { code: '42703' }));
+
+    expect(await findVisuallySimilarImages(target)).toEqual({ success: true, data: [] });
+  });
+});